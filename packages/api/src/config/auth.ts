@@ -0,0 +1,17 @@
+const DEV_SECRET = 'stellarburn_dev_secret';
+
+// Anyone who knows the secret can sign tokens, so only development may fall back to the published one
+const readSecret = (...names: string[]): string => {
+  const value = names.map(name => process.env[name]).find(Boolean);
+  if (value) return value;
+  if (process.env.NODE_ENV === 'development') return DEV_SECRET;
+  throw new Error(`${names.join(' or ')} must be set when NODE_ENV is not development`);
+};
+
+// Authentication configuration
+export const AUTH_CONFIG = {
+  tokenSecret: readSecret('AUTH_TOKEN_SECRET'),
+  tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL || '86400'), // 24 hours
+  chartSecret: readSecret('CHART_SIGNING_SECRET', 'AUTH_TOKEN_SECRET'), // Signs exported star charts
+  minPasswordLength: 6
+} as const;
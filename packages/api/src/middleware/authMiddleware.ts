@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyToken } from '../services/authService.js';
+
+// Extract a bearer token from the Authorization header
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Validate a token and expose its player on res.locals.auth
+const authenticate = (token: string | null, res: Response, next: NextFunction) => {
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required. Log in to get an API token.' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid or expired token. Please log in again.' });
+  }
+
+  res.locals.auth = { playerId: payload.sub, name: payload.name };
+  next();
+};
+
+// Require a valid session token from the Authorization header
+export const requireAuth = (req: Request, res: Response, next: NextFunction) =>
+  authenticate(getBearerToken(req), res, next);
+
+// Like requireAuth, but also accepts ?token= for clients that cannot set headers (EventSource)
+export const requireStreamAuth = (req: Request, res: Response, next: NextFunction) => {
+  const queryToken = typeof req.query.token === 'string' ? req.query.token : null;
+  authenticate(getBearerToken(req) || queryToken, res, next);
+};
+
+// Ensure the authenticated player matches the given player ID
+export const requirePlayerMatch = (playerId: string | undefined) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (playerId !== res.locals.auth?.playerId) {
+      return res.status(403).json({ error: 'Token does not grant access to this player' });
+    }
+    next();
+  };
+
+// Router.param handler binding the :playerId path param to the caller's token
+export const authorizePlayerParam = (req: Request, res: Response, next: NextFunction, playerId: string) => {
+  requireAuth(req, res, () => requirePlayerMatch(playerId)(req, res, next));
+};
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { GameEvent, GameEventType, EventSubscription, GAME_EVENT_TYPES } from '@stellarburn/shared';
+import { subscribeToEvents } from '../services/eventService.js';
+import { requireStreamAuth } from '../middleware/authMiddleware.js';
+
+const SYSTEM_COORDINATE_PATTERN = /^-?\d+,-?\d+,-?\d+$/;
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Accept repeated query params (?systems=a&systems=b) or a ;-separated list
+const parseListParam = (value: unknown, separator: string): string[] => {
+  const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+  return values
+    .flatMap(v => String(v).split(separator))
+    .map(v => v.trim())
+    .filter(v => v.length > 0);
+};
+
+export function createEventRoutes() {
+  const router = Router();
+
+  // Server-sent event stream, subscribed by player and/or system coordinates
+  // GET /api/events/stream?playerId=...&systems=1,2,3;4,5,6&types=probe.moved,station.trade
+  router.get('/stream', requireStreamAuth, (req, res) => {
+    const authPlayerId: string = res.locals.auth.playerId;
+    const playerId = typeof req.query.playerId === 'string' ? req.query.playerId : authPlayerId;
+
+    if (playerId !== authPlayerId) {
+      return res.status(403).json({ error: 'Token does not grant access to this player' });
+    }
+
+    const systems = parseListParam(req.query.systems, ';');
+    const invalidSystem = systems.find(system => !SYSTEM_COORDINATE_PATTERN.test(system));
+    if (invalidSystem) {
+      return res.status(400).json({ error: `Invalid system coordinates: ${invalidSystem}. Use "x,y,z".` });
+    }
+
+    const types = parseListParam(req.query.types, ',');
+    const invalidType = types.find(type => !GAME_EVENT_TYPES.includes(type as GameEventType));
+    if (invalidType) {
+      return res.status(400).json({ error: `Unknown event type: ${invalidType}. Valid types: ${GAME_EVENT_TYPES.join(', ')}` });
+    }
+
+    const subscription: EventSubscription = {
+      playerId,
+      systems,
+      types: types as GameEventType[]
+    };
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (eventName: string, data: unknown, id?: string) => {
+      if (id) res.write(`id: ${id}\n`);
+      res.write(`event: ${eventName}\n`);
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('ready', { subscription });
+
+    const unsubscribe = subscribeToEvents(subscription, (event: GameEvent) => {
+      send(event.type, event, event.id);
+    });
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+}
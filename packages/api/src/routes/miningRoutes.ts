@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { startMining, getMiningStatus, cancelMining } from '../services/miningService.js';
+import { authorizePlayerParam } from '../middleware/authMiddleware.js';
 
 // Helper function to calculate distance between two coordinates
 function calculateDistance(coord1: any, coord2: any): number {
@@ -13,6 +14,9 @@ function calculateDistance(coord1: any, coord2: any): number {
 export function createMiningRoutes(): Router {
   const router = Router();
 
+  // Every /:playerId route requires a token issued to that player
+  router.param('playerId', authorizePlayerParam);
+
   // Auto-mine nearest asteroid (similar to auto-dock)
   router.post('/mine/:playerId', async (req, res) => {
     try {
@@ -25,6 +29,13 @@ export function createMiningRoutes(): Router {
         });
       }
 
+      if (playerId !== res.locals.auth.playerId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Token does not grant access to this player'
+        });
+      }
+
       // Find the nearest asteroid to the player
       const { performLocalScan } = await import('../services/scanningService.js');
       const { getMongo } = await import('../services/databaseService.js');
@@ -84,18 +95,10 @@ export function createMiningRoutes(): Router {
     }
   });
 
-  // Start mining a specific asteroid
-  router.post('/mine/:asteroidId', async (req, res) => {
+  // Start mining a specific asteroid; the player comes from the route, checked against the token
+  router.post('/mine/:playerId/:asteroidId', async (req, res) => {
     try {
-      const { asteroidId } = req.params;
-      const { playerId } = req.body;
-
-      if (!playerId) {
-        return res.status(400).json({
-          success: false,
-          message: 'Player ID is required'
-        });
-      }
+      const { playerId, asteroidId } = req.params;
 
       if (!asteroidId) {
         return res.status(400).json({
@@ -133,11 +136,11 @@ export function createMiningRoutes(): Router {
         });
       }
 
-      const miningStatus = getMiningStatus(playerId);
+      const miningStatus = await getMiningStatus(playerId);
 
       if (miningStatus) {
         const now = new Date();
-        const timeRemaining = Math.max(0, Math.ceil((miningStatus.expectedEndTime.getTime() - now.getTime()) / 1000));
+        const timeRemaining = Math.max(0, Math.ceil((new Date(miningStatus.expectedEndTime).getTime() - now.getTime()) / 1000));
 
         res.status(200).json({
           success: true,
@@ -176,7 +179,7 @@ export function createMiningRoutes(): Router {
         });
       }
 
-      const cancelled = cancelMining(playerId);
+      const cancelled = await cancelMining(playerId);
 
       if (cancelled) {
         res.status(200).json({
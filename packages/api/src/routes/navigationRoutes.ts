@@ -1,25 +1,83 @@
 import { Router } from 'express';
-import { getDirectionVector } from '@stellarburn/shared';
+import { PlotObjective, getDirectionVector, getShipStats } from '@stellarburn/shared';
 import { coordinateToString } from '@stellarburn/shared';
 import { getMongo } from '../services/databaseService.js';
 import { performSystemScan } from '../services/scanningService.js';
-import { movePlayer, jumpPlayer } from '../services/movementService.js';
-import { plotCourse, getNextStep, checkCollision } from '../services/navigationService.js';
+import { movePlayer, jumpPlayer, traverseWormhole } from '../services/movementService.js';
+import { plotCourse, getNextStep, checkCollision, PLOT_OBJECTIVES } from '../services/navigationService.js';
+import { resolveLocation } from '../services/bookmarkService.js';
+import { startAutopilot, getAutopilot, pauseAutopilot, resumeAutopilot, cancelAutopilot, isInTransit, IN_TRANSIT_ERROR } from '../services/autopilotService.js';
+import { planTradeRoutes, flyTradeRoute, TradeRouteOptions, TRADE_ROUTE_SORTS, MAX_ROUTE_STOPS } from '../services/tradeRouteService.js';
+import { authorizePlayerParam } from '../middleware/authMiddleware.js';
+
+// Trade route options from a query string or body; throws on anything out of range
+const parseTradeRouteOptions = (source: any): TradeRouteOptions => {
+  const number = (name: string, min: number, max = Infinity) => {
+    if (source[name] === undefined) return undefined;
+    const value = Number(source[name]);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${name} must be a whole number${max === Infinity ? ` of at least ${min}` : ` from ${min} to ${max}`}`);
+    }
+    return value;
+  };
+
+  const { sort, objective } = source;
+  if (sort !== undefined && !TRADE_ROUTE_SORTS.includes(sort)) {
+    throw new Error(`sort must be one of: ${TRADE_ROUTE_SORTS.join(', ')}`);
+  }
+  if (objective !== undefined && !PLOT_OBJECTIVES.includes(objective)) {
+    throw new Error(`Objective must be one of: ${PLOT_OBJECTIVES.join(', ')}`);
+  }
+
+  return {
+    sort,
+    objective,
+    maxStops: number('maxStops', 2, MAX_ROUTE_STOPS),
+    fuelBudget: number('fuelBudget', 0),
+    cargoBudget: number('cargoBudget', 1),
+    limit: number('limit', 1, 20)
+  };
+};
 
 export function createNavigationRoutes() {
   const router = Router();
 
+  // Every /:playerId route requires a token issued to that player
+  router.param('playerId', authorizePlayerParam);
+
   // Plot course endpoint
   router.get('/plot/:playerId/:from/:to', async (req, res) => {
     try {
-      const { from, to } = req.params;
+      const { playerId, from, to } = req.params;
+      const objective = (req.query.objective as PlotObjective | undefined) ?? 'fuel';
+      if (!PLOT_OBJECTIVES.includes(objective)) {
+        return res.status(400).json({ success: false, error: `Objective must be one of: ${PLOT_OBJECTIVES.join(', ')}` });
+      }
+
       const db = getMongo('stellarburn');
-      const path = await plotCourse(db, from, to);
-      
+      const player = await db.collection('players').findOne({ id: playerId });
+
+      // Courses are held to the fuel in the tank unless a budget is given
+      const fuelBudget = req.query.fuelBudget !== undefined ? Number(req.query.fuelBudget) : player?.ship.fuel;
+      if (fuelBudget !== undefined && !(fuelBudget >= 0)) {
+        return res.status(400).json({ success: false, error: 'fuelBudget must be a non-negative number' });
+      }
+
+      // Either end may be a bookmark name
+      const fromCoords = coordinateToString(await resolveLocation(db, playerId, from));
+      const toCoords = coordinateToString(await resolveLocation(db, playerId, to));
+
+      const path = await plotCourse(db, fromCoords, toCoords, {
+        ship: player ? getShipStats(player.ship) : undefined,
+        objective,
+        fuelBudget,
+        knownSystems: player?.knownSystems
+      });
+
       res.json({
         success: true,
-        from,
-        to,
+        from: fromCoords,
+        to: toCoords,
         path
       });
     } catch (error) {
@@ -31,12 +89,98 @@ export function createNavigationRoutes() {
     }
   });
 
-  // Autopilot endpoint - now using the modernized service
+  // Server-side autopilot: plot a course and let the game tick fly it
+  router.post('/autopilot/:playerId/start', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { destination, objective = 'fuel' } = req.body;
+
+      if (typeof destination !== 'string') {
+        return res.status(400).json({ success: false, error: 'destination must be an "x,y,z" string' });
+      }
+      if (!PLOT_OBJECTIVES.includes(objective)) {
+        return res.status(400).json({ success: false, error: `Objective must be one of: ${PLOT_OBJECTIVES.join(', ')}` });
+      }
+
+      const job = await startAutopilot(getMongo('stellarburn'), playerId, destination, objective);
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error('Autopilot start error:', error);
+      res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Failed to start autopilot' });
+    }
+  });
+
+  // Progress of the player's latest autopilot job; subscribe to autopilot.progress events to follow it live
+  router.get('/autopilot/:playerId', async (req, res) => {
+    try {
+      const job = await getAutopilot(getMongo('stellarburn'), req.params.playerId);
+      if (!job) {
+        return res.status(404).json({ success: false, error: 'No autopilot jobs' });
+      }
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error('Autopilot status error:', error);
+      res.status(500).json({ success: false, error: 'Failed to get autopilot status' });
+    }
+  });
+
+  const jobActions = { pause: pauseAutopilot, resume: resumeAutopilot, cancel: cancelAutopilot };
+  router.post('/autopilot/:playerId/:action(pause|resume|cancel)', async (req, res) => {
+    try {
+      const { playerId, action } = req.params;
+      const job = await jobActions[action as keyof typeof jobActions](getMongo('stellarburn'), playerId);
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error('Autopilot action error:', error);
+      res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Autopilot action failed' });
+    }
+  });
+
+  // Trade routes between stations the player has seen, from last-seen prices
+  router.get('/trade-routes/:playerId', async (req, res) => {
+    let options: TradeRouteOptions;
+    try {
+      options = parseTradeRouteOptions(req.query);
+    } catch (error) {
+      return res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Invalid options' });
+    }
+
+    try {
+      const result = await planTradeRoutes(getMongo('stellarburn'), req.params.playerId, options);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Trade routes error:', error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to plan trade routes' });
+    }
+  });
+
+  // Hand a planned trade route to the autopilot, which flies to its next stop
+  // POST /api/navigation/trade-routes/:playerId/autopilot { rank, sort?, maxStops?, fuelBudget?, cargoBudget?, objective? }
+  router.post('/trade-routes/:playerId/autopilot', async (req, res) => {
+    try {
+      const { rank = 1, ...rest } = req.body;
+      if (!Number.isInteger(rank) || rank < 1) {
+        return res.status(400).json({ success: false, error: 'rank must be a whole number of at least 1' });
+      }
+
+      const result = await flyTradeRoute(getMongo('stellarburn'), req.params.playerId, rank, parseTradeRouteOptions(rest));
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Trade route autopilot error:', error);
+      res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Failed to start trade route' });
+    }
+  });
+
+  // Single-step autopilot: the client holds the path and calls once per step
   router.post('/autopilot/:playerId', async (req, res) => {
     try {
       const { playerId } = req.params;
       const { path } = req.body;
 
+      if (await isInTransit(getMongo('stellarburn'), playerId)) {
+        return res.status(409).json({ success: false, error: IN_TRANSIT_ERROR });
+      }
+
       if (!path || !Array.isArray(path) || path.length === 0) {
         return res.json({
           success: true,
@@ -59,7 +203,8 @@ export function createNavigationRoutes() {
 
       let directionVector;
       try {
-        directionVector = getDirectionVector(step.direction);
+        // Wormhole steps have no direction to resolve
+        directionVector = step.type === 'wormhole' ? { x: 0, y: 0, z: 0 } : getDirectionVector(step.direction);
       } catch (error) {
         return res.status(400).json({
           success: false,
@@ -107,6 +252,8 @@ export function createNavigationRoutes() {
             completed: false
           });
         }
+      } else if (step.type === 'wormhole') {
+        result = await traverseWormhole(db, playerId);
       } else {
         return res.status(400).json({
           success: false,
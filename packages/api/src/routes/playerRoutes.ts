@@ -1,13 +1,19 @@
 import { Router } from 'express';
 import { getMongo } from '../services/databaseService.js';
 import { getServices } from '../services/serviceFactory.js';
-import { getItemById } from '@stellarburn/shared';
+import { getItemById, getShipStats, STARTER_HULL_ID } from '@stellarburn/shared';
 import { DIRECTIONS, getDirectionVector, coordinateToString, createDistanceCalculator, addDistanceToObject } from '@stellarburn/shared';
 import { performLocalScan, performSystemScan } from '../services/scanningService.js';
 import { getKnownSystems } from '../services/explorationService.js';
 import { findNearestStation, findNearestPlanet, findNearestStar, findNearestPlayer, findNearestProbe } from '../services/nearestService.js';
-import { movePlayer, jumpPlayer } from '../services/movementService.js';
-import { launchProbe, getActiveProbes, getAllProbes } from '../services/probeService.js';
+import { movePlayer, jumpPlayer, traverseWormhole } from '../services/movementService.js';
+import { isInTransit, IN_TRANSIT_ERROR } from '../services/autopilotService.js';
+import { listBookmarks, getBookmark, createBookmark, updateBookmark, deleteBookmark, recordDock } from '../services/bookmarkService.js';
+import { findStationById } from '../services/stationService.js';
+import { exportChart, importChart, listCharts, getChartFile, offerChart, acceptChartOffer, declineChartOffer } from '../services/chartService.js';
+import { launchProbe, recallProbe, getActiveProbes, getAllProbes } from '../services/probeService.js';
+import { createAccount, issueSession, login } from '../services/authService.js';
+import { authorizePlayerParam } from '../middleware/authMiddleware.js';
 
 // Use shared utilities for distance calculations
 const calculateDistance3D = createDistanceCalculator;
@@ -28,16 +34,26 @@ const sortByDistance = (items: any[]) => items.sort((a, b) => a.distance - b.dis
 export function createPlayerRoutes() {
   const router = Router();
 
+  // Every /:playerId route requires a token issued to that player
+  router.param('playerId', authorizePlayerParam);
 
-  // Player creation
+  // Player creation (registration)
   router.post('/create', async (req, res) => {
     try {
       const db = getMongo('stellarburn');
-      const { name } = req.body;
+      const { name, password, isNPC } = req.body;
       
       if (!name || name.length < 2) {
         return res.status(400).json({ error: 'Player name must be at least 2 characters' });
       }
+
+      if (password !== undefined && typeof password !== 'string') {
+        return res.status(400).json({ error: 'Password must be a string' });
+      }
+
+      if (isNPC !== undefined && typeof isNPC !== 'boolean') {
+        return res.status(400).json({ error: 'isNPC must be a boolean' });
+      }
       
       const existingPlayer = await db.collection('players').findOne({ name });
       if (existingPlayer) {
@@ -51,35 +67,54 @@ export function createPlayerRoutes() {
         z: 0.1
       };
       
+      const starterShip = getShipStats({ hullId: STARTER_HULL_ID });
       const newPlayer = {
         id: `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         name,
         coordinates: spawnCoordinates,
         dockedAt: 'system_0,0,0_station', // Docked at Haven Station
         ship: {
-          fuel: 100,
-          maxFuel: 100,
+          hullId: starterShip.hullId,
+          modules: [],
+          fuel: starterShip.fuelCapacity,
+          maxFuel: starterShip.fuelCapacity,
           cargo: [],
-          maxCargo: 50, // Add cargo capacity
-          probes: 10,
+          maxCargo: starterShip.cargoCapacity,
+          probes: starterShip.probeBay,
           probeConfig: {
-            maxFuel: 10,
+            maxFuel: starterShip.probeRange,
             scanRange: 0.05,
             moveDelay: 1000
           }
         },
         credits: 1000,
         knownSystems: [],
+        ...(isNPC && { isNPC: true }), // Set by the npc-service so NPC pilots can be told apart
         createdAt: new Date(),
         lastActivity: new Date()
       };
       
+      let apiKey: string;
+      try {
+        ({ apiKey } = await createAccount(db, newPlayer.id, name, password));
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid credentials' });
+      }
+
       await db.collection('players').insertOne(newPlayer);
+
+      // Pilots start docked, so their first station is home
+      const homeStation = await findStationById(db, newPlayer.dockedAt);
+      if (homeStation) {
+        await recordDock(db, newPlayer.id, homeStation);
+      }
       
       res.json({
         message: `Player ${name} created successfully`,
         player: newPlayer,
-        spawnLocation: coordinateToString(spawnCoordinates)
+        spawnLocation: coordinateToString(spawnCoordinates),
+        session: issueSession(newPlayer.id, name),
+        apiKey
       });
     } catch (error) {
       console.error('Player creation error:', error);
@@ -87,6 +122,23 @@ export function createPlayerRoutes() {
     }
   });
 
+  // Log in with name + password or an API key
+  router.post('/login', async (req, res) => {
+    try {
+      const db = getMongo('stellarburn');
+      const { name, password, apiKey } = req.body;
+      const session = await login(db, { name, password, apiKey });
+
+      res.json({
+        message: `Logged in as ${session.name}`,
+        session
+      });
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(401).json({ error: error instanceof Error ? error.message : 'Failed to log in' });
+    }
+  });
+
   // Player status
   router.get('/:playerId/status', async (req, res) => {
     try {
@@ -108,8 +160,11 @@ export function createPlayerRoutes() {
         credits: player.credits,
         cargoCount: player.ship.cargo.length,
         cargo: player.ship.cargo || [],
+        contractCargo: player.ship.contractCargo || [],
         probes: player.ship.probes || 0,
-        dockedAt: player.dockedAt || undefined
+        dockedAt: player.dockedAt || undefined,
+        ship: getShipStats(player.ship),
+        ...(player.isNPC && { isNPC: true })
       });
     } catch (error) {
       console.error('Player status error:', error);
@@ -134,6 +189,9 @@ export function createPlayerRoutes() {
       }
       
       const db = getMongo('stellarburn');
+      if (await isInTransit(db, playerId)) {
+        return res.status(409).json({ error: IN_TRANSIT_ERROR });
+      }
       const result = await movePlayer(db, playerId, direction, directionVector);
       res.json(result);
     } catch (error) {
@@ -156,6 +214,9 @@ export function createPlayerRoutes() {
       }
       
       const db = getMongo('stellarburn');
+      if (await isInTransit(db, playerId)) {
+        return res.status(409).json({ error: IN_TRANSIT_ERROR });
+      }
       const jumpResult = await jumpPlayer(db, playerId, direction, directionVector);
 
       res.json(jumpResult);
@@ -165,6 +226,185 @@ export function createPlayerRoutes() {
     }
   });
 
+  // Wormhole traversal
+  router.post('/:playerId/wormhole', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      if (await isInTransit(db, playerId)) {
+        return res.status(409).json({ error: IN_TRANSIT_ERROR });
+      }
+      const result = await traverseWormhole(db, playerId);
+      res.json(result);
+    } catch (error) {
+      console.error('Wormhole error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to traverse wormhole' });
+    }
+  });
+
+  // Bookmarks
+  router.get('/:playerId/bookmarks', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      res.json(await listBookmarks(db, playerId));
+    } catch (error) {
+      console.error('List bookmarks error:', error);
+      res.status(500).json({ error: 'Failed to list bookmarks' });
+    }
+  });
+
+  router.post('/:playerId/bookmarks', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { name, kind, target } = req.body;
+      const db = getMongo('stellarburn');
+      const bookmark = await createBookmark(db, playerId, { name, kind, target });
+      res.status(201).json(bookmark);
+    } catch (error) {
+      console.error('Create bookmark error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create bookmark' });
+    }
+  });
+
+  router.get('/:playerId/bookmarks/:name', async (req, res) => {
+    try {
+      const { playerId, name } = req.params;
+      const db = getMongo('stellarburn');
+      const bookmark = await getBookmark(db, playerId, name);
+      if (!bookmark) {
+        return res.status(404).json({ error: `No bookmark named "${name}"` });
+      }
+      res.json(bookmark);
+    } catch (error) {
+      console.error('Get bookmark error:', error);
+      res.status(500).json({ error: 'Failed to get bookmark' });
+    }
+  });
+
+  router.put('/:playerId/bookmarks/:name', async (req, res) => {
+    try {
+      const { playerId, name } = req.params;
+      const { name: newName, kind, target } = req.body;
+      const db = getMongo('stellarburn');
+      const bookmark = await updateBookmark(db, playerId, name, { name: newName, kind, target });
+      if (!bookmark) {
+        return res.status(404).json({ error: `No bookmark named "${name}"` });
+      }
+      res.json(bookmark);
+    } catch (error) {
+      console.error('Update bookmark error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update bookmark' });
+    }
+  });
+
+  router.delete('/:playerId/bookmarks/:name', async (req, res) => {
+    try {
+      const { playerId, name } = req.params;
+      const db = getMongo('stellarburn');
+      if (!await deleteBookmark(db, playerId, name)) {
+        return res.status(404).json({ error: `No bookmark named "${name}"` });
+      }
+      res.json({ success: true, message: `Bookmark "${name}" deleted` });
+    } catch (error) {
+      console.error('Delete bookmark error:', error);
+      res.status(500).json({ error: 'Failed to delete bookmark' });
+    }
+  });
+
+  // Star charts
+  router.get('/:playerId/charts', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      res.json(await listCharts(db, playerId));
+    } catch (error) {
+      console.error('List charts error:', error);
+      res.status(500).json({ error: 'Failed to list charts' });
+    }
+  });
+
+  router.post('/:playerId/charts', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { filter, name } = req.body;
+      const db = getMongo('stellarburn');
+      res.status(201).json(await exportChart(db, playerId, filter, name));
+    } catch (error) {
+      console.error('Export chart error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to draw chart' });
+    }
+  });
+
+  router.post('/:playerId/charts/import', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      res.json(await importChart(db, playerId, req.body));
+    } catch (error) {
+      console.error('Import chart error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to import chart' });
+    }
+  });
+
+  router.get('/:playerId/charts/:chartId', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const db = getMongo('stellarburn');
+      const chart = await getChartFile(db, playerId, chartId);
+      if (!chart) {
+        return res.status(404).json({ error: 'You do not hold that chart' });
+      }
+      res.json(chart);
+    } catch (error) {
+      console.error('Get chart error:', error);
+      res.status(500).json({ error: 'Failed to get chart' });
+    }
+  });
+
+  router.post('/:playerId/charts/:chartId/give', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const { to, price = 0 } = req.body;
+      if (typeof to !== 'string' || !to) {
+        return res.status(400).json({ error: 'Recipient pilot name is required' });
+      }
+      if (!Number.isInteger(price) || price < 0) {
+        return res.status(400).json({ error: 'Price must be a whole number of credits' });
+      }
+      const db = getMongo('stellarburn');
+      res.json(await offerChart(db, playerId, chartId, to, price));
+    } catch (error) {
+      console.error('Give chart error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to give chart' });
+    }
+  });
+
+  router.post('/:playerId/charts/:chartId/accept', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const db = getMongo('stellarburn');
+      res.json(await acceptChartOffer(db, playerId, chartId));
+    } catch (error) {
+      console.error('Accept chart error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to accept chart' });
+    }
+  });
+
+  router.post('/:playerId/charts/:chartId/decline', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const db = getMongo('stellarburn');
+      if (!await declineChartOffer(db, playerId, chartId)) {
+        return res.status(404).json({ error: 'No pending offer for that chart' });
+      }
+      res.json({ success: true, message: 'Chart offer withdrawn' });
+    } catch (error) {
+      console.error('Decline chart error:', error);
+      res.status(500).json({ error: 'Failed to decline chart offer' });
+    }
+  });
+
   // Scanning
   router.get('/:playerId/scan', async (req, res) => {
     try {
@@ -226,7 +466,7 @@ export function createPlayerRoutes() {
     try {
       const { playerId, direction } = req.params;
       const db = getMongo('stellarburn');
-      const result = await launchProbe(db, playerId, direction);
+      const result = await launchProbe(db, playerId, direction, typeof req.query.type === 'string' ? req.query.type : undefined);
       res.json(result);
     } catch (error) {
       console.error('Probe launch error:', error);
@@ -234,6 +474,32 @@ export function createPlayerRoutes() {
     }
   });
 
+  // Launch a probe on a flight plan: { plan: { kind: 'waypoints' | 'spiral' | 'sweep' | 'loiter' | 'direction', ... }, probeType }
+  router.post('/:playerId/probes', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { plan, probeType } = req.body;
+      const db = getMongo('stellarburn');
+      const result = await launchProbe(db, playerId, plan, probeType);
+      res.json(result);
+    } catch (error) {
+      console.error('Probe launch error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to launch probe' });
+    }
+  });
+
+  router.post('/:playerId/probes/:probeId/recall', async (req, res) => {
+    try {
+      const { playerId, probeId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await recallProbe(db, playerId, probeId);
+      res.json(result);
+    } catch (error) {
+      console.error('Probe recall error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to recall probe' });
+    }
+  });
+
   // Get active probes
   router.get('/:playerId/probes', async (req, res) => {
     try {
@@ -347,6 +613,7 @@ export function createPlayerRoutes() {
           coordinates: system.coordinates,
           coord: system.coord,
           distance: system.distance,
+          asOf: system.asOf,
           objectCount: system.staticObjects.length,
           objects: system.objects.map((obj: any) => ({
             type: obj.type,
@@ -383,6 +650,7 @@ export function createPlayerRoutes() {
           coordinates: system.coordinates,
           coord: system.coord,
           distance: system.distance,
+          asOf: system.asOf,
           isEmpty: !system.staticObjects || system.staticObjects.length === 0,
           objectCount: system.staticObjects ? system.staticObjects.length : 0,
           objects: system.objects.map((obj: any) => ({
@@ -434,7 +702,8 @@ export function createPlayerRoutes() {
       const systemDetails = {
         coordinates: system.coordinates,
         coord: system.coord,
-        discovered: system.createdAt || system.lastActivity,
+        asOf: system.asOf,
+        source: system.source,
         isEmpty: !system.staticObjects || system.staticObjects.length === 0,
         objectCount: system.staticObjects ? system.staticObjects.length : 0,
         objects: system.staticObjects ? system.staticObjects.map((obj: any) => {
@@ -473,7 +742,7 @@ export function createPlayerRoutes() {
 
           return baseObj;
         }) : [],
-        dynamicObjects: system.dynamicObjects || { ships: [], probes: [] }
+        ships: system.ships
       };
 
       res.json({
@@ -497,13 +766,14 @@ export function createPlayerRoutes() {
         return res.status(404).json({ error: 'Player not found' });
       }
 
-      // Reset fuel to max and probes to 10
+      // Reset fuel to max and refill the probe bay
+      const { probeBay } = getShipStats(player.ship);
       await db.collection('players').updateOne(
         { id: playerId },
         {
           $set: {
             'ship.fuel': player.ship.maxFuel,
-            'ship.probes': 10,
+            'ship.probes': probeBay,
             lastActivity: new Date()
           }
         }
@@ -512,7 +782,7 @@ export function createPlayerRoutes() {
       res.json({
         message: 'Player resources reset',
         fuel: player.ship.maxFuel,
-        probes: 10
+        probes: probeBay
       });
     } catch (error) {
       console.error('Admin reset error:', error);
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { getMongo } from '../services/databaseService.js';
-import { getAllActiveProbes } from '../services/probeService.js';
+import { getVisibleActiveProbes } from '../services/probeService.js';
 
 export function createProbeRoutes() {
   const router = Router();
@@ -9,7 +9,7 @@ export function createProbeRoutes() {
   router.get('/active', async (req, res) => {
     try {
       const db = getMongo('stellarburn');
-      const probes = await getAllActiveProbes(db);
+      const probes = await getVisibleActiveProbes(db);
       res.json(probes);
     } catch (error) {
       console.error('Get all active probes error:', error);
@@ -1,11 +1,42 @@
 import { Router } from 'express';
+import { StationOrder } from '@stellarburn/shared';
 import { getMongo } from '../services/databaseService.js';
 import { getAllTradeItems } from '../services/stationInventoryService.js';
 import { getStationNearPlayer, dockPlayer, undockPlayer, getStationInfo, buyFromStation, sellToStation } from '../services/stationService.js';
+import { authorizePlayerParam } from '../middleware/authMiddleware.js';
+import { TradeError } from '../services/tradeJournalService.js';
+import { getPriceHistory, getTradeLedger } from '../services/tradeLedgerService.js';
+import { placeOrder, cancelOrder, listPlayerOrders, getOrderBook } from '../services/orderService.js';
+import { getMissionBoard, acceptContract, deliverContract, abandonContract } from '../services/contractService.js';
+import { getShipyard, buyHull, installModule, removeModule } from '../services/shipyardService.js';
+import { getStationRecipes, listProductionJobs, queueProduction, collectProduction } from '../services/productionService.js';
+import { getStationCharts, sellChartToStation, buyChartFromStation } from '../services/chartService.js';
+
+const ORDER_STATUSES: StationOrder['status'][] = ['pending', 'open', 'filled', 'cancelled', 'expired'];
+
+const isOrderStatus = (value: unknown): value is StationOrder['status'] =>
+  ORDER_STATUSES.includes(value as StationOrder['status']);
+
+// Clients may send Idempotency-Key (header) or idempotencyKey (body) to make trade retries safe
+const getIdempotencyKey = (req: any): string | undefined => {
+  const key = req.get('Idempotency-Key') || req.body.idempotencyKey;
+  return typeof key === 'string' && key.length > 0 ? key : undefined;
+};
+
+// Trade errors carry their own status code and retry hint
+const sendTradeError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof TradeError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code, retryable: error.retryable });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+};
 
 export function createStationRoutes() {
   const router = Router();
 
+  // Every /:playerId route requires a token issued to that player
+  router.param('playerId', authorizePlayerParam);
+
   // Get station info when near it
   router.get('/:playerId/nearby', async (req, res) => {
     try {
@@ -68,15 +99,15 @@ export function createStationRoutes() {
       const { itemId, quantity } = req.body;
       const db = getMongo('stellarburn');
 
-      if (!itemId || !quantity || quantity <= 0) {
+      if (!itemId || !Number.isInteger(quantity) || quantity <= 0) {
         return res.status(400).json({ error: 'Invalid itemId or quantity' });
       }
 
-      const result = await buyFromStation(db, playerId, itemId, quantity);
+      const result = await buyFromStation(db, playerId, itemId, quantity, getIdempotencyKey(req));
       res.json(result);
     } catch (error) {
       console.error('Buy error:', error);
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to buy item' });
+      sendTradeError(res, error, 'Failed to buy item');
     }
   });
 
@@ -87,15 +118,340 @@ export function createStationRoutes() {
       const { itemId, quantity } = req.body;
       const db = getMongo('stellarburn');
 
-      if (!itemId || !quantity || quantity <= 0) {
+      if (!itemId || !Number.isInteger(quantity) || quantity <= 0) {
         return res.status(400).json({ error: 'Invalid itemId or quantity' });
       }
 
-      const result = await sellToStation(db, playerId, itemId, quantity);
+      const result = await sellToStation(db, playerId, itemId, quantity, getIdempotencyKey(req));
       res.json(result);
     } catch (error) {
       console.error('Sell error:', error);
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to sell item' });
+      sendTradeError(res, error, 'Failed to sell item');
+    }
+  });
+
+  // Post a limit order at the docked station
+  // POST /api/station/:playerId/orders { side, itemId, quantity, limitPrice, expiresInHours? }
+  router.post('/:playerId/orders', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { side, itemId, quantity, limitPrice, expiresInHours } = req.body;
+      const db = getMongo('stellarburn');
+
+      if (side !== 'buy' && side !== 'sell') {
+        return res.status(400).json({ error: 'side must be "buy" or "sell"' });
+      }
+
+      if (!itemId || !Number.isInteger(quantity) || quantity <= 0 || !Number.isInteger(limitPrice) || limitPrice <= 0) {
+        return res.status(400).json({ error: 'Invalid itemId, quantity or limitPrice' });
+      }
+
+      if (expiresInHours !== undefined && typeof expiresInHours !== 'number') {
+        return res.status(400).json({ error: 'expiresInHours must be a number' });
+      }
+
+      const order = await placeOrder(db, playerId, { side, itemId, quantity, limitPrice, expiresInHours });
+      res.json({ success: true, order });
+    } catch (error) {
+      console.error('Place order error:', error);
+      sendTradeError(res, error, 'Failed to place order');
+    }
+  });
+
+  // List the player's orders, optionally by status
+  router.get('/:playerId/orders', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const status = req.query.status;
+      const db = getMongo('stellarburn');
+
+      if (status !== undefined && !isOrderStatus(status)) {
+        return res.status(400).json({ error: `status must be one of: ${ORDER_STATUSES.join(', ')}` });
+      }
+
+      const orders = await listPlayerOrders(db, playerId, status);
+      res.json({ orders });
+    } catch (error) {
+      console.error('List orders error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list orders' });
+    }
+  });
+
+  // Cancel an open order and return its unfilled escrow
+  router.delete('/:playerId/orders/:orderId', async (req, res) => {
+    try {
+      const { playerId, orderId } = req.params;
+      const db = getMongo('stellarburn');
+      const order = await cancelOrder(db, playerId, orderId);
+      res.json({ success: true, order });
+    } catch (error) {
+      console.error('Cancel order error:', error);
+      sendTradeError(res, error, 'Failed to cancel order');
+    }
+  });
+
+  // Open orders for one item at a station, by price level
+  router.get('/:playerId/orderbook/:stationId/:itemId', async (req, res) => {
+    try {
+      const { stationId, itemId } = req.params;
+      const db = getMongo('stellarburn');
+      const book = await getOrderBook(db, stationId, itemId);
+      res.json(book);
+    } catch (error) {
+      console.error('Order book error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get order book' });
+    }
+  });
+
+  // Price history for one item at a station, as OHLC buckets
+  // GET /api/station/:playerId/history/:stationId/:itemId?bucket=1h&hours=24&side=buy
+  router.get('/:playerId/history/:stationId/:itemId', async (req, res) => {
+    try {
+      const { stationId, itemId } = req.params;
+      const bucket = typeof req.query.bucket === 'string' ? req.query.bucket : '1h';
+      const hours = req.query.hours !== undefined ? Number(req.query.hours) : 24;
+      const side = req.query.side;
+      const db = getMongo('stellarburn');
+
+      if (!Number.isFinite(hours) || hours <= 0) {
+        return res.status(400).json({ error: 'hours must be a positive number' });
+      }
+
+      if (side !== undefined && side !== 'buy' && side !== 'sell') {
+        return res.status(400).json({ error: 'side must be "buy" or "sell"' });
+      }
+
+      const result = await getPriceHistory(db, stationId, itemId, { bucket, hours, side });
+      res.json(result);
+    } catch (error) {
+      console.error('Price history error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to get price history' });
+    }
+  });
+
+  // Player's own trade ledger with realized profit
+  // GET /api/station/:playerId/ledger?limit=50&itemId=iron_ore
+  router.get('/:playerId/ledger', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+      const itemId = typeof req.query.itemId === 'string' ? req.query.itemId : undefined;
+      const db = getMongo('stellarburn');
+
+      if (!Number.isInteger(limit) || limit <= 0 || limit > 500) {
+        return res.status(400).json({ error: 'limit must be an integer between 1 and 500' });
+      }
+
+      const result = await getTradeLedger(db, playerId, { limit, itemId });
+      res.json(result);
+    } catch (error) {
+      console.error('Trade ledger error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get trade ledger' });
+    }
+  });
+
+  // Mission board at the docked station plus the player's active contracts
+  router.get('/:playerId/missions', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      const board = await getMissionBoard(db, playerId);
+      res.json(board);
+    } catch (error) {
+      console.error('Mission board error:', error);
+      sendTradeError(res, error, 'Failed to get mission board');
+    }
+  });
+
+  router.post('/:playerId/missions/:contractId/accept', async (req, res) => {
+    try {
+      const { playerId, contractId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await acceptContract(db, playerId, contractId);
+      res.json(result);
+    } catch (error) {
+      console.error('Accept contract error:', error);
+      sendTradeError(res, error, 'Failed to accept contract');
+    }
+  });
+
+  // Hand in cargo (partial deliveries count) or a finished survey at the destination
+  router.post('/:playerId/missions/:contractId/deliver', async (req, res) => {
+    try {
+      const { playerId, contractId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await deliverContract(db, playerId, contractId);
+      res.json(result);
+    } catch (error) {
+      console.error('Deliver contract error:', error);
+      sendTradeError(res, error, 'Failed to deliver contract');
+    }
+  });
+
+  router.post('/:playerId/missions/:contractId/abandon', async (req, res) => {
+    try {
+      const { playerId, contractId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await abandonContract(db, playerId, contractId);
+      res.json(result);
+    } catch (error) {
+      console.error('Abandon contract error:', error);
+      sendTradeError(res, error, 'Failed to abandon contract');
+    }
+  });
+
+  // Hulls and modules for sale at the docked shipyard, with the current ship's trade-in value
+  router.get('/:playerId/shipyard', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      const shipyard = await getShipyard(db, playerId);
+      res.json(shipyard);
+    } catch (error) {
+      console.error('Shipyard error:', error);
+      sendTradeError(res, error, 'Failed to get shipyard');
+    }
+  });
+
+  router.post('/:playerId/shipyard/hull', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { hullId } = req.body;
+      const db = getMongo('stellarburn');
+
+      if (typeof hullId !== 'string') {
+        return res.status(400).json({ error: 'hullId is required' });
+      }
+
+      const result = await buyHull(db, playerId, hullId);
+      res.json(result);
+    } catch (error) {
+      console.error('Buy hull error:', error);
+      sendTradeError(res, error, 'Failed to buy hull');
+    }
+  });
+
+  router.post('/:playerId/shipyard/modules', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { moduleId } = req.body;
+      const db = getMongo('stellarburn');
+
+      if (typeof moduleId !== 'string') {
+        return res.status(400).json({ error: 'moduleId is required' });
+      }
+
+      const result = await installModule(db, playerId, moduleId);
+      res.json(result);
+    } catch (error) {
+      console.error('Install module error:', error);
+      sendTradeError(res, error, 'Failed to install module');
+    }
+  });
+
+  router.delete('/:playerId/shipyard/modules/:moduleId', async (req, res) => {
+    try {
+      const { playerId, moduleId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await removeModule(db, playerId, moduleId);
+      res.json(result);
+    } catch (error) {
+      console.error('Remove module error:', error);
+      sendTradeError(res, error, 'Failed to remove module');
+    }
+  });
+
+  // Refining and manufacturing recipes at the docked station, with the player's jobs there
+  router.get('/:playerId/recipes', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      const recipes = await getStationRecipes(db, playerId);
+      res.json(recipes);
+    } catch (error) {
+      console.error('Recipes error:', error);
+      sendTradeError(res, error, 'Failed to get recipes');
+    }
+  });
+
+  router.get('/:playerId/production', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      const jobs = await listProductionJobs(db, playerId);
+      res.json(jobs);
+    } catch (error) {
+      console.error('Production jobs error:', error);
+      res.status(500).json({ error: 'Failed to list production jobs' });
+    }
+  });
+
+  router.post('/:playerId/production', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { recipeId, batches = 1 } = req.body;
+      const db = getMongo('stellarburn');
+
+      if (typeof recipeId !== 'string') {
+        return res.status(400).json({ error: 'recipeId is required' });
+      }
+
+      const job = await queueProduction(db, playerId, recipeId, Number(batches));
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error('Queue production error:', error);
+      sendTradeError(res, error, 'Failed to queue production');
+    }
+  });
+
+  // Collect one finished job, or all finished jobs at the docked station when no jobId is given
+  router.post('/:playerId/production/collect', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const { jobId } = req.body;
+      const db = getMongo('stellarburn');
+      const result = await collectProduction(db, playerId, typeof jobId === 'string' ? jobId : undefined);
+      res.json(result);
+    } catch (error) {
+      console.error('Collect production error:', error);
+      sendTradeError(res, error, 'Failed to collect production');
+    }
+  });
+
+  // Star charts for sale at the docked Research station, and what it would pay for the player's own
+  router.get('/:playerId/charts', async (req, res) => {
+    try {
+      const { playerId } = req.params;
+      const db = getMongo('stellarburn');
+      const charts = await getStationCharts(db, playerId);
+      res.json(charts);
+    } catch (error) {
+      console.error('Station charts error:', error);
+      sendTradeError(res, error, 'Failed to get station charts');
+    }
+  });
+
+  router.post('/:playerId/charts/:chartId/sell', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await sellChartToStation(db, playerId, chartId);
+      res.json(result);
+    } catch (error) {
+      console.error('Sell chart error:', error);
+      sendTradeError(res, error, 'Failed to sell chart');
+    }
+  });
+
+  router.post('/:playerId/charts/:chartId/buy', async (req, res) => {
+    try {
+      const { playerId, chartId } = req.params;
+      const db = getMongo('stellarburn');
+      const result = await buyChartFromStation(db, playerId, chartId);
+      res.json(result);
+    } catch (error) {
+      console.error('Buy chart error:', error);
+      sendTradeError(res, error, 'Failed to buy chart');
     }
   });
 
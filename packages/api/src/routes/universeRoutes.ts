@@ -1,5 +1,7 @@
 import { Router } from 'express';
+import { SystemDocument, UniverseMetadata, createUniverseReportBuilder } from '@stellarburn/shared';
 import { getMongo } from '../services/databaseService.js';
+import { getOreReserves } from '../services/asteroidService.js';
 
 export function createUniverseRoutes() {
   const router = Router();
@@ -41,12 +43,44 @@ export function createUniverseRoutes() {
     }
   });
 
+  // Full universe report, the same one the generator's stats command prints
+  router.get('/stats', async (req, res) => {
+    try {
+      const db = getMongo('stellarburn');
+      const metadata = await db.collection<UniverseMetadata>('universe').findOne({ id: 'config' });
+      const report = createUniverseReportBuilder(metadata);
+
+      // Streamed one system at a time; probe placeholders in unvisited space aren't systems yet
+      const systems = db.collection<SystemDocument>('systems')
+        .find({ staticObjects: { $exists: true } }, { projection: { coordinates: 1, coord: 1, systemType: 1, staticObjects: 1 } });
+      for await (const system of systems) {
+        report.add(system);
+      }
+
+      res.json(report.finish());
+    } catch (error) {
+      console.error('Universe stats error:', error);
+      res.status(500).json({ error: 'Failed to build universe statistics' });
+    }
+  });
+
+  // Estimated ore left in asteroid fields across the universe
+  router.get('/reserves', async (req, res) => {
+    try {
+      const db = getMongo('stellarburn');
+      res.json(await getOreReserves(db));
+    } catch (error) {
+      console.error('Ore reserves query error:', error);
+      res.status(500).json({ error: 'Failed to fetch ore reserves' });
+    }
+  });
+
   // Get all players (for visualization) - exclude docked players
   router.get('/players', async (req, res) => {
     try {
       const db = getMongo('stellarburn');
       const players = await db.collection('players')
-        .find({ dockedAt: { $exists: false } }, { projection: { id: 1, name: 1, coordinates: 1 } })
+        .find({ dockedAt: { $exists: false } }, { projection: { id: 1, name: 1, coordinates: 1, isNPC: 1 } })
         .toArray();
 
       res.json(players);
@@ -61,7 +95,7 @@ export function createUniverseRoutes() {
     try {
       const db = getMongo('stellarburn');
       const players = await db.collection('players')
-        .find({}, { projection: { id: 1, name: 1, coordinates: 1, dockedAt: 1 } })
+        .find({}, { projection: { id: 1, name: 1, coordinates: 1, isNPC: 1, dockedAt: 1 } })
         .toArray();
 
       res.json(players);
@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+
+import { Coordinates3D, isWithinSystemBounds } from '@stellarburn/shared';
+
+// Every sector of a system is inside it, on both sides of the origin and far out where float error is largest
+const SYSTEM_AXIS_VALUES = [-12, -5, -4, -1, 0, 3, 4, 9, 123];
+const SECTOR_OFFSETS = [0, 0.1, 0.2, 0.3, 0.4];
+
+// Offsets between the last sector of one system and the first of the next
+const GAP_OFFSETS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+function runSystemBoundsCheck() {
+  const failures: string[] = [];
+  const check = (condition: boolean, message: string) => {
+    if (!condition) failures.push(message);
+  };
+
+  const at = (system: number, offset: number): number => Math.round((system + offset) * 10) / 10;
+  const label = (coord: Coordinates3D) => `${coord.x},${coord.y},${coord.z}`;
+
+  for (const system of SYSTEM_AXIS_VALUES) {
+    for (const offset of SECTOR_OFFSETS) {
+      const value = at(system, offset);
+      for (const coord of [{ x: value, y: 0.2, z: 0.2 }, { x: 0.2, y: value, z: 0.2 }, { x: 0.2, y: 0.2, z: value }]) {
+        check(isWithinSystemBounds(coord), `${label(coord)} was rejected as between sectors`);
+      }
+    }
+
+    for (const offset of GAP_OFFSETS) {
+      const coord = { x: at(system, offset), y: 0.2, z: 0.2 };
+      check(!isWithinSystemBounds(coord), `${label(coord)} was accepted inside a system`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error('❌ System bounds check failed:');
+    failures.forEach(failure => console.error(`   - ${failure}`));
+    process.exit(1);
+  }
+
+  console.log('🎉 System bounds check passed');
+}
+
+// Run the check if this script is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSystemBoundsCheck();
+}
+
+export { runSystemBoundsCheck };
@@ -1,15 +1,29 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import { connectToMongoDB, closeMongoDB } from './services/databaseService.js';
+import { connectToMongoDB, closeMongoDB, getMongo } from './services/databaseService.js';
 import { createPlayerRoutes } from './routes/playerRoutes.js';
 import { createNavigationRoutes } from './routes/navigationRoutes.js';
 import { createUniverseRoutes } from './routes/universeRoutes.js';
 import { createProbeRoutes } from './routes/probeRoutes.js';
 import { createStationRoutes } from './routes/stationRoutes.js';
 import { createMiningRoutes } from './routes/miningRoutes.js';
+import { createEventRoutes } from './routes/eventRoutes.js';
 import { getServices } from './services/serviceFactory.js';
 import { buildMongoDBUri } from './config/database.js';
+import { ensureTradeIndexes } from './services/tradeJournalService.js';
+import { recoverInterruptedTrades } from './services/stationService.js';
+import { ensureLedgerIndexes } from './services/tradeLedgerService.js';
+import { ensureOrderIndexes, recoverOrders } from './services/orderService.js';
+import { ensureContractIndexes } from './services/contractService.js';
+import { ensureProductionIndexes, recoverProductionJobs } from './services/productionService.js';
+import { ensureMiningIndexes, completeDueMiningOperations, cleanupMiningLocks } from './services/miningService.js';
+import { ensureSystemIndexes } from './services/universeExpansionService.js';
+import { ensureAutopilotIndexes } from './services/autopilotService.js';
+import { ensureBookmarkIndexes } from './services/bookmarkService.js';
+import { ensureMarketSightingIndexes } from './services/marketSightingService.js';
+import { ensureIntelIndexes } from './services/intelService.js';
+import { ensureChartIndexes } from './services/chartService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -20,7 +34,7 @@ const MONGODB_URI = buildMongoDBUri();
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // Imported star charts carry whole systems
 
 // Basic health check
 app.get('/health', (req, res) => {
@@ -38,6 +52,7 @@ app.use('/api/navigation', createNavigationRoutes());
 app.use('/api/probes', createProbeRoutes());
 app.use('/api/station', createStationRoutes());
 app.use('/api/mining', createMiningRoutes());
+app.use('/api/events', createEventRoutes());
 
 // Start server
 async function startServer() {
@@ -45,16 +60,48 @@ async function startServer() {
     console.log(`Connecting to MongoDB at: ${MONGODB_URI}`);
     await connectToMongoDB(MONGODB_URI);
 
+    // Roll back or settle trades, order fills and production jobs interrupted by a previous crash, then keep sweeping
+    const db = getMongo('stellarburn');
+    await ensureTradeIndexes(db);
+    await ensureLedgerIndexes(db);
+    await ensureOrderIndexes(db);
+    await ensureContractIndexes(db);
+    await ensureProductionIndexes(db);
+    await ensureMiningIndexes();
+    await ensureSystemIndexes(db);
+    await ensureAutopilotIndexes(db);
+    await ensureBookmarkIndexes(db);
+    await ensureMarketSightingIndexes(db);
+    await ensureIntelIndexes(db);
+    await ensureChartIndexes(db);
+    await recoverInterruptedTrades(db);
+    await recoverOrders(db);
+    await recoverProductionJobs(db);
+    // Finish mining operations that came due while the server was down, then drop orphaned asteroid locks
+    await completeDueMiningOperations();
+    await cleanupMiningLocks();
+    setInterval(() => {
+      recoverInterruptedTrades(db).catch(error => console.error('❌ Trade recovery failed:', error));
+      recoverOrders(db).catch(error => console.error('❌ Order recovery failed:', error));
+      recoverProductionJobs(db).catch(error => console.error('❌ Production recovery failed:', error));
+      completeDueMiningOperations()
+        .then(() => cleanupMiningLocks())
+        .catch(error => console.error('❌ Mining recovery failed:', error));
+    }, 60000);
+
     app.listen(PORT, () => {
       console.log(`🚀 StellarBurn API server running on port ${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
       console.log(`🌌 Universe API: http://localhost:${PORT}/api/universe`);
       console.log(`👥 Player Management: http://localhost:${PORT}/api/player/`);
       console.log(`🧭 Navigation: http://localhost:${PORT}/api/navigation/`);
+      console.log(`📣 Event stream: http://localhost:${PORT}/api/events/stream`);
 
-      // Start the probe movement scheduler
-      const { probeScheduler } = getServices();
+      // Start the probe movement, station market and autopilot schedulers
+      const { probeScheduler, marketScheduler, autopilotScheduler } = getServices();
       probeScheduler.start();
+      marketScheduler.start();
+      autopilotScheduler.start();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -65,9 +112,11 @@ async function startServer() {
 process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
 
-  // Stop probe scheduler
-  const { probeScheduler } = getServices();
+  // Stop schedulers
+  const { probeScheduler, marketScheduler, autopilotScheduler } = getServices();
   probeScheduler.stop();
+  marketScheduler.stop();
+  autopilotScheduler.stop();
 
   await closeMongoDB();
   process.exit(0);
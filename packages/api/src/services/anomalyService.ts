@@ -0,0 +1,33 @@
+import { Coordinates3D, CelestialBody, coordinateToString } from '@stellarburn/shared';
+import { BLACK_HOLE, isNearBlackHole } from '@stellarburn/shared';
+import { previewSystem } from './universeExpansionService.js';
+
+const holdsBlackHole = (objects: CelestialBody[] = []): boolean => objects.some(obj => obj.type === 'black_hole');
+
+// Systems close enough to the given one to hold a black hole that matters; unvisited space is checked as the seed will generate it
+export const getBlackHoleSystems = async (db: any, near: Coordinates3D): Promise<Coordinates3D[]> => {
+  const range = BLACK_HOLE.influenceSystems;
+  const filter: any = {};
+  for (const axis of ['x', 'y', 'z'] as const) filter[`coord.${axis}`] = { $gte: near[axis] - range, $lte: near[axis] + range };
+  const stored = await db.collection('systems').find(filter, { projection: { coordinates: 1, staticObjects: 1 } }).toArray();
+  const storedObjects = new Map<string, CelestialBody[]>(stored.map((system: any) => [system.coordinates, system.staticObjects]));
+
+  const metadata = await db.collection('universe').findOne({ id: 'config' });
+  const blackHoles: Coordinates3D[] = [];
+  for (let dx = -range; dx <= range; dx++) {
+    for (let dy = -range; dy <= range; dy++) {
+      for (let dz = -range; dz <= range; dz++) {
+        const system = { x: near.x + dx, y: near.y + dy, z: near.z + dz };
+        const objects = storedObjects.get(coordinateToString(system)) ?? previewSystem(metadata, system)?.staticObjects;
+        if (holdsBlackHole(objects)) blackHoles.push(system);
+      }
+    }
+  }
+  return blackHoles;
+};
+
+// Fuel for a jump out of a system, raised when a black hole is nearby
+export const getJumpFuelCost = async (db: any, system: Coordinates3D, baseCost: number): Promise<number> => {
+  const blackHoles = await getBlackHoleSystems(db, system);
+  return isNearBlackHole(system, blackHoles) ? baseCost * BLACK_HOLE.jumpFuelMultiplier : baseCost;
+};
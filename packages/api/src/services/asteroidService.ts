@@ -0,0 +1,176 @@
+import { AsteroidType, CelestialBody, Coordinates3D, OreReserve, OreReservesResponse } from '@stellarburn/shared';
+import {
+  ASTEROID_LIFECYCLE,
+  estimateAsteroidReserves,
+  generateSafeCoordinate,
+  getItemById,
+  getRandomAsteroidType,
+  getRegenerationRate
+} from '@stellarburn/shared';
+
+const HOUR_MS = 3600000;
+
+// Respawn rolls scale with the time since the previous pass
+let lastAdvancedAt: Date | null = null;
+
+const isMineable = (obj: any): obj is CelestialBody & Required<Pick<CelestialBody, 'asteroidType' | 'miningProgress'>> =>
+  obj.type === 'asteroid' && !!obj.asteroidType && !!obj.miningProgress;
+
+// Depletion left after recovering since the last pass; asteroids recover only once miners have been gone a while
+const regeneratedDepletion = (asteroid: CelestialBody, now: Date): number | null => {
+  const progress = asteroid.miningProgress!;
+  if (progress.currentDepletion <= 0 || progress.activeMiningOperations.length > 0) return null;
+
+  const restingSince = new Date(progress.lastMined).getTime() + ASTEROID_LIFECYCLE.regenerationDelayHours * HOUR_MS;
+  const since = Math.max(restingSince, new Date(progress.lastRegenerated ?? 0).getTime());
+  const hours = (now.getTime() - since) / HOUR_MS;
+  if (hours <= 0) return null;
+
+  return Math.max(0, progress.currentDepletion - getRegenerationRate(asteroid.asteroidType!) * hours);
+};
+
+// A fresh asteroid somewhere else in the system, following the generator's placement rules
+const createReplacementAsteroid = (system: any, asteroids: CelestialBody[]): CelestialBody | null => {
+  const star = system.staticObjects.find((obj: any) => obj.type === 'star');
+  const occupied = new Set(system.staticObjects.map((obj: any) => `${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z}`));
+
+  let coordinates: Coordinates3D | null = null;
+  for (let attempt = 0; attempt < 5 && !coordinates; attempt++) {
+    const candidate = star
+      ? generateSafeCoordinate(system.coord, star.coordinates, star.size)
+      : generateSafeCoordinate(system.coord, { x: system.coord.x + 0.2, y: system.coord.y + 0.2, z: system.coord.z + 0.2 }, 1);
+    if (candidate && !occupied.has(`${candidate.x},${candidate.y},${candidate.z}`)) coordinates = candidate;
+  }
+  if (!coordinates) return null;
+
+  const systemId = `system_${system.coordinates}`;
+  const nextIndex = Math.max(-1, ...asteroids.map(a => parseInt(a.id.split('_asteroid_')[1]) || 0)) + 1;
+  const asteroidType = getRandomAsteroidType();
+
+  return {
+    id: `${systemId}_asteroid_${nextIndex}`,
+    type: 'asteroid',
+    coordinates,
+    size: 1,
+    name: `${asteroidType.name} ${systemId.slice(-6)}-A${nextIndex + 1}`,
+    resources: [],
+    asteroidType,
+    miningProgress: {
+      totalMined: 0,
+      lastMined: new Date(0),
+      currentDepletion: 0,
+      activeMiningOperations: []
+    }
+  };
+};
+
+// Regenerate resting asteroids and occasionally reseed fields that are completely mined out
+export const advanceAsteroids = async (db: any, now: Date = new Date()): Promise<{ regenerated: number; respawned: number }> => {
+  const elapsedHours = lastAdvancedAt ? (now.getTime() - lastAdvancedAt.getTime()) / HOUR_MS : 0;
+  lastAdvancedAt = now;
+  const respawnChance = 1 - Math.exp(-ASTEROID_LIFECYCLE.respawnChancePerHour * elapsedHours);
+
+  const systems = await db.collection('systems')
+    .find({ 'staticObjects.type': 'asteroid' }, { projection: { coordinates: 1, coord: 1, staticObjects: 1 } })
+    .toArray();
+  let regenerated = 0;
+  let respawned = 0;
+
+  for (const system of systems) {
+    const asteroids: CelestialBody[] = system.staticObjects.filter(isMineable);
+    let replacedId: string | null = null;
+
+    const minedOut = asteroids.length > 0 && asteroids.every(a => a.miningProgress!.currentDepletion >= 1);
+    if (minedOut && Math.random() < respawnChance) {
+      // The longest-dead rock breaks up and a new one forms elsewhere in the system
+      const oldest = [...asteroids].sort((a, b) =>
+        new Date(a.miningProgress!.lastMined).getTime() - new Date(b.miningProgress!.lastMined).getTime())[0];
+      const replacement = createReplacementAsteroid(system, asteroids);
+
+      if (replacement) {
+        const result = await db.collection('systems').updateOne(
+          { coordinates: system.coordinates, 'staticObjects.id': oldest.id },
+          { $set: { 'staticObjects.$[asteroid]': replacement } },
+          { arrayFilters: [{ 'asteroid.id': oldest.id, 'asteroid.miningProgress.currentDepletion': { $gte: 1 }, 'asteroid.miningProgress.activeMiningOperations': { $size: 0 } }] }
+        );
+        if (result.modifiedCount === 1) {
+          console.log(`🪨 Mined-out field in ${system.coordinates} reseeded: ${replacement.name}`);
+          replacedId = oldest.id;
+          respawned++;
+        }
+      }
+    }
+
+    const operations: any[] = [];
+    for (const asteroid of asteroids) {
+      if (asteroid.id === replacedId) continue;
+      const depletion = regeneratedDepletion(asteroid, now);
+      if (depletion === null) continue;
+
+      // Guarded on the depletion we read so a mining run that lands first isn't undone
+      operations.push({
+        updateOne: {
+          filter: { coordinates: system.coordinates, 'staticObjects.id': asteroid.id },
+          update: {
+            $set: {
+              'staticObjects.$[asteroid].miningProgress.currentDepletion': depletion,
+              'staticObjects.$[asteroid].miningProgress.lastRegenerated': now
+            }
+          },
+          arrayFilters: [{ 'asteroid.id': asteroid.id, 'asteroid.miningProgress.currentDepletion': asteroid.miningProgress!.currentDepletion }]
+        }
+      });
+    }
+
+    if (operations.length === 0) continue;
+
+    const result = await db.collection('systems').bulkWrite(operations, { ordered: false });
+    regenerated += result.modifiedCount;
+  }
+
+  return { regenerated, respawned };
+};
+
+// Estimated ore left in every asteroid in the universe, by resource
+export const getOreReserves = async (db: any): Promise<OreReservesResponse> => {
+  const asteroids: Array<{ asteroidType?: AsteroidType; depletion?: number }> = await db.collection('systems').aggregate([
+    { $match: { 'staticObjects.type': 'asteroid' } },
+    { $unwind: '$staticObjects' },
+    { $match: { 'staticObjects.type': 'asteroid' } },
+    { $project: { _id: 0, asteroidType: '$staticObjects.asteroidType', depletion: '$staticObjects.miningProgress.currentDepletion' } }
+  ]).toArray();
+
+  const reserves = new Map<string, OreReserve>();
+  let depletedAsteroids = 0;
+  let totalDepletion = 0;
+
+  for (const { asteroidType, depletion = 0 } of asteroids) {
+    totalDepletion += Math.min(1, depletion);
+    if (depletion >= 1) depletedAsteroids++;
+    if (!asteroidType) continue;
+
+    for (const [itemId, units] of Object.entries(estimateAsteroidReserves(asteroidType, depletion))) {
+      const reserve = reserves.get(itemId) || {
+        itemId,
+        name: getItemById(itemId)?.name || itemId,
+        asteroids: 0,
+        depletedAsteroids: 0,
+        estimatedUnits: 0
+      };
+      reserve.asteroids++;
+      if (depletion >= 1) reserve.depletedAsteroids++;
+      reserve.estimatedUnits += units;
+      reserves.set(itemId, reserve);
+    }
+  }
+
+  return {
+    totalAsteroids: asteroids.length,
+    depletedAsteroids,
+    averageDepletion: asteroids.length > 0 ? totalDepletion / asteroids.length : 0,
+    reserves: [...reserves.values()]
+      .map(reserve => ({ ...reserve, estimatedUnits: Math.round(reserve.estimatedUnits) }))
+      .sort((a, b) => b.estimatedUnits - a.estimatedUnits),
+    generatedAt: new Date()
+  };
+};
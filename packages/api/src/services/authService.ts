@@ -0,0 +1,109 @@
+import { randomBytes, scryptSync, createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PlayerAccount, AuthTokenPayload, AuthSession } from '@stellarburn/shared';
+import { AUTH_CONFIG } from '../config/auth.js';
+
+// Functional helpers for hashing secrets
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString('base64url');
+
+const hashPassword = (password: string, salt: string): string =>
+  scryptSync(password, salt, 64).toString('hex');
+
+const hashApiKey = (apiKey: string): string =>
+  createHash('sha256').update(apiKey).digest('hex');
+
+const safeEqual = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+const signPayload = (encodedPayload: string): string =>
+  createHmac('sha256', AUTH_CONFIG.tokenSecret).update(encodedPayload).digest('base64url');
+
+// Issue a signed session token bound to a player
+export const issueSession = (playerId: string, name: string): AuthSession => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AuthTokenPayload = {
+    sub: playerId,
+    name,
+    iat: now,
+    exp: now + AUTH_CONFIG.tokenTtlSeconds
+  };
+
+  const encodedPayload = base64url(JSON.stringify(payload));
+  const token = `${encodedPayload}.${signPayload(encodedPayload)}`;
+
+  return {
+    playerId,
+    name,
+    token,
+    expiresAt: new Date(payload.exp * 1000).toISOString()
+  };
+};
+
+// Verify a session token, returning its payload or null if invalid/expired
+export const verifyToken = (token: string): AuthTokenPayload | null => {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  if (!safeEqual(signature, signPayload(encodedPayload))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as AuthTokenPayload;
+    if (!payload.sub || payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Create the account record for a newly registered player
+export const createAccount = async (db: any, playerId: string, name: string, password?: string) => {
+  if (password !== undefined && password.length < AUTH_CONFIG.minPasswordLength) {
+    throw new Error(`Password must be at least ${AUTH_CONFIG.minPasswordLength} characters`);
+  }
+
+  const apiKey = `sbk_${randomBytes(24).toString('hex')}`;
+  const passwordSalt = password ? randomBytes(16).toString('hex') : undefined;
+
+  const account: PlayerAccount = {
+    playerId,
+    name,
+    passwordHash: password && passwordSalt ? hashPassword(password, passwordSalt) : undefined,
+    passwordSalt,
+    apiKeyHash: hashApiKey(apiKey),
+    createdAt: new Date()
+  };
+
+  await db.collection('accounts').insertOne(account);
+
+  return { account, apiKey };
+};
+
+// Log in with name + password, or with an API key
+export const login = async (db: any, credentials: { name?: string; password?: string; apiKey?: string }): Promise<AuthSession> => {
+  let account: PlayerAccount | null = null;
+
+  if (credentials.apiKey) {
+    account = await db.collection('accounts').findOne({ apiKeyHash: hashApiKey(credentials.apiKey) });
+  } else if (credentials.name && credentials.password) {
+    const candidate: PlayerAccount | null = await db.collection('accounts').findOne({ name: credentials.name });
+    if (candidate?.passwordHash && candidate.passwordSalt &&
+        safeEqual(candidate.passwordHash, hashPassword(credentials.password, candidate.passwordSalt))) {
+      account = candidate;
+    }
+  } else {
+    throw new Error('Provide either name and password, or an API key');
+  }
+
+  if (!account) {
+    throw new Error('Invalid credentials');
+  }
+
+  await db.collection('accounts').updateOne(
+    { playerId: account.playerId },
+    { $set: { lastLogin: new Date() } }
+  );
+
+  return issueSession(account.playerId, account.name);
+};
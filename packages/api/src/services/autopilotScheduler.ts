@@ -0,0 +1,55 @@
+// Functional autopilot scheduler using closures to maintain state
+export interface AutopilotSchedulerInterface {
+  start: () => void;
+  stop: () => void;
+  isActive: () => boolean;
+}
+
+const AUTOPILOT_TICK_MS = 1000;
+
+// Higher-order function that creates an autopilot scheduler
+export const createAutopilotScheduler = (advanceAutopilots: () => Promise<number>): AutopilotSchedulerInterface => {
+  let intervalId: NodeJS.Timeout | null = null;
+  let isRunning = false;
+  let isTicking = false;
+
+  const start = () => {
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    console.log('🛰️ Autopilot scheduler started');
+
+    intervalId = setInterval(async () => {
+      // Skip a tick rather than fly a step twice
+      if (isTicking) return;
+      isTicking = true;
+
+      try {
+        await advanceAutopilots();
+      } catch (error) {
+        console.error('❌ Error in autopilot scheduler:', error);
+      } finally {
+        isTicking = false;
+      }
+    }, AUTOPILOT_TICK_MS); // Jobs step on their own schedule; this only checks which are due
+  };
+
+  const stop = () => {
+    if (intervalId) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Autopilot scheduler stopped');
+  };
+
+  const isActive = () => isRunning;
+
+  return {
+    start,
+    stop,
+    isActive
+  };
+};
\ No newline at end of file
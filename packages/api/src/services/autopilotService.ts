@@ -0,0 +1,275 @@
+import { randomUUID } from 'crypto';
+import { AutopilotJob, AutopilotStatus, Coordinates3D, NavigationStep, PlotObjective } from '@stellarburn/shared';
+import {
+  coordinateToString,
+  formatCoordinates,
+  getDirectionVector,
+  getShipStats,
+  isSameCoordinate
+} from '@stellarburn/shared';
+import { plotCourse } from './navigationService.js';
+import { movePlayer, jumpPlayer, traverseWormhole } from './movementService.js';
+import { publishEvent } from './eventService.js';
+import { resolveLocation } from './bookmarkService.js';
+
+const JOBS_COLLECTION = 'autopilot_jobs';
+const STEP_INTERVAL_MS = 2000; // The two seconds per step plotted courses estimate
+const MAX_REPLANS = 5;
+const DUPLICATE_KEY = 11000;
+
+const OPEN_STATUSES: AutopilotStatus[] = ['active', 'paused'];
+
+const jobs = (db: any) => db.collection(JOBS_COLLECTION);
+
+export const ensureAutopilotIndexes = async (db: any): Promise<void> => {
+  await jobs(db).createIndex({ id: 1 }, { unique: true });
+  // One open job per player, so two starts can't race each other
+  await jobs(db).createIndex({ playerId: 1 }, { unique: true, partialFilterExpression: { status: { $in: OPEN_STATUSES } } });
+  await jobs(db).createIndex({ status: 1, nextStepAt: 1 });
+};
+
+// Manual flying is refused while autopilot has the helm
+export const IN_TRANSIT_ERROR = 'Autopilot is flying this ship; pause or cancel it first';
+
+export const isInTransit = async (db: any, playerId: string): Promise<boolean> =>
+  !!await db.collection('players').findOne({ id: playerId, autopilotJobId: { $exists: true } }, { projection: { _id: 1 } });
+
+const publishProgress = (job: AutopilotJob, coordinates: Coordinates3D) => {
+  publishEvent({
+    type: 'autopilot.progress',
+    playerId: job.playerId,
+    jobId: job.id,
+    status: job.status,
+    coordinates,
+    stepsCompleted: job.stepsCompleted,
+    stepsRemaining: job.steps.length,
+    message: job.message
+  });
+};
+
+const plotFor = (db: any, player: any, destination: Coordinates3D, objective: PlotObjective, avoid: Coordinates3D[] = []) =>
+  plotCourse(db, coordinateToString(player.coordinates), coordinateToString(destination), {
+    ship: getShipStats(player.ship),
+    objective,
+    fuelBudget: player.ship.fuel,
+    knownSystems: player.knownSystems,
+    avoid
+  });
+
+export const getAutopilot = (db: any, playerId: string): Promise<AutopilotJob | null> =>
+  jobs(db).findOne({ playerId }, { sort: { createdAt: -1 }, projection: { _id: 0 } });
+
+// Plot a course to coordinates or a bookmark and hand it to the server to fly
+export const startAutopilot = async (db: any, playerId: string, destinationStr: string, objective: PlotObjective = 'fuel'): Promise<AutopilotJob> => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+  if (player.dockedAt) throw new Error('Undock before engaging autopilot');
+
+  const destination = await resolveLocation(db, playerId, destinationStr);
+
+  const path = await plotFor(db, player, destination, objective);
+  if (path.steps.length === 0) throw new Error('Already at destination');
+
+  const now = new Date();
+  const job: AutopilotJob = {
+    id: randomUUID(),
+    playerId,
+    destination: formatCoordinates(destination),
+    objective,
+    status: 'active',
+    steps: path.steps,
+    stepsCompleted: 0,
+    totalSteps: path.steps.length,
+    fuelUsed: 0,
+    replans: 0,
+    message: `Course set for ${coordinateToString(destination)}: ${path.steps.length} steps, ${path.totalFuelCost} fuel`,
+    createdAt: now,
+    updatedAt: now,
+    nextStepAt: now
+  };
+
+  try {
+    await jobs(db).insertOne({ ...job });
+  } catch (error: any) {
+    if (error?.code === DUPLICATE_KEY) throw new Error('Autopilot already has a course; cancel it first');
+    throw error;
+  }
+  await db.collection('players').updateOne({ id: playerId }, { $set: { autopilotJobId: job.id } });
+
+  console.log(`🛰️ Autopilot engaged for ${player.name} to ${coordinateToString(destination)}`);
+  publishProgress(job, player.coordinates);
+  return job;
+};
+
+// Close a job for good and hand the helm back
+const finishJob = async (db: any, job: AutopilotJob, status: AutopilotStatus, message: string, coordinates: Coordinates3D): Promise<AutopilotJob> => {
+  const now = new Date();
+  const finished = { ...job, status, message, updatedAt: now, finishedAt: now };
+  await jobs(db).updateOne({ id: job.id }, { $set: { status, message, updatedAt: now, finishedAt: now } });
+  await db.collection('players').updateOne({ id: job.playerId, autopilotJobId: job.id }, { $unset: { autopilotJobId: '' } });
+
+  publishProgress(finished, coordinates);
+  return finished;
+};
+
+export const pauseAutopilot = async (db: any, playerId: string): Promise<AutopilotJob> => {
+  const job = await jobs(db).findOneAndUpdate(
+    { playerId, status: 'active' },
+    { $set: { status: 'paused', message: 'Paused', updatedAt: new Date() } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!job) throw new Error('No active autopilot to pause');
+
+  // The ship is the pilot's again until autopilot resumes
+  await db.collection('players').updateOne({ id: playerId }, { $unset: { autopilotJobId: '' } });
+  const player = await db.collection('players').findOne({ id: playerId });
+  publishProgress(job, player?.coordinates ?? job.destination);
+  return job;
+};
+
+export const resumeAutopilot = async (db: any, playerId: string): Promise<AutopilotJob> => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+  if (player.dockedAt) throw new Error('Undock before resuming autopilot');
+
+  // A ship flown by hand while paused is re-plotted on the next tick
+  const now = new Date();
+  const job = await jobs(db).findOneAndUpdate(
+    { playerId, status: 'paused' },
+    { $set: { status: 'active', message: 'Resumed', updatedAt: now, nextStepAt: now } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!job) throw new Error('No paused autopilot to resume');
+
+  await db.collection('players').updateOne({ id: playerId }, { $set: { autopilotJobId: job.id } });
+  publishProgress(job, player.coordinates);
+  return job;
+};
+
+export const cancelAutopilot = async (db: any, playerId: string): Promise<AutopilotJob> => {
+  const job = await jobs(db).findOne({ playerId, status: { $in: OPEN_STATUSES } }, { projection: { _id: 0 } });
+  if (!job) throw new Error('No autopilot to cancel');
+
+  const player = await db.collection('players').findOne({ id: playerId });
+  return finishJob(db, job, 'cancelled', 'Cancelled by pilot', player?.coordinates ?? job.destination);
+};
+
+// Another ship parked where the next step lands; the destination itself may be shared
+const findShipInTheWay = async (db: any, playerId: string, step: NavigationStep, destination: Coordinates3D): Promise<Coordinates3D | null> => {
+  if (isSameCoordinate(step.to, destination)) return null;
+  const ship = await db.collection('players').findOne(
+    { id: { $ne: playerId }, 'coordinates.x': step.to.x, 'coordinates.y': step.to.y, 'coordinates.z': step.to.z },
+    { projection: { coordinates: 1 } }
+  );
+  return ship?.coordinates ?? null;
+};
+
+const executeStep = (db: any, playerId: string, step: NavigationStep) => {
+  if (step.type === 'wormhole') return traverseWormhole(db, playerId);
+  const directionVector = getDirectionVector(step.direction);
+  return step.type === 'jump'
+    ? jumpPlayer(db, playerId, step.direction, directionVector)
+    : movePlayer(db, playerId, step.direction, directionVector);
+};
+
+// Fly one step of a job, re-plotting first if the ship is off course or the way is blocked
+const flyStep = async (db: any, job: AutopilotJob): Promise<AutopilotJob> => {
+  const player = await db.collection('players').findOne({ id: job.playerId });
+  if (!player) return finishJob(db, job, 'cancelled', 'Player no longer exists', job.destination);
+
+  const position = formatCoordinates(player.coordinates);
+  if (isSameCoordinate(position, job.destination)) {
+    return finishJob(db, job, 'completed', `Arrived at ${coordinateToString(job.destination)}`, position);
+  }
+
+  let { steps, replans } = job;
+  const blocker = steps.length > 0 ? await findShipInTheWay(db, job.playerId, steps[0], job.destination) : null;
+  const offCourse = steps.length === 0 || !isSameCoordinate(position, steps[0].from);
+  if (blocker || offCourse) {
+    if (replans >= MAX_REPLANS) {
+      return finishJob(db, job, 'stopped', `Autopilot stopped at ${coordinateToString(position)}: course blocked too many times`, position);
+    }
+    try {
+      steps = (await plotFor(db, player, job.destination, job.objective, blocker ? [blocker] : [])).steps;
+    } catch (error) {
+      return finishJob(db, job, 'stopped', `Autopilot stopped at ${coordinateToString(position)}: ${error instanceof Error ? error.message : 'could not re-plot course'}`, position);
+    }
+    replans++;
+  }
+
+  // Stop while there's still fuel for something else rather than strand partway
+  const fuelNeeded = steps.reduce((sum, step) => sum + step.fuelCost, 0);
+  if (player.ship.fuel < fuelNeeded) {
+    return finishJob(db, job, 'stopped', `Autopilot stopped at ${coordinateToString(position)}: ${fuelNeeded} fuel needed to finish, ${player.ship.fuel} left`, position);
+  }
+
+  const [step, ...remaining] = steps;
+  let result;
+  try {
+    result = await executeStep(db, job.playerId, step);
+  } catch (error) {
+    // Leave no steps so the next tick re-plots from wherever the ship is
+    await jobs(db).updateOne({ id: job.id }, {
+      $set: { steps: [], replans, message: `${step.description} failed: ${error instanceof Error ? error.message : error}`, updatedAt: new Date() }
+    });
+    return { ...job, steps: [], replans };
+  }
+
+  const updated: AutopilotJob = {
+    ...job,
+    steps: remaining,
+    stepsCompleted: job.stepsCompleted + 1,
+    totalSteps: job.stepsCompleted + steps.length,
+    fuelUsed: job.fuelUsed + (player.ship.fuel - (result.fuel ?? player.ship.fuel)),
+    replans,
+    message: result.message ?? step.description,
+    updatedAt: new Date()
+  };
+  await jobs(db).updateOne({ id: job.id }, {
+    $set: {
+      steps: remaining,
+      stepsCompleted: updated.stepsCompleted,
+      totalSteps: updated.totalSteps,
+      fuelUsed: updated.fuelUsed,
+      replans,
+      message: updated.message,
+      updatedAt: updated.updatedAt
+    }
+  });
+
+  const arrived = result.newCoordinates ?? position;
+  if (remaining.length === 0 && isSameCoordinate(formatCoordinates(arrived), job.destination)) {
+    return finishJob(db, updated, 'completed', `Arrived at ${coordinateToString(job.destination)}`, arrived);
+  }
+
+  publishProgress(updated, arrived);
+  return updated;
+};
+
+// Scheduler tick: fly one step of every job that is due
+export const advanceAutopilots = async (db: any): Promise<number> => {
+  const now = new Date();
+  const due: AutopilotJob[] = await jobs(db).find({ status: 'active', nextStepAt: { $lte: now } }).toArray();
+
+  let advanced = 0;
+  for (const job of due) {
+    // Claim the step so another API instance doesn't fly it too
+    const claimed = await jobs(db).findOneAndUpdate(
+      { id: job.id, status: 'active', nextStepAt: job.nextStepAt },
+      { $set: { nextStepAt: new Date(now.getTime() + STEP_INTERVAL_MS) } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    if (!claimed) continue;
+
+    try {
+      await flyStep(db, claimed);
+      advanced++;
+    } catch (error) {
+      console.error(`❌ Autopilot ${job.id} failed:`, error);
+      const player = await db.collection('players').findOne({ id: job.playerId });
+      await finishJob(db, claimed, 'stopped', `Autopilot stopped: ${error instanceof Error ? error.message : 'unexpected error'}`, player?.coordinates ?? claimed.destination);
+    }
+  }
+
+  return advanced;
+};
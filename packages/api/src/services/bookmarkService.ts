@@ -0,0 +1,173 @@
+import { Bookmark, BookmarkKind, CelestialBody, Coordinates3D } from '@stellarburn/shared';
+import { formatCoordinates, getSystemCoords, parseCoordinates, validateCoordinates } from '@stellarburn/shared';
+import { getSystemIntel } from './intelService.js';
+
+const BOOKMARKS_COLLECTION = 'bookmarks';
+const DUPLICATE_KEY = 11000;
+
+// Names start with a letter so they can never be mistaken for coordinates
+const NAME_PATTERN = /^[A-Za-z][\w -]{0,31}$/;
+const AUTO_NAMES = ['home', 'last-dock'];
+
+export const BOOKMARK_KINDS: BookmarkKind[] = ['coordinates', 'station', 'asteroid', 'system'];
+
+export interface BookmarkInput {
+  name?: string;
+  kind?: BookmarkKind;
+  target?: string; // Station or asteroid ID, or "x,y,z"; defaults to where the player is
+}
+
+const bookmarks = (db: any) => db.collection(BOOKMARKS_COLLECTION);
+
+// Lookups ignore case, so "Home" and "home" are the same bookmark
+const bookmarkKey = (name: string) => name.trim().toLowerCase();
+
+export const ensureBookmarkIndexes = async (db: any): Promise<void> => {
+  await bookmarks(db).createIndex({ playerId: 1, key: 1 }, { unique: true });
+};
+
+const parseTargetCoordinates = (target: string): Coordinates3D => {
+  const coordinates = parseCoordinates(target);
+  if (!validateCoordinates(coordinates)) throw new Error(`Invalid coordinates: ${target}`);
+  return formatCoordinates(coordinates);
+};
+
+// Only bodies the player has seen, in a system they have been to or in their own intel, can be bookmarked;
+// anything else reads as not found so IDs can't be used to locate unexplored stations and asteroids
+const findKnownObject = async (db: any, player: any, type: 'station' | 'asteroid', id: string): Promise<CelestialBody | null> => {
+  const system = await db.collection('systems').findOne({ 'staticObjects.id': id }, { projection: { coordinates: 1, staticObjects: 1 } });
+  const body: CelestialBody | null = system?.staticObjects.find((obj: CelestialBody) => obj.id === id && obj.type === type) ?? null;
+  if (!body) return null;
+
+  if ((player.knownSystems || []).includes(system.coordinates)) return body;
+  const [snapshot] = await getSystemIntel(db, player.id, [system.coordinates]);
+  return snapshot?.objects.some(obj => obj.id === id) ? body : null;
+};
+
+// Where a bookmark of this kind leads; systems lead to their x.0,y.0,z.0 corner, which a jump can always reach
+const resolveTarget = async (db: any, player: any, kind: BookmarkKind, target?: string): Promise<Pick<Bookmark, 'coordinates' | 'targetId'>> => {
+  switch (kind) {
+    case 'coordinates':
+      return { coordinates: target ? parseTargetCoordinates(target) : formatCoordinates(player.coordinates) };
+    case 'system':
+      return { coordinates: getSystemCoords(target ? parseTargetCoordinates(target) : player.coordinates) };
+    case 'station': {
+      const stationId = target ?? player.dockedAt;
+      if (!stationId) throw new Error('Give a station ID, or dock at the station to bookmark it');
+      const station = await findKnownObject(db, player, 'station', stationId);
+      if (!station) throw new Error(`Station not found: ${stationId}`);
+      return { coordinates: station.coordinates, targetId: station.id };
+    }
+    case 'asteroid': {
+      if (!target) throw new Error('Give the ID of the asteroid to bookmark');
+      const asteroid = await findKnownObject(db, player, 'asteroid', target);
+      if (!asteroid) throw new Error(`Asteroid not found: ${target}`);
+      return { coordinates: asteroid.coordinates, targetId: asteroid.id };
+    }
+    default:
+      throw new Error(`Bookmark kind must be one of: ${BOOKMARK_KINDS.join(', ')}`);
+  }
+};
+
+const validateName = (name: unknown): string => {
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name.trim())) {
+    throw new Error('Bookmark names are 1-32 letters, digits, spaces, dashes or underscores, starting with a letter');
+  }
+  if (AUTO_NAMES.includes(bookmarkKey(name))) {
+    throw new Error(`"${name.trim()}" is kept up to date by the game`);
+  }
+  return name.trim();
+};
+
+const getPlayer = async (db: any, playerId: string) => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+  return player;
+};
+
+export const listBookmarks = (db: any, playerId: string): Promise<Bookmark[]> =>
+  bookmarks(db).find({ playerId }, { projection: { _id: 0, key: 0 } }).sort({ auto: -1, key: 1 }).toArray();
+
+export const getBookmark = (db: any, playerId: string, name: string): Promise<Bookmark | null> =>
+  bookmarks(db).findOne({ playerId, key: bookmarkKey(name) }, { projection: { _id: 0, key: 0 } });
+
+export const createBookmark = async (db: any, playerId: string, input: BookmarkInput): Promise<Bookmark> => {
+  const name = validateName(input.name);
+  const player = await getPlayer(db, playerId);
+  const kind = input.kind ?? 'coordinates';
+
+  const now = new Date();
+  const bookmark: Bookmark = {
+    playerId,
+    name,
+    kind,
+    ...await resolveTarget(db, player, kind, input.target),
+    auto: false,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await bookmarks(db).insertOne({ ...bookmark, key: bookmarkKey(name) });
+  } catch (error: any) {
+    if (error?.code === DUPLICATE_KEY) throw new Error(`You already have a bookmark named "${name}"`);
+    throw error;
+  }
+  return bookmark;
+};
+
+// Rename and/or re-point a bookmark; null when there is no such bookmark
+export const updateBookmark = async (db: any, playerId: string, name: string, input: BookmarkInput): Promise<Bookmark | null> => {
+  const existing = await getBookmark(db, playerId, name);
+  if (!existing) return null;
+  if (existing.auto) throw new Error(`"${existing.name}" is kept up to date by the game`);
+
+  const newName = input.name !== undefined ? validateName(input.name) : existing.name;
+  const kind = input.kind ?? existing.kind;
+  const target = input.kind !== undefined || input.target !== undefined
+    ? await resolveTarget(db, await getPlayer(db, playerId), kind, input.target)
+    : { coordinates: existing.coordinates, targetId: existing.targetId };
+
+  const updated: Bookmark = { ...existing, ...target, name: newName, kind, updatedAt: new Date() };
+  if (!updated.targetId) delete updated.targetId;
+
+  try {
+    await bookmarks(db).replaceOne({ playerId, key: bookmarkKey(name) }, { ...updated, key: bookmarkKey(newName) });
+  } catch (error: any) {
+    if (error?.code === DUPLICATE_KEY) throw new Error(`You already have a bookmark named "${newName}"`);
+    throw error;
+  }
+  return updated;
+};
+
+export const deleteBookmark = async (db: any, playerId: string, name: string): Promise<boolean> => {
+  const result = await bookmarks(db).deleteOne({ playerId, key: bookmarkKey(name) });
+  return result.deletedCount > 0;
+};
+
+// Docking keeps last-dock current, and the first station a player docks at becomes home
+export const recordDock = async (db: any, playerId: string, station: CelestialBody): Promise<void> => {
+  const now = new Date();
+  const target = { kind: 'station', coordinates: station.coordinates, targetId: station.id, auto: true };
+
+  await bookmarks(db).updateOne(
+    { playerId, key: 'last-dock' },
+    { $set: { ...target, name: 'last-dock', updatedAt: now }, $setOnInsert: { playerId, createdAt: now } },
+    { upsert: true }
+  );
+  await bookmarks(db).updateOne(
+    { playerId, key: 'home' },
+    { $setOnInsert: { ...target, playerId, name: 'home', createdAt: now, updatedAt: now } },
+    { upsert: true }
+  );
+};
+
+// A coordinate string as given, or the position a bookmark name stands for
+export const resolveLocation = async (db: any, playerId: string, value: string): Promise<Coordinates3D> => {
+  const trimmed = value.trim();
+  if (/^-?[\d.]/.test(trimmed)) return parseTargetCoordinates(trimmed);
+
+  const bookmark = await getBookmark(db, playerId, trimmed);
+  if (!bookmark) throw new Error(`No bookmark named "${trimmed}"`);
+  return bookmark.coordinates;
+};
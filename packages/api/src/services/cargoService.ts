@@ -0,0 +1,53 @@
+import { TRADE_ITEMS } from '@stellarburn/shared';
+
+// Weight of one unit of the cargo entry in $$this, looked up from the item catalogue inside Mongo
+const unitWeightExpr = {
+  $switch: {
+    branches: TRADE_ITEMS
+      .filter(item => item.weight > 0)
+      .map(item => ({ case: { $eq: ['$$this.itemId', item.id] }, then: item.weight })),
+    default: 0
+  }
+};
+
+// Total weight of a player's hold, sealed contract cargo included, as stored right now
+const cargoWeightExpr = {
+  $reduce: {
+    input: { $concatArrays: [{ $ifNull: ['$ship.cargo', []] }, { $ifNull: ['$ship.contractCargo', []] }] },
+    initialValue: 0,
+    in: { $add: ['$$value', { $multiply: ['$$this.quantity', unitWeightExpr] }] }
+  }
+};
+
+// Filter that only matches a player whose hold can take addedWeight more, so concurrent loads can't overfill it
+export const cargoSpaceGuard = (addedWeight: number) => ({
+  $expr: { $lte: [{ $add: [cargoWeightExpr, addedWeight] }, '$ship.maxCargo'] }
+});
+
+// Stack goods onto the player's hold, or push a new entry, only if they fit; false when they don't
+export const addCargo = async (
+  db: any,
+  playerId: string,
+  cargo: { itemId: string; quantity: number; purchasePrice: number },
+  weight: number
+): Promise<boolean> => {
+  const players = db.collection('players');
+  const guard = { id: playerId, ...cargoSpaceGuard(weight) };
+
+  // Retry once if another update added or removed the stack between the two attempts
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const stacked = await players.updateOne(
+      { ...guard, 'ship.cargo.itemId': cargo.itemId },
+      { $inc: { 'ship.cargo.$.quantity': cargo.quantity }, $set: { lastActivity: new Date() } }
+    );
+    if (stacked.modifiedCount === 1) return true;
+
+    const pushed = await players.updateOne(
+      { ...guard, 'ship.cargo.itemId': { $ne: cargo.itemId } },
+      { $push: { 'ship.cargo': cargo }, $set: { lastActivity: new Date() } }
+    );
+    if (pushed.modifiedCount === 1) return true;
+  }
+
+  return false;
+};
@@ -0,0 +1,382 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { CelestialBody, ChartItem, ChartSummary, ChartSystem, StarChart, SystemIntel } from '@stellarburn/shared';
+import { coordinateToString, getStationTypeKey, getSystemCoords, parseSnapshotRegion } from '@stellarburn/shared';
+import { AUTH_CONFIG } from '../config/auth.js';
+import { getSystemIntel, mergeChartIntel } from './intelService.js';
+import { findStationById } from './stationService.js';
+import { TradeError } from './tradeJournalService.js';
+
+const CHARTS_COLLECTION = 'star_charts';
+const STATION_INTEL_COLLECTION = 'station_chart_intel'; // Which observation of each system a station has paid for
+const DUPLICATE_KEY = 11000;
+const CHART_FORMAT = 'stellarburn-chart';
+const CHART_VERSION = 1;
+
+export const CHART_FILTERS = ['all', 'stations', 'asteroids'];
+
+// What a Research station pays per charted system; intel loses value as it ages
+const CHART_PRICING = {
+  perSystem: 5,
+  perStation: 40,
+  perAsteroid: 10,
+  staleAfterDays: 30,
+  minFreshness: 0.25,
+  resaleMarkup: 1.5 // Stations sell copies for this much more than they paid
+};
+
+const charts = (db: any) => db.collection(CHARTS_COLLECTION);
+const stationIntel = (db: any) => db.collection(STATION_INTEL_COLLECTION);
+
+export const ensureChartIndexes = async (db: any): Promise<void> => {
+  await charts(db).createIndex({ id: 1 }, { unique: true });
+  await charts(db).createIndex({ holderId: 1 });
+  await charts(db).createIndex({ 'offer.toPlayerId': 1 }, { sparse: true });
+  await stationIntel(db).createIndex({ stationId: 1, system: 1 }, { unique: true });
+};
+
+// The signature covers everything a reader takes from the chart, in a fixed key order
+const signChart = (chart: Omit<StarChart, 'signature'>): string =>
+  createHmac('sha256', AUTH_CONFIG.chartSecret)
+    .update(JSON.stringify({
+      format: chart.format,
+      version: chart.version,
+      name: chart.name,
+      issuedBy: chart.issuedBy,
+      issuedAt: new Date(chart.issuedAt).toISOString(),
+      systems: chart.systems
+    }))
+    .digest('base64url');
+
+const isSignedChart = (chart: any): chart is StarChart => {
+  if (!chart || chart.format !== CHART_FORMAT || chart.version !== CHART_VERSION) return false;
+  if (typeof chart.signature !== 'string' || !Array.isArray(chart.systems) || isNaN(Date.parse(chart.issuedAt))) return false;
+
+  const expected = Buffer.from(signChart(chart));
+  const actual = Buffer.from(chart.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const toPortable = (item: ChartItem): StarChart => ({
+  format: item.format,
+  version: item.version,
+  name: item.name,
+  issuedBy: item.issuedBy,
+  issuedAt: item.issuedAt,
+  systems: item.systems,
+  signature: item.signature
+});
+
+const countObjects = (systems: ChartSystem[], type: CelestialBody['type']) =>
+  systems.reduce((total, system) => total + system.objects.filter(obj => obj.type === type).length, 0);
+
+const summarize = ({ systems, signature, ...item }: ChartItem): ChartSummary => ({
+  ...item,
+  systemCount: systems.length,
+  stationCount: countObjects(systems, 'station')
+});
+
+// Research station price for a chart, system by system
+export const chartValue = (chart: Pick<StarChart, 'systems'>, now: Date = new Date()): number =>
+  Math.round(chart.systems.reduce((total, system) => {
+    const ageDays = (now.getTime() - new Date(system.observedAt).getTime()) / 86400000;
+    const freshness = Math.max(CHART_PRICING.minFreshness, 1 - ageDays / CHART_PRICING.staleAfterDays);
+    const base = CHART_PRICING.perSystem
+      + countObjects([system], 'station') * CHART_PRICING.perStation
+      + countObjects([system], 'asteroid') * CHART_PRICING.perAsteroid;
+    return total + base * freshness;
+  }, 0));
+
+// Known systems matching 'all', 'stations', 'asteroids' or a region "x1,y1,z1:x2,y2,z2"
+const selectSystems = (snapshots: SystemIntel[], filter: string): SystemIntel[] => {
+  if (filter === 'all') return snapshots;
+  if (filter === 'stations') return snapshots.filter(snapshot => snapshot.objects.some(obj => obj.type === 'station'));
+  if (filter === 'asteroids') return snapshots.filter(snapshot => snapshot.objects.some(obj => obj.type === 'asteroid'));
+
+  const { min, max } = parseSnapshotRegion(filter);
+  return snapshots.filter(({ coord }) =>
+    coord.x >= min.x && coord.x <= max.x && coord.y >= min.y && coord.y <= max.y && coord.z >= min.z && coord.z <= max.z
+  );
+};
+
+// Copy a player's intel on some of their known systems into a signed chart they hold
+export const exportChart = async (db: any, playerId: string, filter: string = 'all', name?: string): Promise<ChartItem> => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+
+  const snapshots = await getSystemIntel(db, playerId, player.knownSystems || []);
+  const selected = selectSystems(snapshots, filter);
+  if (selected.length === 0) throw new Error(`None of your charted systems match "${filter}"`);
+
+  const unsigned: Omit<StarChart, 'signature'> = {
+    format: CHART_FORMAT,
+    version: CHART_VERSION,
+    name: name?.trim() || `${player.name}'s chart (${filter})`,
+    issuedBy: player.name,
+    issuedAt: new Date(),
+    systems: selected.map(({ system, coord, objects, observedAt }) => ({ system, coord, objects, observedAt }))
+  };
+
+  const chart: ChartItem = {
+    ...unsigned,
+    signature: signChart(unsigned),
+    id: randomUUID(),
+    holderId: playerId,
+    createdAt: new Date()
+  };
+  await charts(db).insertOne({ ...chart });
+
+  console.log(`🗺️ ${player.name} drew a chart of ${chart.systems.length} systems`);
+  return chart;
+};
+
+// Merge a chart into a pilot's known systems and intel, keeping whatever they saw more recently
+const readChart = async (db: any, playerId: string, chart: StarChart): Promise<number> => {
+  await db.collection('players').updateOne(
+    { id: playerId },
+    { $addToSet: { knownSystems: { $each: chart.systems.map(system => system.system) } } }
+  );
+  return mergeChartIntel(db, playerId, chart.systems);
+};
+
+// Read a chart file; only charts signed by this server are accepted
+export const importChart = async (db: any, playerId: string, chart: unknown) => {
+  if (!isSignedChart(chart)) throw new Error('Chart signature is invalid: it was altered or drawn in another universe');
+
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+
+  const updated = await readChart(db, playerId, chart);
+  return { name: chart.name, issuedBy: chart.issuedBy, systems: chart.systems.length, updated };
+};
+
+// Charts the player holds and charts other pilots are offering them
+export const listCharts = async (db: any, playerId: string) => {
+  const projection = { projection: { _id: 0 } };
+  const held: ChartItem[] = await charts(db).find({ holderId: playerId }, projection).sort({ createdAt: -1 }).toArray();
+  const offered: ChartItem[] = await charts(db).find({ 'offer.toPlayerId': playerId }, projection).sort({ createdAt: -1 }).toArray();
+  return { held: held.map(summarize), offered: offered.map(summarize) };
+};
+
+// The signed file for a chart the player holds; null when they don't hold it
+export const getChartFile = async (db: any, playerId: string, chartId: string): Promise<StarChart | null> => {
+  const chart = await charts(db).findOne({ id: chartId, holderId: playerId }, { projection: { _id: 0 } });
+  return chart ? toPortable(chart) : null;
+};
+
+// Give a chart to another pilot, or offer it at a price they have to accept
+export const offerChart = async (db: any, playerId: string, chartId: string, toName: string, price: number = 0) => {
+  const recipient = await db.collection('players').findOne({ name: toName });
+  if (!recipient) throw new Error(`No pilot named ${toName}`);
+  if (recipient.id === playerId) throw new Error('You already hold this chart');
+
+  if (price === 0) {
+    const chart: ChartItem | null = await charts(db).findOneAndUpdate(
+      { id: chartId, holderId: playerId },
+      { $set: { holderId: recipient.id }, $unset: { offer: '' } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    if (!chart) throw new Error('You do not hold that chart');
+
+    const updated = await readChart(db, recipient.id, chart);
+    return { chart: summarize(chart), given: true, updated };
+  }
+
+  const chart: ChartItem | null = await charts(db).findOneAndUpdate(
+    { id: chartId, holderId: playerId },
+    { $set: { offer: { toPlayerId: recipient.id, toName: recipient.name, price } } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!chart) throw new Error('You do not hold that chart');
+  return { chart: summarize(chart), given: false };
+};
+
+// Pay for a chart offered to the player and read it
+export const acceptChartOffer = async (db: any, playerId: string, chartId: string) => {
+  // Claim the chart first so it can only be sold once
+  const chart: ChartItem | null = await charts(db).findOneAndUpdate(
+    { id: chartId, 'offer.toPlayerId': playerId },
+    { $set: { holderId: playerId }, $unset: { offer: '' } },
+    { returnDocument: 'before', projection: { _id: 0 } }
+  );
+  if (!chart?.offer) throw new Error('That chart is not on offer to you');
+
+  const { price } = chart.offer;
+  const paid = await db.collection('players').updateOne({ id: playerId, credits: { $gte: price } }, { $inc: { credits: -price } });
+  if (paid.modifiedCount === 0) {
+    await charts(db).updateOne({ id: chartId, holderId: playerId }, { $set: { holderId: chart.holderId, offer: chart.offer } });
+    throw new Error(`Insufficient credits. Need ${price}`);
+  }
+  await db.collection('players').updateOne({ id: chart.holderId }, { $inc: { credits: price } });
+
+  const { offer, ...accepted } = { ...chart, holderId: playerId };
+  const updated = await readChart(db, playerId, accepted);
+  return { chart: summarize(accepted), price, updated };
+};
+
+// Either side can call off a pending sale; false when there was none
+export const declineChartOffer = async (db: any, playerId: string, chartId: string): Promise<boolean> => {
+  const result = await charts(db).updateOne(
+    { id: chartId, offer: { $exists: true }, $or: [{ holderId: playerId }, { 'offer.toPlayerId': playerId }] },
+    { $unset: { offer: '' } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Only Research stations deal in charts
+const getDockedResearchStation = async (db: any, playerId: string) => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  if (!player.dockedAt) throw new TradeError('You must be docked at a Research station', 400, 'NOT_DOCKED');
+
+  const station: CelestialBody | null = await findStationById(db, player.dockedAt);
+  if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
+  if (getStationTypeKey(station) !== 'Research') {
+    throw new TradeError(`${station.name} does not deal in star charts`, 400, 'NOT_A_RESEARCH_STATION');
+  }
+
+  return { player, station };
+};
+
+// Move credits in or out of a station; false when it can't cover a payment
+const adjustStationCredits = async (db: any, station: CelestialBody, change: number): Promise<boolean> => {
+  const result = await db.collection('systems').updateOne(
+    {
+      coordinates: coordinateToString(getSystemCoords(station.coordinates)),
+      staticObjects: { $elemMatch: { id: station.id, ...(change < 0 && { credits: { $gte: -change } }) } }
+    },
+    { $inc: { 'staticObjects.$[station].credits': change }, $set: { lastActivity: new Date() } },
+    { arrayFilters: [{ 'station.id': station.id }] }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Systems on a chart the station hasn't already paid for at that observation time or later
+const unpaidSystems = async (db: any, stationId: string, systems: ChartSystem[]): Promise<ChartSystem[]> => {
+  const records = await stationIntel(db).find({ stationId, system: { $in: systems.map(charted => charted.system) } }).toArray();
+  const paidFor = new Map<string, Date>(records.map((record: any) => [record.system, new Date(record.observedAt)]));
+  return systems.filter(charted => {
+    const paid = paidFor.get(charted.system);
+    return !paid || new Date(charted.observedAt) > paid;
+  });
+};
+
+type IntelClaim = { system: ChartSystem; previous?: Date };
+
+// Mark systems as paid for; a concurrent sale of the same intel claims each system at most once
+const claimSystems = async (db: any, stationId: string, systems: ChartSystem[]): Promise<IntelClaim[]> => {
+  const claims: IntelClaim[] = [];
+  for (const charted of systems) {
+    const observedAt = new Date(charted.observedAt);
+    try {
+      const before = await stationIntel(db).findOneAndUpdate(
+        { stationId, system: charted.system, observedAt: { $lt: observedAt } },
+        { $set: { observedAt } },
+        { upsert: true, returnDocument: 'before' }
+      );
+      claims.push({ system: charted, previous: before?.observedAt });
+    } catch (error: any) {
+      // Another sale recorded this or a newer observation first
+      if (error?.code !== DUPLICATE_KEY) throw error;
+    }
+  }
+  return claims;
+};
+
+// Hand claims back when the sale falls through
+const releaseClaims = async (db: any, stationId: string, claims: IntelClaim[]) => {
+  for (const { system, previous } of claims) {
+    const filter = { stationId, system: system.system, observedAt: new Date(system.observedAt) };
+    if (previous) await stationIntel(db).updateOne(filter, { $set: { observedAt: previous } });
+    else await stationIntel(db).deleteOne(filter);
+  }
+};
+
+// Charts the docked Research station has for sale, with what it would pay for the player's own
+export const getStationCharts = async (db: any, playerId: string) => {
+  const { station } = await getDockedResearchStation(db, playerId);
+  const forSale: ChartItem[] = await charts(db).find({ holderId: station.id }, { projection: { _id: 0 } }).sort({ createdAt: -1 }).toArray();
+  const held: ChartItem[] = await charts(db).find({ holderId: playerId, offer: { $exists: false } }, { projection: { _id: 0 } }).toArray();
+
+  return {
+    station: { id: station.id, name: station.name, credits: station.credits || 0 },
+    forSale: forSale.map(summarize),
+    offers: await Promise.all(held.map(async chart => ({
+      chartId: chart.id,
+      name: chart.name,
+      price: chartValue({ systems: await unpaidSystems(db, station.id, chart.systems) })
+    })))
+  };
+};
+
+export const sellChartToStation = async (db: any, playerId: string, chartId: string) => {
+  const { player, station } = await getDockedResearchStation(db, playerId);
+
+  const chart: ChartItem | null = await charts(db).findOne({ id: chartId, holderId: playerId });
+  if (!chart) throw new TradeError('You do not hold that chart', 404, 'CHART_NOT_FOUND');
+  if (chart.offer) throw new TradeError(`Chart is on offer to ${chart.offer.toName}; withdraw it first`, 409, 'CHART_ON_OFFER');
+
+  // Stations only pay for intel newer than what they already bought, so copies of one chart sell once
+  const alreadyKnown = new TradeError(`${station.name} already has everything on "${chart.name}"`, 409, 'CHART_ALREADY_KNOWN');
+  if ((await unpaidSystems(db, station.id, chart.systems)).length === 0) throw alreadyKnown;
+
+  const claims = await claimSystems(db, station.id, chart.systems);
+  const price = chartValue({ systems: claims.map(claim => claim.system) });
+  if (price <= 0) {
+    await releaseClaims(db, station.id, claims);
+    throw alreadyKnown;
+  }
+
+  if (!await adjustStationCredits(db, station, -price)) {
+    await releaseClaims(db, station.id, claims);
+    throw new TradeError(`${station.name} cannot afford ${price} credits`, 409, 'STATION_INSUFFICIENT_CREDITS', true);
+  }
+
+  // The station lists the chart at a markup for the next pilot
+  const moved = await charts(db).updateOne(
+    { id: chartId, holderId: playerId, offer: { $exists: false } },
+    { $set: { holderId: station.id, price: Math.ceil(price * CHART_PRICING.resaleMarkup) } }
+  );
+  if (moved.modifiedCount === 0) {
+    await adjustStationCredits(db, station, price);
+    await releaseClaims(db, station.id, claims);
+    throw new TradeError('The chart changed hands before the sale completed', 409, 'CHART_CHANGED', true);
+  }
+  await db.collection('players').updateOne({ id: playerId }, { $inc: { credits: price } });
+
+  return {
+    success: true,
+    message: `Sold "${chart.name}" to ${station.name} for ${price} credits`,
+    price,
+    credits: player.credits + price
+  };
+};
+
+// Stations sell copies, so the same chart stays on sale for the next pilot
+export const buyChartFromStation = async (db: any, playerId: string, chartId: string) => {
+  const { station } = await getDockedResearchStation(db, playerId);
+
+  const chart: ChartItem | null = await charts(db).findOne({ id: chartId, holderId: station.id }, { projection: { _id: 0 } });
+  if (!chart) throw new TradeError(`${station.name} has no such chart for sale`, 404, 'CHART_NOT_FOUND');
+
+  const price = chart.price ?? chartValue(chart);
+  const paid = await db.collection('players').findOneAndUpdate(
+    { id: playerId, dockedAt: station.id, credits: { $gte: price } },
+    { $inc: { credits: -price } },
+    { returnDocument: 'after' }
+  );
+  if (!paid) throw new TradeError(`Insufficient credits. Need ${price}`, 400, 'INSUFFICIENT_CREDITS', true);
+  await adjustStationCredits(db, station, price);
+
+  const copy: ChartItem = { ...toPortable(chart), id: randomUUID(), holderId: playerId, createdAt: new Date() };
+  await charts(db).insertOne({ ...copy });
+  const updated = await readChart(db, playerId, copy);
+
+  return {
+    success: true,
+    message: `Bought "${chart.name}" for ${price} credits; ${updated} systems updated`,
+    chart: summarize(copy),
+    price,
+    updated,
+    credits: paid.credits
+  };
+};
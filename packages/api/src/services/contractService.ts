@@ -0,0 +1,666 @@
+import { randomUUID } from 'crypto';
+import { Contract, ContractType, MissionBoardResponse, CargoItem, CelestialBody, StationInventory, TradeItem, UniverseMetadata } from '@stellarburn/shared';
+import { FIXED_PRICE_ITEMS, STATION_TYPES, StationTypeKey, getHoldWeight, getItemById, getItemsByCategory, getStationTypeKey, calculate3DDistance, coordinateToString, isSystemPresent, stringToCoordinate } from '@stellarburn/shared';
+import { findStationById } from './stationService.js';
+import { StationTradeDelta, TradeError } from './tradeJournalService.js';
+import { creditPlayer, pullPlayerTag } from './orderService.js';
+import { repriceAfterTrade } from './marketService.js';
+import { cargoSpaceGuard } from './cargoService.js';
+import { publishEvent } from './eventService.js';
+
+const CONTRACTS_COLLECTION = 'contracts';
+const BOARD_SIZE = 5;
+const OFFER_LIFETIME_HOURS = 6;
+const MAX_ACTIVE_CONTRACTS = 5;
+const NEARBY_RADIUS = 5; // Destinations and survey targets come from this many systems around the issuer
+const SURVEY_TARGETS = 3;
+const STALE_MS = 30000; // Payouts and penalties older than this are treated as interrupted
+
+// What each specialization tends to post
+const CONTRACT_WEIGHTS: Record<StationTypeKey, Record<ContractType, number>> = {
+  Military: { delivery: 0.4, survey: 0.4, haul: 0.2 },
+  Mining: { delivery: 0.3, survey: 0.1, haul: 0.6 },
+  Trading: { delivery: 0.4, survey: 0.1, haul: 0.5 },
+  Research: { delivery: 0.3, survey: 0.6, haul: 0.1 },
+  Outpost: { delivery: 0.5, survey: 0.3, haul: 0.2 }
+};
+
+const QUANTITY_BY_RARITY = { common: [10, 30], uncommon: [5, 15], rare: [2, 6], legendary: [1, 2] };
+
+type NearbyStation = { station: CelestialBody; system: string; distance: number };
+
+const payoutTag = (contractId: string) => `contract:${contractId}:payout`;
+const penaltyTag = (contractId: string) => `contract:${contractId}:penalty`;
+const collateralTag = (contractId: string) => `contract:${contractId}:collateral`;
+
+const randomInt = (min: number, max: number) => min + Math.floor(Math.random() * (max - min + 1));
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export const ensureContractIndexes = async (db: any) => {
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  await contracts.createIndex({ id: 1 }, { unique: true });
+  await contracts.createIndex({ issuerStationId: 1, status: 1 });
+  await contracts.createIndex({ acceptedBy: 1, status: 1 });
+  await contracts.createIndex({ status: 1, deadline: 1 });
+  await contracts.createIndex({ status: 1, offerExpiresAt: 1 });
+};
+
+const getContract = async (db: any, contractId: string): Promise<Contract | null> =>
+  db.collection(CONTRACTS_COLLECTION).findOne({ id: contractId }, { projection: { _id: 0 } });
+
+const notify = (contract: Contract, playerId: string, status: 'accepted' | 'progress' | 'completed' | 'failed', message: string) => {
+  publishEvent({
+    type: 'contract.updated',
+    playerId,
+    contractId: contract.id,
+    title: contract.title,
+    status,
+    message
+  });
+};
+
+// Stations in systems around the issuer, nearest first
+const findNearbyStations = async (db: any, issuerId: string, system: string): Promise<NearbyStation[]> => {
+  const center = stringToCoordinate(system);
+  const systems = await db.collection('systems').find({
+    'coord.x': { $gte: center.x - NEARBY_RADIUS, $lte: center.x + NEARBY_RADIUS },
+    'coord.y': { $gte: center.y - NEARBY_RADIUS, $lte: center.y + NEARBY_RADIUS },
+    'coord.z': { $gte: center.z - NEARBY_RADIUS, $lte: center.z + NEARBY_RADIUS },
+    'staticObjects.type': 'station'
+  }, { projection: { coordinates: 1, coord: 1, staticObjects: 1 } }).toArray();
+
+  return systems
+    .flatMap((sys: any) => sys.staticObjects
+      .filter((obj: any) => obj.type === 'station' && obj.id !== issuerId)
+      .map((station: CelestialBody) => ({ station, system: sys.coordinates, distance: calculate3DDistance(center, sys.coord) })))
+    .sort((a: NearbyStation, b: NearbyStation) => a.distance - b.distance);
+};
+
+// Systems around the issuer that no player has visited yet; most aren't generated, so they come from the seed
+const findUnexploredSystems = async (db: any, system: string, count: number): Promise<string[]> => {
+  const metadata: UniverseMetadata | null = await db.collection('universe').findOne({ id: 'config' });
+  if (!metadata?.seed) return [];
+
+  const center = stringToCoordinate(system);
+  const candidates: string[] = [];
+  for (let dx = -NEARBY_RADIUS; dx <= NEARBY_RADIUS; dx++) {
+    for (let dy = -NEARBY_RADIUS; dy <= NEARBY_RADIUS; dy++) {
+      for (let dz = -NEARBY_RADIUS; dz <= NEARBY_RADIUS; dz++) {
+        const coordinates = { x: center.x + dx, y: center.y + dy, z: center.z + dz };
+        if ((dx || dy || dz) && isSystemPresent(metadata.seed, metadata.sparsity, coordinates)) {
+          candidates.push(coordinateToString(coordinates));
+        }
+      }
+    }
+  }
+
+  const known = new Set(await db.collection('players').distinct('knownSystems', { knownSystems: { $in: candidates } }));
+  const unexplored = candidates.filter(coord => !known.has(coord));
+
+  // Partial shuffle so targets are scattered rather than always the first found
+  for (let i = 0; i < Math.min(count, unexplored.length); i++) {
+    const j = randomInt(i, unexplored.length - 1);
+    [unexplored[i], unexplored[j]] = [unexplored[j], unexplored[i]];
+  }
+  return unexplored.slice(0, count);
+};
+
+// Quantity that fits comfortably in a starter hold
+const contractQuantity = (item: TradeItem) => {
+  const [min, max] = QUANTITY_BY_RARITY[item.rarity];
+  const maxByWeight = Math.max(1, Math.floor(25 / Math.max(item.weight, 1)));
+  return Math.min(randomInt(min, max), maxByWeight);
+};
+
+const pickItem = (categories: TradeItem['category'][]): TradeItem | undefined => {
+  const items = categories.flatMap(category => getItemsByCategory(category));
+  return items.length > 0 ? pick(items) : undefined;
+};
+
+// The deposit covers what the goods would cost to buy from the issuer right now, and never less than their base value
+const haulCollateral = (item: TradeItem, offer: StationInventory, quantity: number) =>
+  Math.max(offer.sellPrice, item.basePrice) * quantity;
+
+// Allowed time scales with the trip, rounded to the half hour
+const durationFor = (distance: number) => Math.round((2 + distance * 0.5) * 2) / 2;
+
+const buildContract = (
+  issuer: CelestialBody,
+  issuerSystem: string,
+  now: Date,
+  fields: Pick<Contract, 'type' | 'title' | 'description' | 'reward' | 'collateral' | 'penalty' | 'durationHours'> &
+    Partial<Pick<Contract, 'itemId' | 'quantity' | 'targetSystems'>> &
+    { destination: { station: CelestialBody; system: string } }
+): Contract => {
+  const { destination, ...rest } = fields;
+  return {
+    id: randomUUID().slice(0, 8),
+    status: 'available',
+    issuerStationId: issuer.id,
+    issuerStationName: issuer.name,
+    issuerSystem,
+    destinationStationId: destination.station.id,
+    destinationStationName: destination.station.name,
+    destinationSystem: destination.system,
+    ...rest,
+    ...(rest.quantity ? { deliveredQuantity: 0 } : {}),
+    ...(rest.targetSystems ? { surveyedSystems: [] } : {}),
+    offerExpiresAt: new Date(now.getTime() + OFFER_LIFETIME_HOURS * 3600000),
+    createdAt: now
+  };
+};
+
+// Deliver goods the destination's specialization consumes
+const generateDelivery = (issuer: CelestialBody, issuerSystem: string, nearby: NearbyStation[], now: Date): Contract | null => {
+  if (nearby.length === 0) return null;
+  const destination = pick(nearby.slice(0, 5));
+  const item = pickItem(STATION_TYPES[getStationTypeKey(destination.station)].consumes as TradeItem['category'][]);
+  if (!item) return null;
+
+  const quantity = contractQuantity(item);
+  const reward = Math.round(item.basePrice * quantity * 0.3 + destination.distance * 120 + 100);
+  return buildContract(issuer, issuerSystem, now, {
+    type: 'delivery',
+    title: `Deliver ${quantity} ${item.name} to ${destination.station.name}`,
+    description: `${destination.station.name} is short on ${item.name}. Source ${quantity} units and deliver them before the deadline.`,
+    reward,
+    collateral: 0,
+    penalty: Math.round(reward * 0.1),
+    itemId: item.id,
+    quantity,
+    durationHours: durationFor(destination.distance),
+    destination
+  });
+};
+
+// Carry goods from the issuer's own stock to another station against a deposit
+const generateHaul = (issuer: CelestialBody, issuerSystem: string, nearby: NearbyStation[], now: Date): Contract | null => {
+  if (nearby.length === 0) return null;
+  const destination = pick(nearby.slice(0, 5));
+  const produces = STATION_TYPES[getStationTypeKey(issuer)].produces as string[];
+  const stocked = (issuer.inventory || []).filter(inv => {
+    const item = getItemById(inv.itemId);
+    return item && inv.quantity > 0 && !FIXED_PRICE_ITEMS.includes(item.id) && produces.includes(item.category);
+  });
+  if (stocked.length === 0) return null;
+
+  const offer = pick(stocked);
+  const item = getItemById(offer.itemId)!;
+  const quantity = Math.min(contractQuantity(item), offer.quantity);
+  const collateral = haulCollateral(item, offer, quantity);
+  return buildContract(issuer, issuerSystem, now, {
+    type: 'haul',
+    title: `Haul ${quantity} ${item.name} to ${destination.station.name}`,
+    description: `Cargo is loaded on acceptance against a ${collateral} credit deposit, refunded with the fee on delivery.`,
+    reward: Math.round(destination.distance * 150 + collateral * 0.1 + 50),
+    collateral,
+    penalty: 0,
+    itemId: item.id,
+    quantity,
+    durationHours: durationFor(destination.distance),
+    destination
+  });
+};
+
+// Scout nearby systems nobody has charted and report back
+const generateSurvey = async (db: any, issuer: CelestialBody, issuerSystem: string, now: Date): Promise<Contract | null> => {
+  const targetSystems = await findUnexploredSystems(db, issuerSystem, SURVEY_TARGETS);
+  if (targetSystems.length === 0) return null;
+
+  const center = stringToCoordinate(issuerSystem);
+  const spread = Math.max(...targetSystems.map(coord => calculate3DDistance(center, stringToCoordinate(coord))));
+  const reward = Math.round(targetSystems.length * 300 + spread * 80);
+  return buildContract(issuer, issuerSystem, now, {
+    type: 'survey',
+    title: `Survey ${targetSystems.length} uncharted system${targetSystems.length === 1 ? '' : 's'}`,
+    description: `Visit or probe ${targetSystems.join(', ')} and report back to ${issuer.name}.`,
+    reward,
+    collateral: 0,
+    penalty: Math.round(reward * 0.1),
+    targetSystems,
+    durationHours: durationFor(spread * 2),
+    destination: { station: issuer, system: issuerSystem }
+  });
+};
+
+const pickContractType = (stationType: StationTypeKey): ContractType => {
+  const weights = CONTRACT_WEIGHTS[stationType];
+  let roll = Math.random();
+  for (const [type, weight] of Object.entries(weights) as [ContractType, number][]) {
+    roll -= weight;
+    if (roll <= 0) return type;
+  }
+  return 'delivery';
+};
+
+// Drop expired offers and top the board back up
+const refreshBoard = async (db: any, station: CelestialBody, system: string, now: Date) => {
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  await contracts.deleteMany({ issuerStationId: station.id, status: 'available', offerExpiresAt: { $lte: now } });
+
+  const openOffers = await contracts.countDocuments({ issuerStationId: station.id, status: 'available' });
+  const missing = BOARD_SIZE - openOffers;
+  if (missing <= 0) return;
+
+  const nearby = await findNearbyStations(db, station.id, system);
+  const stationType = getStationTypeKey(station);
+  const generated: Contract[] = [];
+
+  // A few extra tries in case a type has nothing to offer here
+  for (let attempt = 0; attempt < missing * 2 && generated.length < missing; attempt++) {
+    const type = pickContractType(stationType);
+    const contract = type === 'survey'
+      ? await generateSurvey(db, station, system, now)
+      : type === 'haul'
+        ? generateHaul(station, system, nearby, now)
+        : generateDelivery(station, system, nearby, now);
+    if (contract) generated.push(contract);
+  }
+
+  if (generated.length > 0) {
+    await contracts.insertMany(generated);
+  }
+};
+
+// Offers at the player's docked station plus the contracts they are working on
+export const getMissionBoard = async (db: any, playerId: string): Promise<MissionBoardResponse> => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  const active: Contract[] = await contracts
+    .find({ acceptedBy: playerId, status: 'accepted' }, { projection: { _id: 0 } })
+    .sort({ deadline: 1 })
+    .toArray();
+
+  if (!player.dockedAt) return { available: [], active };
+
+  const station = await findStationById(db, player.dockedAt);
+  if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
+
+  const now = new Date();
+  const system = await db.collection('systems').findOne({ 'staticObjects.id': station.id }, { projection: { coordinates: 1 } });
+  await refreshBoard(db, station, system.coordinates, now);
+
+  const available: Contract[] = await contracts
+    .find({ issuerStationId: station.id, status: 'available', offerExpiresAt: { $gt: now } }, { projection: { _id: 0 } })
+    .sort({ reward: -1 })
+    .toArray();
+
+  return { station: { id: station.id, name: station.name }, available, active };
+};
+
+// Put an accepted offer back on the board, as it was listed
+const reopenOffer = (db: any, contractId: string, playerId: string, listedCollateral: number) =>
+  db.collection(CONTRACTS_COLLECTION).updateOne(
+    { id: contractId, status: 'accepted', acceptedBy: playerId },
+    { $set: { status: 'available', collateral: listedCollateral }, $unset: { acceptedBy: '', acceptedAt: '', deadline: '' } }
+  );
+
+const haulStockDelta = (contract: Contract, quantityChange: number): StationTradeDelta => ({
+  systemCoordinates: contract.issuerSystem,
+  stationId: contract.issuerStationId,
+  itemId: contract.itemId!,
+  quantityChange,
+  creditsChange: 0
+});
+
+// Move stock in or out of a station's listing; false when it isn't listed or doesn't hold enough
+const adjustStationStock = async (db: any, delta: StationTradeDelta): Promise<boolean> => {
+  const itemGuard: any = { itemId: delta.itemId };
+  if (delta.quantityChange < 0) itemGuard.quantity = { $gte: -delta.quantityChange };
+
+  const result = await db.collection('systems').updateOne(
+    { coordinates: delta.systemCoordinates, staticObjects: { $elemMatch: { id: delta.stationId, inventory: { $elemMatch: itemGuard } } } },
+    { $inc: { 'staticObjects.$[station].inventory.$[item].quantity': delta.quantityChange } },
+    { arrayFilters: [{ 'station.id': delta.stationId }, { 'item.itemId': delta.itemId }] }
+  );
+  if (result.modifiedCount !== 1) return false;
+
+  await repriceAfterTrade(db, delta);
+  return true;
+};
+
+// Take the goods out of the issuer's stock, then the deposit, then seal the goods in the hold; each failure undoes the steps before it
+const loadHaul = async (db: any, playerId: string, contract: Contract, listedCollateral: number) => {
+  const item = getItemById(contract.itemId!)!;
+  const quantity = contract.quantity!;
+
+  if (!await adjustStationStock(db, haulStockDelta(contract, -quantity))) {
+    await reopenOffer(db, contract.id, playerId, listedCollateral);
+    throw new TradeError(`${contract.issuerStationName} no longer has ${quantity} ${item.name} to load`, 409, 'INSUFFICIENT_STOCK', true);
+  }
+
+  const tag = collateralTag(contract.id);
+  const charged = await db.collection('players').updateOne(
+    { id: playerId, dockedAt: contract.issuerStationId, credits: { $gte: contract.collateral }, pendingTrades: { $ne: tag } },
+    { $inc: { credits: -contract.collateral }, $addToSet: { pendingTrades: tag } }
+  );
+  if (charged.modifiedCount !== 1) {
+    await adjustStationStock(db, haulStockDelta(contract, quantity));
+    await reopenOffer(db, contract.id, playerId, listedCollateral);
+    throw new TradeError('Your credits or docking status changed before the deposit could be taken', 409, 'PLAYER_STATE_CHANGED', true);
+  }
+
+  const loaded = await db.collection('players').updateOne(
+    { id: playerId, 'ship.contractCargo.contractId': { $ne: contract.id }, ...cargoSpaceGuard(item.weight * quantity) },
+    { $push: { 'ship.contractCargo': { contractId: contract.id, itemId: item.id, quantity } } }
+  );
+  if (loaded.modifiedCount !== 1) {
+    await db.collection('players').updateOne({ id: playerId, pendingTrades: tag }, { $inc: { credits: contract.collateral }, $pull: { pendingTrades: tag } });
+    await adjustStationStock(db, haulStockDelta(contract, quantity));
+    await reopenOffer(db, contract.id, playerId, listedCollateral);
+    throw new TradeError(`Your hold filled up before ${quantity} ${item.name} could be loaded`, 409, 'INSUFFICIENT_CARGO_SPACE', true);
+  }
+
+  await pullPlayerTag(db, playerId, tag);
+};
+
+// Take a contract from the board at the issuing station
+export const acceptContract = async (db: any, playerId: string, contractId: string) => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+
+  const contract = await getContract(db, contractId);
+  if (!contract || contract.status !== 'available') throw new TradeError('Contract not available', 404, 'CONTRACT_NOT_FOUND');
+  if (player.dockedAt !== contract.issuerStationId) {
+    throw new TradeError(`You must be docked at ${contract.issuerStationName} to accept this contract`, 400, 'NOT_AT_ISSUER');
+  }
+
+  const activeCount = await db.collection(CONTRACTS_COLLECTION).countDocuments({ acceptedBy: playerId, status: 'accepted' });
+  if (activeCount >= MAX_ACTIVE_CONTRACTS) {
+    throw new TradeError(`You already have ${MAX_ACTIVE_CONTRACTS} active contracts`, 400, 'TOO_MANY_CONTRACTS');
+  }
+
+  // Haul deposits are repriced against the issuer's current stock, which also has to cover the load
+  let collateral = contract.collateral;
+  if (contract.type === 'haul') {
+    const item = getItemById(contract.itemId!);
+    const issuer = await findStationById(db, contract.issuerStationId);
+    const offer: StationInventory | undefined = issuer?.inventory?.find((inv: StationInventory) => inv.itemId === contract.itemId);
+    if (!item || !offer || offer.quantity < contract.quantity!) {
+      throw new TradeError(`${contract.issuerStationName} no longer has ${contract.quantity} ${item?.name ?? contract.itemId} to load`, 409, 'INSUFFICIENT_STOCK', true);
+    }
+    collateral = Math.max(collateral, haulCollateral(item, offer, contract.quantity!));
+
+    if (getHoldWeight(player.ship) + item.weight * contract.quantity! > player.ship.maxCargo) {
+      throw new TradeError(`Insufficient cargo space for ${contract.quantity} ${item.name}`, 400, 'INSUFFICIENT_CARGO_SPACE');
+    }
+    if (player.credits < collateral) {
+      throw new TradeError(`Insufficient credits for the ${collateral} credit deposit`, 400, 'INSUFFICIENT_CREDITS');
+    }
+  }
+
+  const now = new Date();
+  const accepted: Contract | null = await db.collection(CONTRACTS_COLLECTION).findOneAndUpdate(
+    { id: contractId, status: 'available', offerExpiresAt: { $gt: now } },
+    {
+      $set: {
+        status: 'accepted',
+        acceptedBy: playerId,
+        acceptedAt: now,
+        deadline: new Date(now.getTime() + contract.durationHours * 3600000),
+        collateral
+      }
+    },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!accepted) throw new TradeError('Contract was taken or expired', 409, 'CONTRACT_NOT_AVAILABLE', true);
+
+  if (accepted.type === 'haul') {
+    await loadHaul(db, playerId, accepted, contract.collateral);
+  }
+
+  console.log(`📜 ${playerId} accepted contract ${contractId}: ${accepted.title}`);
+  notify(accepted, playerId, 'accepted', `Due by ${accepted.deadline!.toISOString()}`);
+  return { success: true, contract: accepted };
+};
+
+// Pay out a completed contract exactly once
+const settlePayout = async (db: any, contract: Contract & { payoutPending?: number }) => {
+  if (!contract.acceptedBy || contract.payoutPending === undefined) return;
+
+  const tag = payoutTag(contract.id);
+  await creditPlayer(db, contract.acceptedBy, tag, contract.payoutPending);
+  await db.collection(CONTRACTS_COLLECTION).updateOne({ id: contract.id }, { $unset: { payoutPending: '' } });
+  await pullPlayerTag(db, contract.acceptedBy, tag);
+};
+
+// Charge a failed contract's penalty exactly once, never taking a player below zero
+const settlePenalty = async (db: any, contract: Contract & { penaltyPending?: number }) => {
+  if (!contract.acceptedBy || contract.penaltyPending === undefined) return;
+
+  const tag = penaltyTag(contract.id);
+  if (contract.penaltyPending > 0) {
+    await db.collection('players').updateOne(
+      { id: contract.acceptedBy, pendingTrades: { $ne: tag } },
+      [{
+        $set: {
+          credits: { $max: [0, { $subtract: ['$credits', contract.penaltyPending] }] },
+          pendingTrades: { $setUnion: [{ $ifNull: ['$pendingTrades', []] }, [tag]] }
+        }
+      }]
+    );
+  }
+  await db.collection(CONTRACTS_COLLECTION).updateOne({ id: contract.id }, { $unset: { penaltyPending: '' } });
+  await pullPlayerTag(db, contract.acceptedBy, tag);
+};
+
+const completeContract = async (db: any, contract: Contract) => {
+  const payout = contract.reward + contract.collateral;
+  const completed = await db.collection(CONTRACTS_COLLECTION).findOneAndUpdate(
+    { id: contract.id, status: 'accepted' },
+    { $set: { status: 'completed', completedAt: new Date(), payoutPending: payout } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!completed) return null;
+
+  await settlePayout(db, completed);
+  console.log(`✅ Contract ${contract.id} completed by ${contract.acceptedBy} for ${payout} credits`);
+  notify(contract, contract.acceptedBy!, 'completed', `Paid ${payout} credits`);
+
+  const { payoutPending, ...result } = completed;
+  return result as Contract;
+};
+
+const failContract = async (db: any, contract: Contract, reason: string) => {
+  const failed = await db.collection(CONTRACTS_COLLECTION).findOneAndUpdate(
+    { id: contract.id, status: 'accepted' },
+    { $set: { status: 'failed', failedAt: new Date(), penaltyPending: contract.penalty } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!failed) return null;
+
+  await settlePenalty(db, failed);
+  if (contract.type === 'haul') {
+    // The deposit pays for the goods, which go nowhere
+    await db.collection('players').updateOne({ id: contract.acceptedBy }, { $pull: { 'ship.contractCargo': { contractId: contract.id } } });
+  }
+  const cost = contract.type === 'haul' ? `${contract.collateral} credit deposit forfeited` : `${contract.penalty} credit penalty`;
+  console.log(`❌ Contract ${contract.id} failed (${reason}): ${cost}`);
+  notify(contract, contract.acceptedBy!, 'failed', `${reason}: ${cost}`);
+
+  const { penaltyPending, ...result } = failed;
+  return result as Contract;
+};
+
+// Delivered goods join the destination's stock; stations that don't list the item use it up
+const stockDestination = async (db: any, contract: Contract, quantity: number) => {
+  await adjustStationStock(db, {
+    systemCoordinates: contract.destinationSystem,
+    stationId: contract.destinationStationId,
+    itemId: contract.itemId!,
+    quantityChange: quantity,
+    creditsChange: 0
+  });
+};
+
+// Unload a haul's sealed cargo, and only that, at its destination; release the claim if the cargo isn't there
+const deliverHaul = async (db: any, playerId: string, contract: Contract) => {
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  const claimed = await contracts.findOneAndUpdate(
+    { id: contract.id, status: 'accepted', acceptedBy: playerId, deliveredQuantity: 0 },
+    { $set: { deliveredQuantity: contract.quantity } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!claimed) throw new TradeError('Contract changed before delivery could complete', 409, 'CONTRACT_STATE_CHANGED', true);
+
+  const unloaded = await db.collection('players').updateOne(
+    { id: playerId, dockedAt: contract.destinationStationId, 'ship.contractCargo.contractId': contract.id },
+    { $pull: { 'ship.contractCargo': { contractId: contract.id } } }
+  );
+  if (unloaded.modifiedCount !== 1) {
+    await contracts.updateOne({ id: contract.id, status: 'accepted' }, { $set: { deliveredQuantity: 0 } });
+    throw new TradeError('The contract cargo is not in your hold', 400, 'INSUFFICIENT_CARGO');
+  }
+  await stockDestination(db, contract, contract.quantity!);
+
+  const completed = await completeContract(db, claimed);
+  if (!completed) throw new TradeError('Contract changed before it could be completed', 409, 'CONTRACT_STATE_CHANGED', true);
+  return {
+    success: true,
+    contract: completed,
+    delivered: contract.quantity!,
+    message: `Contract complete. Paid ${contract.reward + contract.collateral} credits`
+  };
+};
+
+// Hand in cargo or survey results at the destination station
+export const deliverContract = async (db: any, playerId: string, contractId: string) => {
+  const contract = await getContract(db, contractId);
+  if (!contract || contract.acceptedBy !== playerId || contract.status !== 'accepted') {
+    throw new TradeError('No active contract with that ID', 404, 'CONTRACT_NOT_FOUND');
+  }
+
+  if (contract.deadline && new Date(contract.deadline) <= new Date()) {
+    await failContract(db, contract, 'Deadline passed');
+    throw new TradeError('The contract deadline has passed', 400, 'CONTRACT_EXPIRED');
+  }
+
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  if (player.dockedAt !== contract.destinationStationId) {
+    throw new TradeError(`You must be docked at ${contract.destinationStationName} to deliver`, 400, 'NOT_AT_DESTINATION');
+  }
+
+  if (contract.type === 'survey') {
+    const remaining = contract.targetSystems!.filter(coord => !contract.surveyedSystems?.includes(coord));
+    if (remaining.length > 0) {
+      throw new TradeError(`Still unsurveyed: ${remaining.join(', ')}`, 400, 'SURVEY_INCOMPLETE');
+    }
+    const completed = await completeContract(db, contract);
+    if (!completed) throw new TradeError('Contract changed before it could be completed', 409, 'CONTRACT_STATE_CHANGED', true);
+    return { success: true, contract: completed, delivered: 0, message: `Survey complete. Paid ${contract.reward} credits` };
+  }
+
+  if (contract.type === 'haul') {
+    return deliverHaul(db, playerId, contract);
+  }
+
+  const held = player.ship.cargo?.find((c: CargoItem) => c.itemId === contract.itemId)?.quantity || 0;
+  const quantity = Math.min(held, contract.quantity! - (contract.deliveredQuantity || 0));
+  if (quantity <= 0) {
+    throw new TradeError(`You have no ${contract.itemId} in cargo`, 400, 'INSUFFICIENT_CARGO');
+  }
+
+  // Claim progress on the contract first, then take the goods; release the claim if the cargo moved
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  const claimed = await contracts.findOneAndUpdate(
+    { id: contractId, status: 'accepted', acceptedBy: playerId, $expr: { $lte: [{ $add: ['$deliveredQuantity', quantity] }, '$quantity'] } },
+    { $inc: { deliveredQuantity: quantity } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!claimed) throw new TradeError('Contract changed before delivery could complete', 409, 'CONTRACT_STATE_CHANGED', true);
+
+  const taken = await db.collection('players').updateOne(
+    { id: playerId, dockedAt: contract.destinationStationId, 'ship.cargo': { $elemMatch: { itemId: contract.itemId, quantity: { $gte: quantity } } } },
+    { $inc: { 'ship.cargo.$.quantity': -quantity } }
+  );
+  if (taken.modifiedCount !== 1) {
+    await contracts.updateOne({ id: contractId, status: 'accepted' }, { $inc: { deliveredQuantity: -quantity } });
+    throw new TradeError('Your cargo or docking status changed before delivery could complete', 409, 'PLAYER_STATE_CHANGED', true);
+  }
+
+  await db.collection('players').updateOne({ id: playerId }, { $pull: { 'ship.cargo': { quantity: { $lte: 0 } } } });
+  await stockDestination(db, contract, quantity);
+
+  if (claimed.deliveredQuantity < claimed.quantity) {
+    const message = `Delivered ${quantity}, ${claimed.quantity - claimed.deliveredQuantity} to go`;
+    notify(claimed, playerId, 'progress', message);
+    return { success: true, contract: claimed, delivered: quantity, message };
+  }
+
+  const completed = await completeContract(db, claimed);
+  if (!completed) throw new TradeError('Contract changed before it could be completed', 409, 'CONTRACT_STATE_CHANGED', true);
+  return {
+    success: true,
+    contract: completed,
+    delivered: quantity,
+    message: `Contract complete. Paid ${contract.reward + contract.collateral} credits`
+  };
+};
+
+// Give up on an accepted contract and take the penalty
+export const abandonContract = async (db: any, playerId: string, contractId: string) => {
+  const contract = await getContract(db, contractId);
+  if (!contract || contract.acceptedBy !== playerId || contract.status !== 'accepted') {
+    throw new TradeError('No active contract with that ID', 404, 'CONTRACT_NOT_FOUND');
+  }
+
+  const failed = await failContract(db, contract, 'Abandoned');
+  if (!failed) throw new TradeError('Contract changed before it could be abandoned', 409, 'CONTRACT_STATE_CHANGED', true);
+  return { success: true, contract: failed };
+};
+
+// Count a newly explored system toward the player's survey contracts
+export const recordSurveyProgress = async (db: any, playerId: string, systemCoordinates: string) => {
+  const filter = {
+    acceptedBy: playerId,
+    status: 'accepted',
+    type: 'survey',
+    targetSystems: systemCoordinates,
+    surveyedSystems: { $ne: systemCoordinates }
+  };
+  const contracts: Contract[] = await db.collection(CONTRACTS_COLLECTION).find(filter, { projection: { _id: 0 } }).toArray();
+  if (contracts.length === 0) return;
+
+  await db.collection(CONTRACTS_COLLECTION).updateMany(filter, { $addToSet: { surveyedSystems: systemCoordinates } });
+
+  for (const contract of contracts) {
+    const surveyed = (contract.surveyedSystems?.length || 0) + 1;
+    const total = contract.targetSystems!.length;
+    const message = surveyed >= total
+      ? `All systems surveyed. Report to ${contract.destinationStationName}`
+      : `Surveyed ${systemCoordinates} (${surveyed}/${total})`;
+    notify(contract, playerId, 'progress', message);
+  }
+};
+
+// Fail overdue contracts, finish interrupted payouts and penalties, and clear out stale offers
+export const runContractMaintenance = async (db: any): Promise<{ failed: number; settled: number }> => {
+  const contracts = db.collection(CONTRACTS_COLLECTION);
+  const now = new Date();
+  let failed = 0;
+  let settled = 0;
+
+  const overdue: Contract[] = await contracts.find({ status: 'accepted', deadline: { $lte: now } }, { projection: { _id: 0 } }).toArray();
+  for (const contract of overdue) {
+    if (await failContract(db, contract, 'Deadline passed')) failed++;
+  }
+
+  const staleBefore = new Date(now.getTime() - STALE_MS);
+  const unpaid = await contracts.find({ payoutPending: { $exists: true }, completedAt: { $lt: staleBefore } }).toArray();
+  for (const contract of unpaid) {
+    await settlePayout(db, contract);
+    settled++;
+  }
+
+  const uncharged = await contracts.find({ penaltyPending: { $exists: true }, failedAt: { $lt: staleBefore } }).toArray();
+  for (const contract of uncharged) {
+    await settlePenalty(db, contract);
+    settled++;
+  }
+
+  await contracts.deleteMany({ status: 'available', offerExpiresAt: { $lte: now } });
+  return { failed, settled };
+};
@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { GameEvent, GameEventInput, EventSubscription } from '@stellarburn/shared';
+
+// Single in-process bus for pushed game events
+const bus = new EventEmitter();
+bus.setMaxListeners(0); // One listener per connected stream client
+
+const GAME_EVENT = 'game-event';
+
+// Check whether an event is routed to a subscription
+export const matchesSubscription = (subscription: EventSubscription) => (event: GameEvent): boolean => {
+  if (subscription.types && subscription.types.length > 0 && !subscription.types.includes(event.type)) {
+    return false;
+  }
+
+  const matchesPlayer = !!subscription.playerId && event.playerId === subscription.playerId;
+  const matchesSystem = !event.ownerOnly && !!event.system && !!subscription.systems?.includes(event.system);
+
+  return matchesPlayer || matchesSystem;
+};
+
+// Publish an event to every matching subscriber
+export const publishEvent = (input: GameEventInput): GameEvent => {
+  const event = {
+    ...input,
+    id: randomUUID(),
+    timestamp: new Date().toISOString()
+  } as GameEvent;
+
+  try {
+    bus.emit(GAME_EVENT, event);
+  } catch (error) {
+    // A broken subscriber must never fail the game action that published the event
+    console.error('❌ Error delivering game event:', error);
+  }
+
+  return event;
+};
+
+// Subscribe to events, returning an unsubscribe function
+export const subscribeToEvents = (subscription: EventSubscription, handler: (event: GameEvent) => void): (() => void) => {
+  const matches = matchesSubscription(subscription);
+  const listener = (event: GameEvent) => {
+    if (matches(event)) handler(event);
+  };
+
+  bus.on(GAME_EVENT, listener);
+  return () => bus.off(GAME_EVENT, listener);
+};
+
+export const getSubscriberCount = (): number => bus.listenerCount(GAME_EVENT);
@@ -1,4 +1,6 @@
 import { Coordinates3D, coordinateToString, getSystemCoords } from '@stellarburn/shared';
+import { recordSurveyProgress } from './contractService.js';
+import { getSystemIntel, withoutLiveState } from './intelService.js';
 
 
 // Track player exploration by adding system to known systems
@@ -14,24 +16,46 @@ export const trackPlayerExploration = async (db: any, playerId: string, coordina
       }
     }
   );
+
+  await recordSurveyProgress(db, playerId, systemCoordString);
 };
 
-// Get all known systems for a player
+// Get all known systems for a player, as they last saw them
 export const getKnownSystems = async (db: any, playerId: string) => {
   const player = await db.collection('players').findOne({ id: playerId });
   if (!player) {
     throw new Error('Player not found');
   }
 
-  const knownSystems = player.knownSystems || [];
+  const knownSystems: string[] = player.knownSystems || [];
+
+  const snapshots = await getSystemIntel(db, playerId, knownSystems);
+  const observed = new Set(snapshots.map(snapshot => snapshot.system));
 
-  const sectors = await db.collection('systems').find({
-    coordinates: { $in: knownSystems }
-  }).toArray();
+  // Systems charted before intel was kept show only their fixed bodies, with no as-of time
+  const unobserved = knownSystems.filter(system => !observed.has(system));
+  const charted = unobserved.length > 0
+    ? await db.collection('systems').find({ coordinates: { $in: unobserved } }).toArray()
+    : [];
 
   return {
     playerCoordinates: player.coordinates,
     rawSystems: knownSystems,
-    knownSystems: sectors
+    knownSystems: [
+      ...snapshots.map(snapshot => ({
+        coordinates: snapshot.system,
+        coord: snapshot.coord,
+        staticObjects: snapshot.objects,
+        ships: snapshot.ships,
+        asOf: snapshot.observedAt,
+        source: snapshot.source
+      })),
+      ...charted.map((system: any) => ({
+        coordinates: system.coordinates,
+        coord: system.coord,
+        staticObjects: (system.staticObjects || []).map(withoutLiveState),
+        ships: []
+      }))
+    ]
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,76 @@
+import { CelestialBody, ChartSystem, Coordinates3D, IntelSource, SystemIntel } from '@stellarburn/shared';
+import { coordinateToString, getSystemCoords } from '@stellarburn/shared';
+import { recordMarketSighting, recordMarketSightings } from './marketSightingService.js';
+
+const INTEL_COLLECTION = 'system_intel';
+
+const intel = (db: any) => db.collection(INTEL_COLLECTION);
+
+export const ensureIntelIndexes = async (db: any): Promise<void> => {
+  await intel(db).createIndex({ playerId: 1, system: 1 }, { unique: true });
+};
+
+// Replace a player's picture of a system with what their ship or probe sees there right now
+export const recordSystemIntel = async (
+  db: any,
+  playerId: string,
+  system: Coordinates3D,
+  objects: CelestialBody[],
+  ships: SystemIntel['ships'],
+  source: IntelSource
+): Promise<void> => {
+  const snapshot: SystemIntel = {
+    playerId,
+    system: coordinateToString(system),
+    coord: system,
+    objects,
+    ships,
+    observedAt: new Date(),
+    source
+  };
+
+  await intel(db).replaceOne({ playerId, system: snapshot.system }, snapshot, { upsert: true });
+  await recordMarketSightings(db, playerId, objects);
+};
+
+// Docking shows a station's current stock and prices without a full look around the system
+export const recordStationIntel = async (db: any, playerId: string, station: CelestialBody): Promise<void> => {
+  await intel(db).updateOne(
+    { playerId, system: coordinateToString(getSystemCoords(station.coordinates)), 'objects.id': station.id },
+    { $set: { 'objects.$': station } }
+  );
+  await recordMarketSighting(db, playerId, station);
+};
+
+// Take in charted systems the player hasn't seen more recently themselves; returns how many were new or fresher
+export const mergeChartIntel = async (db: any, playerId: string, systems: ChartSystem[]): Promise<number> => {
+  const current = new Map((await getSystemIntel(db, playerId, systems.map(charted => charted.system))).map(snapshot => [snapshot.system, snapshot]));
+
+  let merged = 0;
+  for (const charted of systems) {
+    const observedAt = new Date(charted.observedAt);
+    const existing = current.get(charted.system);
+    if (existing && new Date(existing.observedAt) >= observedAt) continue;
+
+    const snapshot: SystemIntel = {
+      playerId,
+      system: charted.system,
+      coord: charted.coord,
+      objects: charted.objects,
+      ships: [],
+      observedAt,
+      source: 'chart'
+    };
+    await intel(db).replaceOne({ playerId, system: charted.system }, snapshot, { upsert: true });
+    await recordMarketSightings(db, playerId, charted.objects, observedAt);
+    merged++;
+  }
+
+  return merged;
+};
+
+export const getSystemIntel = (db: any, playerId: string, systems: string[]): Promise<SystemIntel[]> =>
+  intel(db).find({ playerId, system: { $in: systems } }, { projection: { _id: 0 } }).toArray();
+
+// A body as anyone who charted it knows it, without stock, prices or mining state that change over time
+export const withoutLiveState = ({ inventory, credits, miningProgress, ...body }: CelestialBody): CelestialBody => body;
@@ -0,0 +1,58 @@
+// Functional market scheduler using closures to maintain state
+export interface MarketSchedulerInterface {
+  start: () => void;
+  stop: () => void;
+  isActive: () => boolean;
+}
+
+const MARKET_TICK_MS = 60000;
+
+// Higher-order function that creates a market scheduler
+export const createMarketScheduler = (advanceAllMarkets: () => Promise<number>): MarketSchedulerInterface => {
+  let intervalId: NodeJS.Timeout | null = null;
+  let isRunning = false;
+  let isTicking = false;
+
+  const start = () => {
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    console.log('📈 Market scheduler started');
+
+    intervalId = setInterval(async () => {
+      // Skip a tick rather than overlap a slow one
+      if (isTicking) return;
+      isTicking = true;
+
+      try {
+        const updated = await advanceAllMarkets();
+        if (updated > 0) {
+          console.log(`📈 Advanced ${updated} station market items`);
+        }
+      } catch (error) {
+        console.error('❌ Error in market scheduler:', error);
+      } finally {
+        isTicking = false;
+      }
+    }, MARKET_TICK_MS); // Production, consumption and price drift every minute
+  };
+
+  const stop = () => {
+    if (intervalId) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Market scheduler stopped');
+  };
+
+  const isActive = () => isRunning;
+
+  return {
+    start,
+    stop,
+    isActive
+  };
+};
@@ -0,0 +1,127 @@
+import { StationInventory, StationMarketState } from '@stellarburn/shared';
+import {
+  FIXED_PRICE_ITEMS,
+  advanceStationMarket,
+  applyStockChangeToPrice,
+  createStationMarket,
+  getItemById,
+  getSpreadPrices,
+  getStationTypeKey
+} from '@stellarburn/shared';
+import { StationTradeDelta } from './tradeJournalService.js';
+
+const REPRICE_ATTEMPTS = 3;
+
+// Market state for an item that predates dynamic pricing, anchored on its current prices
+const createMarketFromPrices = (station: any, inv: StationInventory): StationMarketState | null => {
+  const item = getItemById(inv.itemId);
+  if (!item || FIXED_PRICE_ITEMS.includes(inv.itemId)) return null;
+
+  const stationClass = station.stationClass || 'C';
+  const midPrice = (inv.buyPrice + inv.sellPrice) / 2;
+  const margin = midPrice > 0 ? (inv.sellPrice - inv.buyPrice) / (2 * midPrice) : 0.15;
+  const market = createStationMarket(item, stationClass, getStationTypeKey(station), midPrice, margin);
+
+  // Keep today's prices as the starting point; only the equilibrium reflects the specialization
+  return { ...market, marketPrice: midPrice };
+};
+
+// Price update for one inventory item, guarded on the mid price it was computed from
+const marketPriceUpdate = (
+  systemCoordinates: string,
+  stationId: string,
+  itemId: string,
+  previousPrice: number,
+  market: StationMarketState,
+  stockChange: number = 0
+) => {
+  const { buyPrice, sellPrice } = getSpreadPrices(market.marketPrice, market.margin);
+  return {
+    filter: { coordinates: systemCoordinates, 'staticObjects.id': stationId },
+    update: {
+      $set: {
+        'staticObjects.$[station].inventory.$[item].market.marketPrice': market.marketPrice,
+        'staticObjects.$[station].inventory.$[item].market.lastUpdated': market.lastUpdated,
+        'staticObjects.$[station].inventory.$[item].buyPrice': buyPrice,
+        'staticObjects.$[station].inventory.$[item].sellPrice': sellPrice
+      },
+      $inc: { 'staticObjects.$[station].inventory.$[item].quantity': stockChange }
+    },
+    arrayFilters: [
+      { 'station.id': stationId },
+      {
+        'item.itemId': itemId,
+        'item.market.marketPrice': previousPrice,
+        // Never consume more stock than a concurrent trade left behind
+        ...(stockChange < 0 ? { 'item.quantity': { $gte: -stockChange } } : {})
+      }
+    ]
+  };
+};
+
+// Move an item's price after a committed trade, based on how the trade shifted stock against target.
+// Retries when a concurrent trade or market tick repriced the item first.
+export const repriceAfterTrade = async (db: any, delta: StationTradeDelta): Promise<void> => {
+  for (let attempt = 0; attempt < REPRICE_ATTEMPTS; attempt++) {
+    const system = await db.collection('systems').findOne(
+      { coordinates: delta.systemCoordinates },
+      { projection: { staticObjects: 1 } }
+    );
+    const station = system?.staticObjects?.find((obj: any) => obj.id === delta.stationId);
+    const inv: StationInventory | undefined = station?.inventory?.find((i: StationInventory) => i.itemId === delta.itemId);
+    if (!inv?.market) return;
+
+    const stockAfter = inv.quantity;
+    const stockBefore = stockAfter - delta.quantityChange;
+    // Trades reprice instantly but leave the drift clock alone
+    const market = { ...inv.market, marketPrice: applyStockChangeToPrice(inv.market, stockBefore, stockAfter) };
+    const { filter, update, arrayFilters } = marketPriceUpdate(delta.systemCoordinates, delta.stationId, delta.itemId, inv.market.marketPrice, market);
+
+    const result = await db.collection('systems').updateOne(filter, update, { arrayFilters });
+    if (result.modifiedCount === 1) return;
+  }
+
+  console.log(`⚠️  Gave up repricing ${delta.itemId} at ${delta.stationId} after ${REPRICE_ATTEMPTS} attempts`);
+};
+
+// Run production, consumption and price drift for every station market; returns items updated
+export const advanceAllMarkets = async (db: any, now: Date = new Date()): Promise<number> => {
+  const systems = await db.collection('systems')
+    .find({ 'staticObjects.type': 'station' }, { projection: { coordinates: 1, staticObjects: 1 } })
+    .toArray();
+  let updatedItems = 0;
+
+  for (const system of systems) {
+    const operations: any[] = [];
+
+    for (const station of system.staticObjects.filter((obj: any) => obj.type === 'station' && obj.inventory)) {
+      for (const inv of station.inventory as StationInventory[]) {
+        if (!inv.market) {
+          // Stations seeded before dynamic pricing pick up market state on first tick
+          const market = createMarketFromPrices(station, inv);
+          if (!market) continue;
+          operations.push({
+            updateOne: {
+              filter: { coordinates: system.coordinates, 'staticObjects.id': station.id },
+              update: { $set: { 'staticObjects.$[station].inventory.$[item].market': market } },
+              arrayFilters: [{ 'station.id': station.id }, { 'item.itemId': inv.itemId, 'item.market': { $exists: false } }]
+            }
+          });
+          continue;
+        }
+
+        const { stockChange, marketPrice, lastUpdated } = advanceStationMarket(inv.market, inv.quantity, now);
+        operations.push({
+          updateOne: marketPriceUpdate(system.coordinates, station.id, inv.itemId, inv.market.marketPrice, { ...inv.market, marketPrice, lastUpdated }, stockChange)
+        });
+      }
+    }
+
+    if (operations.length === 0) continue;
+
+    const result = await db.collection('systems').bulkWrite(operations, { ordered: false });
+    updatedItems += result.modifiedCount;
+  }
+
+  return updatedItems;
+};
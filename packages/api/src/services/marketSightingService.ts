@@ -0,0 +1,45 @@
+import { CelestialBody, MarketSighting, StationInventory } from '@stellarburn/shared';
+import { coordinateToString, getSystemCoords } from '@stellarburn/shared';
+
+const SIGHTINGS_COLLECTION = 'market_sightings';
+const DUPLICATE_KEY = 11000;
+
+const sightings = (db: any) => db.collection(SIGHTINGS_COLLECTION);
+
+export const ensureMarketSightingIndexes = async (db: any): Promise<void> => {
+  await sightings(db).createIndex({ playerId: 1, stationId: 1 }, { unique: true });
+};
+
+// Remember the prices a player was shown at a station, unless they have seen the station more recently
+export const recordMarketSighting = async (db: any, playerId: string, station: CelestialBody, seenAt: Date = new Date()): Promise<void> => {
+  if (station.type !== 'station' || !station.inventory) return;
+
+  const sighting: MarketSighting = {
+    playerId,
+    stationId: station.id,
+    stationName: station.name,
+    system: coordinateToString(getSystemCoords(station.coordinates)),
+    coordinates: station.coordinates,
+    credits: station.credits || 0,
+    prices: station.inventory.map(({ itemId, quantity, buyPrice, sellPrice }: StationInventory) => ({ itemId, quantity, buyPrice, sellPrice })),
+    seenAt
+  };
+
+  try {
+    await sightings(db).replaceOne({ playerId, stationId: station.id, seenAt: { $lte: seenAt } }, sighting, { upsert: true });
+  } catch (error: any) {
+    // A newer sighting missed the filter, so the upsert collided with it; keep the newer one
+    if (error?.code !== DUPLICATE_KEY) throw error;
+  }
+};
+
+// Every station among objects a scan or chart showed the player
+export const recordMarketSightings = async (db: any, playerId: string, objects: CelestialBody[], seenAt: Date = new Date()): Promise<void> => {
+  for (const station of objects.filter(obj => obj.type === 'station')) {
+    await recordMarketSighting(db, playerId, station, seenAt);
+  }
+};
+
+// Last-seen prices, limited to the given systems when provided
+export const getMarketSightings = (db: any, playerId: string, systems?: string[]): Promise<MarketSighting[]> =>
+  sightings(db).find({ playerId, ...(systems && { system: { $in: systems } }) }, { projection: { _id: 0 } }).toArray();
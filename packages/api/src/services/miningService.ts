@@ -4,15 +4,36 @@ import {
   CelestialBody,
   MiningResult,
   MiningOperationState,
-  CargoItem,
-  getSystemCoords
+  getSystemCoords,
+  coordinateToString,
+  stringToCoordinate
 } from '@stellarburn/shared';
-import { getItemById, getMiningYield } from '@stellarburn/shared';
-import { getPlayerById, updatePlayer } from './playerService.js';
-import { getSystemByCoordinates, updateSystem } from './systemService.js';
+import { getHoldWeight, getItemById, getMiningYield, getShipStats } from '@stellarburn/shared';
+import { randomUUID } from 'crypto';
+import { getMongo } from './databaseService.js';
+import { getPlayerById } from './playerService.js';
+import { getSystemByCoordinates } from './systemService.js';
+import { publishEvent } from './eventService.js';
+import { addCargo } from './cargoService.js';
+
+// In-flight operations live in Mongo so any API instance can report or finish them
+const MINING_COLLECTION = 'mining_operations';
+
+const miningOperations = () => getMongo('stellarburn').collection<MiningOperationState>(MINING_COLLECTION);
+
+export async function ensureMiningIndexes(): Promise<void> {
+  // One operation per player at a time
+  await miningOperations().createIndex({ playerId: 1 }, { unique: true });
+  await miningOperations().createIndex({ expectedEndTime: 1 });
+}
 
-// Track active mining operations
-const activeMiningOperations = new Map<string, MiningOperationState>();
+// Drop a player's lock on an asteroid
+async function releaseAsteroidLock(system: string, asteroidId: string, playerId: string): Promise<void> {
+  await getMongo('stellarburn').collection('systems').updateOne(
+    { coordinates: system, 'staticObjects.id': asteroidId },
+    { $pull: { 'staticObjects.$.miningProgress.activeMiningOperations': playerId } as any }
+  );
+}
 
 export async function startMining(playerId: string, asteroidId: string): Promise<MiningResult> {
   try {
@@ -30,7 +51,7 @@ export async function startMining(playerId: string, asteroidId: string): Promise
     }
 
     // Check if player is already mining
-    if (activeMiningOperations.has(playerId)) {
+    if (await miningOperations().findOne({ playerId })) {
       return {
         success: false,
         message: 'You are already mining an asteroid',
@@ -123,24 +144,41 @@ export async function startMining(playerId: string, asteroidId: string): Promise
     const expectedEndTime = new Date(now.getTime() + miningTime * 1000);
 
     const miningOperation: MiningOperationState = {
+      id: randomUUID(),
       playerId,
       asteroidId,
+      system: coordinateToString(systemCoords),
       startTime: now,
       expectedEndTime,
       miningDuration: miningTime
     };
 
-    activeMiningOperations.set(playerId, miningOperation);
-
-    // Add player to asteroid's active mining operations
-    asteroid.miningProgress.activeMiningOperations.push(playerId);
+    // The unique player index stops a concurrent start from slipping past the check above
+    try {
+      await miningOperations().insertOne({ ...miningOperation });
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+      return {
+        success: false,
+        message: 'You are already mining an asteroid',
+        extractedItems: [],
+        miningTime: 0,
+        asteroidDepletion: 0,
+        cargoSpaceUsed: 0,
+        cargoSpaceRemaining: 0
+      };
+    }
 
-    // Update the system with the mining operation
-    await updateSystem(system);
+    // Add player to asteroid's active mining operations, touching nothing else in the system
+    await getMongo('stellarburn').collection('systems').updateOne(
+      { coordinates: system.coordinates, 'staticObjects.id': asteroidId },
+      { $addToSet: { 'staticObjects.$[asteroid].miningProgress.activeMiningOperations': playerId } as any },
+      { arrayFilters: [{ 'asteroid.id': asteroidId }] }
+    );
 
-    // Auto-complete mining after the delay
+    // Auto-complete mining after the delay; if this process dies first, the due-operation sweep finishes it
     setTimeout(async () => {
-      await completeMiningOperation(playerId);
+      await completeMiningOperation(playerId, miningOperation.id);
     }, miningTime * 1000);
 
     return {
@@ -149,8 +187,8 @@ export async function startMining(playerId: string, asteroidId: string): Promise
       extractedItems: [],
       miningTime,
       asteroidDepletion: asteroid.miningProgress.currentDepletion,
-      cargoSpaceUsed: player.ship.cargo.reduce((total, item) => total + (getItemById(item.itemId)?.weight || 0) * item.quantity, 0),
-      cargoSpaceRemaining: player.ship.maxCargo - player.ship.cargo.reduce((total, item) => total + (getItemById(item.itemId)?.weight || 0) * item.quantity, 0)
+      cargoSpaceUsed: getHoldWeight(player.ship),
+      cargoSpaceRemaining: player.ship.maxCargo - getHoldWeight(player.ship)
     };
 
   } catch (error) {
@@ -167,9 +205,15 @@ export async function startMining(playerId: string, asteroidId: string): Promise
   }
 }
 
-export async function completeMiningOperation(playerId: string): Promise<MiningResult> {
+export async function completeMiningOperation(playerId: string, operationId?: string): Promise<MiningResult> {
   try {
-    const miningOperation = activeMiningOperations.get(playerId);
+    const db = getMongo('stellarburn');
+
+    // Claim the operation by removing it, so only one instance ever completes it
+    const miningOperation = await miningOperations().findOneAndDelete(
+      operationId ? { playerId, id: operationId } : { playerId, expectedEndTime: { $lte: new Date() } },
+      { projection: { _id: 0 } }
+    );
     if (!miningOperation) {
       return {
         success: false,
@@ -182,9 +226,6 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
       };
     }
 
-    // Remove from active operations
-    activeMiningOperations.delete(playerId);
-
     const player = await getPlayerById(playerId);
     if (!player) {
       return {
@@ -198,12 +239,13 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
       };
     }
 
-    const systemCoords = getSystemCoords(player.coordinates);
+    // Use the system recorded at start; the player may have moved on since
+    const systemCoords = stringToCoordinate(miningOperation.system);
     const system = await getSystemByCoordinates(systemCoords);
     if (!system) {
       return {
         success: false,
-        message: 'Current system not found',
+        message: 'Mining system not found',
         extractedItems: [],
         miningTime: 0,
         asteroidDepletion: 0,
@@ -225,15 +267,13 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
       };
     }
 
-    // Remove player from asteroid's active mining operations
-    asteroid.miningProgress.activeMiningOperations = asteroid.miningProgress.activeMiningOperations.filter(id => id !== playerId);
-
-    // Calculate what resources were extracted
+    // Calculate what resources were extracted; mining power scales every yield
+    const { miningPower } = getShipStats(player.ship);
     const extractedItems: Array<{ itemId: string; quantity: number; value: number; }> = [];
 
     // Check primary resource
     if (Math.random() < asteroid.asteroidType.primaryResource.probability) {
-      const quantity = getMiningYield(asteroid.asteroidType.primaryResource.density);
+      const quantity = getMiningYield(asteroid.asteroidType.primaryResource.density, miningPower);
       const item = getItemById(asteroid.asteroidType.primaryResource.itemId);
       if (item) {
         extractedItems.push({
@@ -247,7 +287,7 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
     // Check secondary resources
     for (const secondaryResource of asteroid.asteroidType.secondaryResources) {
       if (Math.random() < secondaryResource.probability) {
-        const quantity = getMiningYield(secondaryResource.density);
+        const quantity = getMiningYield(secondaryResource.density, miningPower);
         const item = getItemById(secondaryResource.itemId);
         if (item) {
           extractedItems.push({
@@ -259,58 +299,42 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
       }
     }
 
-    // Calculate total cargo weight needed
-    let totalCargoWeight = 0;
+    // Load what fits, one item at a time; each load is guarded on the hold's weight at that moment
+    const itemsToAdd: typeof extractedItems = [];
     for (const extracted of extractedItems) {
-      const item = getItemById(extracted.itemId);
-      if (item) {
-        totalCargoWeight += item.weight * extracted.quantity;
-      }
+      const weight = (getItemById(extracted.itemId)?.weight || 0) * extracted.quantity;
+      const loaded = await addCargo(db, playerId, { itemId: extracted.itemId, quantity: extracted.quantity, purchasePrice: 0 }, weight); // Mined items have no purchase price
+      if (loaded) itemsToAdd.push(extracted);
     }
 
-    // Check current cargo capacity
-    const currentCargoWeight = player.ship.cargo.reduce((total, item) => {
-      const itemData = getItemById(item.itemId);
-      return total + (itemData?.weight || 0) * item.quantity;
-    }, 0);
-
-    const availableCargoSpace = player.ship.maxCargo - currentCargoWeight;
-
-    // Filter items that fit in cargo
-    const itemsToAdd = extractedItems.filter(extracted => {
-      const item = getItemById(extracted.itemId);
-      return item && (item.weight * extracted.quantity) <= availableCargoSpace;
+    // Release the lock and deplete the asteroid in one targeted update, leaving the rest of the system alone
+    const minedQuantity = itemsToAdd.reduce((total, item) => total + item.quantity, 0);
+    await db.collection('systems').updateOne(
+      { coordinates: miningOperation.system, 'staticObjects.id': asteroid.id },
+      {
+        $pull: { 'staticObjects.$[asteroid].miningProgress.activeMiningOperations': playerId },
+        $inc: {
+          'staticObjects.$[asteroid].miningProgress.currentDepletion': asteroid.asteroidType.depletionRate,
+          'staticObjects.$[asteroid].miningProgress.totalMined': minedQuantity
+        },
+        $set: { 'staticObjects.$[asteroid].miningProgress.lastMined': new Date() }
+      } as any,
+      { arrayFilters: [{ 'asteroid.id': asteroid.id }] }
+    );
+    const asteroidDepletion = asteroid.miningProgress.currentDepletion + asteroid.asteroidType.depletionRate;
+
+    const updatedPlayer = await getPlayerById(playerId);
+    const finalCargoWeight = updatedPlayer ? getHoldWeight(updatedPlayer.ship) : 0;
+
+    publishEvent({
+      type: 'mining.completed',
+      playerId,
+      asteroidId: asteroid.id,
+      system: coordinateToString(systemCoords),
+      extractedItems: itemsToAdd,
+      asteroidDepletion
     });
 
-    // Add items to player cargo
-    for (const extracted of itemsToAdd) {
-      const existingCargoItem = player.ship.cargo.find(item => item.itemId === extracted.itemId);
-      if (existingCargoItem) {
-        existingCargoItem.quantity += extracted.quantity;
-      } else {
-        const newCargoItem: CargoItem = {
-          itemId: extracted.itemId,
-          quantity: extracted.quantity,
-          purchasePrice: 0 // Mined items have no purchase price
-        };
-        player.ship.cargo.push(newCargoItem);
-      }
-    }
-
-    // Update asteroid depletion
-    asteroid.miningProgress.currentDepletion += asteroid.asteroidType.depletionRate;
-    asteroid.miningProgress.totalMined += itemsToAdd.reduce((total, item) => total + item.quantity, 0);
-    asteroid.miningProgress.lastMined = new Date();
-
-    // Update player and system
-    await updatePlayer(player);
-    await updateSystem(system);
-
-    const finalCargoWeight = player.ship.cargo.reduce((total, item) => {
-      const itemData = getItemById(item.itemId);
-      return total + (itemData?.weight || 0) * item.quantity;
-    }, 0);
-
     let message = 'Mining operation completed!';
     if (itemsToAdd.length === 0) {
       message = 'Mining operation completed, but no resources were extracted.';
@@ -323,15 +347,13 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
       message,
       extractedItems: itemsToAdd,
       miningTime: miningOperation.miningDuration,
-      asteroidDepletion: asteroid.miningProgress.currentDepletion,
+      asteroidDepletion,
       cargoSpaceUsed: finalCargoWeight,
       cargoSpaceRemaining: player.ship.maxCargo - finalCargoWeight
     };
 
   } catch (error) {
     console.error('Error completing mining operation:', error);
-    // Clean up the operation even if there was an error
-    activeMiningOperations.delete(playerId);
 
     return {
       success: false,
@@ -345,15 +367,57 @@ export async function completeMiningOperation(playerId: string): Promise<MiningR
   }
 }
 
-export function getMiningStatus(playerId: string): MiningOperationState | null {
-  return activeMiningOperations.get(playerId) || null;
+export async function getMiningStatus(playerId: string): Promise<MiningOperationState | null> {
+  return miningOperations().findOne({ playerId }, { projection: { _id: 0 } });
+}
+
+export async function cancelMining(playerId: string): Promise<boolean> {
+  const operation = await miningOperations().findOneAndDelete({ playerId });
+  if (!operation) return false;
+
+  await releaseAsteroidLock(operation.system, operation.asteroidId, playerId);
+  return true;
 }
 
-export function cancelMining(playerId: string): boolean {
-  const operation = activeMiningOperations.get(playerId);
-  if (operation) {
-    activeMiningOperations.delete(playerId);
-    return true;
+// Finish every operation whose time is up, e.g. ones whose timer died with a previous process
+export async function completeDueMiningOperations(): Promise<number> {
+  const due = await miningOperations().find({ expectedEndTime: { $lte: new Date() } }).toArray();
+  let completed = 0;
+
+  for (const operation of due) {
+    const result = await completeMiningOperation(operation.playerId, operation.id);
+    if (result.success) completed++;
+  }
+
+  if (completed > 0) {
+    console.log(`⛏️  Completed ${completed} overdue mining operations`);
+  }
+  return completed;
+}
+
+// Remove asteroid locks held by players with no matching operation
+export async function cleanupMiningLocks(): Promise<number> {
+  const db = getMongo('stellarburn');
+  const systems = await db.collection('systems')
+    .find({ 'staticObjects.miningProgress.activeMiningOperations.0': { $exists: true } }, { projection: { coordinates: 1, staticObjects: 1 } })
+    .toArray();
+  let released = 0;
+
+  for (const system of systems) {
+    for (const asteroid of system.staticObjects) {
+      const lockedBy: string[] = asteroid.miningProgress?.activeMiningOperations || [];
+      for (const playerId of lockedBy) {
+        const operation = await miningOperations().findOne({ playerId, asteroidId: asteroid.id });
+        if (operation) continue;
+
+        await releaseAsteroidLock(system.coordinates, asteroid.id, playerId);
+        released++;
+      }
+    }
+  }
+
+  if (released > 0) {
+    console.log(`🧹 Released ${released} stale asteroid mining locks`);
   }
-  return false;
+  return released;
 }
\ No newline at end of file
@@ -1,20 +1,27 @@
 import { MongoClient } from 'mongodb';
-import { Coordinates3D, coordinateToString, isAtSystemEdge, getEdgeCoordinates } from '@stellarburn/shared';
+import { Coordinates3D, coordinateToString, isAtSystemEdge, getEdgeCoordinates, getShipStats, getSystemCoords, calculate3DDistance } from '@stellarburn/shared';
+import { BLACK_HOLE, WORMHOLE, getBlackHolePull } from '@stellarburn/shared';
 import { performLocalScan, performSystemScan } from './scanningService.js';
+import { publishEvent } from './eventService.js';
+import { ensureSystem } from './universeExpansionService.js';
+import { getJumpFuelCost } from './anomalyService.js';
 
 // Helper function for getting system objects
 const getSystemObjects = (db: any) => async (systemCoords: Coordinates3D) => {
-  const systemCoordString = coordinateToString(systemCoords);
-  const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
+  const system = await ensureSystem(db, systemCoords);
   return system?.staticObjects || [];
 };
 
 // Functional collision checker using currying
 const checkCollision = (targetCoords: Coordinates3D) => (objects: any[]): { collision: boolean; object?: any } => {
     for (const obj of objects) {
-      // Only check collision for stars (any size) and large planets (size 4+)
+      // Only check collision for stars (any size), large planets (size 4+) and black holes
       // Size 1 objects (small planets, asteroids, stations) don't prevent movement
-      if (obj.type === 'star' || (obj.type === 'planet' && obj.size >= 4)) {
+      if (obj.type === 'black_hole') {
+        if (calculate3DDistance(targetCoords, obj.coordinates) < BLACK_HOLE.eventHorizon) {
+          return { collision: true, object: obj };
+        }
+      } else if (obj.type === 'star' || (obj.type === 'planet' && obj.size >= 4)) {
         // Check if target coordinates would be inside the object
         const distance = Math.sqrt(
           Math.pow(targetCoords.x - obj.coordinates.x, 2) +
@@ -45,6 +52,13 @@ const checkCollision = (targetCoords: Coordinates3D) => (objects: any[]): { coll
 
 
 
+// Whether a position is inside its system's 5x5x5 grid (0.0-0.4 range per sector)
+const isInsideSystem = (coords: Coordinates3D): boolean =>
+  [coords.x, coords.y, coords.z].every(value => {
+    const sector = Math.round((value - Math.floor(value)) * 10) / 10;
+    return sector >= 0 && sector <= 0.4;
+  });
+
 // Move player function using functional approach
 export const movePlayer = async (db: any, playerId: string, direction: string, directionVector: Coordinates3D) => {
     const player = await db.collection('players').findOne({ id: playerId });
@@ -53,11 +67,13 @@ export const movePlayer = async (db: any, playerId: string, direction: string, d
       throw new Error('Player not found');
     }
 
-    if (player.ship.fuel < 1) {
-      throw new Error('Not enough fuel to move');
+    // Fuel burn depends on the hull and installed modules
+    const { moveFuelCost } = getShipStats(player.ship);
+    if (player.ship.fuel < moveFuelCost) {
+      throw new Error(`Not enough fuel to move (needs ${moveFuelCost})`);
     }
 
-    const newCoordinates: Coordinates3D = {
+    let newCoordinates: Coordinates3D = {
       x: Math.round((player.coordinates.x + directionVector.x) * 10) / 10,
       y: Math.round((player.coordinates.y + directionVector.y) * 10) / 10,
       z: Math.round((player.coordinates.z + directionVector.z) * 10) / 10
@@ -67,11 +83,8 @@ export const movePlayer = async (db: any, playerId: string, direction: string, d
     const systemX = Math.floor(newCoordinates.x);
     const systemY = Math.floor(newCoordinates.y);
     const systemZ = Math.floor(newCoordinates.z);
-    const sectorX = newCoordinates.x - systemX;
-    const sectorY = newCoordinates.y - systemY;
-    const sectorZ = newCoordinates.z - systemZ;
 
-    if (sectorX < 0 || sectorX > 0.4 || sectorY < 0 || sectorY > 0.4 || sectorZ < 0 || sectorZ > 0.4) {
+    if (!isInsideSystem(newCoordinates)) {
       throw new Error(`Cannot move ${direction} - would exit system boundary. Use 'jump ${direction}' to travel to the next system.`);
     }
 
@@ -83,10 +96,19 @@ export const movePlayer = async (db: any, playerId: string, direction: string, d
 
     if (collisionCheck.collision) {
       const obj = collisionCheck.object;
-      const objType = obj.type === 'star' ? 'star' : 'large planet';
+      const objType = obj.type === 'star' ? 'star' : obj.type === 'black_hole' ? 'black hole' : 'large planet';
       throw new Error(`You cannot crash your ship on purpose! Cannot move into ${objType} ${obj.name}. You can orbit around it but not enter it.`);
     }
 
+    // Black holes drag ships that stray close one step further in
+    let pulledBy: string | null = null;
+    const blackHole = systemObjects.find((obj: any) => obj.type === 'black_hole');
+    const pulled = blackHole ? getBlackHolePull(newCoordinates, blackHole) : null;
+    if (blackHole && pulled && isInsideSystem(pulled) && !checkCollision(pulled)(systemObjects).collision) {
+      newCoordinates = pulled;
+      pulledBy = blackHole.name;
+    }
+
     await db.collection('players').updateOne(
       { id: playerId },
       {
@@ -94,7 +116,7 @@ export const movePlayer = async (db: any, playerId: string, direction: string, d
           coordinates: newCoordinates,
           lastActivity: new Date()
         },
-        $inc: { 'ship.fuel': -1 }
+        $inc: { 'ship.fuel': -moveFuelCost }
       }
     );
 
@@ -104,8 +126,8 @@ export const movePlayer = async (db: any, playerId: string, direction: string, d
     return {
       success: true,
       newCoordinates,
-      fuel: player.ship.fuel - 1,
-      message: `Moved ${direction} to ${coordinateToString(newCoordinates)}`,
+      fuel: player.ship.fuel - moveFuelCost,
+      message: `Moved ${direction} to ${coordinateToString(newCoordinates)}${pulledBy ? ` (dragged toward ${pulledBy})` : ''}`,
       localScan
     };
 };
@@ -118,12 +140,14 @@ export const jumpPlayer = async (db: any, playerId: string, direction: string, d
       throw new Error('Player not found');
     }
 
-    if (player.ship.fuel < 1) {
-      throw new Error('Not enough fuel to jump');
-    }
-
     const currentCoords = player.coordinates;
 
+    // Black holes nearby make every jump out harder
+    const jumpFuelCost = await getJumpFuelCost(db, getSystemCoords(currentCoords), getShipStats(player.ship).jumpFuelCost);
+    if (player.ship.fuel < jumpFuelCost) {
+      throw new Error(`Not enough fuel to jump (needs ${jumpFuelCost})`);
+    }
+
     // Validate that player is at system edge before jumping
     if (!isAtSystemEdge(currentCoords)) {
       const edgeCoords = getEdgeCoordinates(currentCoords);
@@ -154,6 +178,9 @@ export const jumpPlayer = async (db: any, playerId: string, direction: string, d
       z: directionVector.z !== 0 ? nextSystemCoords.z + 0.2 : currentCoords.z
     };
 
+    // Space past the edge of the explored universe comes into being as you arrive
+    await ensureSystem(db, nextSystemCoords);
+
     await db.collection('players').updateOne(
       { id: playerId },
       {
@@ -161,19 +188,80 @@ export const jumpPlayer = async (db: any, playerId: string, direction: string, d
           coordinates: landingCoords,
           lastActivity: new Date()
         },
-        $inc: { 'ship.fuel': -1 }
+        $inc: { 'ship.fuel': -jumpFuelCost }
       }
     );
 
+    // Announce the system change to both systems
+    const fromSystem = coordinateToString(currentSystem);
+    const toSystem = coordinateToString(nextSystemCoords);
+    publishEvent({ type: 'player.departed', playerId, playerName: player.name, system: fromSystem, toSystem });
+    publishEvent({ type: 'player.arrived', playerId, playerName: player.name, system: toSystem, coordinates: landingCoords, fromSystem });
+
     // Perform system scan at new location
     const systemScan = await performSystemScan(db, playerId);
 
     return {
       success: true,
       newCoordinates: landingCoords,
-      fuel: player.ship.fuel - 1,
+      fuel: player.ship.fuel - jumpFuelCost,
       systemCoordinates: nextSystemCoords,
       message: `Jumped ${direction} to system ${coordinateToString(nextSystemCoords)}`,
       systemScan
     };
-};
\ No newline at end of file
+};
+
+// Step through a wormhole next to the ship and come out beside its twin
+export const traverseWormhole = async (db: any, playerId: string) => {
+    const player = await db.collection('players').findOne({ id: playerId });
+
+    if (!player) {
+      throw new Error('Player not found');
+    }
+
+    const currentSystem = getSystemCoords(player.coordinates);
+    const system = await ensureSystem(db, currentSystem);
+    const wormhole = system?.staticObjects.find((obj: any) =>
+      obj.type === 'wormhole' && calculate3DDistance(obj.coordinates, player.coordinates) <= 0.1 + 0.001);
+
+    if (!wormhole?.wormholeExit) {
+      throw new Error('No wormhole within reach. Move next to one first.');
+    }
+
+    const fuelCost = getShipStats(player.ship).jumpFuelCost * WORMHOLE.fuelMultiplier;
+    if (player.ship.fuel < fuelCost) {
+      throw new Error(`Not enough fuel to traverse the wormhole (needs ${fuelCost})`);
+    }
+
+    // The far end may be in space nobody has visited yet
+    const exitSystem = wormhole.wormholeExit;
+    const exit = (await ensureSystem(db, exitSystem))?.staticObjects.find((obj: any) => obj.type === 'wormhole');
+    const landingCoords = exit?.coordinates ?? { x: exitSystem.x + 0.2, y: exitSystem.y + 0.2, z: exitSystem.z + 0.2 };
+
+    await db.collection('players').updateOne(
+      { id: playerId },
+      {
+        $set: {
+          coordinates: landingCoords,
+          lastActivity: new Date()
+        },
+        $inc: { 'ship.fuel': -fuelCost }
+      }
+    );
+
+    const fromSystem = coordinateToString(currentSystem);
+    const toSystem = coordinateToString(exitSystem);
+    publishEvent({ type: 'player.departed', playerId, playerName: player.name, system: fromSystem, toSystem });
+    publishEvent({ type: 'player.arrived', playerId, playerName: player.name, system: toSystem, coordinates: landingCoords, fromSystem });
+
+    const systemScan = await performSystemScan(db, playerId);
+
+    return {
+      success: true,
+      newCoordinates: landingCoords,
+      fuel: player.ship.fuel - fuelCost,
+      systemCoordinates: exitSystem,
+      message: `Traversed ${wormhole.name} to system ${toSystem}`,
+      systemScan
+    };
+};
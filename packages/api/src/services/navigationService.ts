@@ -1,6 +1,7 @@
 import {
   Coordinates3D,
   coordinateToString,
+  stringToCoordinate,
   parseCoordinates,
   validateCoordinates,
   getSystemCoords,
@@ -9,29 +10,29 @@ import {
   isWithinSystemBounds,
   toWithinSystemCoords,
   sameSystem,
-  SYSTEM_BOUNDS
+  SYSTEM_BOUNDS,
+  ShipStats,
+  CelestialBody,
+  NavigationStep,
+  PlotObjective,
+  BLACK_HOLE,
+  WORMHOLE
 } from '@stellarburn/shared';
-
-export interface NavigationStep {
-  type: 'move' | 'jump';
-  direction: string;
-  from: Coordinates3D;
-  to: Coordinates3D;
-  fuelCost: number;
-  description: string;
-}
+import { getJumpFuelCost } from './anomalyService.js';
+import { previewSystem } from './universeExpansionService.js';
 
 export interface NavigationPath {
   steps: NavigationStep[];
   totalFuelCost: number;
   totalDistance: number;
   estimatedTime: number;
+  objective: PlotObjective; // What the course was optimised for, which may differ from the request when fuel ran short
 }
 
 export interface CollisionInfo {
   hasCollision: boolean;
   obstruction?: {
-    type: 'star' | 'planet' | 'asteroid' | 'station' | 'player';
+    type: 'star' | 'planet' | 'asteroid' | 'station' | 'black_hole' | 'player';
     name: string;
     size?: number;
     coordinates: Coordinates3D;
@@ -44,6 +45,16 @@ const formatCoordinate = (value: number): number => {
 };
 
 
+// How close a ship can get to an object; zero for objects it can fly through
+const getCollisionRadius = (obj: CelestialBody): number => {
+  if (obj.type === 'black_hole') return BLACK_HOLE.eventHorizon;
+  // Stars have larger collision radius
+  if (obj.type === 'star') return Math.min(Math.sqrt(obj.size) * 0.05, 0.3);
+  // Large planets
+  if (obj.type === 'planet' && obj.size >= 4) return Math.min(Math.sqrt(obj.size) * 0.03, 0.2);
+  return 0;
+};
+
 // Check for celestial body collisions
 const checkCelestialCollision = async (db: any, systemCoordString: string, targetCoord: Coordinates3D): Promise<CollisionInfo> => {
   const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
@@ -53,21 +64,11 @@ const checkCelestialCollision = async (db: any, systemCoordString: string, targe
   }
 
   for (const obj of system.staticObjects) {
-    // Only check collision for stars and large planets
-    if (obj.type === 'star' || (obj.type === 'planet' && obj.size >= 4)) {
+    // Only stars, large planets and black holes have a collision radius
+    if (getCollisionRadius(obj) > 0) {
       const distance = calculate3DDistance(targetCoord, obj.coordinates);
 
-      // Calculate collision radius based on object type and size
-      let collisionRadius = 0;
-      if (obj.type === 'star') {
-        // Stars have larger collision radius
-        collisionRadius = Math.min(Math.sqrt(obj.size) * 0.05, 0.3);
-      } else {
-        // Large planets
-        collisionRadius = Math.min(Math.sqrt(obj.size) * 0.03, 0.2);
-      }
-
-      if (distance < collisionRadius) {
+      if (distance < getCollisionRadius(obj)) {
         return {
           hasCollision: true,
           obstruction: {
@@ -110,407 +111,415 @@ export const checkCollision = async (db: any, playerId: string, targetCoord: Coo
   }
 };
 
-// Plan system jumps between different star systems
-const planSystemJumps = (fromSystem: Coordinates3D, toSystem: Coordinates3D): NavigationStep[] => {
-  const steps: NavigationStep[] = [];
-  let current = { ...fromSystem };
-
-  // Move in X direction first
-  while (current.x !== toSystem.x) {
-    const direction = current.x < toSystem.x ? 'east' : 'west';
-    const next = { ...current };
-    next.x += current.x < toSystem.x ? 1 : -1;
-
-    // Calculate edge coordinate for landing
-    const landingCoords = {
-      x: next.x + (current.x < toSystem.x ? 0.0 : 0.4),
-      y: current.y + 0.2, // Land in middle of system
-      z: current.z + 0.2
-    };
+export const PLOT_OBJECTIVES: PlotObjective[] = ['fuel', 'steps', 'explored'];
 
-    steps.push({
-      type: 'jump',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(landingCoords),
-      fuelCost: 10,
-      description: `Jump ${direction} to system ${coordinateToString(formatCoordinates(next))}`
-    });
+export interface PlotOptions {
+  ship?: Pick<ShipStats, 'moveFuelCost' | 'jumpFuelCost'>;
+  objective?: PlotObjective;
+  fuelBudget?: number; // Courses needing more fuel are refused
+  knownSystems?: string[]; // Systems the pilot has explored, for the 'explored' objective
+  avoid?: Coordinates3D[]; // Positions to steer around, such as other ships in the way
+}
 
-    current = next;
-  }
+// Give up rather than tie the server up on a hopeless search
+const MAX_EXPANSIONS = 200000;
 
-  // Move in Y direction
-  while (current.y !== toSystem.y) {
-    const direction = current.y < toSystem.y ? 'north' : 'south';
-    const next = { ...current };
-    next.y += current.y < toSystem.y ? 1 : -1;
+// When obstacles close off the planned systems, detour at most this many systems off them, and only search so hard
+const DETOUR_RADIUS = 3;
+const MAX_DETOUR_EXPANSIONS = 20000;
 
-    const landingCoords = {
-      x: current.x + 0.2,
-      y: next.y + (current.y < toSystem.y ? 0.0 : 0.4),
-      z: current.z + 0.2
-    };
+// Positions are searched in tenths so grid arithmetic stays exact
+type GridPoint = Coordinates3D;
 
-    steps.push({
-      type: 'jump',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(landingCoords),
-      fuelCost: 10,
-      description: `Jump ${direction} to system ${coordinateToString(formatCoordinates(next))}`
-    });
+const DIRECTIONS: Array<{ name: string; axis: 'x' | 'y' | 'z'; sign: number }> = [
+  { name: 'east', axis: 'x', sign: 1 },
+  { name: 'west', axis: 'x', sign: -1 },
+  { name: 'north', axis: 'y', sign: 1 },
+  { name: 'south', axis: 'y', sign: -1 },
+  { name: 'up', axis: 'z', sign: 1 },
+  { name: 'down', axis: 'z', sign: -1 }
+];
 
-    current = next;
-  }
+const toGrid = (coord: Coordinates3D): GridPoint => ({
+  x: Math.round(coord.x * 10),
+  y: Math.round(coord.y * 10),
+  z: Math.round(coord.z * 10)
+});
 
-  // Move in Z direction
-  while (current.z !== toSystem.z) {
-    const direction = current.z < toSystem.z ? 'up' : 'down';
-    const next = { ...current };
-    next.z += current.z < toSystem.z ? 1 : -1;
+const fromGrid = (point: GridPoint): Coordinates3D => formatCoordinates({ x: point.x / 10, y: point.y / 10, z: point.z / 10 });
 
-    const landingCoords = {
-      x: current.x + 0.2,
-      y: current.y + 0.2,
-      z: next.z + (current.z < toSystem.z ? 0.0 : 0.4)
-    };
+const gridSystem = (point: GridPoint): Coordinates3D => ({
+  x: Math.floor(point.x / 10),
+  y: Math.floor(point.y / 10),
+  z: Math.floor(point.z / 10)
+});
 
-    steps.push({
-      type: 'jump',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(landingCoords),
-      fuelCost: 10,
-      description: `Jump ${direction} to system ${coordinateToString(formatCoordinates(next))}`
-    });
+const gridKey = (point: GridPoint): string => `${point.x},${point.y},${point.z}`;
 
-    current = next;
-  }
+const systemsApart = (a: Coordinates3D, b: Coordinates3D): number =>
+  Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + Math.abs(a.z - b.z);
 
-  return steps;
-};
+type Hazard = 'collision' | 'pull';
 
+interface ChartedWormhole {
+  entrance: GridPoint;
+  exit: GridPoint;
+  exitSystem: Coordinates3D;
+  name: string;
+}
 
-// Check if a coordinate has a collision with obstacles
-const hasCollision = async (db: any, coord: Coordinates3D): Promise<boolean> => {
-  try {
-    const systemCoords = getSystemCoords(coord);
-    const systemCoordString = coordinateToString(systemCoords);
-    const collision = await checkCollision(db, '', coord); // Empty playerId for pathfinding
-    return collision.hasCollision;
-  } catch {
-    return false; // Assume no collision if check fails
-  }
-};
+interface CourseGraph {
+  ship: Pick<ShipStats, 'moveFuelCost' | 'jumpFuelCost'>;
+  hazards: (system: Coordinates3D) => Promise<Map<string, Hazard>>;
+  jumpFuel: (system: Coordinates3D) => Promise<number>;
+  wormholes: Map<string, ChartedWormhole>;
+  avoid: Set<string>; // Grid keys
+}
 
-// Simple obstacle avoidance pathfinding
-const planSystemMovementWithAvoidance = async (db: any, from: Coordinates3D, to: Coordinates3D): Promise<NavigationStep[]> => {
-  const steps: NavigationStep[] = [];
-  let current = { ...from };
-  const tolerance = 0.001;
-  const stepSize = 0.1;
-
-  // Move in X direction with obstacle avoidance
-  while (Math.abs(current.x - to.x) > tolerance) {
-    const remaining = to.x - current.x;
-    const direction = remaining > 0 ? 'east' : 'west';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
-
-    const next = { ...current };
-    next.x = Math.round((current.x + step) * 10) / 10;
-
-    // Check if the next position would be within system boundaries
-    if (!isWithinSystemBounds(next)) {
-      // If movement would exit system, stop here - let higher-level navigation handle jumps
-      break;
+// Everything the search needs to know about space, loaded once per plot
+const loadCourseGraph = async (db: any, ship: Pick<ShipStats, 'moveFuelCost' | 'jumpFuelCost'>, avoid: Coordinates3D[]): Promise<CourseGraph> => {
+  const metadata = await db.collection('universe').findOne({ id: 'config' });
+  const hazardCache = new Map<string, Map<string, Hazard>>();
+
+  // Grid points a course must not enter: collisions, and the pull zone where a black hole would drag the ship off course
+  const hazards = async (system: Coordinates3D): Promise<Map<string, Hazard>> => {
+    const systemKey = coordinateToString(system);
+    const cached = hazardCache.get(systemKey);
+    if (cached) return cached;
+
+    // Unvisited space is planned as the seed will generate it
+    const stored = await db.collection('systems').findOne({ coordinates: systemKey }, { projection: { staticObjects: 1 } });
+    const objects: CelestialBody[] = stored?.staticObjects ?? previewSystem(metadata, system)?.staticObjects ?? [];
+    const obstacles = objects.filter(obj => getCollisionRadius(obj) > 0);
+
+    const map = new Map<string, Hazard>();
+    for (let x = 0; x <= 4; x++) {
+      for (let y = 0; y <= 4; y++) {
+        for (let z = 0; z <= 4; z++) {
+          const point = { x: system.x * 10 + x, y: system.y * 10 + y, z: system.z * 10 + z };
+          const position = fromGrid(point);
+          for (const obj of obstacles) {
+            const distance = calculate3DDistance(position, obj.coordinates);
+            if (distance < getCollisionRadius(obj)) {
+              map.set(gridKey(point), 'collision');
+              break;
+            }
+            if (obj.type === 'black_hole' && distance <= BLACK_HOLE.pullRange) {
+              map.set(gridKey(point), 'pull');
+            }
+          }
+        }
+      }
     }
 
-    // Check for collision at the next position
-    const collision = await hasCollision(db, next);
-
-    if (collision) {
-      // Try to go around the obstacle by moving in Y direction first
-      const detourSteps = await planDetourAround(db, current, to);
-      steps.push(...detourSteps);
-      break; // Exit X movement loop, detour handles the rest
-    } else {
-      steps.push({
-        type: 'move',
-        direction,
-        from: formatCoordinates(current),
-        to: formatCoordinates(next),
-        fuelCost: 1,
-        description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-      });
-
-      current = next;
-    }
-  }
+    hazardCache.set(systemKey, map);
+    return map;
+  };
 
-  // Continue with remaining movement if no detour was needed
-  if (steps.length === 0 || !steps[steps.length - 1].description.includes('detour')) {
-    await addRemainingMovement(db, steps, current, to, tolerance, stepSize);
+  // Only wormholes with both ends charted are trusted
+  const systems = await db.collection('systems')
+    .find({ 'staticObjects.type': 'wormhole' }, { projection: { coordinates: 1, staticObjects: 1 } })
+    .toArray();
+  const found = new Map<string, CelestialBody>();
+  for (const system of systems) {
+    const wormhole = system.staticObjects.find((obj: CelestialBody) => obj.type === 'wormhole');
+    if (wormhole?.wormholeExit) found.set(system.coordinates, wormhole);
   }
 
-  return steps;
-};
-
-// Plan a detour around an obstacle
-const planDetourAround = async (db: any, from: Coordinates3D, to: Coordinates3D): Promise<NavigationStep[]> => {
-  const steps: NavigationStep[] = [];
-  const stepSize = 0.1;
-
-  // Try moving in Y direction to go around obstacle
-  const systemCoords = getSystemCoords(from);
-  const yOptions = [
-    Math.round((from.y + stepSize) * 10) / 10,  // Try north
-    Math.round((from.y - stepSize) * 10) / 10   // Try south
-  ];
-
-  for (const newY of yOptions) {
-    const detourPoint = { ...from, y: newY };
-
-    // Make sure we stay within system bounds
-    if (isWithinSystemBounds(detourPoint)) {
-      const collision = await hasCollision(db, detourPoint);
-
-      if (!collision) {
-        // Found a safe detour point, move there first
-        const direction = newY > from.y ? 'north' : 'south';
-        steps.push({
-          type: 'move',
-          direction,
-          from: formatCoordinates(from),
-          to: formatCoordinates(detourPoint),
-          fuelCost: 1,
-          description: `Move ${direction} to avoid obstacle`
-        });
-
-        // Then try to continue toward destination
-        const remainingSteps = await planSystemMovementWithAvoidance(db, detourPoint, to);
-        steps.push(...remainingSteps);
-        return steps;
-      }
-    }
+  const wormholes = new Map<string, ChartedWormhole>();
+  for (const [systemKey, entrance] of found) {
+    const exit = found.get(coordinateToString(entrance.wormholeExit!));
+    if (!exit) continue;
+    wormholes.set(systemKey, {
+      entrance: toGrid(entrance.coordinates),
+      exit: toGrid(exit.coordinates),
+      exitSystem: entrance.wormholeExit!,
+      name: entrance.name
+    });
   }
 
-  // If Y detour doesn't work, try Z direction
-  const zOptions = [
-    Math.round((from.z + stepSize) * 10) / 10,  // Try up
-    Math.round((from.z - stepSize) * 10) / 10   // Try down
-  ];
-
-  for (const newZ of zOptions) {
-    const detourPoint = { ...from, z: newZ };
-
-    if (isWithinSystemBounds(detourPoint)) {
-      const collision = await hasCollision(db, detourPoint);
-
-      if (!collision) {
-        const direction = newZ > from.z ? 'up' : 'down';
-        steps.push({
-          type: 'move',
-          direction,
-          from: formatCoordinates(from),
-          to: formatCoordinates(detourPoint),
-          fuelCost: 1,
-          description: `Move ${direction} to avoid obstacle`
-        });
-
-        const remainingSteps = await planSystemMovementWithAvoidance(db, detourPoint, to);
-        steps.push(...remainingSteps);
-        return steps;
-      }
+  // Jumps out of a system near a black hole, charted or not, cost more
+  const jumpFuelCache = new Map<string, number>();
+  const jumpFuel = async (system: Coordinates3D): Promise<number> => {
+    const systemKey = coordinateToString(system);
+    let fuel = jumpFuelCache.get(systemKey);
+    if (fuel === undefined) {
+      fuel = await getJumpFuelCost(db, system, ship.jumpFuelCost);
+      jumpFuelCache.set(systemKey, fuel);
     }
-  }
+    return fuel;
+  };
 
-  // If no detour is possible, return empty steps (will cause pathfinding to fail)
-  return steps;
+  return { ship, hazards, jumpFuel, wormholes, avoid: new Set(avoid.map(coord => gridKey(toGrid(coord)))) };
 };
 
-// Add remaining movement after obstacle avoidance
-const addRemainingMovement = async (db: any, steps: NavigationStep[], current: Coordinates3D, to: Coordinates3D, tolerance: number, stepSize: number): Promise<void> => {
-  // Continue Y direction movement
-  while (Math.abs(current.y - to.y) > tolerance) {
-    const remaining = to.y - current.y;
-    const direction = remaining > 0 ? 'north' : 'south';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
-
-    const next = { ...current };
-    next.y = Math.round((current.y + step) * 10) / 10;
-
-    // Check if the next position would be within system boundaries
-    if (!isWithinSystemBounds(next)) {
-      // If movement would exit system, stop here
-      break;
-    }
+interface SearchEdge<T> {
+  to: T;
+  cost: number; // In the objective's units
+  fuel: number;
+  type: NavigationStep['type'];
+  direction: string;
+  name?: string;
+}
 
-    const collision = await hasCollision(db, next);
-    if (collision) {
-      // If we hit another obstacle, we'd need more complex pathfinding
-      console.warn('Complex obstacle scenario detected, may need advanced pathfinding');
-      break;
-    }
+interface SearchNode<T> {
+  key: string;
+  point: T;
+  g: number;
+  h: number;
+  f: number;
+  fuel: number;
+  parent?: SearchNode<T>;
+  edge?: SearchEdge<T>;
+}
 
-    steps.push({
-      type: 'move',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(next),
-      fuelCost: 1,
-      description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-    });
+// Binary heap ordered by f, preferring nodes nearer the goal on ties so the search digs instead of spreading
+const isBefore = <T>(a: SearchNode<T>, b: SearchNode<T>): boolean => a.f < b.f || (a.f === b.f && a.h < b.h);
+
+const heapPush = <T>(heap: SearchNode<T>[], node: SearchNode<T>): void => {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!isBefore(heap[i], heap[parent])) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+};
 
-    current = next;
+const heapPop = <T>(heap: SearchNode<T>[]): SearchNode<T> | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && isBefore(heap[left], heap[smallest])) smallest = left;
+      if (right < heap.length && isBefore(heap[right], heap[smallest])) smallest = right;
+      if (smallest === i) break;
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+      i = smallest;
+    }
   }
+  return top;
+};
 
-  // Continue Z direction movement
-  while (Math.abs(current.z - to.z) > tolerance) {
-    const remaining = to.z - current.z;
-    const direction = remaining > 0 ? 'up' : 'down';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
+// A* from start to the first point accepted by isGoal; null when no path exists, or when a given budget runs out
+const aStar = async <T>(
+  start: T,
+  key: (point: T) => string,
+  isGoal: (point: T) => boolean,
+  heuristic: (point: T) => number,
+  neighbours: (point: T) => Promise<SearchEdge<T>[]>,
+  budget?: number
+): Promise<SearchNode<T> | null> => {
+  const open: SearchNode<T>[] = [];
+  const bestCost = new Map<string, number>();
+  const closed = new Set<string>();
+  const startH = heuristic(start);
+  heapPush(open, { key: key(start), point: start, g: 0, h: startH, f: startH, fuel: 0 });
+  bestCost.set(key(start), 0);
+
+  let expansions = 0;
+  while (open.length > 0) {
+    const node = heapPop(open)!;
+    if (closed.has(node.key)) continue;
+    if (isGoal(node.point)) return node;
+    closed.add(node.key);
+
+    if (++expansions > (budget ?? MAX_EXPANSIONS)) {
+      if (budget !== undefined) return null;
+      throw new Error('Destination is too far to plot in one course; plot to a waypoint first');
+    }
 
-    const next = { ...current };
-    next.z = Math.round((current.z + step) * 10) / 10;
+    for (const edge of await neighbours(node.point)) {
+      const edgeKey = key(edge.to);
+      const g = node.g + edge.cost;
+      if (closed.has(edgeKey) || g >= (bestCost.get(edgeKey) ?? Infinity)) continue;
 
-    // Check if the next position would be within system boundaries
-    if (!isWithinSystemBounds(next)) {
-      // If movement would exit system, stop here
-      break;
+      bestCost.set(edgeKey, g);
+      const h = heuristic(edge.to);
+      heapPush(open, { key: edgeKey, point: edge.to, g, h, f: g + h, fuel: node.fuel + edge.fuel, parent: node, edge });
     }
+  }
+
+  return null;
+};
 
-    const collision = await hasCollision(db, next);
-    if (collision) {
-      console.warn('Complex obstacle scenario detected, may need advanced pathfinding');
-      break;
+// Plans the chain of systems first, then the moves and jumps through them, so long courses don't search every sector in between
+const searchCourse = async (
+  graph: CourseGraph,
+  from: Coordinates3D,
+  to: Coordinates3D,
+  objective: PlotObjective,
+  knownSystems: Set<string>
+): Promise<SearchNode<GridPoint> | null> => {
+  const start = toGrid(from);
+  const goal = toGrid(to);
+  const goalKey = gridKey(goal);
+  const goalSystem = gridSystem(goal);
+  const startSystemKey = coordinateToString(gridSystem(start));
+  const goalSystemKey = coordinateToString(goalSystem);
+
+  // Fewest steps counts every step as one; otherwise fuel is the cost
+  const cost = (fuel: number): number => objective === 'steps' ? 1 : fuel;
+  const wormholeFuel = graph.ship.jumpFuelCost * WORMHOLE.fuelMultiplier;
+
+  // Jumps still needed, straight or through whichever wormhole helps most
+  const heuristicCache = new Map<string, number>();
+  const systemHeuristic = (system: Coordinates3D): number => {
+    const systemKey = coordinateToString(system);
+    let best = heuristicCache.get(systemKey);
+    if (best !== undefined) return best;
+
+    const jumpUnit = cost(graph.ship.jumpFuelCost);
+    best = systemsApart(system, goalSystem) * jumpUnit;
+    for (const wormhole of graph.wormholes.values()) {
+      const via = systemsApart(system, gridSystem(wormhole.entrance)) * jumpUnit
+        + cost(wormholeFuel)
+        + systemsApart(wormhole.exitSystem, goalSystem) * jumpUnit;
+      best = Math.min(best, via);
     }
+    heuristicCache.set(systemKey, best);
+    return best;
+  };
 
-    steps.push({
-      type: 'move',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(next),
-      fuelCost: 1,
-      description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-    });
+  const isPassable = (system: Coordinates3D, corridor: Set<string> | null): boolean => {
+    const systemKey = coordinateToString(system);
+    if (corridor && !corridor.has(systemKey)) return false;
+    if (objective !== 'explored') return true;
+    return systemKey === startSystemKey || systemKey === goalSystemKey || knownSystems.has(systemKey);
+  };
 
-    current = next;
-  }
-};
+  // The destination itself may sit in a black hole's pull or beside another ship; only a collision rules it out
+  const isBlocked = async (point: GridPoint): Promise<boolean> => {
+    const key = gridKey(point);
+    const hazard = (await graph.hazards(gridSystem(point))).get(key);
+    if (key === goalKey) return hazard === 'collision';
+    return hazard !== undefined || graph.avoid.has(key);
+  };
 
-// Legacy function for simple movement (without obstacle avoidance)
-const planSystemMovement = (from: Coordinates3D, to: Coordinates3D): NavigationStep[] => {
-  const steps: NavigationStep[] = [];
-  let current = { ...from };
-  const tolerance = 0.001;
-  const stepSize = 0.1;
-
-  // Move in X direction
-  while (Math.abs(current.x - to.x) > tolerance) {
-    const remaining = to.x - current.x;
-    const direction = remaining > 0 ? 'east' : 'west';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
-
-    const next = { ...current };
-    next.x = Math.round((current.x + step) * 10) / 10; // Fix floating point precision
-
-    steps.push({
-      type: 'move',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(next),
-      fuelCost: 1,
-      description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-    });
+  const wormholeEdge = <T>(system: Coordinates3D, to: T): SearchEdge<T> | null => {
+    const wormhole = graph.wormholes.get(coordinateToString(system));
+    if (!wormhole) return null;
+    return { type: 'wormhole', direction: 'wormhole', to, fuel: wormholeFuel, cost: cost(wormholeFuel), name: wormhole.name };
+  };
 
-    current = next;
-  }
+  const systemRoute = await aStar<Coordinates3D>(
+    gridSystem(start),
+    coordinateToString,
+    system => coordinateToString(system) === goalSystemKey,
+    systemHeuristic,
+    async (system) => {
+      const edges: SearchEdge<Coordinates3D>[] = [];
+      const fuel = await graph.jumpFuel(system);
+      for (const { name, axis, sign } of DIRECTIONS) {
+        const next = { ...system, [axis]: system[axis] + sign };
+        if (isPassable(next, null)) {
+          edges.push({ type: 'jump', direction: name, to: next, fuel, cost: cost(fuel) });
+        }
+      }
+      const wormhole = graph.wormholes.get(coordinateToString(system));
+      const edge = wormhole && isPassable(wormhole.exitSystem, null) ? wormholeEdge(system, wormhole.exitSystem) : null;
+      if (edge) edges.push(edge);
+      return edges;
+    }
+  );
+  if (!systemRoute) return null;
+
+  const sectorNeighbours = async (point: GridPoint, corridor: Set<string>): Promise<SearchEdge<GridPoint>[]> => {
+    const system = gridSystem(point);
+    const local = { x: point.x - system.x * 10, y: point.y - system.y * 10, z: point.z - system.z * 10 };
+    const edges: SearchEdge<GridPoint>[] = [];
+
+    for (const { name, axis, sign } of DIRECTIONS) {
+      const sector = local[axis] + sign;
+      const moved = { ...point, [axis]: point[axis] + sign };
+      if (sector >= 0 && sector <= 4 && !await isBlocked(moved)) {
+        edges.push({ type: 'move', direction: name, to: moved, fuel: graph.ship.moveFuelCost, cost: cost(graph.ship.moveFuelCost) });
+      }
+    }
 
-  // Move in Y direction
-  while (Math.abs(current.y - to.y) > tolerance) {
-    const remaining = to.y - current.y;
-    const direction = remaining > 0 ? 'north' : 'south';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
-
-    const next = { ...current };
-    next.y = Math.round((current.y + step) * 10) / 10; // Fix floating point precision
-
-    steps.push({
-      type: 'move',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(next),
-      fuelCost: 1,
-      description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-    });
+    // Jumps go from any edge, landing mid-axis in the next system like jumpPlayer does
+    if ([local.x, local.y, local.z].some(sector => sector === 0 || sector === 4)) {
+      const fuel = await graph.jumpFuel(system);
+      for (const { name, axis, sign } of DIRECTIONS) {
+        const nextSystem = { ...system, [axis]: system[axis] + sign };
+        const landing = { ...point, [axis]: nextSystem[axis] * 10 + 2 };
+        if (isPassable(nextSystem, corridor) && !await isBlocked(landing)) {
+          edges.push({ type: 'jump', direction: name, to: landing, fuel, cost: cost(fuel) });
+        }
+      }
+    }
 
-    current = next;
-  }
+    // Traversal works from the wormhole's own grid point or one step away
+    const wormhole = graph.wormholes.get(coordinateToString(system));
+    if (wormhole && systemsApart(point, wormhole.entrance) <= 1 && isPassable(wormhole.exitSystem, corridor)) {
+      edges.push(wormholeEdge(system, wormhole.exit)!);
+    }
 
-  // Move in Z direction
-  while (Math.abs(current.z - to.z) > tolerance) {
-    const remaining = to.z - current.z;
-    const direction = remaining > 0 ? 'up' : 'down';
-    const step = Math.abs(remaining) < stepSize ? remaining :
-      (remaining > 0 ? stepSize : -stepSize);
-
-    const next = { ...current };
-    next.z = Math.round((current.z + step) * 10) / 10; // Fix floating point precision
-
-    steps.push({
-      type: 'move',
-      direction,
-      from: formatCoordinates(current),
-      to: formatCoordinates(next),
-      fuelCost: 1,
-      description: `Move ${direction} to ${coordinateToString(formatCoordinates(next))}`
-    });
+    return edges;
+  };
 
-    current = next;
+  const searchSectors = (corridor: Set<string>, budget?: number) => aStar<GridPoint>(
+    start,
+    gridKey,
+    point => gridKey(point) === goalKey,
+    point => systemHeuristic(gridSystem(point)),
+    point => sectorNeighbours(point, corridor),
+    budget
+  );
+
+  const corridor = new Set<string>();
+  for (let node: SearchNode<Coordinates3D> | undefined = systemRoute; node; node = node.parent) {
+    corridor.add(node.key);
   }
 
-  return steps;
-};
-
-// Calculate edge coordinate for system jumping
-const calculateEdgeCoordinate = (from: Coordinates3D, system: Coordinates3D): Coordinates3D => {
-  // Helper to determine edge coordinate for a single axis
-  const getEdgeCoordinate = (currentPos: number, systemCoord: number): number => {
-    const systemMid = systemCoord + 0.5;
-
-    // If coming from lower coordinate, land at edge 0.0
-    // If coming from higher coordinate, land at edge 0.4
-    if (currentPos < systemMid) {
-      return systemCoord + 0.0;
-    } else {
-      return systemCoord + 0.4;
+  const widen = (systems: Set<string>): Set<string> => {
+    const widened = new Set(systems);
+    for (const systemKey of systems) {
+      const system = stringToCoordinate(systemKey);
+      for (const { axis, sign } of DIRECTIONS) {
+        widened.add(coordinateToString({ ...system, [axis]: system[axis] + sign }));
+      }
     }
+    return widened;
   };
 
-  return {
-    x: getEdgeCoordinate(from.x, system.x),
-    y: getEdgeCoordinate(from.y, system.y),
-    z: getEdgeCoordinate(from.z, system.z)
-  };
-};
+  // Obstacles can close off the chosen systems; widen to their neighbours, then detour a little further before giving up
+  const route = await searchSectors(corridor);
+  if (route) return route;
 
-// Check if coordinate is at system boundary
-const isAtSystemCoordinate = (coord: Coordinates3D, system: Coordinates3D): boolean => {
-  const tolerance = 0.001;
-  return Math.abs(coord.x - system.x) < tolerance &&
-         Math.abs(coord.y - system.y) < tolerance &&
-         Math.abs(coord.z - system.z) < tolerance;
+  let detour = widen(corridor);
+  const nearby = await searchSectors(detour);
+  if (nearby) return nearby;
+
+  for (let radius = 2; radius <= DETOUR_RADIUS; radius++) detour = widen(detour);
+  return searchSectors(detour, MAX_DETOUR_EXPANSIONS);
 };
 
+// Walk back from the goal to turn the search result into flight steps
+const toSteps = (goal: SearchNode<GridPoint>): NavigationStep[] => {
+  const steps: NavigationStep[] = [];
+  for (let node = goal; node.parent && node.edge; node = node.parent) {
+    const { type, direction, fuel, name } = node.edge;
+    const to = fromGrid(node.point);
+    const description = type === 'move'
+      ? `Move ${direction} to ${coordinateToString(to)}`
+      : type === 'jump'
+        ? `Jump ${direction} to system ${coordinateToString(getSystemCoords(to))}`
+        : `Traverse ${name}`;
+    steps.push({ type, direction, from: fromGrid(node.parent.point), to, fuelCost: fuel, description });
+  }
+  return steps.reverse();
+};
 
 // Main course plotting function
-export const plotCourse = async (db: any, fromStr: string, toStr: string): Promise<NavigationPath> => {
+// Fuel costs come from the player's ship when given; otherwise the starter hull's one unit per step
+export const plotCourse = async (db: any, fromStr: string, toStr: string, options: PlotOptions = {}): Promise<NavigationPath> => {
   try {
     const from = parseCoordinates(fromStr);
     const to = parseCoordinates(toStr);
@@ -518,180 +527,45 @@ export const plotCourse = async (db: any, fromStr: string, toStr: string): Promi
     if (!validateCoordinates(from) || !validateCoordinates(to)) {
       throw new Error('Invalid coordinates provided');
     }
+    if (!isWithinSystemBounds(to)) {
+      throw new Error(`${toStr} is between sectors; positions within a system run from .0 to .4`);
+    }
 
-    const fromSystem = getSystemCoords(from);
-    const toSystem = getSystemCoords(to);
-
-    let allSteps: NavigationStep[] = [];
-    let current = { ...from };
-
-    // Determine if we need jumps
-    const needsJump = {
-      x: fromSystem.x !== toSystem.x,
-      y: fromSystem.y !== toSystem.y,
-      z: fromSystem.z !== toSystem.z
-    };
-    const needsAnyJump = needsJump.x || needsJump.y || needsJump.z;
-
-    // If no jumps needed, just move within the same system
-    if (!needsAnyJump) {
-      allSteps = await planSystemMovementWithAvoidance(db, current, to);
-    } else {
-      // Multi-system navigation - jump to each system in sequence
-
-      // Jump in X direction
-      if (needsJump.x) {
-        while (getSystemCoords(current).x !== toSystem.x) {
-          const currentSysX = getSystemCoords(current).x;
-          const direction = currentSysX < toSystem.x ? 'east' : 'west';
-          const nextSysX = currentSysX + (currentSysX < toSystem.x ? 1 : -1);
-
-          // Calculate edge coordinate we need to reach before jumping
-          const edgeCoord = {
-            x: direction === 'east' ? currentSysX + 0.4 : currentSysX + 0.0,
-            y: current.y,
-            z: current.z
-          };
-
-          // First, move to edge if not already there
-          const tolerance = 0.001;
-          if (Math.abs(current.x - edgeCoord.x) > tolerance ||
-              Math.abs(current.y - edgeCoord.y) > tolerance ||
-              Math.abs(current.z - edgeCoord.z) > tolerance) {
-            allSteps.push(...await planSystemMovementWithAvoidance(db, current, edgeCoord));
-            current = { ...edgeCoord };
-          }
-
-          const landingCoord = {
-            x: nextSysX + (direction === 'east' ? 0.0 : 0.4),
-            y: getSystemCoords(current).y + 0.2,
-            z: getSystemCoords(current).z + 0.2
-          };
-
-          allSteps.push({
-            type: 'jump',
-            direction,
-            fuelCost: 10,
-            from: formatCoordinates(current),
-            to: formatCoordinates(landingCoord),
-            description: `Jump ${direction} to system ${nextSysX},${getSystemCoords(current).y},${getSystemCoords(current).z}`
-          });
-
-          current = landingCoord;
-        }
-      }
-
-      // Jump in Y direction
-      if (needsJump.y) {
-        while (getSystemCoords(current).y !== toSystem.y) {
-          const currentSysY = getSystemCoords(current).y;
-          const direction = currentSysY < toSystem.y ? 'north' : 'south';
-          const nextSysY = currentSysY + (currentSysY < toSystem.y ? 1 : -1);
-
-          // Calculate edge coordinate we need to reach before jumping
-          const edgeCoord = {
-            x: current.x,
-            y: direction === 'north' ? currentSysY + 0.4 : currentSysY + 0.0,
-            z: current.z
-          };
-
-          // First, move to edge if not already there
-          const tolerance = 0.001;
-          if (Math.abs(current.x - edgeCoord.x) > tolerance ||
-              Math.abs(current.y - edgeCoord.y) > tolerance ||
-              Math.abs(current.z - edgeCoord.z) > tolerance) {
-            allSteps.push(...await planSystemMovementWithAvoidance(db, current, edgeCoord));
-            current = { ...edgeCoord };
-          }
+    const requested = options.objective ?? 'fuel';
+    const ship = options.ship ?? { moveFuelCost: 1, jumpFuelCost: 1 };
+    const graph = await loadCourseGraph(db, ship, options.avoid ?? []);
+    const knownSystems = new Set(options.knownSystems ?? []);
 
-          const landingCoord = {
-            x: getSystemCoords(current).x + 0.2,
-            y: nextSysY + (direction === 'north' ? 0.0 : 0.4),
-            z: getSystemCoords(current).z + 0.2
-          };
-
-          allSteps.push({
-            type: 'jump',
-            direction,
-            fuelCost: 10,
-            from: formatCoordinates(current),
-            to: formatCoordinates(landingCoord),
-            description: `Jump ${direction} to system ${getSystemCoords(current).x},${nextSysY},${getSystemCoords(current).z}`
-          });
-
-          current = landingCoord;
-        }
-      }
-
-      // Jump in Z direction
-      if (needsJump.z) {
-        while (getSystemCoords(current).z !== toSystem.z) {
-          const currentSysZ = getSystemCoords(current).z;
-          const direction = currentSysZ < toSystem.z ? 'up' : 'down';
-          const nextSysZ = currentSysZ + (currentSysZ < toSystem.z ? 1 : -1);
-
-          // Calculate edge coordinate we need to reach before jumping
-          const edgeCoord = {
-            x: current.x,
-            y: current.y,
-            z: direction === 'up' ? currentSysZ + 0.4 : currentSysZ + 0.0
-          };
-
-          // First, move to edge if not already there
-          const tolerance = 0.001;
-          if (Math.abs(current.x - edgeCoord.x) > tolerance ||
-              Math.abs(current.y - edgeCoord.y) > tolerance ||
-              Math.abs(current.z - edgeCoord.z) > tolerance) {
-            allSteps.push(...await planSystemMovementWithAvoidance(db, current, edgeCoord));
-            current = { ...edgeCoord };
-          }
+    const destinationHazard = (await graph.hazards(getSystemCoords(to))).get(gridKey(toGrid(to)));
+    if (destinationHazard === 'collision') {
+      throw new Error(`Destination ${toStr} is inside a star, large planet or black hole`);
+    }
 
-          const landingCoord = {
-            x: getSystemCoords(current).x + 0.2,
-            y: getSystemCoords(current).y + 0.2,
-            z: nextSysZ + (direction === 'up' ? 0.0 : 0.4)
-          };
-
-          allSteps.push({
-            type: 'jump',
-            direction,
-            fuelCost: 10,
-            from: formatCoordinates(current),
-            to: formatCoordinates(landingCoord),
-            description: `Jump ${direction} to system ${getSystemCoords(current).x},${getSystemCoords(current).y},${nextSysZ}`
-          });
-
-          current = landingCoord;
-        }
-      }
+    let objective = requested;
+    let goal = await searchCourse(graph, from, to, objective, knownSystems);
+    if (!goal) {
+      throw new Error(`Destination ${toStr} is unreachable${objective === 'explored' ? ' through explored systems' : ''}`);
+    }
 
-      // Final movement within the destination system
-      if (current.x !== to.x || current.y !== to.y || current.z !== to.z) {
-        // Ensure both current and to coordinates are in the same system for final movement
-        const currentSystem = getSystemCoords(current);
-        const destSystem = getSystemCoords(to);
-
-        // Verify we're in the destination system
-        if (currentSystem.x === destSystem.x && currentSystem.y === destSystem.y && currentSystem.z === destSystem.z) {
-          allSteps.push(...await planSystemMovementWithAvoidance(db, current, to));
-        } else {
-          // If we're not in the same system, there's a logic error in the navigation
-          console.error('Navigation error: Final movement attempted between different systems',
-            { current: currentSystem, destination: destSystem });
-        }
-      }
+    // The fewest-steps course may be too thirsty when a longer one would still make it
+    if (options.fuelBudget !== undefined && goal.fuel > options.fuelBudget && objective === 'steps') {
+      objective = 'fuel';
+      goal = (await searchCourse(graph, from, to, objective, knownSystems))!;
+    }
+    if (options.fuelBudget !== undefined && goal.fuel > options.fuelBudget) {
+      throw new Error(`Destination ${toStr} is unreachable with current fuel: the cheapest course needs ${goal.fuel} and you have ${options.fuelBudget}`);
     }
 
-    // Calculate totals
-    const totalFuelCost = allSteps.reduce((sum, step) => sum + step.fuelCost, 0);
+    const allSteps = toSteps(goal);
     const totalDistance = calculate3DDistance(from, to);
     const estimatedTime = allSteps.length * 2; // 2 seconds per step
 
     return {
       steps: allSteps,
-      totalFuelCost,
+      totalFuelCost: goal.fuel,
       totalDistance,
-      estimatedTime
+      estimatedTime,
+      objective
     };
   } catch (error) {
     console.error('Course plotting failed:', error);
@@ -725,7 +599,7 @@ export const validateStep = (step: NavigationStep): boolean => {
     return false;
   }
 
-  const validTypes = ['move', 'jump'];
+  const validTypes = ['move', 'jump', 'wormhole'];
   if (!validTypes.includes(step.type)) {
     return false;
   }
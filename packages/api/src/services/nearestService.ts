@@ -32,6 +32,7 @@ export interface NearestResult {
   coordinates: Coordinates3D;
   distance: number;
   systemCoordinates?: Coordinates3D;
+  asOf?: Date; // When the player last saw it there; absent for their own probes, which report live
 }
 
 // Helper function to find nearest entity of a specific type from known systems
@@ -54,7 +55,8 @@ const findNearestEntityOfType = async (db: any, playerId: string, entityType: 's
         .filter(filterByType(entityType))
         .map((entity: any) => ({
           ...entity,
-          systemCoordinates: systemCoords
+          systemCoordinates: systemCoords,
+          asOf: knownSector.asOf
         }));
 
       allEntities.push(...entitiesInSystem);
@@ -71,7 +73,8 @@ const findNearestEntityOfType = async (db: any, playerId: string, entityType: 's
     name: closest.name,
     coordinates: closest.coordinates,
     distance: closest.distance,
-    systemCoordinates: closest.systemCoordinates
+    systemCoordinates: closest.systemCoordinates,
+    asOf: closest.asOf
   } : null;
 };
 
@@ -90,35 +93,36 @@ export const findNearestStar = async (db: any, playerId: string): Promise<Neares
   return findNearestEntityOfType(db, playerId, 'star');
 };
 
-// Find nearest other player
+// Find nearest other player, where the player last saw them
 export const findNearestPlayer = async (db: any, playerId: string): Promise<NearestResult | null> => {
-  const player = await db.collection('players').findOne({ id: playerId });
-  if (!player) throw new Error('Player not found');
+  const { playerCoordinates, knownSystems } = await getKnownSystems(db, playerId);
 
-  const otherPlayers = await db.collection('players').find({
-    id: { $ne: playerId },
-    dockedAt: { $exists: false }
-  }).toArray();
+  const sightings = knownSystems.flatMap((system: any) =>
+    system.ships.map((ship: any) => ({ ...ship, systemCoordinates: system.coord, asOf: system.asOf }))
+  );
 
-  if (otherPlayers.length === 0) return null;
+  if (sightings.length === 0) return null;
 
-  const findClosest = findClosestEntity(player.coordinates);
-  const closest = findClosest(otherPlayers);
+  const findClosest = findClosestEntity(playerCoordinates);
+  const closest = findClosest(sightings);
 
   return closest ? {
     type: 'player',
     name: closest.name,
     coordinates: closest.coordinates,
-    distance: closest.distance
+    distance: closest.distance,
+    systemCoordinates: closest.systemCoordinates,
+    asOf: closest.asOf
   } : null;
 };
 
-// Find nearest active probe
+// Find the player's nearest active probe
 export const findNearestProbe = async (db: any, playerId: string): Promise<NearestResult | null> => {
   const player = await db.collection('players').findOne({ id: playerId });
   if (!player) throw new Error('Player not found');
 
   const activeProbes = await db.collection('probes').find({
+    playerId,
     status: 'active'
   }).toArray();
 
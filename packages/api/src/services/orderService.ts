@@ -0,0 +1,541 @@
+import { randomUUID } from 'crypto';
+import { StationOrder, OrderFill, OrderBook, OrderBookLevel, CargoItem, StationInventory } from '@stellarburn/shared';
+import { getItemById, getHoldWeight, coordinateToString, getSystemCoords } from '@stellarburn/shared';
+import { findStationById, applyStationChange, revertStationChange, clearTradeTags, averagePurchasePrice } from './stationService.js';
+import { TradeError, StationTradeDelta } from './tradeJournalService.js';
+import { repriceAfterTrade } from './marketService.js';
+import { recordTrade } from './tradeLedgerService.js';
+import { publishEvent } from './eventService.js';
+import { cargoSpaceGuard } from './cargoService.js';
+
+const ORDERS_COLLECTION = 'station_orders';
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_EXPIRY_HOURS = 168;
+const MAX_OPEN_ORDERS = 20;
+const MAX_MATCHES_PER_ORDER = 25;
+const STALE_MS = 30000; // Pending escrow, fills and refunds older than this are treated as interrupted
+
+// Station fills keep the station-side change so recovery can tell whether it landed
+type StoredFill = OrderFill & { stationDelta?: StationTradeDelta };
+type StoredOrder = Omit<StationOrder, 'fills'> & { fills: StoredFill[] };
+
+const escrowTag = (orderId: string) => `escrow:${orderId}`;
+const refundTag = (orderId: string) => `refund:${orderId}`;
+
+const remainingQuantity = (order: StationOrder) => order.quantity - order.filledQuantity;
+
+export const ensureOrderIndexes = async (db: any) => {
+  const orders = db.collection(ORDERS_COLLECTION);
+  await orders.createIndex({ id: 1 }, { unique: true });
+  await orders.createIndex({ stationId: 1, itemId: 1, side: 1, status: 1, limitPrice: 1, createdAt: 1 });
+  await orders.createIndex({ playerId: 1, status: 1 });
+  await orders.createIndex({ status: 1, expiresAt: 1 });
+  await orders.createIndex({ 'fills.state': 1 });
+};
+
+const getOrder = async (db: any, orderId: string): Promise<StoredOrder | null> =>
+  db.collection(ORDERS_COLLECTION).findOne({ id: orderId }, { projection: { _id: 0 } });
+
+// Pay a player credits and/or goods exactly once per tag; false, with nothing paid, when the goods don't fit in the hold.
+// Not guarded on docking: fills and refunds arrive wherever the player is.
+export const creditPlayer = async (
+  db: any,
+  playerId: string,
+  tag: string,
+  credits: number,
+  cargo?: { itemId: string; quantity: number; unitPrice: number }
+): Promise<boolean> => {
+  const players = db.collection('players');
+
+  if (!cargo || cargo.quantity <= 0) {
+    await players.updateOne({ id: playerId, pendingTrades: { $ne: tag } }, { $inc: { credits }, $addToSet: { pendingTrades: tag } });
+    return true;
+  }
+
+  const space = cargoSpaceGuard((getItemById(cargo.itemId)?.weight || 0) * cargo.quantity);
+  const guard = { id: playerId, pendingTrades: { $ne: tag }, ...space };
+
+  // Stack onto existing cargo, or push a new entry; retry once if another update raced us
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const stacked = await players.findOneAndUpdate(
+      { ...guard, 'ship.cargo.itemId': cargo.itemId },
+      { $inc: { credits, 'ship.cargo.$.quantity': cargo.quantity }, $addToSet: { pendingTrades: tag } },
+      { returnDocument: 'after' }
+    );
+    if (stacked) {
+      await averagePurchasePrice(db, playerId, stacked, cargo.itemId, cargo.quantity, cargo.unitPrice);
+      return true;
+    }
+
+    const pushed = await players.updateOne(
+      { ...guard, 'ship.cargo.itemId': { $ne: cargo.itemId } },
+      {
+        $inc: { credits },
+        $push: { 'ship.cargo': { itemId: cargo.itemId, quantity: cargo.quantity, purchasePrice: cargo.unitPrice } },
+        $addToSet: { pendingTrades: tag }
+      }
+    );
+    if (pushed.modifiedCount === 1) return true;
+
+    // Already paid under this tag
+    if (await players.findOne({ id: playerId, pendingTrades: tag })) return true;
+  }
+
+  if (!await players.findOne({ id: playerId, ...space })) return false;
+  throw new Error(`Could not credit player ${playerId} for ${tag}`);
+};
+
+export const pullPlayerTag = (db: any, playerId: string, tag: string) =>
+  db.collection('players').updateOne({ id: playerId }, { $pull: { pendingTrades: tag } });
+
+// Reserve part of an order for a fill. Fails if the order closed or lacks the remaining quantity.
+const claimFill = async (db: any, orderId: string, fill: StoredFill): Promise<boolean> => {
+  const result = await db.collection(ORDERS_COLLECTION).updateOne(
+    { id: orderId, status: 'open', 'fills.id': { $ne: fill.id }, $expr: { $lte: [{ $add: ['$filledQuantity', fill.quantity] }, '$quantity'] } },
+    { $inc: { filledQuantity: fill.quantity }, $push: { fills: fill }, $set: { updatedAt: new Date() } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Undo a claim whose counterparty never committed
+const releaseFill = async (db: any, orderId: string, fill: StoredFill) => {
+  await db.collection(ORDERS_COLLECTION).updateOne(
+    { id: orderId, fills: { $elemMatch: { id: fill.id, state: 'pending' } } },
+    { $inc: { filledQuantity: -fill.quantity }, $pull: { fills: { id: fill.id } }, $set: { updatedAt: new Date() } }
+  );
+};
+
+// Goods that no longer fit in the buyer's hold go back to the station, and the order closes with its escrow refunded
+const returnUndeliverableFill = async (db: any, order: StoredOrder, fill: StoredFill) => {
+  if (fill.stationDelta) await revertStationChange(db, fill.stationDelta, fill.id);
+  await releaseFill(db, order.id, fill);
+  await closeOrder(db, order.id, 'cancelled');
+  console.log(`📑 Order ${order.id} cancelled: ${fill.quantity} ${order.itemId} no longer fit in the hold`);
+};
+
+// Deliver one fill to the order's owner, mark it settled and close the order once fully filled; false if the goods didn't fit
+const settleFill = async (db: any, order: StoredOrder, fill: StoredFill): Promise<boolean> => {
+  const item = getItemById(order.itemId);
+
+  if (order.side === 'buy') {
+    // Goods arrive in cargo; escrow held at the limit price, so refund the price improvement
+    const refund = (order.limitPrice - fill.price) * fill.quantity;
+    if (!await creditPlayer(db, order.playerId, fill.id, refund, { itemId: order.itemId, quantity: fill.quantity, unitPrice: fill.price })) {
+      await returnUndeliverableFill(db, order, fill);
+      return false;
+    }
+  } else {
+    await creditPlayer(db, order.playerId, fill.id, fill.price * fill.quantity);
+  }
+
+  const settled = await db.collection(ORDERS_COLLECTION).findOneAndUpdate(
+    { id: order.id, fills: { $elemMatch: { id: fill.id, state: 'pending' } } },
+    { $set: { 'fills.$.state': 'settled', updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!settled) return true;
+
+  await db.collection(ORDERS_COLLECTION).updateOne(
+    { id: order.id, status: 'open', 'fills.state': { $ne: 'pending' }, $expr: { $gte: ['$filledQuantity', '$quantity'] } },
+    { $set: { status: 'filled', updatedAt: new Date() } }
+  );
+
+  if (fill.stationDelta) {
+    await clearTradeTags(db, order.playerId, fill.stationDelta, fill.id);
+  } else {
+    await pullPlayerTag(db, order.playerId, fill.id);
+  }
+
+  const station = await findStationById(db, order.stationId);
+  const profit = order.side === 'sell'
+    ? { costBasis: order.costBasis || 0, realizedProfit: (fill.price - (order.costBasis || 0)) * fill.quantity }
+    : {};
+  await recordTrade(db, {
+    tradeId: `${fill.id}:${order.side}`,
+    playerId: order.playerId,
+    stationId: order.stationId,
+    stationName: station?.name || order.stationId,
+    system: order.system,
+    itemId: order.itemId,
+    side: order.side,
+    quantity: fill.quantity,
+    unitPrice: fill.price,
+    total: fill.price * fill.quantity,
+    ...profit,
+    timestamp: new Date()
+  });
+
+  publishEvent({
+    type: 'order.filled',
+    playerId: order.playerId,
+    orderId: order.id,
+    stationId: order.stationId,
+    system: order.system,
+    side: order.side,
+    itemId: order.itemId,
+    quantity: fill.quantity,
+    price: fill.price,
+    remaining: settled.quantity - settled.filledQuantity,
+    counterparty: fill.counterparty
+  });
+
+  console.log(`📑 Order ${order.id} ${order.side} ${fill.quantity} ${item?.name || order.itemId} @ ${fill.price} (${fill.counterparty})`);
+  return true;
+};
+
+// Fill an order against station stock (buys) or station credits (sells)
+const fillAgainstStation = async (db: any, order: StoredOrder, quantity: number, price: number): Promise<boolean> => {
+  const stationDelta: StationTradeDelta = {
+    systemCoordinates: order.system,
+    stationId: order.stationId,
+    itemId: order.itemId,
+    quantityChange: order.side === 'buy' ? -quantity : quantity,
+    creditsChange: order.side === 'buy' ? price * quantity : -price * quantity
+  };
+  const fill: StoredFill = { id: randomUUID(), quantity, price, counterparty: 'station', state: 'pending', createdAt: new Date(), stationDelta };
+
+  if (!await claimFill(db, order.id, fill)) return false;
+
+  if (!await applyStationChange(db, stationDelta, fill.id)) {
+    await releaseFill(db, order.id, fill);
+    return false;
+  }
+
+  if (!await settleFill(db, order, fill)) return false;
+  await repriceAfterTrade(db, stationDelta).catch(error => console.error('❌ Repricing after order fill failed:', error));
+  return true;
+};
+
+// Cross a buy order with a sell order from another player at the resting order's price
+const fillAgainstOrder = async (db: any, order: StoredOrder, resting: StoredOrder, quantity: number): Promise<boolean> => {
+  const id = randomUUID();
+  const createdAt = new Date();
+  const price = resting.limitPrice;
+  const orderFill: StoredFill = { id, quantity, price, counterparty: 'player', counterpartyOrderId: resting.id, state: 'pending', createdAt };
+  const restingFill: StoredFill = { ...orderFill, counterpartyOrderId: order.id };
+
+  if (!await claimFill(db, order.id, orderFill)) return false;
+  if (!await claimFill(db, resting.id, restingFill)) {
+    await releaseFill(db, order.id, orderFill);
+    return false;
+  }
+
+  // The buyer settles first, so goods that don't fit release the seller's claim rather than pay for nothing
+  const [buy, buyFill, sell, sellFill] = order.side === 'buy'
+    ? [order, orderFill, resting, restingFill]
+    : [resting, restingFill, order, orderFill];
+  if (!await settleFill(db, buy, buyFill)) {
+    await releaseFill(db, sell.id, sellFill);
+    return false;
+  }
+  await settleFill(db, sell, sellFill);
+  return true;
+};
+
+// Best resting order on the other side that crosses this order's limit
+const findBestCounterOrder = async (db: any, order: StoredOrder): Promise<StoredOrder | null> => {
+  const isBuy = order.side === 'buy';
+  const [best] = await db.collection(ORDERS_COLLECTION)
+    .find({
+      stationId: order.stationId,
+      itemId: order.itemId,
+      side: isBuy ? 'sell' : 'buy',
+      status: 'open',
+      playerId: { $ne: order.playerId },
+      limitPrice: isBuy ? { $lte: order.limitPrice } : { $gte: order.limitPrice },
+      $expr: { $lt: ['$filledQuantity', '$quantity'] }
+    }, { projection: { _id: 0 } })
+    .sort({ limitPrice: isBuy ? 1 : -1, createdAt: 1 })
+    .limit(1)
+    .toArray();
+  return best || null;
+};
+
+// What the station can do for this order right now, if its price crosses the limit
+const getStationQuote = async (db: any, order: StoredOrder): Promise<{ price: number; quantity: number } | null> => {
+  const station = await findStationById(db, order.stationId);
+  const inv = station?.inventory?.find((i: StationInventory) => i.itemId === order.itemId);
+  if (!station || !inv) return null;
+
+  if (order.side === 'buy') {
+    if (inv.sellPrice > order.limitPrice || inv.quantity <= 0) return null;
+    return { price: inv.sellPrice, quantity: inv.quantity };
+  }
+
+  if (inv.buyPrice < order.limitPrice || inv.buyPrice <= 0) return null;
+  return { price: inv.buyPrice, quantity: Math.floor((station.credits || 0) / inv.buyPrice) };
+};
+
+// Match an open order against other players' orders and the station until it fills or nothing crosses
+export const matchOrder = async (db: any, orderId: string): Promise<StoredOrder | null> => {
+  for (let i = 0; i < MAX_MATCHES_PER_ORDER; i++) {
+    const order = await getOrder(db, orderId);
+    if (!order || order.status !== 'open' || remainingQuantity(order) <= 0) return order;
+
+    const counter = await findBestCounterOrder(db, order);
+    const quote = await getStationQuote(db, order);
+
+    // Take whichever gives this order the better price; ties go to resting player orders
+    const counterBetter = counter && (!quote || quote.quantity <= 0 ||
+      (order.side === 'buy' ? counter.limitPrice <= quote.price : counter.limitPrice >= quote.price));
+
+    if (counter && counterBetter) {
+      await fillAgainstOrder(db, order, counter, Math.min(remainingQuantity(order), remainingQuantity(counter)));
+      continue;
+    }
+
+    if (quote && quote.quantity > 0) {
+      const filled = await fillAgainstStation(db, order, Math.min(remainingQuantity(order), quote.quantity), quote.price);
+      if (filled) continue;
+    }
+
+    return order;
+  }
+
+  return getOrder(db, orderId);
+};
+
+// Post a limit order at the docked station, escrowing credits (buys) or cargo (sells), then match it
+export const placeOrder = async (
+  db: any,
+  playerId: string,
+  params: { side: 'buy' | 'sell'; itemId: string; quantity: number; limitPrice: number; expiresInHours?: number }
+): Promise<StoredOrder> => {
+  const { side, itemId, quantity, limitPrice } = params;
+  const expiresInHours = params.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+
+  const item = getItemById(itemId);
+  if (!item) throw new TradeError('Invalid item ID', 400, 'INVALID_ITEM');
+  if (itemId === 'fuel') throw new TradeError('Fuel cannot be traded with orders', 400, 'ITEM_NOT_ORDERABLE');
+  if (expiresInHours <= 0 || expiresInHours > MAX_EXPIRY_HOURS) {
+    throw new TradeError(`Orders must expire within ${MAX_EXPIRY_HOURS} hours`, 400, 'INVALID_EXPIRY');
+  }
+
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  if (!player.dockedAt) throw new TradeError('You must be docked at a station to post orders', 400, 'NOT_DOCKED');
+
+  const station = await findStationById(db, player.dockedAt);
+  if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
+
+  const openOrders = await db.collection(ORDERS_COLLECTION).countDocuments({ playerId, status: { $in: ['pending', 'open'] } });
+  if (openOrders >= MAX_OPEN_ORDERS) {
+    throw new TradeError(`You already have ${MAX_OPEN_ORDERS} open orders`, 400, 'TOO_MANY_ORDERS');
+  }
+
+  if (side === 'buy') {
+    // Goods are delivered straight to cargo, so the hold must have room for this order and what other open buys still expect
+    const openBuys = await db.collection(ORDERS_COLLECTION)
+      .find({ playerId, side: 'buy', status: { $in: ['pending', 'open'] } }, { projection: { itemId: 1, quantity: 1, filledQuantity: 1 } })
+      .toArray();
+    const reserved = openBuys.reduce((total: number, open: StationOrder) =>
+      total + (getItemById(open.itemId)?.weight || 0) * remainingQuantity(open), 0);
+    const free = player.ship.maxCargo - getHoldWeight(player.ship) - reserved;
+    if (item.weight * quantity > free) {
+      throw new TradeError(`Insufficient cargo space for ${quantity} ${item.name}: ${Math.max(0, free)} units free after your open buy orders`, 400, 'INSUFFICIENT_CARGO_SPACE');
+    }
+  }
+
+  const now = new Date();
+  const order: StoredOrder = {
+    id: randomUUID(),
+    playerId,
+    stationId: station.id,
+    system: coordinateToString(getSystemCoords(station.coordinates)),
+    itemId,
+    side,
+    quantity,
+    filledQuantity: 0,
+    limitPrice,
+    status: 'pending',
+    fills: [],
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: new Date(now.getTime() + expiresInHours * 3600000)
+  };
+  await db.collection(ORDERS_COLLECTION).insertOne({ ...order });
+
+  // Take escrow under a tag so recovery can tell whether it happened
+  const tag = escrowTag(order.id);
+  const players = db.collection('players');
+  let escrowed: any;
+
+  if (side === 'buy') {
+    escrowed = await players.findOneAndUpdate(
+      { id: playerId, dockedAt: station.id, credits: { $gte: quantity * limitPrice }, pendingTrades: { $ne: tag } },
+      { $inc: { credits: -quantity * limitPrice }, $addToSet: { pendingTrades: tag }, $set: { lastActivity: now } },
+      { returnDocument: 'before' }
+    );
+  } else {
+    escrowed = await players.findOneAndUpdate(
+      { id: playerId, dockedAt: station.id, pendingTrades: { $ne: tag }, 'ship.cargo': { $elemMatch: { itemId, quantity: { $gte: quantity } } } },
+      { $inc: { 'ship.cargo.$.quantity': -quantity }, $addToSet: { pendingTrades: tag }, $set: { lastActivity: now } },
+      { returnDocument: 'before' }
+    );
+    if (escrowed) {
+      await players.updateOne({ id: playerId }, { $pull: { 'ship.cargo': { itemId, quantity: { $lte: 0 } } } });
+    }
+  }
+
+  if (!escrowed) {
+    await db.collection(ORDERS_COLLECTION).deleteOne({ id: order.id, status: 'pending' });
+    throw side === 'buy'
+      ? new TradeError(`Insufficient credits to escrow ${quantity * limitPrice}`, 400, 'INSUFFICIENT_CREDITS', true)
+      : new TradeError(`You do not have ${quantity} ${itemId} in cargo`, 400, 'INSUFFICIENT_CARGO', true);
+  }
+
+  const costBasis = side === 'sell'
+    ? escrowed.ship.cargo.find((cargo: CargoItem) => cargo.itemId === itemId)?.purchasePrice || 0
+    : undefined;
+
+  await db.collection(ORDERS_COLLECTION).updateOne(
+    { id: order.id, status: 'pending' },
+    { $set: { status: 'open', updatedAt: new Date(), ...(costBasis !== undefined ? { costBasis } : {}) } }
+  );
+  await pullPlayerTag(db, playerId, tag);
+
+  return (await matchOrder(db, order.id)) as StoredOrder;
+};
+
+// Return the escrow for an order's unfilled units, once
+const refundOrder = async (db: any, order: StoredOrder) => {
+  const units = order.refundPending || 0;
+  const tag = refundTag(order.id);
+
+  if (units > 0) {
+    if (order.side === 'buy') {
+      await creditPlayer(db, order.playerId, tag, units * order.limitPrice);
+    } else if (!await creditPlayer(db, order.playerId, tag, 0, { itemId: order.itemId, quantity: units, unitPrice: order.costBasis || 0 })) {
+      // Escrowed goods wait for room in the hold; recovery retries the refund
+      console.log(`📑 Refund of ${units} ${order.itemId} for order ${order.id} waits for cargo space`);
+      return;
+    }
+  }
+
+  await db.collection(ORDERS_COLLECTION).updateOne({ id: order.id }, { $unset: { refundPending: '' }, $set: { updatedAt: new Date() } });
+  await pullPlayerTag(db, order.playerId, tag);
+};
+
+// Close an open order and refund what never filled; false if it is mid-fill or already closed
+const closeOrder = async (db: any, orderId: string, status: 'cancelled' | 'expired'): Promise<StoredOrder | null> => {
+  const closed = await db.collection(ORDERS_COLLECTION).findOneAndUpdate(
+    { id: orderId, status: 'open', 'fills.state': { $ne: 'pending' } },
+    [{ $set: { status, refundPending: { $subtract: ['$quantity', '$filledQuantity'] }, updatedAt: new Date() } }],
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!closed) return null;
+
+  await refundOrder(db, closed);
+  return { ...closed, refundPending: undefined };
+};
+
+export const cancelOrder = async (db: any, playerId: string, orderId: string): Promise<StoredOrder> => {
+  const order = await getOrder(db, orderId);
+  if (!order || order.playerId !== playerId) throw new TradeError('Order not found', 404, 'ORDER_NOT_FOUND');
+  if (order.status !== 'open') throw new TradeError(`Order is already ${order.status}`, 400, 'ORDER_CLOSED');
+
+  const cancelled = await closeOrder(db, orderId, 'cancelled');
+  if (!cancelled) {
+    throw new TradeError('Order is settling a fill, try again shortly', 409, 'ORDER_BUSY', true);
+  }
+  return cancelled;
+};
+
+export const listPlayerOrders = async (db: any, playerId: string, status?: StationOrder['status']): Promise<StationOrder[]> =>
+  db.collection(ORDERS_COLLECTION)
+    .find({ playerId, ...(status ? { status } : {}) }, { projection: { _id: 0, 'fills.stationDelta': 0 } })
+    .sort({ createdAt: -1 })
+    .limit(100)
+    .toArray();
+
+// Open orders at a station for one item, aggregated by price level
+export const getOrderBook = async (db: any, stationId: string, itemId: string): Promise<OrderBook> => {
+  const levels = await db.collection(ORDERS_COLLECTION).aggregate([
+    { $match: { stationId, itemId, status: 'open' } },
+    { $group: { _id: { side: '$side', price: '$limitPrice' }, quantity: { $sum: { $subtract: ['$quantity', '$filledQuantity'] } }, orders: { $sum: 1 } } },
+    { $match: { quantity: { $gt: 0 } } }
+  ]).toArray();
+
+  const toLevel = (level: any): OrderBookLevel => ({ price: level._id.price, quantity: level.quantity, orders: level.orders });
+  return {
+    stationId,
+    itemId,
+    bids: levels.filter((l: any) => l._id.side === 'buy').map(toLevel).sort((a: OrderBookLevel, b: OrderBookLevel) => b.price - a.price),
+    asks: levels.filter((l: any) => l._id.side === 'sell').map(toLevel).sort((a: OrderBookLevel, b: OrderBookLevel) => a.price - b.price)
+  };
+};
+
+// Finish or undo work a crash left behind: escrow, fills and refunds
+export const recoverOrders = async (db: any): Promise<number> => {
+  const orders = db.collection(ORDERS_COLLECTION);
+  const staleBefore = new Date(Date.now() - STALE_MS);
+  let recovered = 0;
+
+  // Orders whose escrow may not have been taken
+  for (const order of await orders.find({ status: 'pending', createdAt: { $lt: staleBefore } }).toArray()) {
+    const escrowed = await db.collection('players').findOne({ id: order.playerId, pendingTrades: escrowTag(order.id) });
+    if (escrowed) {
+      await orders.updateOne({ id: order.id, status: 'pending' }, { $set: { status: 'open', updatedAt: new Date() } });
+      await pullPlayerTag(db, order.playerId, escrowTag(order.id));
+    } else {
+      await orders.deleteOne({ id: order.id, status: 'pending' });
+    }
+    recovered++;
+  }
+
+  // Fills claimed but never settled: roll forward if the counterparty committed, otherwise release the claim
+  // Buy sides go first, so a buyer whose hold has filled up releases the seller's claim before it is paid
+  const withPendingFills: StoredOrder[] = await orders.find({ fills: { $elemMatch: { state: 'pending', createdAt: { $lt: staleBefore } } } }).toArray();
+  withPendingFills.sort((a, b) => Number(a.side !== 'buy') - Number(b.side !== 'buy'));
+  for (const order of withPendingFills) {
+    for (const fill of order.fills.filter(f => f.state === 'pending' && new Date(f.createdAt) < staleBefore)) {
+      let committed: boolean;
+      if (fill.stationDelta) {
+        committed = !!await db.collection('systems').findOne({
+          coordinates: fill.stationDelta.systemCoordinates,
+          staticObjects: { $elemMatch: { id: fill.stationDelta.stationId, pendingTrades: fill.id } }
+        });
+      } else {
+        committed = !!await orders.findOne({ id: fill.counterpartyOrderId, 'fills.id': fill.id });
+      }
+
+      if (committed) {
+        await settleFill(db, order, fill);
+      } else {
+        if (fill.stationDelta) await revertStationChange(db, fill.stationDelta, fill.id);
+        await releaseFill(db, order.id, fill);
+      }
+      recovered++;
+    }
+  }
+
+  // Closed orders whose refund did not finish
+  for (const order of await orders.find({ refundPending: { $exists: true }, updatedAt: { $lt: staleBefore } }).toArray()) {
+    await refundOrder(db, order);
+    recovered++;
+  }
+
+  if (recovered > 0) {
+    console.log(`🔁 Recovered ${recovered} interrupted order operations`);
+  }
+  return recovered;
+};
+
+// Periodic upkeep: expire old orders, then match the rest against restocked stations
+export const runOrderMaintenance = async (db: any): Promise<void> => {
+  const orders = db.collection(ORDERS_COLLECTION);
+
+  const expired = await orders.find({ status: 'open', expiresAt: { $lt: new Date() } }, { projection: { id: 1 } }).toArray();
+  for (const { id } of expired) {
+    await closeOrder(db, id, 'expired');
+  }
+
+  const open = await orders.find({ status: 'open' }, { projection: { id: 1 } }).sort({ createdAt: 1 }).toArray();
+  for (const { id } of open) {
+    await matchOrder(db, id);
+  }
+
+  if (expired.length > 0) {
+    console.log(`⌛ Expired ${expired.length} station orders`);
+  }
+};
@@ -1,165 +1,329 @@
-import { Coordinates3D, coordinateToString, Probe, ProbeConfig, isAtSystemEdge, getEdgeCoordinates } from '@stellarburn/shared';
+import { AsteroidType, CargoItem, CelestialBody, Coordinates3D, coordinateToString, Probe, ProbeConfig, ProbeFlightPlan, ProbeType, isAtSystemEdge, getEdgeCoordinates, getShipStats, getSystemCoords, isSameCoordinate, sameSystem, NEBULA } from '@stellarburn/shared';
+import { PROBE_TYPES, getProbeType } from '@stellarburn/shared';
 import { trackPlayerExploration } from './explorationService.js';
+import { publishEvent } from './eventService.js';
+import { ensureSystem } from './universeExpansionService.js';
+import { recordSystemIntel, withoutLiveState } from './intelService.js';
+
+
+
+const MAX_WAYPOINTS = 20;
+const MAX_PATTERN_RADIUS = 5;
+const MAX_SWEEP_SYSTEMS = 343; // A 7x7x7 box
+const MAX_LOITER_TICKS = 600;  // Ten minutes at one tick a second
+const RELAY_TICKS_PER_FUEL = 30; // Relays hold position this many ticks per unit of probe fuel
+
+const directionVectors: { [key: string]: Coordinates3D } = {
+  north: { x: 0, y: 1, z: 0 },
+  south: { x: 0, y: -1, z: 0 },
+  east: { x: 1, y: 0, z: 0 },
+  west: { x: -1, y: 0, z: 0 },
+  up: { x: 0, y: 0, z: 1 },
+  down: { x: 0, y: 0, z: -1 },
+  n: { x: 0, y: 1, z: 0 },
+  s: { x: 0, y: -1, z: 0 },
+  e: { x: 1, y: 0, z: 0 },
+  w: { x: -1, y: 0, z: 0 },
+  u: { x: 0, y: 0, z: 1 },
+  d: { x: 0, y: 0, z: -1 }
+};
+
+const isCoordinate = (value: any): value is Coordinates3D =>
+  !!value && [value.x, value.y, value.z].every(Number.isFinite);
+
+// Every system in a box, row by row with each row reversing the last so the probe never doubles back
+const sweepBox = (a: Coordinates3D, b: Coordinates3D): Coordinates3D[] => {
+  const range = (from: number, to: number) =>
+    Array.from({ length: Math.abs(to - from) + 1 }, (_, index) => from + index * Math.sign(to - from || 1));
+
+  const systems: Coordinates3D[] = [];
+  let row = 0;
+  range(a.z, b.z).forEach((z, layer) => {
+    const ys = layer % 2 === 0 ? range(a.y, b.y) : range(b.y, a.y);
+    ys.forEach(y => {
+      const xs = row++ % 2 === 0 ? range(a.x, b.x) : range(b.x, a.x);
+      xs.forEach(x => systems.push({ x, y, z }));
+    });
+  });
+  return systems;
+};
+
+// Systems a flight plan visits in order; a direction plan has none and flies until its fuel runs out
+export const planProbeRoute = (plan: ProbeFlightPlan): Coordinates3D[] => {
+  switch (plan.kind) {
+    case 'direction':
+      return [];
+    case 'waypoints':
+      return plan.waypoints.map(getSystemCoords);
+    case 'loiter':
+      return [getSystemCoords(plan.system)];
+    case 'sweep':
+      return sweepBox(getSystemCoords(plan.from), getSystemCoords(plan.to));
+    case 'spiral': {
+      // Shells of growing radius around the center, each swept before moving outward
+      const center = getSystemCoords(plan.center);
+      const box = sweepBox(
+        { x: center.x - plan.radius, y: center.y - plan.radius, z: center.z - plan.radius },
+        { x: center.x + plan.radius, y: center.y + plan.radius, z: center.z + plan.radius }
+      );
+      const shell = (system: Coordinates3D) =>
+        Math.max(Math.abs(system.x - center.x), Math.abs(system.y - center.y), Math.abs(system.z - center.z));
+      return box.map((system, order) => ({ system, order })).sort((a, b) => shell(a.system) - shell(b.system) || a.order - b.order).map(({ system }) => system);
+    }
+  }
+};
 
+// Check a plan sent by a client before it's stored
+const validateFlightPlan = (plan: any): ProbeFlightPlan => {
+  switch (plan?.kind) {
+    case 'direction':
+      if (!isCoordinate(plan.direction)) throw new Error('Direction plan needs a direction');
+      return { kind: 'direction', direction: plan.direction };
+    case 'waypoints':
+      if (!Array.isArray(plan.waypoints) || plan.waypoints.length === 0 || !plan.waypoints.every(isCoordinate)) {
+        throw new Error('Waypoint plan needs a list of systems');
+      }
+      if (plan.waypoints.length > MAX_WAYPOINTS) throw new Error(`A probe holds at most ${MAX_WAYPOINTS} waypoints`);
+      return { kind: 'waypoints', waypoints: plan.waypoints };
+    case 'spiral':
+      if (!isCoordinate(plan.center)) throw new Error('Spiral plan needs a center system');
+      if (!Number.isInteger(plan.radius) || plan.radius < 1 || plan.radius > MAX_PATTERN_RADIUS) {
+        throw new Error(`Spiral radius must be 1 to ${MAX_PATTERN_RADIUS} systems`);
+      }
+      return { kind: 'spiral', center: plan.center, radius: plan.radius };
+    case 'sweep': {
+      if (!isCoordinate(plan.from) || !isCoordinate(plan.to)) throw new Error('Sweep plan needs two corner systems');
+      const [a, b] = [getSystemCoords(plan.from), getSystemCoords(plan.to)];
+      const size = (Math.abs(a.x - b.x) + 1) * (Math.abs(a.y - b.y) + 1) * (Math.abs(a.z - b.z) + 1);
+      if (size > MAX_SWEEP_SYSTEMS) throw new Error(`A sweep covers at most ${MAX_SWEEP_SYSTEMS} systems`);
+      return { kind: 'sweep', from: plan.from, to: plan.to };
+    }
+    case 'loiter':
+      if (!isCoordinate(plan.system)) throw new Error('Loiter plan needs a system');
+      if (!Number.isInteger(plan.ticks) || plan.ticks < 1 || plan.ticks > MAX_LOITER_TICKS) {
+        throw new Error(`Loiter time must be 1 to ${MAX_LOITER_TICKS} ticks`);
+      }
+      return { kind: 'loiter', system: plan.system, ticks: plan.ticks };
+    default:
+      throw new Error('Flight plan kind must be direction, waypoints, spiral, sweep or loiter');
+  }
+};
 
+// Standard probes come from the probe bay, variants from cargo
+const countProbes = (player: any, probeType: ProbeType): number =>
+  probeType.id === 'standard'
+    ? player.ship.probes || 0
+    : player.ship.cargo?.find((cargo: CargoItem) => cargo.itemId === probeType.itemId)?.quantity || 0;
 
-// Launch probe function using functional approach
-export const launchProbe = async (db: any, playerId: string, direction: string) => {
+// Launch a probe in a direction ("n", "east", ...) or on a flight plan; relays ignore both and stay put
+export const launchProbe = async (db: any, playerId: string, target: string | ProbeFlightPlan | undefined, probeTypeId: string = 'standard') => {
     const player = await db.collection('players').findOne({ id: playerId });
 
     if (!player) {
       throw new Error('Player not found');
     }
 
-    if (player.ship.probes <= 0) {
-      throw new Error('No probes available');
+    const probeType = getProbeType(probeTypeId);
+    if (!probeType) {
+      throw new Error(`Unknown probe type. Use ${PROBE_TYPES.map(type => type.id).join(', ')}`);
+    }
+
+    if (countProbes(player, probeType) <= 0) {
+      throw new Error(probeType.id === 'standard' ? 'No probes available' : `No ${probeType.name}s in cargo`);
     }
 
-    // Convert direction to movement vector
-    const directionVectors: { [key: string]: Coordinates3D } = {
-      north: { x: 0, y: 1, z: 0 },
-      south: { x: 0, y: -1, z: 0 },
-      east: { x: 1, y: 0, z: 0 },
-      west: { x: -1, y: 0, z: 0 },
-      up: { x: 0, y: 0, z: 1 },
-      down: { x: 0, y: 0, z: -1 },
-      n: { x: 0, y: 1, z: 0 },
-      s: { x: 0, y: -1, z: 0 },
-      e: { x: 1, y: 0, z: 0 },
-      w: { x: -1, y: 0, z: 0 },
-      u: { x: 0, y: 0, z: 1 },
-      d: { x: 0, y: 0, z: -1 }
+    // Get probe config from player or use defaults; range comes from the installed launcher
+    const probeConfig = {
+      ...(player.ship.probeConfig || { moveDelay: 1000 }),
+      scanRange: probeType.scanRange,
+      maxFuel: getShipStats(player.ship).probeRange
     };
 
-    const directionVector = directionVectors[direction.toLowerCase()];
-    if (!directionVector) {
-      throw new Error('Invalid direction. Use n/north, s/south, e/east, w/west, u/up, d/down');
+    let plan: ProbeFlightPlan;
+    if (probeType.stationary) {
+      plan = { kind: 'loiter', system: getSystemCoords(player.coordinates), ticks: probeConfig.maxFuel * RELAY_TICKS_PER_FUEL };
+    } else if (typeof target === 'string') {
+      const directionVector = directionVectors[target.toLowerCase()];
+      if (!directionVector) {
+        throw new Error('Invalid direction. Use n/north, s/south, e/east, w/west, u/up, d/down');
+      }
+      plan = { kind: 'direction', direction: directionVector };
+    } else {
+      plan = validateFlightPlan(target);
     }
 
     // Probes are too small for gravity to matter - they can launch from anywhere
 
-    // Get probe config from player or use defaults
-    const probeConfig = player.ship.probeConfig || {
-      maxFuel: 10,
-      scanRange: 0.05,
-      moveDelay: 1000
-    };
-
-    // Create the probe object
+    // Create the probe object; planned probes keep a zero heading
     const probe: Probe = {
       id: `probe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       playerId,
       coordinates: player.coordinates,
-      direction: directionVector,
+      direction: plan.kind === 'direction' ? plan.direction : { x: 0, y: 0, z: 0 },
       fuel: probeConfig.maxFuel,
       maxFuel: probeConfig.maxFuel,
       launchedAt: new Date(),
       lastActivity: new Date(),
-      status: 'active'
+      status: 'active',
+      plan,
+      probeType: probeType.id,
+      scanRange: probeConfig.scanRange,
+      ...(plan.kind !== 'direction' && { route: planProbeRoute(plan).slice(0, probeConfig.maxFuel + 1) }), // No further than its fuel reaches
+      ...(plan.kind === 'loiter' && { loiterTicks: plan.ticks })
     };
 
-    // Store probe in database
-    await db.collection('probes').insertOne(probe);
+    // Take the probe from the bay or cargo first, so two launches can't both spend the last one
+    const taken = probeType.id === 'standard'
+      ? await db.collection('players').updateOne(
+        { id: playerId, 'ship.probes': { $gte: 1 } },
+        {
+          $inc: { 'ship.probes': -1 },
+          $set: { lastActivity: new Date() }
+        }
+      )
+      : await db.collection('players').updateOne(
+        { id: playerId, 'ship.cargo': { $elemMatch: { itemId: probeType.itemId, quantity: { $gte: 1 } } } },
+        { $inc: { 'ship.cargo.$.quantity': -1 }, $set: { lastActivity: new Date() } }
+      );
 
-    // Reduce probe count
-    await db.collection('players').updateOne(
-      { id: playerId },
-      {
-        $inc: { 'ship.probes': -1 },
-        $set: { lastActivity: new Date() }
-      }
-    );
+    if (taken.modifiedCount === 0) {
+      throw new Error(probeType.id === 'standard' ? 'No probes available' : `No ${probeType.name}s in cargo`);
+    }
+
+    if (probeType.id !== 'standard') {
+      await db.collection('players').updateOne({ id: playerId }, { $pull: { 'ship.cargo': { itemId: probeType.itemId, quantity: { $lte: 0 } } } });
+    }
+
+    // Store probe in database
+    await db.collection('probes').insertOne({ ...probe });
 
     // Instead of executing all movement immediately, just return the probe
     // Movement will be handled by the probe movement scheduler
     const updatedPlayer = await db.collection('players').findOne({ id: playerId });
 
+    const message = probeType.stationary
+      ? `${probeType.name} deployed, will relay this system and its neighbours for ${plan.kind === 'loiter' ? plan.ticks : 0} ticks.`
+      : typeof target === 'string'
+        ? `${probeType.name} launched ${target}, will scan ${probeConfig.maxFuel} systems over time.`
+        : `${probeType.name} launched on a ${plan.kind} plan covering ${probe.route!.length} systems with fuel for ${probeConfig.maxFuel}.`;
+
     return {
       success: true,
-      message: `Probe launched ${direction}, will scan ${probeConfig.maxFuel} systems over time.`,
-      probesRemaining: updatedPlayer.ship.probes,
+      message,
+      probesRemaining: countProbes(updatedPlayer, probeType),
       probe,
       discoveredSystems: [] // No immediate scanning
     };
 };
 
-// Private helper function for executing probe movement
-const executeProbeMovement = async (db: any, probe: Probe) => {
-    const discoveredSystems = [];
-    const currentCoords = probe.coordinates;
+// Call a probe home; it flies back to its ship over the next ticks and is stowed on arrival
+export const recallProbe = async (db: any, playerId: string, probeId: string) => {
+    // The CLI shows the last eight characters of probe IDs
+    const probes: Probe[] = await getActiveProbes(db, playerId);
+    const probe = probes.find(candidate => candidate.id === probeId || candidate.id.endsWith(probeId));
+    if (!probe) {
+      throw new Error('Active probe not found');
+    }
+    if (probe.recalledAt) {
+      throw new Error('Probe is already on its way home');
+    }
+
+    const player = await db.collection('players').findOne({ id: playerId });
+    const distance = systemDistance(getSystemCoords(probe.coordinates), getSystemCoords(player.coordinates));
+
+    await db.collection('probes').updateOne(
+      { id: probe.id },
+      { $set: { recalledAt: new Date(), lastActivity: new Date() }, $unset: { route: '', loiterTicks: '' } }
+    );
+
+    if (distance === 0) {
+      const stowed = await stowProbe(db, probe, player);
+      return { success: true, message: stowed.message, probe: { ...probe, status: 'recalled' }, distance, reachable: true };
+    }
 
-    // Start from the next system in the probe direction
-    let probeCoords = {
-      x: Math.floor(currentCoords.x) + (probe.direction.x > 0 ? 1 : probe.direction.x < 0 ? -1 : 0),
-      y: Math.floor(currentCoords.y) + (probe.direction.y > 0 ? 1 : probe.direction.y < 0 ? -1 : 0),
-      z: Math.floor(currentCoords.z) + (probe.direction.z > 0 ? 1 : probe.direction.z < 0 ? -1 : 0)
+    const reachable = distance <= probe.fuel;
+    return {
+      success: true,
+      message: reachable
+        ? `Probe ${probe.id.slice(-8)} recalled, ${distance} systems from your ship`
+        : `Probe ${probe.id.slice(-8)} recalled, but it is ${distance} systems away with fuel for ${probe.fuel} and may not make it`,
+      probe,
+      distance,
+      reachable
     };
+};
 
-    // Move through systems until fuel runs out
-    for (let i = 0; i < probe.fuel; i++) {
-      // Update probe position in database
-      await db.collection('probes').updateOne(
-        { id: probe.id },
-        {
-          $set: {
-            coordinates: probeCoords,
-            fuel: probe.fuel - i - 1,
-            lastActivity: new Date()
-          }
-        }
-      );
+// Stack a probe variant back onto cargo, or start a stack if the player has none left; weightless, so it always fits
+const returnToCargo = async (db: any, playerId: string, itemId: string) => {
+    const stacked = await db.collection('players').updateOne(
+      { id: playerId, 'ship.cargo.itemId': itemId },
+      { $inc: { 'ship.cargo.$.quantity': 1 } }
+    );
+    if (stacked.modifiedCount > 0) return stacked;
 
-      // Add probe to current system's dynamic objects
-      const systemCoordString = coordinateToString(probeCoords);
-      await db.collection('systems').updateOne(
-        { coordinates: systemCoordString },
-        {
-          $addToSet: { 'dynamicObjects.probes': probe.id },
-          $set: { lastActivity: new Date() }
-        },
-        { upsert: true }
-      );
+    return db.collection('players').updateOne(
+      { id: playerId },
+      { $push: { 'ship.cargo': { itemId, quantity: 1, purchasePrice: 0 } } }
+    );
+};
 
-      // Track exploration for this system
-      await trackPlayerExploration(db, probe.playerId, probeCoords);
-
-      // Perform system scan
-      const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
-
-      // Get other players in this system (exclude docked players)
-      const systemPlayers = await db.collection('players').find({
-        'coordinates.x': { $gte: probeCoords.x, $lt: probeCoords.x + 1 },
-        'coordinates.y': { $gte: probeCoords.y, $lt: probeCoords.y + 1 },
-        'coordinates.z': { $gte: probeCoords.z, $lt: probeCoords.z + 1 },
-        dockedAt: { $exists: false }
-      }).toArray();
-
-      const systemScan = {
-        systemCoordinates: probeCoords,
-        objects: system ? system.staticObjects : [],
-        otherPlayers: systemPlayers.map((p: any) => ({
-          name: p.name,
-          coordinates: p.coordinates
-        }))
-      };
-
-      discoveredSystems.push({
-        coordinates: { ...probeCoords },
-        systemScan
-      });
+// Probes fly diagonally, so the distance between systems is the largest axis difference
+const systemDistance = (a: Coordinates3D, b: Coordinates3D) =>
+  Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y), Math.abs(a.z - b.z));
+
+const stepToward = (from: Coordinates3D, to: Coordinates3D): Coordinates3D => ({
+  x: from.x + Math.sign(to.x - from.x),
+  y: from.y + Math.sign(to.y - from.y),
+  z: from.z + Math.sign(to.z - from.z)
+});
+
+// Stealth probes report only to their owner, never to other pilots watching the system
+const isStealthy = (probe: any): boolean => !!getProbeType(probe.probeType)?.stealth;
+
+// A recalled probe back with its ship goes into the bay, or is broken down for fuel if the bay has filled up; variants go back in cargo
+const stowProbe = async (db: any, probe: Probe, player: any) => {
+    const system = coordinateToString(getSystemCoords(probe.coordinates));
+
+    await db.collection('systems').updateMany(
+      { 'dynamicObjects.probes': probe.id },
+      { $pull: { 'dynamicObjects.probes': probe.id } }
+    );
+    await db.collection('probes').updateOne(
+      { id: probe.id },
+      { $set: { status: 'recalled', coordinates: player.coordinates, lastActivity: new Date() } }
+    );
 
-      // Move to next system
-      probeCoords = {
-        x: probeCoords.x + probe.direction.x,
-        y: probeCoords.y + probe.direction.y,
-        z: probeCoords.z + probe.direction.z
-      };
+    const probeType = getProbeType(probe.probeType) ?? getProbeType()!;
+    const stowed = probeType.id === 'standard'
+      ? await db.collection('players').updateOne(
+        { id: player.id, 'ship.probes': { $lt: getShipStats(player.ship).probeBay } },
+        { $inc: { 'ship.probes': 1 } }
+      )
+      : await returnToCargo(db, player.id, probeType.itemId);
+
+    let fuelReturned = 0;
+    if (stowed.modifiedCount === 0) {
+      fuelReturned = Math.max(0, Math.min(probe.fuel, player.ship.maxFuel - player.ship.fuel));
+      await db.collection('players').updateOne({ id: player.id }, { $inc: { 'ship.fuel': fuelReturned } });
     }
 
-    // Probe fuel exhausted, mark as destroyed and cleanup
-    await destroyProbe(db, probe.id);
+    publishEvent({
+      type: 'probe.recalled',
+      ownerOnly: isStealthy(probe),
+      playerId: probe.playerId,
+      probeId: probe.id,
+      system,
+      stowed: stowed.modifiedCount > 0,
+      fuelReturned
+    });
 
-    return discoveredSystems;
+    return {
+      stowed: stowed.modifiedCount > 0,
+      fuelReturned,
+      message: stowed.modifiedCount > 0
+        ? `${probeType.name} ${probe.id.slice(-8)} is back ${probeType.id === 'standard' ? 'in the bay' : 'in your cargo'}`
+        : `Probe bay full; probe ${probe.id.slice(-8)} was broken down for ${fuelReturned} fuel`
+    };
 };
 
 // Destroy probe function using functional approach
@@ -203,29 +367,138 @@ export const getAllActiveProbes = async (db: any) => {
     return await db.collection('probes').find({ status: 'active' }).toArray();
 };
 
+// Active probes anyone may see; stealth probes stay off the public map
+export const getVisibleActiveProbes = async (db: any) => {
+    return await db.collection('probes').find({ status: 'active', probeType: { $ne: 'stealth' } }).toArray();
+};
+
+// Every system within range of a probe's own, not counting its own
+const systemsAround = (center: Coordinates3D, range: number): Coordinates3D[] => {
+    const systems: Coordinates3D[] = [];
+    for (let dx = -range; dx <= range; dx++) {
+      for (let dy = -range; dy <= range; dy++) {
+        for (let dz = -range; dz <= range; dz++) {
+          if (dx || dy || dz) systems.push({ x: center.x + dx, y: center.y + dy, z: center.z + dz });
+        }
+      }
+    }
+    return systems;
+};
+
+// What a probe's sensors make of a body: asteroid composition and station markets only with the matching sensor
+const sensorView = (probeType: ProbeType) => (body: CelestialBody): CelestialBody => {
+    if (body.type === 'asteroid' && !probeType.sensors.asteroids) {
+      // The type's name is plain to see; what it yields takes a survey sensor, so readers of intel treat it as optional
+      const { resources, asteroidType, ...uncharted } = withoutLiveState(body);
+      return asteroidType ? { ...uncharted, asteroidType: { name: asteroidType.name } as AsteroidType } : uncharted;
+    }
+    if (body.type === 'station' && !probeType.sensors.markets) return withoutLiveState(body);
+    return body;
+};
+
+// Scan one system as a probe sees it and give its owner the result as intel
+const scanForProbe = async (db: any, probe: Probe, probeType: ProbeType, coords: Coordinates3D, system: any) => {
+    const nebula = system?.staticObjects.find((obj: any) => obj.type === 'nebula');
+
+    // Get other players in this system (exclude docked players)
+    const systemPlayers = await db.collection('players').find({
+      'coordinates.x': { $gte: coords.x, $lt: coords.x + 1 },
+      'coordinates.y': { $gte: coords.y, $lt: coords.y + 1 },
+      'coordinates.z': { $gte: coords.z, $lt: coords.z + 1 },
+      dockedAt: { $exists: false }
+    }).toArray();
+
+    // A probe inside a nebula sees nothing but the cloud
+    const systemScan = {
+      systemCoordinates: coords,
+      objects: nebula ? [nebula] : system ? system.staticObjects.map(sensorView(probeType)) : [],
+      otherPlayers: nebula ? [] : systemPlayers.map((p: any) => ({
+        name: p.name,
+        coordinates: p.coordinates,
+        ...(p.isNPC && { isNPC: true })
+      }))
+    };
+
+    // The probe's owner now knows the system as the probe saw it, less their own ship
+    const otherShips = systemScan.otherPlayers.filter((_: any, index: number) => systemPlayers[index].id !== probe.playerId);
+    await recordSystemIntel(db, probe.playerId, coords, systemScan.objects, otherShips, 'probe');
+
+    return systemScan;
+};
+
+// Where a probe's plan takes it this tick: the next system, or none to hold position, with what's left of the plan
+const planNextStep = (probe: Probe, current: Coordinates3D) => {
+    if (!probe.plan || probe.plan.kind === 'direction') {
+      return { next: { x: current.x + probe.direction.x, y: current.y + probe.direction.y, z: current.z + probe.direction.z }, route: [], loiterTicks: 0, complete: false };
+    }
+
+    // Waypoints the probe is already sitting in count as visited
+    let route = probe.route || [];
+    while (route.length > 0 && isSameCoordinate(route[0], current)) route = route.slice(1);
+
+    if (route.length > 0) {
+      const next = stepToward(current, route[0]);
+      return { next, route: isSameCoordinate(next, route[0]) ? route.slice(1) : route, loiterTicks: probe.loiterTicks || 0, complete: false };
+    }
+
+    const loiterTicks = probe.loiterTicks || 0;
+    return { next: null, route, loiterTicks: Math.max(0, loiterTicks - 1), complete: loiterTicks <= 0 };
+};
+
 // Move probe one step function using functional approach
 export const moveProbeOneStep = async (db: any, probeId: string) => {
-    const probe = await db.collection('probes').findOne({ id: probeId });
+    const probe: Probe | null = await db.collection('probes').findOne({ id: probeId });
     if (!probe || probe.status !== 'active' || probe.fuel <= 0) {
       return null;
     }
 
-    // Calculate next position - probes jump directly between systems
-    const nextCoords = {
-      x: Math.floor(probe.coordinates.x) + probe.direction.x,
-      y: Math.floor(probe.coordinates.y) + probe.direction.y,
-      z: Math.floor(probe.coordinates.z) + probe.direction.z
-    };
+    const current = getSystemCoords(probe.coordinates);
+    const owner = await db.collection('players').findOne({ id: probe.playerId });
+
+    // Recalled probes home in on their ship, wherever it has gone since
+    let step: ReturnType<typeof planNextStep>;
+    if (probe.recalledAt && owner) {
+      const home = getSystemCoords(owner.coordinates);
+      if (isSameCoordinate(current, home)) {
+        const stowed = await stowProbe(db, probe, owner);
+        return { probe: { ...probe, status: 'recalled' }, systemScan: null, fuelExhausted: false, recalled: stowed };
+      }
+      step = { next: stepToward(current, home), route: [], loiterTicks: 0, complete: false };
+    } else {
+      step = planNextStep(probe, current);
+    }
+
+    if (step.complete) {
+      const systemCoordString = coordinateToString(current);
+      await destroyProbe(db, probeId);
+      publishEvent({
+        type: 'probe.destroyed',
+        ownerOnly: isStealthy(probe),
+        playerId: probe.playerId,
+        probeId,
+        system: systemCoordString,
+        reason: 'plan-complete'
+      });
+      return { probe: { ...probe, status: 'destroyed' }, systemScan: null, fuelExhausted: false, planComplete: true };
+    }
+
+    // Probes jump directly between systems; a loitering probe holds position and rescans
+    const nextCoords = step.next ?? current;
+
+    // Generate the system if no one has been here yet
+    const system = await ensureSystem(db, nextCoords);
+    const nebula = system?.staticObjects.find((obj: any) => obj.type === 'nebula');
 
-    // Update probe position and reduce fuel
-    const newFuel = probe.fuel - 1;
+    // Update probe position and reduce fuel; nebulae drain extra, and holding position is free
+    const newFuel = step.next ? Math.max(0, probe.fuel - 1 - (nebula ? NEBULA.probeFuelDrain : 0)) : probe.fuel;
     await db.collection('probes').updateOne(
       { id: probeId },
       {
         $set: {
           coordinates: nextCoords,
           fuel: newFuel,
-          lastActivity: new Date()
+          lastActivity: new Date(),
+          ...(probe.plan && probe.plan.kind !== 'direction' && !probe.recalledAt && { route: step.route, loiterTicks: step.loiterTicks })
         }
       }
     );
@@ -244,29 +517,48 @@ export const moveProbeOneStep = async (db: any, probeId: string) => {
     // Track exploration for this system
     await trackPlayerExploration(db, probe.playerId, nextCoords);
 
-    // Perform system scan
-    const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
+    const probeType = getProbeType(probe.probeType) ?? getProbeType()!;
+    const systemScan = await scanForProbe(db, probe, probeType, nextCoords, system);
 
-    // Get other players in this system (exclude docked players)
-    const systemPlayers = await db.collection('players').find({
-      'coordinates.x': { $gte: nextCoords.x, $lt: nextCoords.x + 1 },
-      'coordinates.y': { $gte: nextCoords.y, $lt: nextCoords.y + 1 },
-      'coordinates.z': { $gte: nextCoords.z, $lt: nextCoords.z + 1 },
-      dockedAt: { $exists: false }
-    }).toArray();
+    // Sensors with range also cover the systems around it, unless a nebula blinds them
+    if (!nebula) {
+      for (const nearby of systemsAround(nextCoords, probe.scanRange ?? probeType.scanRange)) {
+        const nearbySystem = await ensureSystem(db, nearby);
+        if (!nearbySystem) continue;
+        await trackPlayerExploration(db, probe.playerId, nearby);
+        await scanForProbe(db, probe, probeType, nearby, nearbySystem);
+      }
+    }
 
-    const systemScan = {
-      systemCoordinates: nextCoords,
-      objects: system ? system.staticObjects : [],
-      otherPlayers: systemPlayers.map((p: any) => ({
-        name: p.name,
-        coordinates: p.coordinates
-      }))
-    };
+    if (step.next) {
+      publishEvent({
+        type: 'probe.moved',
+        ownerOnly: isStealthy(probe),
+        playerId: probe.playerId,
+        probeId,
+        system: systemCoordString,
+        coordinates: nextCoords,
+        fuel: newFuel
+      });
+    }
+
+    // A recalled probe that has caught up with its ship is stowed straight away
+    if (probe.recalledAt && owner && sameSystem(nextCoords, owner.coordinates)) {
+      const stowed = await stowProbe(db, { ...probe, coordinates: nextCoords, fuel: newFuel }, owner);
+      return { probe: { ...probe, coordinates: nextCoords, fuel: newFuel, status: 'recalled' }, systemScan, fuelExhausted: false, recalled: stowed };
+    }
 
     // If fuel is exhausted, destroy the probe
     if (newFuel <= 0) {
       await destroyProbe(db, probeId);
+      publishEvent({
+        type: 'probe.destroyed',
+        ownerOnly: isStealthy(probe),
+        playerId: probe.playerId,
+        probeId,
+        system: systemCoordString,
+        reason: 'fuel-exhausted'
+      });
     }
 
     return {
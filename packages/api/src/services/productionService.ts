@@ -0,0 +1,355 @@
+import { randomUUID } from 'crypto';
+import { CargoItem, CelestialBody, ProductionJob, Recipe, StationInventory, StationRecipesResponse } from '@stellarburn/shared';
+import {
+  MARKET_CONFIG,
+  MAX_RECIPE_BATCHES,
+  getHoldWeight,
+  getRecipeById,
+  getRecipesForStationType,
+  getStationTypeKey,
+  scaleRecipeComponents
+} from '@stellarburn/shared';
+import { findStationById } from './stationService.js';
+import { TradeError } from './tradeJournalService.js';
+import { creditPlayer, pullPlayerTag } from './orderService.js';
+import { repriceAfterTrade } from './marketService.js';
+
+const JOBS_COLLECTION = 'production_jobs';
+const MAX_ACTIVE_JOBS = 5;
+const STALE_MS = 30000; // Pending inputs and collections older than this are treated as interrupted
+
+const inputsTag = (jobId: string) => `production:${jobId}:inputs`;
+const outputTag = (jobId: string, itemId: string) => `production:${jobId}:${itemId}`;
+
+export const ensureProductionIndexes = async (db: any) => {
+  const jobs = db.collection(JOBS_COLLECTION);
+  await jobs.createIndex({ id: 1 }, { unique: true });
+  await jobs.createIndex({ playerId: 1, status: 1 });
+  await jobs.createIndex({ status: 1, createdAt: 1 });
+};
+
+const getDockedStation = async (db: any, playerId: string) => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  if (!player.dockedAt) throw new TradeError('You must be docked at a station', 400, 'NOT_DOCKED');
+
+  const station: CelestialBody | null = await findStationById(db, player.dockedAt);
+  if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
+
+  return { player, station };
+};
+
+const listJobs = (db: any, filter: object): Promise<ProductionJob[]> =>
+  db.collection(JOBS_COLLECTION)
+    .find({ status: { $in: ['running', 'collecting'] }, ...filter }, { projection: { _id: 0 } })
+    .sort({ readyAt: 1 })
+    .toArray();
+
+// Recipes the docked station runs, plus the player's jobs waiting there
+export const getStationRecipes = async (db: any, playerId: string): Promise<StationRecipesResponse> => {
+  const { station } = await getDockedStation(db, playerId);
+
+  return {
+    station: { id: station.id, name: station.name },
+    recipes: getRecipesForStationType(getStationTypeKey(station)),
+    jobs: await listJobs(db, { playerId, stationId: station.id })
+  };
+};
+
+// Every uncollected job the player has, wherever it is
+export const listProductionJobs = (db: any, playerId: string): Promise<ProductionJob[]> =>
+  listJobs(db, { playerId });
+
+// Take the inputs and fee from the docked player and queue the job behind their others at this station
+export const queueProduction = async (db: any, playerId: string, recipeId: string, batches: number): Promise<ProductionJob> => {
+  const recipe = getRecipeById(recipeId);
+  if (!recipe) throw new TradeError(`Unknown recipe: ${recipeId}`, 400, 'INVALID_RECIPE');
+  if (!Number.isInteger(batches) || batches < 1 || batches > MAX_RECIPE_BATCHES) {
+    throw new TradeError(`Batches must be between 1 and ${MAX_RECIPE_BATCHES}`, 400, 'INVALID_BATCHES');
+  }
+
+  const { player, station } = await getDockedStation(db, playerId);
+  if (!recipe.stationTypes.includes(getStationTypeKey(station))) {
+    throw new TradeError(`${station.name} does not run ${recipe.name}`, 400, 'RECIPE_NOT_AVAILABLE');
+  }
+
+  const inputs = scaleRecipeComponents(recipe.inputs, batches);
+  const outputs = scaleRecipeComponents(recipe.outputs, batches);
+  const fee = recipe.fee * batches;
+
+  for (const input of inputs) {
+    const held = player.ship.cargo?.find((cargo: CargoItem) => cargo.itemId === input.itemId)?.quantity || 0;
+    if (held < input.quantity) {
+      throw new TradeError(`You need ${input.quantity} ${input.itemId}, have ${held}`, 400, 'INSUFFICIENT_CARGO');
+    }
+  }
+  if (player.credits < fee) {
+    throw new TradeError(`Insufficient credits. Need ${fee}, have ${player.credits}`, 400, 'INSUFFICIENT_CREDITS');
+  }
+
+  const jobs = db.collection(JOBS_COLLECTION);
+  if (await jobs.countDocuments({ playerId, status: { $in: ['pending', 'running'] } }) >= MAX_ACTIVE_JOBS) {
+    throw new TradeError(`You already have ${MAX_ACTIVE_JOBS} production jobs running`, 400, 'TOO_MANY_JOBS');
+  }
+
+  // Jobs at one station run one after another
+  const now = new Date();
+  const [lastJob] = await jobs.find({ playerId, stationId: station.id, status: 'running' }).sort({ readyAt: -1 }).limit(1).toArray();
+  const startedAt = lastJob && new Date(lastJob.readyAt) > now ? new Date(lastJob.readyAt) : now;
+  const system = await db.collection('systems').findOne({ 'staticObjects.id': station.id }, { projection: { coordinates: 1 } });
+
+  const job: ProductionJob = {
+    id: randomUUID(),
+    playerId,
+    stationId: station.id,
+    stationName: station.name,
+    system: system.coordinates,
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    batches,
+    inputs,
+    outputs,
+    fee,
+    unitCost: 0,
+    status: 'pending',
+    createdAt: now,
+    startedAt,
+    readyAt: new Date(startedAt.getTime() + recipe.durationMinutes * batches * 60000)
+  };
+  await jobs.insertOne({ ...job });
+
+  // Take every input and the fee in one update, under a tag so recovery can tell whether it happened
+  const tag = inputsTag(job.id);
+  const taken = await db.collection('players').findOneAndUpdate(
+    {
+      id: playerId,
+      dockedAt: station.id,
+      credits: { $gte: fee },
+      pendingTrades: { $ne: tag },
+      'ship.cargo': { $all: inputs.map(input => ({ $elemMatch: { itemId: input.itemId, quantity: { $gte: input.quantity } } })) }
+    },
+    {
+      $inc: {
+        credits: -fee,
+        ...Object.fromEntries(inputs.map((input, i) => [`ship.cargo.$[in${i}].quantity`, -input.quantity]))
+      },
+      $addToSet: { pendingTrades: tag },
+      $set: { lastActivity: now }
+    },
+    {
+      arrayFilters: inputs.map((input, i) => ({ [`in${i}.itemId`]: input.itemId })),
+      returnDocument: 'before'
+    }
+  );
+
+  if (!taken) {
+    await jobs.deleteOne({ id: job.id, status: 'pending' });
+    throw new TradeError('Your cargo, credits or docking status changed before the job could start', 409, 'PLAYER_STATE_CHANGED', true);
+  }
+  await db.collection('players').updateOne({ id: playerId }, { $pull: { 'ship.cargo': { quantity: { $lte: 0 } } } });
+
+  // Outputs inherit what the inputs cost, plus the fee
+  const inputCost = inputs.reduce((total, input) =>
+    total + (taken.ship.cargo.find((cargo: CargoItem) => cargo.itemId === input.itemId)?.purchasePrice || 0) * input.quantity, 0);
+  const outputUnits = outputs.reduce((total, output) => total + output.quantity, 0);
+  job.unitCost = Math.round((inputCost + fee) / outputUnits);
+  job.status = 'running';
+
+  await jobs.updateOne({ id: job.id, status: 'pending' }, { $set: { status: 'running', unitCost: job.unitCost } });
+  await pullPlayerTag(db, playerId, tag);
+
+  console.log(`🏭 ${player.name} queued ${batches}x ${recipe.name} at ${station.name}, ready ${job.readyAt.toISOString()}`);
+  return job;
+};
+
+// Hand a claimed job's outputs to the player, once per output; false while an output doesn't fit in the hold
+const settleCollection = async (db: any, job: ProductionJob): Promise<boolean> => {
+  for (const output of job.outputs) {
+    if (!await creditPlayer(db, job.playerId, outputTag(job.id, output.itemId), 0, { ...output, unitPrice: job.unitCost })) {
+      return false;
+    }
+  }
+  await db.collection(JOBS_COLLECTION).updateOne({ id: job.id, status: 'collecting' }, { $set: { status: 'collected' } });
+  for (const output of job.outputs) {
+    await pullPlayerTag(db, job.playerId, outputTag(job.id, output.itemId));
+  }
+  return true;
+};
+
+// Put a job that couldn't be handed over back on the shelf, unless some of its outputs already reached the hold
+const unclaimCollection = async (db: any, job: ProductionJob): Promise<boolean> => {
+  const tags = job.outputs.map(output => outputTag(job.id, output.itemId));
+  if (await db.collection('players').findOne({ id: job.playerId, pendingTrades: { $in: tags } })) return false;
+
+  const result = await db.collection(JOBS_COLLECTION).updateOne(
+    { id: job.id, status: 'collecting' },
+    { $set: { status: 'running' }, $unset: { collectedAt: '' } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Collect one finished job, or every finished job at the docked station
+export const collectProduction = async (db: any, playerId: string, jobId?: string): Promise<{ success: boolean; collected: ProductionJob[] }> => {
+  const { player, station } = await getDockedStation(db, playerId);
+  const now = new Date();
+
+  const ready = (await listJobs(db, { playerId, stationId: station.id, ...(jobId ? { id: jobId } : {}) }))
+    .filter(job => job.status === 'running' && new Date(job.readyAt) <= now);
+  if (ready.length === 0) {
+    throw new TradeError(jobId ? `Job ${jobId} is not ready at ${station.name}` : `Nothing ready to collect at ${station.name}`, 400, 'NOTHING_TO_COLLECT');
+  }
+
+  const outputWeight = ready.reduce((total, job) => total + getHoldWeight({ cargo: job.outputs as CargoItem[] }), 0);
+  if (getHoldWeight(player.ship) + outputWeight > player.ship.maxCargo) {
+    throw new TradeError(`Insufficient cargo space for ${outputWeight} units of output`, 400, 'INSUFFICIENT_CARGO_SPACE');
+  }
+
+  const collected: ProductionJob[] = [];
+  for (const job of ready) {
+    const claimed: ProductionJob | null = await db.collection(JOBS_COLLECTION).findOneAndUpdate(
+      { id: job.id, playerId, status: 'running', readyAt: { $lte: now } },
+      { $set: { status: 'collecting', collectedAt: now } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    if (!claimed) continue;
+
+    // The check above read the hold before other trades landed; each output is loaded only if it still fits
+    if (!await settleCollection(db, claimed)) {
+      const shelved = await unclaimCollection(db, claimed);
+      if (collected.length === 0 && shelved) {
+        throw new TradeError('Your hold filled up before the outputs could be loaded', 409, 'INSUFFICIENT_CARGO_SPACE', true);
+      }
+      console.log(`📦 Job ${claimed.id} ${shelved ? 'stays at the station' : 'will finish loading'} once ${player.name} has cargo space`);
+      break;
+    }
+    collected.push({ ...claimed, status: 'collected' });
+  }
+
+  console.log(`📦 ${player.name} collected ${collected.length} production job(s) at ${station.name}`);
+  return { success: true, collected };
+};
+
+// Finish or undo work a crash left behind: input charges and collections
+export const recoverProductionJobs = async (db: any): Promise<number> => {
+  const jobs = db.collection(JOBS_COLLECTION);
+  const staleBefore = new Date(Date.now() - STALE_MS);
+  let recovered = 0;
+
+  for (const job of await jobs.find({ status: 'pending', createdAt: { $lt: staleBefore } }).toArray()) {
+    const charged = await db.collection('players').findOne({ id: job.playerId, pendingTrades: inputsTag(job.id) });
+    if (charged) {
+      await jobs.updateOne({ id: job.id, status: 'pending' }, { $set: { status: 'running' } });
+      await pullPlayerTag(db, job.playerId, inputsTag(job.id));
+    } else {
+      await jobs.deleteOne({ id: job.id, status: 'pending' });
+    }
+    recovered++;
+  }
+
+  for (const job of await jobs.find({ status: 'collecting', collectedAt: { $lt: staleBefore } }).toArray()) {
+    await settleCollection(db, job);
+    recovered++;
+  }
+
+  return recovered;
+};
+
+// Round fractional batches up or down at random so slow recipes still run over time
+const roundStochastically = (value: number) => {
+  const whole = Math.floor(value);
+  return whole + (Math.random() < value - whole ? 1 : 0);
+};
+
+// Batches a station can run: limited by elapsed time, surplus inputs and room for outputs
+const plannedBatches = (recipe: Recipe, stock: Map<string, StationInventory>, hours: number): number => {
+  const entries = [...recipe.inputs, ...recipe.outputs].map(component => stock.get(component.itemId));
+  if (entries.some(inv => !inv?.market)) return 0;
+
+  let batches = roundStochastically(hours * 60 / recipe.durationMinutes);
+  for (const input of recipe.inputs) {
+    const inv = stock.get(input.itemId)!;
+    batches = Math.min(batches, Math.floor(Math.max(0, inv.quantity - inv.market!.targetStock) / input.quantity));
+  }
+  for (const output of recipe.outputs) {
+    const inv = stock.get(output.itemId)!;
+    const room = Math.floor(inv.market!.targetStock * MARKET_CONFIG.maxStockFactor) - inv.quantity;
+    batches = Math.min(batches, Math.floor(Math.max(0, room) / output.quantity));
+  }
+  return Math.max(0, batches);
+};
+
+// Stations run their own recipes on surplus stock; the stock changes reprice like trades
+export const runStationProduction = async (db: any, now: Date = new Date()): Promise<number> => {
+  const systems = await db.collection('systems')
+    .find({ 'staticObjects.type': 'station' }, { projection: { coordinates: 1, staticObjects: 1 } })
+    .toArray();
+  let batchesRun = 0;
+
+  for (const system of systems) {
+    for (const station of system.staticObjects.filter((obj: any) => obj.type === 'station' && obj.inventory)) {
+      const recipes = getRecipesForStationType(getStationTypeKey(station));
+      if (recipes.length === 0) continue;
+
+      const lastRun = station.lastProductionRun ? new Date(station.lastProductionRun) : null;
+      const hours = lastRun ? (now.getTime() - lastRun.getTime()) / 3600000 : 0;
+
+      // Work on a copy so recipes sharing an item see each other's changes
+      const stock = new Map<string, StationInventory>(station.inventory.map((inv: StationInventory) => [inv.itemId, { ...inv }]));
+      const changes = new Map<string, number>();
+      let stationBatches = 0;
+
+      for (const recipe of recipes) {
+        const batches = plannedBatches(recipe, stock, hours);
+        if (batches === 0) continue;
+
+        for (const input of recipe.inputs) {
+          stock.get(input.itemId)!.quantity -= input.quantity * batches;
+          changes.set(input.itemId, (changes.get(input.itemId) || 0) - input.quantity * batches);
+        }
+        for (const output of recipe.outputs) {
+          stock.get(output.itemId)!.quantity += output.quantity * batches;
+          changes.set(output.itemId, (changes.get(output.itemId) || 0) + output.quantity * batches);
+        }
+        stationBatches += batches;
+      }
+
+      // Guarded on the station's production clock and on enough stock for everything consumed
+      const deltas = [...changes.entries()].filter(([, change]) => change !== 0);
+      const consumed = deltas.filter(([, change]) => change < 0);
+      const result = await db.collection('systems').updateOne(
+        {
+          coordinates: system.coordinates,
+          staticObjects: {
+            $elemMatch: {
+              id: station.id,
+              lastProductionRun: lastRun ?? { $exists: false },
+              ...(consumed.length > 0
+                ? { inventory: { $all: consumed.map(([itemId, change]) => ({ $elemMatch: { itemId, quantity: { $gte: -change } } })) } }
+                : {})
+            }
+          }
+        },
+        {
+          $set: { 'staticObjects.$[station].lastProductionRun': now },
+          ...(deltas.length > 0
+            ? { $inc: Object.fromEntries(deltas.map(([, change], i) => [`staticObjects.$[station].inventory.$[item${i}].quantity`, change])) }
+            : {})
+        },
+        {
+          arrayFilters: [
+            { 'station.id': station.id },
+            ...deltas.map(([itemId], i) => ({ [`item${i}.itemId`]: itemId }))
+          ]
+        }
+      );
+      if (result.modifiedCount !== 1 || deltas.length === 0) continue;
+
+      for (const [itemId, quantityChange] of deltas) {
+        await repriceAfterTrade(db, { systemCoordinates: system.coordinates, stationId: station.id, itemId, quantityChange, creditsChange: 0 });
+      }
+      batchesRun += stationBatches;
+    }
+  }
+
+  return batchesRun;
+};
@@ -1,5 +1,7 @@
-import { Coordinates3D, coordinateToString, getSystemCoords } from '@stellarburn/shared';
+import { Coordinates3D, getSystemCoords, NEBULA } from '@stellarburn/shared';
 import { trackPlayerExploration } from './explorationService.js';
+import { ensureSystem } from './universeExpansionService.js';
+import { recordSystemIntel } from './intelService.js';
 import { getItemById } from '@stellarburn/shared';
 
 // Functional helper functions using currying and higher-order functions
@@ -36,17 +38,24 @@ const findPlayersNear = (db: any) => (excludePlayerId: string) => (coords: Coord
 
   return nearbyPlayers.map((p: any) => ({
     name: p.name,
-    coordinates: p.coordinates
+    coordinates: p.coordinates,
+    ...(p.isNPC && { isNPC: true })
   }));
 };
 
-const findProbesNear = (db: any) => (coords: Coordinates3D) => async (scanRange: number = 0.05) => {
+// Stealth probes only show up for their owner
+const hiddenProbesFilter = (viewerId: string) => ({
+  $or: [{ probeType: { $ne: 'stealth' } }, { playerId: viewerId }]
+});
+
+const findProbesNear = (db: any) => (viewerId: string) => (coords: Coordinates3D) => async (scanRange: number = 0.05) => {
   const tolerance = scanRange;
   const nearbyProbes = await db.collection('probes').find({
     'coordinates.x': { $gte: coords.x - tolerance, $lte: coords.x + tolerance },
     'coordinates.y': { $gte: coords.y - tolerance, $lte: coords.y + tolerance },
     'coordinates.z': { $gte: coords.z - tolerance, $lte: coords.z + tolerance },
-    status: 'active'
+    status: 'active',
+    ...hiddenProbesFilter(viewerId)
   }).toArray();
 
   return nearbyProbes.map((probe: any) => ({
@@ -94,8 +103,7 @@ export const performSystemScan = async (db: any, playerId: string) => {
   await trackPlayerExploration(db, playerId, currentCoords);
 
   // Get system data
-  const systemCoordString = coordinateToString(systemCoords);
-  const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
+  const system = await ensureSystem(db, systemCoords);
 
   // Get other players in this system (exclude docked players)
   const systemPlayers = await db.collection('players').find({
@@ -111,17 +119,32 @@ export const performSystemScan = async (db: any, playerId: string) => {
     'coordinates.x': { $gte: systemCoords.x, $lt: systemCoords.x + 1 },
     'coordinates.y': { $gte: systemCoords.y, $lt: systemCoords.y + 1 },
     'coordinates.z': { $gte: systemCoords.z, $lt: systemCoords.z + 1 },
-    status: 'active'
+    status: 'active',
+    ...hiddenProbesFilter(playerId)
   }).toArray();
 
+  // Inside a nebula the scan only reaches nearby objects, ships and probes
+  const nebula = system?.staticObjects?.find((obj: any) => obj.type === 'nebula');
+  const isVisible = nebula
+    ? (entity: any) => entity.type === 'nebula' || createRangeFilter(NEBULA.scanRange)(createDistanceCalculator(currentCoords)(entity.coordinates))
+    : () => true;
+
+  const visibleObjects = system?.staticObjects ? system.staticObjects.filter(isVisible) : [];
+  const visiblePlayers = (systemPlayers || []).filter(isVisible).map((p: any) => ({
+    name: p.name,
+    coordinates: p.coordinates,
+    ...(p.isNPC && { isNPC: true })
+  }));
+
+  // Being here refreshes what the player knows of the system, prices included
+  await recordSystemIntel(db, playerId, systemCoords, visibleObjects, visiblePlayers, 'ship');
+
   return {
     systemCoordinates: systemCoords,
-    objects: system?.staticObjects ? system.staticObjects.map(enrichStationData) : [],
-    otherPlayers: (systemPlayers || []).map((p: any) => ({
-      name: p.name,
-      coordinates: p.coordinates
-    })),
-    probes: (systemProbes || []).map((probe: any) => ({
+    ...(nebula && { nebula: { name: nebula.name, scanRange: NEBULA.scanRange } }),
+    objects: visibleObjects.map(enrichStationData),
+    otherPlayers: visiblePlayers,
+    probes: (systemProbes || []).filter(isVisible).map((probe: any) => ({
       id: probe.id,
       playerId: probe.playerId,
       coordinates: probe.coordinates,
@@ -145,13 +168,12 @@ export const performLocalScan = async (db: any, playerId: string) => {
   const systemCoords = getSystemCoords(currentCoords);
 
   // Get system data for object detection
-  const systemCoordString = coordinateToString(systemCoords);
-  const system = await db.collection('systems').findOne({ coordinates: systemCoordString });
+  const system = await ensureSystem(db, systemCoords);
 
   // Create partially applied functions for this scan session
   const findObjectsInSystemSector = findObjectsNear(system);
   const findPlayersExcludingCurrent = findPlayersNear(db)(playerId);
-  const findActiveProbes = findProbesNear(db);
+  const findActiveProbes = findProbesNear(db)(playerId);
 
   // Scan current sector - use larger range for objects you're right next to
   const currentObjects = findObjectsInSystemSector(currentCoords)(0.1).map(enrichStationData);
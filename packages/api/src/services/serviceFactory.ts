@@ -2,9 +2,19 @@ import { Db } from 'mongodb';
 import { getMongo } from './databaseService.js';
 import { moveAllActiveProbes } from './probeService.js';
 import { createProbeScheduler, ProbeSchedulerInterface } from './probeScheduler.js';
+import { advanceAllMarkets } from './marketService.js';
+import { runOrderMaintenance } from './orderService.js';
+import { runContractMaintenance } from './contractService.js';
+import { advanceAsteroids } from './asteroidService.js';
+import { runStationProduction } from './productionService.js';
+import { createMarketScheduler, MarketSchedulerInterface } from './marketScheduler.js';
+import { advanceAutopilots } from './autopilotService.js';
+import { createAutopilotScheduler, AutopilotSchedulerInterface } from './autopilotScheduler.js';
 
 export interface ServiceContainer {
   probeScheduler: ProbeSchedulerInterface;
+  marketScheduler: MarketSchedulerInterface;
+  autopilotScheduler: AutopilotSchedulerInterface;
 }
 
 let servicesCache: ServiceContainer | null = null;
@@ -15,8 +25,21 @@ export function getServices(dbName: string = 'stellarburn'): ServiceContainer {
 
     // Create functional probe scheduler with functional probe service
     const probeScheduler = createProbeScheduler(() => moveAllActiveProbes(db));
+    // Each market tick restocks stations and runs their recipes, then expires and matches open orders
+    // against the new stock and fails contracts past their deadline; asteroid fields recover on the same clock
+    const marketScheduler = createMarketScheduler(async () => {
+      const updated = await advanceAllMarkets(db);
+      await runStationProduction(db);
+      await runOrderMaintenance(db);
+      await runContractMaintenance(db);
+      await advanceAsteroids(db);
+      return updated;
+    });
+    const autopilotScheduler = createAutopilotScheduler(() => advanceAutopilots(db));
     servicesCache = {
-      probeScheduler
+      probeScheduler,
+      marketScheduler,
+      autopilotScheduler
     };
   }
 
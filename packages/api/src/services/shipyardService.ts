@@ -0,0 +1,133 @@
+import { CelestialBody, ShipStats, ShipyardResponse } from '@stellarburn/shared';
+import { SHIP_HULLS, SHIP_MODULES, SHIP_RESALE_RATE, getHoldWeight, getHullById, getModuleById, getShipStats, getTradeInValue } from '@stellarburn/shared';
+import { findStationById } from './stationService.js';
+import { TradeError } from './tradeJournalService.js';
+
+type ShipLayout = { hullId?: string; modules?: string[] };
+
+// Only shipyard stations sell hulls and fit modules
+const getDockedShipyard = async (db: any, playerId: string) => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  if (!player.dockedAt) throw new TradeError('You must be docked at a shipyard', 400, 'NOT_DOCKED');
+
+  const station: CelestialBody | null = await findStationById(db, player.dockedAt);
+  if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
+  if (station.stationType !== 'shipyard') {
+    throw new TradeError(`${station.name} has no shipyard`, 400, 'NOT_A_SHIPYARD');
+  }
+
+  return { player, station };
+};
+
+// Match the ship exactly as it was read, so concurrent refits can't both apply
+const shipGuard = (ship: ShipLayout) => ({
+  'ship.hullId': ship.hullId ?? { $exists: false },
+  'ship.modules': ship.modules ?? { $exists: false }
+});
+
+// Swap in a new layout, sync the stored capacities and settle credits in one update
+const applyRefit = async (db: any, player: any, stationId: string, layout: Required<ShipLayout>, creditsChange: number): Promise<ShipStats> => {
+  const stats = getShipStats(layout);
+  if (getHoldWeight(player.ship) > stats.cargoCapacity) {
+    throw new TradeError(`Your cargo would not fit in ${stats.cargoCapacity} units of hold space`, 400, 'INSUFFICIENT_CARGO_SPACE');
+  }
+
+  const result = await db.collection('players').updateOne(
+    {
+      id: player.id,
+      dockedAt: stationId,
+      ...shipGuard(player.ship),
+      ...(creditsChange < 0 ? { credits: { $gte: -creditsChange } } : {})
+    },
+    [{
+      $set: {
+        credits: { $add: ['$credits', creditsChange] },
+        'ship.hullId': stats.hullId,
+        'ship.modules': { $literal: stats.modules },
+        'ship.maxCargo': stats.cargoCapacity,
+        'ship.maxFuel': stats.fuelCapacity,
+        'ship.fuel': { $min: ['$ship.fuel', stats.fuelCapacity] },
+        'ship.probes': { $min: ['$ship.probes', stats.probeBay] },
+        'ship.probeConfig.maxFuel': stats.probeRange,
+        lastActivity: new Date()
+      }
+    }]
+  );
+
+  if (result.modifiedCount !== 1) {
+    throw new TradeError('Your credits, ship or docking status changed before the refit could complete', 409, 'PLAYER_STATE_CHANGED', true);
+  }
+
+  return stats;
+};
+
+// Hulls and modules on offer, priced against the player's current ship
+export const getShipyard = async (db: any, playerId: string): Promise<ShipyardResponse> => {
+  const { player, station } = await getDockedShipyard(db, playerId);
+  const tradeInValue = getTradeInValue(player.ship);
+
+  return {
+    station: { id: station.id, name: station.name },
+    currentShip: getShipStats(player.ship),
+    tradeInValue,
+    hulls: SHIP_HULLS.map(hull => ({ ...hull, netPrice: hull.price - tradeInValue })),
+    modules: SHIP_MODULES
+  };
+};
+
+// Buy a new hull, trading in the current ship and its modules
+export const buyHull = async (db: any, playerId: string, hullId: string) => {
+  const hull = getHullById(hullId);
+  if (!hull) throw new TradeError(`Unknown hull: ${hullId}`, 400, 'INVALID_HULL');
+
+  const { player, station } = await getDockedShipyard(db, playerId);
+  const current = getShipStats(player.ship);
+  if (current.hullId === hull.id) throw new TradeError(`You already fly a ${hull.name}`, 400, 'SAME_HULL');
+
+  const tradeInValue = getTradeInValue(player.ship);
+  const netPrice = hull.price - tradeInValue;
+  if (player.credits < netPrice) {
+    throw new TradeError(`Insufficient credits. Need ${netPrice} after ${tradeInValue} trade-in, have ${player.credits}`, 400, 'INSUFFICIENT_CREDITS');
+  }
+
+  const ship = await applyRefit(db, player, station.id, { hullId: hull.id, modules: [] }, -netPrice);
+  console.log(`🚀 ${player.name} traded a ${current.hullName} for a ${hull.name} at ${station.name} (${netPrice} credits)`);
+
+  return { success: true, ship, tradeInValue, netPrice, credits: player.credits - netPrice };
+};
+
+// Fit a module into a free slot
+export const installModule = async (db: any, playerId: string, moduleId: string) => {
+  const module = getModuleById(moduleId);
+  if (!module) throw new TradeError(`Unknown module: ${moduleId}`, 400, 'INVALID_MODULE');
+
+  const { player, station } = await getDockedShipyard(db, playerId);
+  const current = getShipStats(player.ship);
+  if (current.modules.length >= current.moduleSlots) {
+    throw new TradeError(`All ${current.moduleSlots} module slots on your ${current.hullName} are in use`, 400, 'NO_FREE_SLOTS');
+  }
+  if (player.credits < module.price) {
+    throw new TradeError(`Insufficient credits. Need ${module.price}, have ${player.credits}`, 400, 'INSUFFICIENT_CREDITS');
+  }
+
+  const ship = await applyRefit(db, player, station.id, { hullId: current.hullId, modules: [...current.modules, module.id] }, -module.price);
+  console.log(`🔧 ${player.name} installed ${module.name} at ${station.name}`);
+
+  return { success: true, ship, cost: module.price, credits: player.credits - module.price };
+};
+
+// Pull one copy of a module and sell it back to the yard
+export const removeModule = async (db: any, playerId: string, moduleId: string) => {
+  const { player, station } = await getDockedShipyard(db, playerId);
+  const current = getShipStats(player.ship);
+  const index = current.modules.indexOf(moduleId);
+  if (index === -1) throw new TradeError(`No ${moduleId} installed`, 400, 'MODULE_NOT_INSTALLED');
+
+  const refund = Math.floor((getModuleById(moduleId)?.price || 0) * SHIP_RESALE_RATE);
+  const modules = current.modules.filter((_, i) => i !== index);
+  const ship = await applyRefit(db, player, station.id, { hullId: current.hullId, modules }, refund);
+  console.log(`🔧 ${player.name} removed ${moduleId} at ${station.name}`);
+
+  return { success: true, ship, refund, credits: player.credits + refund };
+};
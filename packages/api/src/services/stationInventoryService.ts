@@ -1,32 +1,19 @@
-import { StationInventory, TradeItem } from '@stellarburn/shared';
+import { RandomSource, StationInventory, StationMarketState, TradeItem, UniverseMetadata } from '@stellarburn/shared';
 import { TRADE_ITEMS, getWeightedRandomItems, getItemById, getStationInventory, STATION_TYPES } from '@stellarburn/shared';
+import { STATION_CLASS_MARGINS, StationTypeKey, createStationMarket, deriveRandom, getSpreadPrices, getStationTypeKey } from '@stellarburn/shared';
 
 // Functional helper for generating prices with market fluctuation
-const generatePrices = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E') => {
-  // Station class affects profit margins
-  const profitMargins = {
-    'A': 0.25,  // Luxury stations: 25% markup
-    'B': 0.20,  // Major hubs: 20% markup
-    'C': 0.15,  // Standard: 15% markup
-    'D': 0.18,  // Small outposts: 18% markup (higher due to scarcity)
-    'E': 0.22   // Basic stations: 22% markup (highest due to remote location)
-  };
-
+const generatePrices = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource) => {
   // Market fluctuation: ±10% from base price
-  const fluctuation = (Math.random() - 0.5) * 0.2; // -0.1 to +0.1
+  const fluctuation = (random() - 0.5) * 0.2; // -0.1 to +0.1
   const marketPrice = Math.floor(item.basePrice * (1 + fluctuation));
 
-  const margin = profitMargins[stationClass];
-
   // Station buys at below market price, sells at above market price
-  const buyPrice = Math.floor(marketPrice * (1 - margin));
-  const sellPrice = Math.floor(marketPrice * (1 + margin));
-
-  return { buyPrice, sellPrice };
+  return { marketPrice, ...getSpreadPrices(marketPrice, STATION_CLASS_MARGINS[stationClass]) };
 };
 
 // Functional helper for generating quantity based on item rarity and station class
-const generateQuantity = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E') => {
+const generateQuantity = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource) => {
   const baseQuantities = {
     'common': { min: 10, max: 50 },
     'uncommon': { min: 5, max: 25 },
@@ -48,11 +35,11 @@ const generateQuantity = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' |
   const adjustedMin = Math.max(1, Math.floor(min * multiplier));
   const adjustedMax = Math.max(adjustedMin, Math.floor(max * multiplier));
 
-  return Math.floor(Math.random() * (adjustedMax - adjustedMin + 1)) + adjustedMin;
+  return Math.floor(random() * (adjustedMax - adjustedMin + 1)) + adjustedMin;
 };
 
 // Functional helper for getting item count based on station type
-const getItemCountForStationType = (stationType: keyof typeof STATION_TYPES) => {
+const getItemCountForStationType = (stationType: keyof typeof STATION_TYPES, random: RandomSource) => {
   const itemCounts = {
     'Military': { min: 8, max: 12 },   // Military stations have focused inventory
     'Mining': { min: 10, max: 15 },    // Mining stations have lots of raw materials
@@ -62,11 +49,11 @@ const getItemCountForStationType = (stationType: keyof typeof STATION_TYPES) =>
   };
 
   const { min, max } = itemCounts[stationType];
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
 };
 
 // Generate initial credits for stations
-const generateStationCredits = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E') => {
+const generateStationCredits = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource) => {
   const creditRanges = {
     'A': { min: 50000, max: 200000 },  // Luxury stations have lots of money
     'B': { min: 30000, max: 100000 },  // Major hubs
@@ -76,11 +63,11 @@ const generateStationCredits = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E') => {
   };
 
   const { min, max } = creditRanges[stationClass];
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
 };
 
 // Helper function to create standard fuel and probe inventory items
-const createStandardItems = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): StationInventory[] => {
+const createStandardItems = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource): StationInventory[] => {
   const inventory: StationInventory[] = [];
 
   // Always add fuel and probes with unlimited quantity (999)
@@ -88,7 +75,7 @@ const createStandardItems = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): Station
   const probeItem = getItemById('probe');
 
   if (fuelItem) {
-    const { buyPrice, sellPrice } = generatePrices(fuelItem, stationClass);
+    const { buyPrice, sellPrice } = generatePrices(fuelItem, stationClass, random);
     inventory.push({
       itemId: 'fuel',
       quantity: 999, // Unlimited
@@ -98,7 +85,7 @@ const createStandardItems = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): Station
   }
 
   if (probeItem) {
-    const { buyPrice, sellPrice } = generatePrices(probeItem, stationClass);
+    const { buyPrice, sellPrice } = generatePrices(probeItem, stationClass, random);
     inventory.push({
       itemId: 'probe',
       quantity: 999, // Unlimited
@@ -110,21 +97,22 @@ const createStandardItems = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): Station
   return inventory;
 };
 
-// Helper function to create inventory item from trade item
-const createInventoryItem = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): StationInventory => {
-  const quantity = generateQuantity(item, stationClass);
-  const { buyPrice, sellPrice } = generatePrices(item, stationClass);
+// Helper function to create inventory item from trade item, with supply/demand state for its station type
+const createInventoryItem = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E', stationType: StationTypeKey, random: RandomSource): StationInventory => {
+  const quantity = generateQuantity(item, stationClass, random);
+  const { marketPrice } = generatePrices(item, stationClass, random);
+  const market = createStationMarket(item, stationClass, stationType, marketPrice);
 
   return {
     itemId: item.id,
     quantity,
-    buyPrice,
-    sellPrice
+    ...getSpreadPrices(market.marketPrice, market.margin),
+    market
   };
 };
 
 // Generate comprehensive inventory for Haven Station (everything except military)
-export const generateHavenStationInventory = (): StationInventory[] => {
+export const generateHavenStationInventory = (random: RandomSource = Math.random): StationInventory[] => {
   // Get all non-military items
   const nonMilitaryItems = TRADE_ITEMS.filter(item => item.category !== 'military');
 
@@ -158,14 +146,25 @@ export const generateHavenStationInventory = (): StationInventory[] => {
     .filter(item => item.id !== 'fuel' && item.id !== 'probe')
     .forEach(item => {
       // Generate fair prices - small markup for new player friendliness
-      const marketFluctuation = (Math.random() - 0.5) * 0.1; // ±5% fluctuation
+      const marketFluctuation = (random() - 0.5) * 0.1; // ±5% fluctuation
       const marketPrice = Math.floor(item.basePrice * (1 + marketFluctuation));
 
+      // Haven neither produces nor consumes, so prices only move with player trades
+      const market: StationMarketState = {
+        equilibriumPrice: marketPrice,
+        marketPrice,
+        margin: 0.15, // Station buys at 85%, sells at 115% of market
+        targetStock: 20,
+        productionRate: 0,
+        consumptionRate: 0,
+        lastUpdated: new Date()
+      };
+
       inventory.push({
         itemId: item.id,
         quantity: 20, // Good availability for all items
-        buyPrice: Math.floor(marketPrice * 0.85), // Station buys at 85% of market
-        sellPrice: Math.floor(marketPrice * 1.15)  // Station sells at 115% of market
+        ...getSpreadPrices(marketPrice, market.margin),
+        market
       });
     });
 
@@ -173,29 +172,29 @@ export const generateHavenStationInventory = (): StationInventory[] => {
 };
 
 // Generate initial inventory for a station based on its type and class
-export const generateStationInventoryByType = (stationType: keyof typeof STATION_TYPES): StationInventory[] => {
+export const generateStationInventoryByType = (stationType: keyof typeof STATION_TYPES, random: RandomSource = Math.random): StationInventory[] => {
   const stationConfig = STATION_TYPES[stationType];
   const stationClass = stationConfig.class as 'A' | 'B' | 'C' | 'D' | 'E';
 
   // Start with standard fuel and probe items
-  const inventory = createStandardItems(stationClass);
+  const inventory = createStandardItems(stationClass, random);
 
   // Get appropriate items for this station type
-  const itemCount = getItemCountForStationType(stationType);
-  const selectedItems = getStationInventory(stationType, itemCount);
+  const itemCount = getItemCountForStationType(stationType, random);
+  const selectedItems = getStationInventory(stationType, itemCount, random);
 
   // Generate inventory entries for each item (excluding fuel and probes)
   const additionalItems = selectedItems
     .filter(item => item.id !== 'fuel' && item.id !== 'probe')
-    .map(item => createInventoryItem(item, stationClass));
+    .map(item => createInventoryItem(item, stationClass, stationType, random));
 
   return [...inventory, ...additionalItems];
 };
 
 // Legacy method - Generate initial inventory for a station based on its class
-export const generateStationInventory = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): StationInventory[] => {
+export const generateStationInventory = (stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource = Math.random): StationInventory[] => {
   // Start with standard fuel and probe items
-  const inventory = createStandardItems(stationClass);
+  const inventory = createStandardItems(stationClass, random);
 
   // Determine how many different items this station should have (in addition to fuel/probes)
   const itemCounts = {
@@ -207,19 +206,30 @@ export const generateStationInventory = (stationClass: 'A' | 'B' | 'C' | 'D' | '
   };
 
   const { min, max } = itemCounts[stationClass];
-  const itemCount = Math.floor(Math.random() * (max - min + 1)) + min;
+  const itemCount = Math.floor(random() * (max - min + 1)) + min;
 
   // Get weighted random items based on station class (excluding fuel and probes)
-  const selectedItems = getWeightedRandomItems(itemCount, stationClass);
+  const selectedItems = getWeightedRandomItems(itemCount, stationClass, random);
 
   // Generate inventory entries for each item (excluding fuel and probes)
   const additionalItems = selectedItems
     .filter(item => item.id !== 'fuel' && item.id !== 'probe')
-    .map(item => createInventoryItem(item, stationClass));
+    .map(item => createInventoryItem(item, stationClass, getStationTypeKey({ stationClass }), random));
 
   return [...inventory, ...additionalItems];
 };
 
+// Give a station its starting inventory and credits; seeded universes stock each station the same way every time
+export const stockStation = (station: any, seed?: string): void => {
+  const random = seed ? deriveRandom(seed, 'inventory', station.id) : Math.random;
+
+  // Special handling for Haven Station
+  station.inventory = station.isHavenStation
+    ? generateHavenStationInventory(random)
+    : generateStationInventoryByType(getStationTypeKey(station), random);
+  station.credits = generateStationCredits(station.stationClass, random);
+};
+
 // Seed all existing stations with inventory
 export const seedAllStationInventories = async (db: any): Promise<void> => {
   console.log('🏪 Seeding station inventories...');
@@ -228,6 +238,10 @@ export const seedAllStationInventories = async (db: any): Promise<void> => {
   let stationCount = 0;
   let totalItems = 0;
 
+  // Seeded universes get the same inventories every time
+  const metadata: UniverseMetadata | null = await db.collection('universe').findOne({ id: 'config' });
+  if (metadata?.seed) console.log(`🌱 Using universe seed ${metadata.seed}`);
+
   for (const sector of sectors) {
     if (!sector.staticObjects) continue;
 
@@ -239,21 +253,12 @@ export const seedAllStationInventories = async (db: any): Promise<void> => {
         continue;
       }
 
-      let inventory: StationInventory[];
-
-      // Special handling for Haven Station
       if (station.isHavenStation) {
         console.log(`🏛️  Generating comprehensive inventory for Haven Station`);
-        inventory = generateHavenStationInventory();
-      } else {
-        inventory = generateStationInventory(station.stationClass);
       }
 
-      // Add inventory to the station object
-      station.inventory = inventory;
-      station.credits = generateStationCredits(station.stationClass);
-
-      totalItems += inventory.length;
+      stockStation(station, metadata?.seed);
+      totalItems += station.inventory.length;
       stationCount++;
     }
 
@@ -1,5 +1,12 @@
-import { Coordinates3D, CelestialBody, StationInventory, TradeItem, CargoItem, calculate3DDistance } from '@stellarburn/shared';
-import { getItemById } from '@stellarburn/shared';
+import { Coordinates3D, CelestialBody, StationInventory, TradeItem, CargoItem, calculate3DDistance, coordinateToString, getSystemCoords } from '@stellarburn/shared';
+import { getItemById, getHoldWeight } from '@stellarburn/shared';
+import { publishEvent } from './eventService.js';
+import { runIdempotentTrade, findInterruptedTrades, settleInterruptedTrade, TradeError, TradeAction, StationTradeDelta } from './tradeJournalService.js';
+import { repriceAfterTrade } from './marketService.js';
+import { recordTrade } from './tradeLedgerService.js';
+import { recordDock } from './bookmarkService.js';
+import { recordStationIntel } from './intelService.js';
+import { cargoSpaceGuard } from './cargoService.js';
 
 // Functional helpers for station operations
 const isInDockingRange = (playerCoords: Coordinates3D) => (stationCoords: Coordinates3D): boolean => {
@@ -86,7 +93,8 @@ export const getStationInfo = async (db: any, stationId: string) => {
     inventory,
     dockedShips: dockedPlayers.map((p: any) => ({
       id: p.id,
-      name: p.name
+      name: p.name,
+      ...(p.isNPC && { isNPC: true })
     }))
   };
 };
@@ -117,6 +125,18 @@ export const dockPlayer = async (db: any, playerId: string) => {
     }
   );
 
+  await recordDock(db, playerId, station);
+  await recordStationIntel(db, playerId, station);
+
+  publishEvent({
+    type: 'station.docked',
+    playerId,
+    playerName: player.name,
+    stationId: station.id,
+    stationName: station.name,
+    system: coordinateToString(getSystemCoords(station.coordinates))
+  });
+
   return {
     success: true,
     message: `Docked at ${station.name} (Class ${station.stationClass})`,
@@ -150,6 +170,15 @@ export const undockPlayer = async (db: any, playerId: string) => {
     }
   );
 
+  publishEvent({
+    type: 'station.undocked',
+    playerId,
+    playerName: player.name,
+    stationId: player.dockedAt,
+    stationName,
+    system: coordinateToString(getSystemCoords(player.coordinates))
+  });
+
   return {
     success: true,
     message: `Undocked from ${stationName}`,
@@ -182,232 +211,422 @@ export const getStationNearPlayer = async (db: any, playerId: string) => {
   };
 };
 
-// Update station inventory helper
-const updateStationInventory = async (db: any, stationId: string, itemId: string, quantityChange: number, creditsChange: number) => {
-  const sectors = await db.collection('systems').find({}).toArray();
+// Station inventory lives inside its system document, so every write targets the station and item by array filter
+const stationArrayFilters = (delta: StationTradeDelta) => [
+  { 'station.id': delta.stationId },
+  { 'item.itemId': delta.itemId }
+];
 
-  for (const sector of sectors) {
-    if (!sector.staticObjects) continue;
+// Conditionally apply a trade to a station; false if stock or credits no longer allow it.
+// The attempt ID is tagged onto the station so a rollback can tell whether this write happened.
+// Sold-out items stay listed at quantity 0 so the station keeps buying them.
+export const applyStationChange = async (db: any, delta: StationTradeDelta, attemptId: string): Promise<boolean> => {
+  const itemGuard: any = { itemId: delta.itemId };
+  if (delta.quantityChange < 0) itemGuard.quantity = { $gte: -delta.quantityChange };
 
-    const station = sector.staticObjects.find((obj: any) => obj.id === stationId);
-    if (!station) continue;
+  const stationGuard: any = { id: delta.stationId, pendingTrades: { $ne: attemptId }, inventory: { $elemMatch: itemGuard } };
+  if (delta.creditsChange < 0) stationGuard.credits = { $gte: -delta.creditsChange };
 
-    // Update inventory
-    const inventoryItem = station.inventory?.find((inv: any) => inv.itemId === itemId);
-    if (inventoryItem) {
-      inventoryItem.quantity += quantityChange;
-      // Remove item if quantity becomes zero or negative
-      if (inventoryItem.quantity <= 0) {
-        station.inventory = station.inventory.filter((inv: any) => inv.itemId !== itemId);
-      }
-    } else if (quantityChange > 0) {
-      // Add new inventory item
-      const item = getItemById(itemId);
-      if (item && station.inventory) {
-        station.inventory.push({
-          itemId,
-          quantity: quantityChange,
-          buyPrice: Math.floor(item.basePrice * 0.8), // Station buys at 80% of base
-          sellPrice: Math.floor(item.basePrice * 1.2)  // Station sells at 120% of base
-        });
-      }
-    }
+  const result = await db.collection('systems').updateOne(
+    { coordinates: delta.systemCoordinates, staticObjects: { $elemMatch: stationGuard } },
+    {
+      $inc: {
+        'staticObjects.$[station].inventory.$[item].quantity': delta.quantityChange,
+        'staticObjects.$[station].credits': delta.creditsChange
+      },
+      $addToSet: { 'staticObjects.$[station].pendingTrades': attemptId },
+      $set: { lastActivity: new Date() }
+    },
+    { arrayFilters: stationArrayFilters(delta) }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+// Undo a station change, only if this attempt actually applied it
+export const revertStationChange = async (db: any, delta: StationTradeDelta, attemptId: string) => {
+  await db.collection('systems').updateOne(
+    { coordinates: delta.systemCoordinates, staticObjects: { $elemMatch: { id: delta.stationId, pendingTrades: attemptId } } },
+    {
+      $inc: {
+        'staticObjects.$[station].inventory.$[item].quantity': -delta.quantityChange,
+        'staticObjects.$[station].credits': -delta.creditsChange
+      },
+      $pull: { 'staticObjects.$[station].pendingTrades': attemptId }
+    },
+    { arrayFilters: stationArrayFilters(delta) }
+  );
+};
+
+// Drop the attempt tags once the trade is committed
+export const clearTradeTags = async (db: any, playerId: string, delta: StationTradeDelta, attemptId: string) => {
+  await db.collection('systems').updateOne(
+    { coordinates: delta.systemCoordinates, 'staticObjects.id': delta.stationId },
+    { $pull: { 'staticObjects.$[station].pendingTrades': attemptId } },
+    { arrayFilters: [{ 'station.id': delta.stationId }] }
+  );
+  await db.collection('players').updateOne({ id: playerId }, { $pull: { pendingTrades: attemptId } });
+};
+
+// Charge the player and add the goods, guarded on credits, docking state and, for cargo, hold space
+const applyPurchaseToPlayer = async (db: any, playerId: string, stationId: string, itemId: string, quantity: number, unitPrice: number, weight: number, attemptId: string) => {
+  const totalCost = unitPrice * quantity;
+  const guard = { id: playerId, dockedAt: stationId, credits: { $gte: totalCost }, pendingTrades: { $ne: attemptId } };
+  const players = db.collection('players');
+
+  if (itemId === 'fuel') {
+    return players.findOneAndUpdate(
+      { ...guard, $expr: { $lte: [{ $add: ['$ship.fuel', quantity] }, { $ifNull: ['$ship.maxFuel', 100] }] } },
+      { $inc: { credits: -totalCost, 'ship.fuel': quantity }, $addToSet: { pendingTrades: attemptId }, $set: { lastActivity: new Date() } },
+      { returnDocument: 'after' }
+    );
+  }
 
-    // Update station credits
-    if (station.credits !== undefined) {
-      station.credits += creditsChange;
+  // Stack onto existing cargo, or push a new entry if the player has none; retry once if another trade raced us.
+  // The weight check above read the hold before this update, so it is repeated as part of it.
+  const cargoGuard = { ...guard, ...cargoSpaceGuard(weight) };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const stacked = await players.findOneAndUpdate(
+      { ...cargoGuard, 'ship.cargo.itemId': itemId },
+      {
+        $inc: { credits: -totalCost, 'ship.cargo.$.quantity': quantity },
+        $addToSet: { pendingTrades: attemptId },
+        $set: { lastActivity: new Date() }
+      },
+      { returnDocument: 'after' }
+    );
+    if (stacked) {
+      await averagePurchasePrice(db, playerId, stacked, itemId, quantity, unitPrice);
+      return stacked;
     }
 
-    // Save the updated sector
-    await db.collection('systems').updateOne(
-      { coordinates: sector.coordinates },
-      { $set: { staticObjects: sector.staticObjects } }
+    const pushed = await players.findOneAndUpdate(
+      { ...cargoGuard, 'ship.cargo.itemId': { $ne: itemId } },
+      {
+        $inc: { credits: -totalCost },
+        $push: { 'ship.cargo': { itemId, quantity, purchasePrice: unitPrice } },
+        $addToSet: { pendingTrades: attemptId },
+        $set: { lastActivity: new Date() }
+      },
+      { returnDocument: 'after' }
     );
-    return;
+    if (pushed) return pushed;
   }
 
-  throw new Error(`Station ${stationId} not found`);
+  return null;
+};
+
+// Fold a purchase into the stack's purchase price so realized profit reflects the average cost.
+// Guarded on the stack we just updated; a concurrent change to the same stack keeps the older price.
+export const averagePurchasePrice = async (db: any, playerId: string, player: any, itemId: string, quantity: number, unitPrice: number) => {
+  const stack = player.ship.cargo.find((cargo: CargoItem) => cargo.itemId === itemId);
+  if (!stack) return;
+
+  const previousQuantity = stack.quantity - quantity;
+  const previousPrice = stack.purchasePrice || 0;
+  const averagePrice = Math.round((previousPrice * previousQuantity + unitPrice * quantity) / stack.quantity);
+  if (averagePrice === previousPrice) return;
+
+  await db.collection('players').updateOne(
+    { id: playerId, 'ship.cargo': { $elemMatch: { itemId, quantity: stack.quantity, purchasePrice: stack.purchasePrice } } },
+    { $set: { 'ship.cargo.$.purchasePrice': averagePrice } }
+  );
+  stack.purchasePrice = averagePrice;
 };
 
-// Buy item from station
-export const buyFromStation = async (db: any, playerId: string, itemId: string, quantity: number) => {
-  const player = await db.collection('players').findOne({ id: playerId });
-  if (!player) throw new Error('Player not found');
+// Remove goods from the player and pay out, guarded on cargo quantity and docking state
+const applySaleToPlayer = async (db: any, playerId: string, stationId: string, itemId: string, quantity: number, totalValue: number, attemptId: string) => {
+  const players = db.collection('players');
+  const updated = await players.findOneAndUpdate(
+    {
+      id: playerId,
+      dockedAt: stationId,
+      pendingTrades: { $ne: attemptId },
+      'ship.cargo': { $elemMatch: { itemId, quantity: { $gte: quantity } } }
+    },
+    {
+      $inc: { 'ship.cargo.$.quantity': -quantity, credits: totalValue },
+      $addToSet: { pendingTrades: attemptId },
+      $set: { lastActivity: new Date() }
+    },
+    { returnDocument: 'after' }
+  );
 
-  if (!player.dockedAt) {
-    throw new Error('You must be docked at a station to trade');
+  if (updated) {
+    await players.updateOne({ id: playerId }, { $pull: { 'ship.cargo': { itemId, quantity: { $lte: 0 } } } });
   }
 
-  const station = await findStationById(db, player.dockedAt);
-  if (!station) throw new Error('Docked station not found');
+  return updated;
+};
 
-  // Check if station has the item
-  const stationItem = station.inventory?.find((inv: StationInventory) => inv.itemId === itemId);
-  if (!stationItem) {
-    throw new Error('Station does not have this item in stock');
+// Ledger entry for a trade finished by recovery; prices come from the journaled station delta
+const recordRecoveredTrade = async (db: any, playerId: string, side: TradeAction, tradeId: string, delta: StationTradeDelta) => {
+  const station = await findStationById(db, delta.stationId);
+  const quantity = Math.abs(delta.quantityChange);
+  const total = Math.abs(delta.creditsChange);
+
+  await recordTrade(db, {
+    tradeId,
+    playerId,
+    stationId: delta.stationId,
+    stationName: station?.name || delta.stationId,
+    system: delta.systemCoordinates,
+    itemId: delta.itemId,
+    side,
+    quantity,
+    unitPrice: quantity > 0 ? Math.round(total / quantity) : 0,
+    total,
+    timestamp: new Date()
+  });
+};
+
+// Resolve trades left pending by a crash: finish them if the player side landed, otherwise roll the station back
+export const recoverInterruptedTrades = async (db: any): Promise<number> => {
+  const interrupted = await findInterruptedTrades(db);
+
+  for (const record of interrupted) {
+    const playerApplied = await db.collection('players').findOne({ id: record.playerId, pendingTrades: record.attemptId });
+
+    if (playerApplied) {
+      if (record.stationDelta) await recordRecoveredTrade(db, record.playerId, record.action, record.attemptId, record.stationDelta);
+      await settleInterruptedTrade(db, record, 'completed');
+      if (record.stationDelta) await clearTradeTags(db, record.playerId, record.stationDelta, record.attemptId);
+    } else {
+      if (record.stationDelta) await revertStationChange(db, record.stationDelta, record.attemptId);
+      await settleInterruptedTrade(db, record, 'rolled-back');
+    }
   }
 
-  if (stationItem.quantity < quantity) {
-    throw new Error(`Station only has ${stationItem.quantity} ${itemId} in stock`);
+  if (interrupted.length > 0) {
+    console.log(`🔁 Recovered ${interrupted.length} interrupted trades`);
   }
 
-  const item = getItemById(itemId);
-  if (!item) throw new Error('Invalid item ID');
+  return interrupted.length;
+};
 
-  const totalCost = stationItem.sellPrice * quantity;
-  const totalWeight = item.weight * quantity;
+// Buy item from station
+export const buyFromStation = async (db: any, playerId: string, itemId: string, quantity: number, idempotencyKey?: string) =>
+  runIdempotentTrade(db, { playerId, idempotencyKey, action: 'buy', itemId, quantity }, async (journal) => {
+    const player = await db.collection('players').findOne({ id: playerId });
+    if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
 
-  // Check if player can afford it
-  if (player.credits < totalCost) {
-    throw new Error(`Insufficient credits. Need ${totalCost}, have ${player.credits}`);
-  }
+    if (!player.dockedAt) {
+      throw new TradeError('You must be docked at a station to trade', 400, 'NOT_DOCKED', true);
+    }
 
-  // Special handling for fuel
-  if (itemId === 'fuel') {
-    const currentFuel = player.ship.fuel || 0;
-    const maxFuel = player.ship.maxFuel || 100;
+    const station = await findStationById(db, player.dockedAt);
+    if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
 
-    if (currentFuel + quantity > maxFuel) {
-      throw new Error(`Insufficient fuel tank capacity. Can only add ${maxFuel - currentFuel} fuel, trying to add ${quantity}`);
+    // Check if station has the item
+    const stationItem = station.inventory?.find((inv: StationInventory) => inv.itemId === itemId);
+    if (!stationItem) {
+      throw new TradeError('Station does not have this item in stock', 400, 'ITEM_NOT_STOCKED');
     }
-  } else {
-    // Check cargo space
-    const currentCargoWeight = player.ship.cargo?.reduce((total: number, cargo: any) => {
-      const cargoItem = getItemById(cargo.itemId);
-      return total + (cargoItem ? cargoItem.weight * cargo.quantity : 0);
-    }, 0) || 0;
-
-    if (currentCargoWeight + totalWeight > player.ship.maxCargo) {
-      throw new Error(`Insufficient cargo space. Need ${totalWeight} units, have ${player.ship.maxCargo - currentCargoWeight} available`);
+
+    if (stationItem.quantity < quantity) {
+      throw new TradeError(`Station only has ${stationItem.quantity} ${itemId} in stock`, 409, 'INSUFFICIENT_STOCK', true);
     }
-  }
 
-  // Update player
-  const updateData: any = {
-    $inc: { credits: -totalCost },
-    $set: { lastActivity: new Date() }
-  };
+    const item = getItemById(itemId);
+    if (!item) throw new TradeError('Invalid item ID', 400, 'INVALID_ITEM');
 
-  if (itemId === 'fuel') {
-    updateData.$inc['ship.fuel'] = quantity;
-  } else {
-    // Add to cargo
-    const existingCargo = player.ship.cargo?.find((cargo: CargoItem) => cargo.itemId === itemId);
-    if (existingCargo) {
-      updateData.$inc = { ...updateData.$inc, [`ship.cargo.$.quantity`]: quantity };
-      await db.collection('players').updateOne(
-        { id: playerId, 'ship.cargo.itemId': itemId },
-        updateData
-      );
+    const unitPrice = stationItem.sellPrice;
+    const totalCost = unitPrice * quantity;
+    const totalWeight = item.weight * quantity;
+
+    // Check if player can afford it
+    if (player.credits < totalCost) {
+      throw new TradeError(`Insufficient credits. Need ${totalCost}, have ${player.credits}`, 400, 'INSUFFICIENT_CREDITS', true);
+    }
+
+    // Special handling for fuel
+    if (itemId === 'fuel') {
+      const currentFuel = player.ship.fuel || 0;
+      const maxFuel = player.ship.maxFuel || 100;
+
+      if (currentFuel + quantity > maxFuel) {
+        throw new TradeError(`Insufficient fuel tank capacity. Can only add ${maxFuel - currentFuel} fuel, trying to add ${quantity}`, 400, 'FUEL_TANK_FULL', true);
+      }
     } else {
-      updateData.$push = { 'ship.cargo': { itemId, quantity } };
-      await db.collection('players').updateOne(
-        { id: playerId },
-        updateData
-      );
+      // Check cargo space
+      const currentCargoWeight = getHoldWeight(player.ship);
+
+      if (currentCargoWeight + totalWeight > player.ship.maxCargo) {
+        throw new TradeError(`Insufficient cargo space. Need ${totalWeight} units, have ${player.ship.maxCargo - currentCargoWeight} available`, 400, 'INSUFFICIENT_CARGO_SPACE', true);
+      }
     }
-  }
 
-  if (itemId === 'fuel') {
-    await db.collection('players').updateOne(
-      { id: playerId },
-      updateData
-    );
-  }
+    // Reserve stock first, then charge the player; undo the reservation if the charge fails
+    const stationDelta: StationTradeDelta = {
+      systemCoordinates: coordinateToString(getSystemCoords(station.coordinates)),
+      stationId: station.id,
+      itemId,
+      quantityChange: -quantity,
+      creditsChange: totalCost
+    };
 
-  // Update station inventory
-  await updateStationInventory(db, station.id, itemId, -quantity, totalCost);
+    await journal.recordStationDelta(stationDelta);
+    if (!await applyStationChange(db, stationDelta, journal.attemptId)) {
+      throw new TradeError('Station stock changed before the purchase could complete', 409, 'INSUFFICIENT_STOCK', true);
+    }
 
-  return {
-    success: true,
-    message: `Purchased ${quantity} ${item.name} for ${totalCost} credits`,
-    transaction: {
+    const updatedPlayer = await applyPurchaseToPlayer(db, playerId, station.id, itemId, quantity, unitPrice, totalWeight, journal.attemptId);
+    if (!updatedPlayer) {
+      await revertStationChange(db, stationDelta, journal.attemptId);
+      throw new TradeError('Your credits, cargo or docking status changed before the purchase could complete', 409, 'PLAYER_STATE_CHANGED', true);
+    }
+
+    await recordTrade(db, {
+      tradeId: journal.attemptId,
+      playerId,
+      stationId: station.id,
+      stationName: station.name,
+      system: stationDelta.systemCoordinates,
       itemId,
-      itemName: item.name,
+      side: 'buy',
       quantity,
-      unitPrice: stationItem.sellPrice,
-      totalCost,
-      remainingCredits: player.credits - totalCost
-    }
-  };
-};
+      unitPrice,
+      total: totalCost,
+      timestamp: new Date()
+    });
+    journal.afterCommit(() => clearTradeTags(db, playerId, stationDelta, journal.attemptId));
+    journal.afterCommit(() => repriceAfterTrade(db, stationDelta));
+
+    publishEvent({
+      type: 'station.trade',
+      playerId,
+      stationId: station.id,
+      stationName: station.name,
+      system: stationDelta.systemCoordinates,
+      side: 'buy',
+      itemId,
+      quantity,
+      unitPrice,
+      total: totalCost
+    });
+
+    return {
+      success: true,
+      message: `Purchased ${quantity} ${item.name} for ${totalCost} credits`,
+      transaction: {
+        itemId,
+        itemName: item.name,
+        quantity,
+        unitPrice,
+        totalCost,
+        remainingCredits: updatedPlayer.credits
+      }
+    };
+  });
 
 // Sell item to station
-export const sellToStation = async (db: any, playerId: string, itemId: string, quantity: number) => {
-  const player = await db.collection('players').findOne({ id: playerId });
-  if (!player) throw new Error('Player not found');
+export const sellToStation = async (db: any, playerId: string, itemId: string, quantity: number, idempotencyKey?: string) =>
+  runIdempotentTrade(db, { playerId, idempotencyKey, action: 'sell', itemId, quantity }, async (journal) => {
+    const player = await db.collection('players').findOne({ id: playerId });
+    if (!player) throw new TradeError('Player not found', 404, 'PLAYER_NOT_FOUND');
 
-  if (!player.dockedAt) {
-    throw new Error('You must be docked at a station to trade');
-  }
+    if (!player.dockedAt) {
+      throw new TradeError('You must be docked at a station to trade', 400, 'NOT_DOCKED', true);
+    }
 
-  const station = await findStationById(db, player.dockedAt);
-  if (!station) throw new Error('Docked station not found');
+    const station = await findStationById(db, player.dockedAt);
+    if (!station) throw new TradeError('Docked station not found', 404, 'STATION_NOT_FOUND');
 
-  // Check if player has the item
-  const playerCargo = player.ship.cargo?.find((cargo: CargoItem) => cargo.itemId === itemId);
-  if (!playerCargo) {
-    throw new Error('You do not have this item in your cargo');
-  }
+    // Check if player has the item
+    const playerCargo = player.ship.cargo?.find((cargo: CargoItem) => cargo.itemId === itemId);
+    if (!playerCargo) {
+      throw new TradeError('You do not have this item in your cargo', 400, 'ITEM_NOT_IN_CARGO', true);
+    }
 
-  if (playerCargo.quantity < quantity) {
-    throw new Error(`You only have ${playerCargo.quantity} ${itemId} in cargo`);
-  }
+    if (playerCargo.quantity < quantity) {
+      throw new TradeError(`You only have ${playerCargo.quantity} ${itemId} in cargo`, 400, 'INSUFFICIENT_CARGO', true);
+    }
 
-  const item = getItemById(itemId);
-  if (!item) throw new Error('Invalid item ID');
+    const item = getItemById(itemId);
+    if (!item) throw new TradeError('Invalid item ID', 400, 'INVALID_ITEM');
 
-  // Check if station buys this item
-  const stationItem = station.inventory?.find((inv: StationInventory) => inv.itemId === itemId);
-  if (!stationItem) {
-    throw new Error('Station does not buy this type of item');
-  }
+    // Check if station buys this item
+    const stationItem = station.inventory?.find((inv: StationInventory) => inv.itemId === itemId);
+    if (!stationItem) {
+      throw new TradeError('Station does not buy this type of item', 400, 'ITEM_NOT_BOUGHT');
+    }
 
-  const totalValue = stationItem.buyPrice * quantity;
+    const unitPrice = stationItem.buyPrice;
+    const totalValue = unitPrice * quantity;
 
-  // Check if station can afford it
-  if ((station.credits || 0) < totalValue) {
-    throw new Error(`Station cannot afford this transaction. Station has ${station.credits || 0} credits, needs ${totalValue}`);
-  }
+    // Check if station can afford it
+    if ((station.credits || 0) < totalValue) {
+      throw new TradeError(`Station cannot afford this transaction. Station has ${station.credits || 0} credits, needs ${totalValue}`, 409, 'STATION_INSUFFICIENT_CREDITS', true);
+    }
 
-  // Update player cargo
-  if (playerCargo.quantity === quantity) {
-    // Remove the item completely
-    await db.collection('players').updateOne(
-      { id: playerId },
-      {
-        $pull: { 'ship.cargo': { itemId } },
-        $inc: { credits: totalValue },
-        $set: { lastActivity: new Date() }
-      }
-    );
-  } else {
-    // Reduce quantity
-    await db.collection('players').updateOne(
-      { id: playerId, 'ship.cargo.itemId': itemId },
-      {
-        $inc: {
-          'ship.cargo.$.quantity': -quantity,
-          credits: totalValue
-        },
-        $set: { lastActivity: new Date() }
-      }
-    );
-  }
+    // Reserve station credits first, then take the goods; undo the reservation if that fails
+    const stationDelta: StationTradeDelta = {
+      systemCoordinates: coordinateToString(getSystemCoords(station.coordinates)),
+      stationId: station.id,
+      itemId,
+      quantityChange: quantity,
+      creditsChange: -totalValue
+    };
+
+    await journal.recordStationDelta(stationDelta);
+    if (!await applyStationChange(db, stationDelta, journal.attemptId)) {
+      throw new TradeError('Station credits changed before the sale could complete', 409, 'STATION_INSUFFICIENT_CREDITS', true);
+    }
 
-  // Update station inventory
-  await updateStationInventory(db, station.id, itemId, quantity, -totalValue);
+    const updatedPlayer = await applySaleToPlayer(db, playerId, station.id, itemId, quantity, totalValue, journal.attemptId);
+    if (!updatedPlayer) {
+      await revertStationChange(db, stationDelta, journal.attemptId);
+      throw new TradeError('Your cargo or docking status changed before the sale could complete', 409, 'PLAYER_STATE_CHANGED', true);
+    }
 
-  return {
-    success: true,
-    message: `Sold ${quantity} ${item.name} for ${totalValue} credits`,
-    transaction: {
+    // Profit is measured against what the player paid for the goods (0 for mined cargo)
+    const soldStack = updatedPlayer.ship.cargo.find((cargo: CargoItem) => cargo.itemId === itemId);
+    const costBasis = soldStack?.purchasePrice || 0;
+    const realizedProfit = (unitPrice - costBasis) * quantity;
+
+    await recordTrade(db, {
+      tradeId: journal.attemptId,
+      playerId,
+      stationId: station.id,
+      stationName: station.name,
+      system: stationDelta.systemCoordinates,
       itemId,
-      itemName: item.name,
+      side: 'sell',
       quantity,
-      unitPrice: stationItem.buyPrice,
-      totalValue,
-      newCredits: player.credits + totalValue
-    }
-  };
-};
\ No newline at end of file
+      unitPrice,
+      total: totalValue,
+      costBasis,
+      realizedProfit,
+      timestamp: new Date()
+    });
+    journal.afterCommit(() => clearTradeTags(db, playerId, stationDelta, journal.attemptId));
+    journal.afterCommit(() => repriceAfterTrade(db, stationDelta));
+
+    publishEvent({
+      type: 'station.trade',
+      playerId,
+      stationId: station.id,
+      stationName: station.name,
+      system: stationDelta.systemCoordinates,
+      side: 'sell',
+      itemId,
+      quantity,
+      unitPrice,
+      total: totalValue
+    });
+
+    return {
+      success: true,
+      message: `Sold ${quantity} ${item.name} for ${totalValue} credits`,
+      transaction: {
+        itemId,
+        itemName: item.name,
+        quantity,
+        unitPrice,
+        totalValue,
+        costBasis,
+        realizedProfit,
+        newCredits: updatedPlayer.credits
+      }
+    };
+  });
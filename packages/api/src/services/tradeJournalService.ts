@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+
+// Trade failure with an HTTP status and a stable code clients can branch on.
+// Retryable failures left nothing applied, so the same idempotency key may be sent again.
+export class TradeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 400,
+    public readonly code: string = 'TRADE_REJECTED',
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'TradeError';
+  }
+}
+
+export type TradeAction = 'buy' | 'sell';
+
+// Station-side change a trade makes, recorded before it is applied
+export interface StationTradeDelta {
+  systemCoordinates: string;
+  stationId: string;
+  itemId: string;
+  quantityChange: number;
+  creditsChange: number;
+}
+
+// Journal entry for one trade, keyed by player + idempotency key
+export interface TradeRecord {
+  playerId: string;
+  idempotencyKey: string;
+  attemptId: string; // Tag written onto the station and player docs this attempt touches
+  action: TradeAction;
+  itemId: string;
+  quantity: number;
+  status: 'pending' | 'completed' | 'failed';
+  stationDelta?: StationTradeDelta;
+  result?: any;
+  error?: { message: string; statusCode: number; code: string; retryable: boolean };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Hooks handed to a running trade
+export interface TradeJournal {
+  attemptId: string;
+  recordStationDelta: (delta: StationTradeDelta) => Promise<void>;
+  afterCommit: (cleanup: () => Promise<void>) => void;
+}
+
+const TRADES_COLLECTION = 'trade_requests';
+const DUPLICATE_KEY_ERROR = 11000;
+const STALE_TRADE_MS = 30000; // Pending trades older than this are treated as interrupted
+
+export const ensureTradeIndexes = async (db: any) => {
+  await db.collection(TRADES_COLLECTION).createIndex({ playerId: 1, idempotencyKey: 1 }, { unique: true });
+  await db.collection(TRADES_COLLECTION).createIndex({ status: 1, updatedAt: 1 });
+};
+
+const updateTrade = async (db: any, record: TradeRecord, fields: Partial<TradeRecord>) => {
+  await db.collection(TRADES_COLLECTION).updateOne(
+    { playerId: record.playerId, idempotencyKey: record.idempotencyKey },
+    { $set: { ...fields, updatedAt: new Date() } }
+  );
+};
+
+// Claim an idempotency key; returns the stored result if this trade already completed
+const beginTrade = async (
+  db: any,
+  params: { playerId: string; idempotencyKey: string; action: TradeAction; itemId: string; quantity: number }
+): Promise<{ record: TradeRecord; replay?: any }> => {
+  const now = new Date();
+  const record: TradeRecord = {
+    ...params,
+    attemptId: randomUUID(),
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await db.collection(TRADES_COLLECTION).insertOne(record);
+    return { record };
+  } catch (error: any) {
+    if (error?.code !== DUPLICATE_KEY_ERROR) throw error;
+  }
+
+  const existing: TradeRecord | null = await db.collection(TRADES_COLLECTION).findOne({
+    playerId: params.playerId,
+    idempotencyKey: params.idempotencyKey
+  });
+  if (!existing) {
+    throw new TradeError('Trade record disappeared, please retry', 409, 'TRADE_CONFLICT', true);
+  }
+
+  if (existing.action !== params.action || existing.itemId !== params.itemId || existing.quantity !== params.quantity) {
+    throw new TradeError('Idempotency key was already used for a different trade', 422, 'IDEMPOTENCY_KEY_REUSED');
+  }
+
+  if (existing.status === 'completed') {
+    return { record: existing, replay: existing.result };
+  }
+
+  if (existing.status === 'failed' && !existing.error?.retryable) {
+    throw new TradeError(existing.error?.message || 'Trade failed', existing.error?.statusCode || 400, existing.error?.code || 'TRADE_REJECTED');
+  }
+
+  // Retryable failure: atomically re-claim the key for a fresh attempt
+  if (existing.status === 'failed') {
+    const retry = { attemptId: randomUUID(), status: 'pending' as const, updatedAt: now };
+    const claimed = await db.collection(TRADES_COLLECTION).updateOne(
+      { playerId: params.playerId, idempotencyKey: params.idempotencyKey, attemptId: existing.attemptId, status: 'failed' },
+      { $set: retry, $unset: { error: '', stationDelta: '' } }
+    );
+    if (claimed.modifiedCount === 1) {
+      return { record: { ...existing, ...retry, error: undefined, stationDelta: undefined } };
+    }
+  }
+
+  throw new TradeError('A trade with this idempotency key is already in progress', 409, 'TRADE_IN_PROGRESS', true);
+};
+
+// Run a trade at most once per idempotency key, journaling enough to roll it back after a crash
+export const runIdempotentTrade = async <T extends object>(
+  db: any,
+  params: { playerId: string; idempotencyKey?: string; action: TradeAction; itemId: string; quantity: number },
+  execute: (journal: TradeJournal) => Promise<T>
+): Promise<T & { idempotencyKey: string; replayed: boolean }> => {
+  const idempotencyKey = params.idempotencyKey || randomUUID();
+  const { record, replay } = await beginTrade(db, { ...params, idempotencyKey });
+
+  if (replay) {
+    return { ...replay, idempotencyKey, replayed: true };
+  }
+
+  const cleanups: Array<() => Promise<void>> = [];
+  const journal: TradeJournal = {
+    attemptId: record.attemptId,
+    recordStationDelta: (stationDelta) => updateTrade(db, record, { stationDelta }),
+    afterCommit: (cleanup) => { cleanups.push(cleanup); }
+  };
+
+  let result: T;
+  try {
+    result = await execute(journal);
+  } catch (error) {
+    if (!(error instanceof TradeError)) {
+      // Unknown partial state: leave the trade pending so recovery can inspect and roll it back
+      console.error('❌ Trade interrupted by unexpected error:', error);
+      throw new TradeError('Trade was interrupted; it will be rolled back shortly and can then be retried', 503, 'TRADE_INTERRUPTED', true);
+    }
+
+    const tradeError = error;
+    await updateTrade(db, record, {
+      status: 'failed',
+      error: {
+        message: tradeError.message,
+        statusCode: tradeError.statusCode,
+        code: tradeError.code,
+        retryable: tradeError.retryable
+      }
+    });
+    throw tradeError;
+  }
+
+  await updateTrade(db, record, { status: 'completed', result });
+
+  // Commit tags are only cleared once the journal says completed
+  for (const cleanup of cleanups) {
+    await cleanup().catch(error => console.error('❌ Trade cleanup failed:', error));
+  }
+
+  return { ...result, idempotencyKey, replayed: false };
+};
+
+// Pending trades whose process likely died mid-flight
+export const findInterruptedTrades = async (db: any): Promise<TradeRecord[]> =>
+  db.collection(TRADES_COLLECTION)
+    .find({ status: 'pending', updatedAt: { $lt: new Date(Date.now() - STALE_TRADE_MS) } })
+    .toArray();
+
+// Settle an interrupted trade once its applied state has been determined
+export const settleInterruptedTrade = async (db: any, record: TradeRecord, outcome: 'completed' | 'rolled-back') => {
+  if (outcome === 'completed') {
+    await updateTrade(db, record, {
+      status: 'completed',
+      result: { success: true, message: `Trade completed (recovered after interruption)` }
+    });
+  } else {
+    await updateTrade(db, record, {
+      status: 'failed',
+      error: { message: 'Trade was interrupted and rolled back', statusCode: 409, code: 'TRADE_INTERRUPTED', retryable: true }
+    });
+  }
+};
@@ -0,0 +1,110 @@
+import { TradeLedgerEntry, PriceHistoryBucket, PriceHistoryResponse, TradeLedgerResponse } from '@stellarburn/shared';
+
+const LEDGER_COLLECTION = 'trades';
+const BUCKET_PATTERN = /^(\d+)(m|h|d)$/;
+const BUCKET_UNITS = { m: 'minute', h: 'hour', d: 'day' } as const;
+const BUCKET_MS = { m: 60000, h: 3600000, d: 86400000 };
+const MAX_BUCKETS = 500;
+
+export const ensureLedgerIndexes = async (db: any) => {
+  await db.collection(LEDGER_COLLECTION).createIndex({ tradeId: 1 }, { unique: true });
+  await db.collection(LEDGER_COLLECTION).createIndex({ stationId: 1, itemId: 1, timestamp: 1 });
+  await db.collection(LEDGER_COLLECTION).createIndex({ playerId: 1, timestamp: -1 });
+};
+
+// Store a completed trade; safe to call again for the same trade
+export const recordTrade = async (db: any, entry: TradeLedgerEntry): Promise<void> => {
+  await db.collection(LEDGER_COLLECTION).updateOne(
+    { tradeId: entry.tradeId },
+    { $setOnInsert: entry },
+    { upsert: true }
+  );
+};
+
+// Parse a bucket size like "15m", "1h" or "1d"
+export const parseBucket = (bucket: string) => {
+  const match = BUCKET_PATTERN.exec(bucket);
+  if (!match || parseInt(match[1]) <= 0) return null;
+
+  const binSize = parseInt(match[1]);
+  const unit = match[2] as keyof typeof BUCKET_UNITS;
+  return { binSize, unit: BUCKET_UNITS[unit], ms: binSize * BUCKET_MS[unit] };
+};
+
+// OHLC price buckets for one item at one station, oldest first
+export const getPriceHistory = async (
+  db: any,
+  stationId: string,
+  itemId: string,
+  options: { bucket: string; hours: number; side?: 'buy' | 'sell' }
+): Promise<PriceHistoryResponse> => {
+  const bucket = parseBucket(options.bucket);
+  if (!bucket) throw new Error(`Invalid bucket "${options.bucket}". Use a size like 15m, 1h or 1d`);
+
+  const windowMs = options.hours * 3600000;
+  if (windowMs / bucket.ms > MAX_BUCKETS) {
+    throw new Error(`Too many buckets: ${options.hours}h in ${options.bucket} buckets exceeds ${MAX_BUCKETS}`);
+  }
+
+  const match: any = { stationId, itemId, timestamp: { $gte: new Date(Date.now() - windowMs) } };
+  if (options.side) match.side = options.side;
+
+  const buckets: PriceHistoryBucket[] = await db.collection(LEDGER_COLLECTION).aggregate([
+    { $match: match },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: { $dateTrunc: { date: '$timestamp', unit: bucket.unit, binSize: bucket.binSize } },
+        open: { $first: '$unitPrice' },
+        high: { $max: '$unitPrice' },
+        low: { $min: '$unitPrice' },
+        close: { $last: '$unitPrice' },
+        volume: { $sum: '$quantity' },
+        trades: { $sum: 1 }
+      }
+    },
+    { $sort: { _id: 1 } },
+    { $project: { _id: 0, start: '$_id', open: 1, high: 1, low: 1, close: 1, volume: 1, trades: 1 } }
+  ]).toArray();
+
+  return { stationId, itemId, bucket: options.bucket, side: options.side, buckets };
+};
+
+// A player's most recent trades, plus totals across their whole history
+export const getTradeLedger = async (
+  db: any,
+  playerId: string,
+  options: { limit: number; itemId?: string }
+): Promise<TradeLedgerResponse> => {
+  const match: any = { playerId };
+  if (options.itemId) match.itemId = options.itemId;
+
+  const trades: TradeLedgerEntry[] = await db.collection(LEDGER_COLLECTION)
+    .find(match, { projection: { _id: 0 } })
+    .sort({ timestamp: -1 })
+    .limit(options.limit)
+    .toArray();
+
+  const [totals] = await db.collection(LEDGER_COLLECTION).aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: null,
+        tradeCount: { $sum: 1 },
+        totalSpent: { $sum: { $cond: [{ $eq: ['$side', 'buy'] }, '$total', 0] } },
+        totalEarned: { $sum: { $cond: [{ $eq: ['$side', 'sell'] }, '$total', 0] } },
+        realizedProfit: { $sum: { $ifNull: ['$realizedProfit', 0] } }
+      }
+    }
+  ]).toArray();
+
+  return {
+    trades,
+    summary: {
+      tradeCount: totals?.tradeCount || 0,
+      totalSpent: totals?.totalSpent || 0,
+      totalEarned: totals?.totalEarned || 0,
+      realizedProfit: totals?.realizedProfit || 0
+    }
+  };
+};
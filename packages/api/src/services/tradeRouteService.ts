@@ -0,0 +1,201 @@
+import { AutopilotJob, Coordinates3D, MarketSighting, PlotObjective, TradeRoute, TradeRouteCargo, TradeRouteLeg, TradeRouteSort, TradeRoutesResponse } from '@stellarburn/shared';
+import { FIXED_PRICE_ITEMS, coordinateToString, getItemById, getShipStats, isSameCoordinate } from '@stellarburn/shared';
+import { plotCourse } from './navigationService.js';
+import { getMarketSightings } from './marketSightingService.js';
+import { startAutopilot } from './autopilotService.js';
+
+export const TRADE_ROUTE_SORTS: TradeRouteSort[] = ['fuel', 'steps'];
+export const MAX_ROUTE_STOPS = 4;
+
+const DEFAULT_STOPS = 3;
+const DEFAULT_LIMIT = 5;
+const MAX_STATIONS = 8; // Best-margin stations kept; every pair of them may need a course plotted
+
+export interface TradeRouteOptions {
+  sort?: TradeRouteSort;
+  maxStops?: number;
+  fuelBudget?: number;  // Defaults to the fuel in the tank
+  cargoBudget?: number; // Defaults to the ship's cargo capacity
+  objective?: PlotObjective;
+  limit?: number;
+}
+
+type Course = { fuelCost: number; steps: number };
+
+// Fill the hold with whatever earns the most per unit of cargo weight between two stations
+const loadCargo = (from: MarketSighting, to: MarketSighting, cargoBudget: number, credits: number): TradeRouteCargo[] => {
+  const candidates = from.prices.flatMap(offer => {
+    const item = getItemById(offer.itemId);
+    const bid = to.prices.find(price => price.itemId === offer.itemId);
+    if (!item || !bid || FIXED_PRICE_ITEMS.includes(item.id) || offer.quantity <= 0) return [];
+
+    // Stations sell at sellPrice and buy at buyPrice
+    const margin = bid.buyPrice - offer.sellPrice;
+    return margin > 0 ? [{ item, offer, bid, margin }] : [];
+  }).sort((a, b) => b.margin / Math.max(b.item.weight, 1) - a.margin / Math.max(a.item.weight, 1));
+
+  let space = cargoBudget;
+  let budget = credits;
+  let stationCredits = to.credits;
+  const cargo: TradeRouteCargo[] = [];
+
+  for (const { item, offer, bid, margin } of candidates) {
+    const quantity = Math.min(
+      offer.quantity,
+      item.weight > 0 ? Math.floor(space / item.weight) : offer.quantity,
+      Math.floor(budget / offer.sellPrice),
+      Math.floor(stationCredits / bid.buyPrice)
+    );
+    if (quantity <= 0) continue;
+
+    cargo.push({ itemId: item.id, itemName: item.name, quantity, buyPrice: offer.sellPrice, sellPrice: bid.buyPrice, profit: margin * quantity });
+    space -= item.weight * quantity;
+    budget -= offer.sellPrice * quantity;
+    stationCredits -= bid.buyPrice * quantity;
+  }
+
+  return cargo;
+};
+
+const cargoProfit = (cargo: TradeRouteCargo[]) => cargo.reduce((sum, load) => sum + load.profit, 0);
+
+// Keep the stations that take part in the best single hops; the rest can't beat them in a loop
+const pickStations = (stations: MarketSighting[], cargoBudget: number, credits: number): MarketSighting[] => {
+  const best = new Map<string, number>();
+  for (const from of stations) {
+    for (const to of stations) {
+      if (from.stationId === to.stationId) continue;
+      const profit = cargoProfit(loadCargo(from, to, cargoBudget, credits));
+      for (const id of [from.stationId, to.stationId]) {
+        best.set(id, Math.max(best.get(id) ?? 0, profit));
+      }
+    }
+  }
+
+  return stations
+    .filter(station => (best.get(station.stationId) ?? 0) > 0)
+    .sort((a, b) => best.get(b.stationId)! - best.get(a.stationId)!)
+    .slice(0, MAX_STATIONS);
+};
+
+// Every ordering of up to maxStops distinct stations; each is a loop back to its first stop
+const enumerateLoops = (stations: MarketSighting[], maxStops: number): MarketSighting[][] => {
+  const loops: MarketSighting[][] = [];
+  const extend = (loop: MarketSighting[]) => {
+    if (loop.length >= 2) loops.push(loop);
+    if (loop.length === maxStops) return;
+    for (const station of stations) {
+      if (!loop.includes(station)) extend([...loop, station]);
+    }
+  };
+  stations.forEach(station => extend([station]));
+  return loops;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Profitable buy→sell loops through stations the player has seen, ranked by profit per fuel or per step
+export const planTradeRoutes = async (db: any, playerId: string, options: TradeRouteOptions = {}): Promise<TradeRoutesResponse> => {
+  const player = await db.collection('players').findOne({ id: playerId });
+  if (!player) throw new Error('Player not found');
+
+  const sort = options.sort ?? 'fuel';
+  const maxStops = Math.min(options.maxStops ?? DEFAULT_STOPS, MAX_ROUTE_STOPS);
+  const fuelBudget = options.fuelBudget ?? player.ship.fuel;
+  const cargoBudget = Math.min(options.cargoBudget ?? player.ship.maxCargo, player.ship.maxCargo);
+  const ship = getShipStats(player.ship);
+
+  const known = await getMarketSightings(db, playerId, player.knownSystems ?? []);
+  const stations = pickStations(known, cargoBudget, player.credits);
+
+  // Courses are shared between loops, so each pair is plotted at most once
+  const courses = new Map<string, Promise<Course | null>>();
+  const courseBetween = (from: Coordinates3D, to: Coordinates3D): Promise<Course | null> => {
+    if (isSameCoordinate(from, to)) return Promise.resolve({ fuelCost: 0, steps: 0 });
+
+    const key = `${coordinateToString(from)}>${coordinateToString(to)}`;
+    if (!courses.has(key)) {
+      courses.set(key, plotCourse(db, coordinateToString(from), coordinateToString(to), {
+        ship,
+        objective: options.objective ?? 'fuel',
+        fuelBudget,
+        knownSystems: player.knownSystems
+      }).then(path => ({ fuelCost: path.totalFuelCost, steps: path.steps.length }), () => null));
+    }
+    return courses.get(key)!;
+  };
+
+  const evaluateLoop = async (stops: MarketSighting[]): Promise<TradeRoute | null> => {
+    // Profits are reinvested, so later legs can afford more than the first
+    let credits = player.credits;
+    const hops = stops.map((from, index) => {
+      const to = stops[(index + 1) % stops.length];
+      const cargo = loadCargo(from, to, cargoBudget, credits);
+      credits += cargoProfit(cargo);
+      return { from, to, cargo };
+    });
+
+    const profit = credits - player.credits;
+    if (profit <= 0) return null;
+
+    const approach = await courseBetween(player.coordinates, stops[0].coordinates);
+    if (!approach) return null;
+
+    const legs: TradeRouteLeg[] = [];
+    for (const { from, to, cargo } of hops) {
+      const course = await courseBetween(from.coordinates, to.coordinates);
+      if (!course) return null;
+      legs.push({ from: from.stationId, to: to.stationId, cargo, profit: cargoProfit(cargo), ...course });
+    }
+
+    const fuelCost = approach.fuelCost + legs.reduce((sum, leg) => sum + leg.fuelCost, 0);
+    const steps = approach.steps + legs.reduce((sum, leg) => sum + leg.steps, 0);
+    if (fuelCost > fuelBudget) return null;
+
+    return {
+      stops: stops.map(stop => ({ stationId: stop.stationId, stationName: stop.stationName, coordinates: stop.coordinates, seenAt: stop.seenAt })),
+      approach,
+      legs,
+      profit,
+      fuelCost,
+      steps,
+      profitPerFuel: round(profit / Math.max(fuelCost, 1)),
+      profitPerStep: round(profit / Math.max(steps, 1))
+    };
+  };
+
+  const score = (route: TradeRoute) => sort === 'steps' ? route.profitPerStep : route.profitPerFuel;
+
+  // A loop can start at any of its stops; keep whichever start ranks best from here
+  const best = new Map<string, TradeRoute>();
+  for (const stops of enumerateLoops(stations, maxStops)) {
+    const route = await evaluateLoop(stops);
+    if (!route) continue;
+
+    const ids = stops.map(stop => stop.stationId);
+    const first = ids.indexOf([...ids].sort()[0]);
+    const key = [...ids.slice(first), ...ids.slice(0, first)].join('>');
+    const current = best.get(key);
+    if (!current || score(route) > score(current)) best.set(key, route);
+  }
+
+  const routes = [...best.values()]
+    .sort((a, b) => score(b) - score(a) || b.profit - a.profit)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+
+  return { sort, fuelBudget, cargoBudget, stationsConsidered: stations.length, routes };
+};
+
+// Plan again and set the autopilot for the next stop of the chosen route (1 is the best)
+export const flyTradeRoute = async (db: any, playerId: string, rank: number, options: TradeRouteOptions = {}): Promise<{ route: TradeRoute; job: AutopilotJob }> => {
+  const { routes } = await planTradeRoutes(db, playerId, { ...options, limit: rank });
+  const route = routes[rank - 1];
+  if (!route) throw new Error(routes.length === 0 ? 'No profitable trade routes found' : `Only ${routes.length} trade routes found`);
+
+  // Already at the first stop means trading there, then heading for the second
+  const player = await db.collection('players').findOne({ id: playerId });
+  const next = route.stops.find(stop => !isSameCoordinate(stop.coordinates, player.coordinates)) ?? route.stops[0];
+
+  const job = await startAutopilot(db, playerId, coordinateToString(next.coordinates), options.objective ?? 'fuel');
+  return { route, job };
+};
@@ -0,0 +1,50 @@
+import { Coordinates3D, SystemDocument, UniverseMetadata } from '@stellarburn/shared';
+import { coordinateToString, generateSystemDocument, getSystemCoords, isSystemPresent } from '@stellarburn/shared';
+import { stockStation } from './stationInventoryService.js';
+
+const DUPLICATE_KEY = 11000;
+
+export const ensureSystemIndexes = async (db: any): Promise<void> => {
+  // One document per system, so two visitors can't both generate the same one
+  await db.collection('systems').createIndex({ coordinates: 1 }, { unique: true });
+};
+
+// What first visiting an unvisited system would create, without saving it; null for empty space
+export const previewSystem = (metadata: UniverseMetadata | null, systemCoords: Coordinates3D): SystemDocument | null => {
+  // Only seeded universes can be extended consistently
+  if (!metadata?.seed) return null;
+  if (!isSystemPresent(metadata.seed, metadata.sparsity, systemCoords)) return null;
+  return generateSystemDocument(metadata.seed, systemCoords);
+};
+
+// The single entry point for reaching a system: returns it, generating it on first visit, or null for empty space
+export const ensureSystem = async (db: any, coordinates: Coordinates3D): Promise<SystemDocument | null> => {
+  const systemCoords = getSystemCoords(coordinates);
+  const coordString = coordinateToString(systemCoords);
+
+  const existing = await db.collection('systems').findOne({ coordinates: coordString, staticObjects: { $exists: true } });
+  if (existing) return existing;
+
+  const metadata: UniverseMetadata | null = await db.collection('universe').findOne({ id: 'config' });
+  const system = previewSystem(metadata, systemCoords);
+  if (!metadata || !system) return null;
+
+  const { dynamicObjects, ...generated } = system;
+  for (const station of generated.staticObjects.filter((obj: any) => obj.type === 'station')) {
+    stockStation(station, metadata.seed);
+  }
+
+  // Probes may already have left a placeholder here; a finished system is never overwritten
+  try {
+    await db.collection('systems').updateOne(
+      { coordinates: coordString, staticObjects: { $exists: false } },
+      { $set: generated, $setOnInsert: { dynamicObjects } },
+      { upsert: true }
+    );
+    console.log(`🌌 Generated system ${coordString} (${generated.systemType}) on first visit`);
+  } catch (error: any) {
+    if (error?.code !== DUPLICATE_KEY) throw error;
+  }
+
+  return db.collection('systems').findOne({ coordinates: coordString });
+};
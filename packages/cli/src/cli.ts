@@ -2,8 +2,28 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { Coordinates3D, getSystemCoords, calculate3DDistance } from '@stellarburn/shared';
-import { createPlayer, getPlayerStatus, movePlayer, scanArea, jumpPlayer, systemScan, plotCourse, autopilot, getKnownSystems, getAllKnownSystems, getSystemDetails, launchProbe, getActiveProbes, findNearest, getNearbyStation, dockAtStation, undockFromStation, getStationInfo, buyFromStation, sellToStation, resetPlayer, autoMine, startMining, getMiningStatus, cancelMining } from './game.js';
+import fs from 'fs';
+import { Bookmark, BookmarkKind, ChartSummary, StarChart, Coordinates3D, TradeRoute, GameEvent, ProductionJob, ProbeFlightPlan, getProbeType, getSystemCoords, calculate3DDistance, stringToCoordinate } from '@stellarburn/shared';
+import { createPlayer, login, getPlayerStatus, movePlayer, scanArea, jumpPlayer, traverseWormhole, systemScan, plotCourse, startAutopilot, getAutopilot, autopilotAction, getBookmarks, createBookmark, deleteBookmark, getCharts, exportChart, importChart, giveChart, chartOfferAction, getStationCharts, tradeChartWithStation, getTradeRoutes, flyTradeRoute, getKnownSystems, getAllKnownSystems, getSystemDetails, launchProbe, recallProbe, getActiveProbes, findNearest, getNearbyStation, dockAtStation, undockFromStation, getStationInfo, buyFromStation, sellToStation, getPriceHistory, getTradeLedger, placeOrder, getOrders, cancelOrder, getOrderBook, getMissions, contractAction, getShipyard, buyHull, installModule, removeModule, getRecipes, getProductionJobs, queueProduction, collectProduction, resetPlayer, autoMine, startMining, getMiningStatus, cancelMining, streamEvents } from './game.js';
+
+// Colour for a celestial body in scan listings
+const objectColor = (type: string) =>
+  type === 'star' ? chalk.red :
+  type === 'planet' ? chalk.green :
+  type === 'station' ? chalk.cyan :
+  type === 'nebula' ? chalk.magentaBright :
+  type === 'black_hole' ? chalk.redBright :
+  type === 'wormhole' ? chalk.blueBright : chalk.gray;
+
+// How old a piece of intel is, e.g. "5 min ago"
+const describeAge = (asOf?: string | Date) => {
+  if (!asOf) return 'before intel was kept';
+  const minutes = Math.round((Date.now() - new Date(asOf).getTime()) / 60000);
+  return minutes < 60 ? `${minutes} min ago` : minutes < 2880 ? `${Math.round(minutes / 60)} h ago` : `${Math.round(minutes / 1440)} days ago`;
+};
+
+// Marks ships the npc-service is flying
+const npcTag = (ship: { isNPC?: boolean }) => ship.isNPC ? chalk.gray(' [NPC]') : '';
 
 // Reusable display functions for scan results
 function displayCurrentSector(sector: any) {
@@ -13,9 +33,7 @@ function displayCurrentSector(sector: any) {
   if (sector.objects.length > 0) {
     console.log(chalk.white(`Objects in sector:`));
     sector.objects.forEach((obj: any) => {
-      const color = obj.type === 'star' ? chalk.red :
-                   obj.type === 'planet' ? chalk.green :
-                   obj.type === 'station' ? chalk.cyan : chalk.gray;
+      const color = objectColor(obj.type);
       const coords = obj.coordinates ? `at ${obj.coordinates.x.toFixed(1)},${obj.coordinates.y.toFixed(1)},${obj.coordinates.z.toFixed(1)} ` : '';
 
       if (obj.type === 'station') {
@@ -46,7 +64,7 @@ function displayCurrentSector(sector: any) {
   if (sector.otherPlayers && sector.otherPlayers.length > 0) {
     console.log(chalk.magenta(`Other ships in sector:`));
     sector.otherPlayers.forEach((player: any) => {
-      console.log(`  ${chalk.magenta('ship')}: ${player.name} at ${player.coordinates.x.toFixed(1)},${player.coordinates.y.toFixed(1)},${player.coordinates.z.toFixed(1)}`);
+      console.log(`  ${chalk.magenta('ship')}: ${player.name}${npcTag(player)} at ${player.coordinates.x.toFixed(1)},${player.coordinates.y.toFixed(1)},${player.coordinates.z.toFixed(1)}`);
     });
   }
 
@@ -109,6 +127,44 @@ function displayLocalScan(scanResult: any) {
   displayAdjacentSectors(scanResult.adjacentSectors);
 }
 
+// Format a pushed game event as a single log line
+function formatGameEvent(event: GameEvent): string {
+  const time = chalk.gray(new Date(event.timestamp).toLocaleTimeString());
+
+  switch (event.type) {
+    case 'player.arrived':
+      return `${time} ${chalk.magenta('ship')} ${event.playerName} arrived in system ${chalk.yellow(event.system)}`;
+    case 'player.departed':
+      return `${time} ${chalk.magenta('ship')} ${event.playerName} left system ${chalk.yellow(event.system)}`;
+    case 'probe.moved':
+      return `${time} ${chalk.yellow('probe')} ${event.probeId.slice(-8)} reached ${chalk.yellow(event.system)} (fuel: ${event.fuel})`;
+    case 'probe.destroyed':
+      return event.reason === 'plan-complete'
+        ? `${time} ${chalk.yellow('probe')} ${event.probeId.slice(-8)} finished its flight plan in ${chalk.yellow(event.system)}`
+        : `${time} ${chalk.red('probe')} ${event.probeId.slice(-8)} ran out of fuel in ${chalk.yellow(event.system)}`;
+    case 'probe.recalled':
+      return event.stowed
+        ? `${time} ${chalk.green('probe')} ${event.probeId.slice(-8)} is back in the bay`
+        : `${time} ${chalk.green('probe')} ${event.probeId.slice(-8)} was broken down for ${event.fuelReturned} fuel (bay full)`;
+    case 'mining.completed': {
+      const items = event.extractedItems.map(item => `${item.quantity}x ${item.itemId}`).join(', ') || 'nothing';
+      return `${time} ${chalk.yellow('mining')} completed at ${event.asteroidId}: ${chalk.green(items)}`;
+    }
+    case 'station.docked':
+      return `${time} ${chalk.cyan('station')} ${event.playerName} docked at ${event.stationName}`;
+    case 'station.undocked':
+      return `${time} ${chalk.cyan('station')} ${event.playerName} undocked from ${event.stationName}`;
+    case 'station.trade':
+      return `${time} ${chalk.cyan('trade')} ${event.side === 'buy' ? 'bought' : 'sold'} ${event.quantity}x ${event.itemId} @${event.unitPrice}cr at ${event.stationName}`;
+    case 'order.filled':
+      return `${time} ${chalk.cyan('order')} ${event.side} ${event.quantity}x ${event.itemId} filled @${event.price}cr by ${event.counterparty} (${event.remaining} left)`;
+    case 'contract.updated':
+      return `${time} ${event.status === 'failed' ? chalk.red('contract') : chalk.green('contract')} ${event.contractId} ${event.title}: ${event.message}`;
+    case 'autopilot.progress':
+      return `${time} ${event.status === 'stopped' ? chalk.red('autopilot') : chalk.cyan('autopilot')} [${event.stepsCompleted}/${event.stepsCompleted + event.stepsRemaining}] ${event.message}`;
+  }
+}
+
 // Distance calculation helpers
 
 function calculateJumpDistance(from: Coordinates3D, to: Coordinates3D): number {
@@ -159,21 +215,38 @@ const program = new Command();
 
 program
   .name('stellarburn')
-  .description('StellarBurn CLI Game Client\n\nUsage Examples:\n  stellarburn create "PlayerName"           - Create new player\n  stellarburn <playerId> status              - Show player status\n  stellarburn <playerId> scan                - Local area scan\n  stellarburn <playerId> db                  - Show known systems\n  stellarburn <playerId> db "1,2,3"         - Show system details\n  stellarburn <playerId> plot "1,2,3"       - Plot course\n  stellarburn <playerId> go "1,2,3"         - Autopilot to destination')
+  .description('StellarBurn CLI Game Client\n\nUsage Examples:\n  stellarburn create "PlayerName" <password> - Create new player\n  stellarburn login "PlayerName" <password>  - Log in and cache an API token\n  stellarburn <playerId> status              - Show player status\n  stellarburn <playerId> scan                - Local area scan\n  stellarburn <playerId> db                  - Show known systems\n  stellarburn <playerId> db "1,2,3"         - Show system details\n  stellarburn <playerId> plot "1,2,3"       - Plot course\n  stellarburn <playerId> go "1,2,3"         - Autopilot to destination')
   .version('1.0.0');
 
 // Create player
 program
-  .command('create <name>')
+  .command('create <name> <password>')
   .description('Create a new player')
-  .action(async (name) => {
+  .action(async (name, password) => {
     try {
-      const result = await createPlayer(name) as any;
+      const result = await createPlayer(name, password) as any;
       console.log(chalk.green(`✓ Player created: ${result.player.name}`));
       console.log(chalk.blue(`Location: ${result.spawnLocation}`));
       console.log(chalk.yellow(`Fuel: ${result.player.ship.fuel}/${result.player.ship.maxFuel}`));
       console.log(chalk.green(`Credits: ${result.player.credits}`));
       console.log(chalk.gray(`Player ID: ${result.player.id}`));
+      console.log(chalk.magenta(`API Key: ${result.apiKey}`));
+      console.log(chalk.gray(`Save your API key - it is only shown once. Your session token has been cached.`));
+    } catch (error: any) {
+      console.log(chalk.red(`✗ ${error.message}`));
+    }
+  });
+
+// Log in and cache a session token
+program
+  .command('login <name> <password>')
+  .description('Log in as an existing player')
+  .action(async (name, password) => {
+    try {
+      const result = await login(name, password);
+      console.log(chalk.green(`✓ ${result.message}`));
+      console.log(chalk.gray(`Player ID: ${result.session.playerId}`));
+      console.log(chalk.gray(`Token expires: ${new Date(result.session.expiresAt).toLocaleString()}`));
     } catch (error: any) {
       console.log(chalk.red(`✗ ${error.message}`));
     }
@@ -206,8 +279,11 @@ program
           const status = await getPlayerStatus(playerId);
           console.log(chalk.blue(`=== ${status.name} Status ===`));
           console.log(`Location: ${chalk.yellow(status.coordinatesString)}`);
+          if (status.ship) {
+            console.log(`Ship: ${chalk.cyan(status.ship.hullName)} (${status.ship.modules.length}/${status.ship.moduleSlots} modules)`);
+          }
           console.log(`Fuel: ${chalk.yellow(status.fuel)}/${status.maxFuel}`);
-          console.log(`Probes: ${chalk.cyan(status.probes)}`);
+          console.log(`Probes: ${chalk.cyan(status.probes)}${status.ship ? `/${status.ship.probeBay}` : ''}`);
           console.log(`Credits: ${chalk.green(status.credits)}`);
 
           // Show cargo inventory
@@ -220,6 +296,13 @@ program
             console.log(chalk.gray(`\nCargo Hold: Empty`));
           }
 
+          if (status.contractCargo && status.contractCargo.length > 0) {
+            console.log(chalk.magenta(`\nSealed Contract Cargo:`));
+            status.contractCargo.forEach((sealed: any) => {
+              console.log(`  ${chalk.cyan(sealed.itemId)}: ${sealed.quantity} units for contract ${sealed.contractId}`);
+            });
+          }
+
           if (status.dockedAt) {
             console.log(chalk.green(`\nDocked at station: ${status.dockedAt}`));
           }
@@ -235,13 +318,14 @@ program
           const systemResult = await systemScan(playerId) as any;
           console.log(chalk.blue(`=== System Scan ===`));
           console.log(chalk.yellow(`System: ${systemResult.systemCoordinates.x},${systemResult.systemCoordinates.y},${systemResult.systemCoordinates.z}`));
+          if (systemResult.nebula) {
+            console.log(chalk.magentaBright(`Inside ${systemResult.nebula.name}: sensors only reach ${systemResult.nebula.scanRange} units`));
+          }
           
           if (systemResult.objects.length > 0) {
             console.log(chalk.white(`Objects in system (sorted by distance):`));
             systemResult.objects.forEach((obj: any) => {
-              const color = obj.type === 'star' ? chalk.red :
-                           obj.type === 'planet' ? chalk.green :
-                           obj.type === 'station' ? chalk.cyan : chalk.gray;
+              const color = objectColor(obj.type);
               const distanceInfo = obj.distance ? ` (${obj.distance.toFixed(2)} units away, ${obj.size} sectors)` : ` (${obj.size} sectors)`;
               console.log(`  ${color(obj.type)}: ${obj.name} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z}${distanceInfo}`);
             });
@@ -253,7 +337,7 @@ program
             console.log(chalk.magenta(`\nOther ships (sorted by distance):`));
             systemResult.otherPlayers.forEach((player: any) => {
               const distanceInfo = player.distance ? ` (${player.distance.toFixed(2)} units away)` : '';
-              console.log(`  ${chalk.magenta(player.name)} at ${player.coordinates.x},${player.coordinates.y},${player.coordinates.z}${distanceInfo}`);
+              console.log(`  ${chalk.magenta(player.name)}${npcTag(player)} at ${player.coordinates.x},${player.coordinates.y},${player.coordinates.z}${distanceInfo}`);
             });
           }
 
@@ -305,16 +389,32 @@ program
         case 'jd': case 'jumpdown':
           await jumpMove(playerId, 'down');
           break;
+        case 'wh': case 'wormhole':
+          await wormholeMove(playerId);
+          break;
 
         // Probe commands
-        case 'probe':
-          if (!target) {
-            console.log(chalk.red('✗ Probe requires direction'));
-            console.log(chalk.gray('Usage: stellarburn <playerId> probe n (or s/e/w/u/d)'));
+        case 'probe': {
+          // A probe type may come first: probe survey n, probe market spiral "x,y,z" 2, probe relay
+          const probeType = target && getProbeType(target) ? target : undefined;
+          const [launch, ...planArgs] = args.slice(probeType ? 3 : 2);
+          if (!launch && probeType !== 'relay') {
+            console.log(chalk.red('✗ Probe requires a direction or flight plan'));
+            console.log(chalk.gray('Usage: stellarburn <playerId> probe [survey|market|stealth] n (or s/e/w/u/d)'));
+            console.log(chalk.gray('       stellarburn <playerId> probe [type] waypoints "1,2,3;4,5,6" | spiral "x,y,z" [radius] | sweep "x1,y1,z1:x2,y2,z2" | loiter "x,y,z" [ticks]'));
+            console.log(chalk.gray('       stellarburn <playerId> probe relay'));
+            console.log(chalk.gray('       stellarburn <playerId> probe recall <probeId>'));
             break;
           }
-          await launchProbeCommand(playerId, target);
+          if (launch === 'recall') {
+            await recallProbeCommand(playerId, planArgs[0]);
+          } else if (PROBE_PLAN_KINDS.includes(launch)) {
+            await launchProbeCommand(playerId, parseProbePlan(launch, planArgs), probeType);
+          } else {
+            await launchProbeCommand(playerId, launch, probeType);
+          }
           break;
+        }
 
         case 'probes':
           await showActiveProbes(playerId);
@@ -338,22 +438,68 @@ program
         // Navigation commands
         case 'plot':
           if (!target) {
-            console.log(chalk.red('✗ Plot requires destination coordinates'));
-            console.log(chalk.gray('Usage: stellarburn <playerId> plot "1,2,3"'));
+            console.log(chalk.red('✗ Plot requires destination coordinates or a bookmark'));
+            console.log(chalk.gray('Usage: stellarburn <playerId> plot "1,2,3"|<bookmark> [fuel|steps|explored]'));
             break;
           }
           const plotDestination = target.replace(/["']/g, '');
-          await plotCourseTo(playerId, plotDestination);
+          await plotCourseTo(playerId, plotDestination, args[3]);
           break;
 
         case 'go':
           if (!target) {
-            console.log(chalk.red('✗ Go requires destination coordinates'));
-            console.log(chalk.gray('Usage: stellarburn <playerId> go "1,2,3"'));
+            console.log(chalk.red('✗ Go requires destination coordinates or a bookmark'));
+            console.log(chalk.gray('Usage: stellarburn <playerId> go "1,2,3"|<bookmark> [fuel|steps|explored]'));
             break;
           }
           const goDestination = target.replace(/["']/g, '');
-          await gotoDestination(playerId, goDestination);
+          await gotoDestination(playerId, goDestination, args[3]);
+          break;
+
+        case 'autopilot':
+        case 'ap':
+          await autopilotCommand(playerId, target);
+          break;
+
+        case 'routes':
+          if (target === 'go') {
+            await flyTradeRouteCommand(playerId, parseInt(args[3] || '1'), args[4]);
+          } else {
+            await tradeRoutesCommand(playerId, target, args[3] ? parseInt(args[3]) : undefined);
+          }
+          break;
+
+        // Bookmark commands
+        case 'bookmarks':
+        case 'bm':
+          await listBookmarksCommand(playerId);
+          break;
+
+        case 'bookmark':
+          if (!target) {
+            console.log(chalk.red('✗ Bookmark requires a name'));
+            console.log(chalk.gray('Usage: stellarburn <playerId> bookmark <name> [coordinates|station|asteroid|system] [target]'));
+            break;
+          }
+          await createBookmarkCommand(playerId, target, args[3] as BookmarkKind | undefined, args[4]);
+          break;
+
+        case 'unbookmark':
+          if (!target) {
+            console.log(chalk.red('✗ Unbookmark requires a name'));
+            console.log(chalk.gray('Usage: stellarburn <playerId> unbookmark <name>'));
+            break;
+          }
+          await deleteBookmarkCommand(playerId, target);
+          break;
+
+        // Star chart commands
+        case 'charts':
+          await listChartsCommand(playerId);
+          break;
+
+        case 'chart':
+          await chartCommand(playerId, target, args.slice(3));
           break;
 
         // Nearest command
@@ -407,6 +553,101 @@ program
           await sellItemCommand(playerId, target, parseInt(args[3]));
           break;
 
+        case 'history':
+          if (!target) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> history <itemId> [bucket]  (bucket like 15m, 1h, 1d)'));
+            break;
+          }
+          await priceHistoryCommand(playerId, target, args[3] || '1h');
+          break;
+
+        case 'ledger':
+          await tradeLedgerCommand(playerId, target);
+          break;
+
+        case 'order':
+          if ((target !== 'buy' && target !== 'sell') || !args[3] || !args[4] || !args[5]) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> order <buy|sell> <itemId> <quantity> <limitPrice>'));
+            break;
+          }
+          await placeOrderCommand(playerId, target, args[3], parseInt(args[4]), parseInt(args[5]));
+          break;
+
+        case 'orders':
+          await listOrdersCommand(playerId, target);
+          break;
+
+        case 'cancel':
+          if (!target) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> cancel <orderId>'));
+            break;
+          }
+          await cancelOrderCommand(playerId, target);
+          break;
+
+        case 'book':
+          if (!target) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> book <itemId>'));
+            break;
+          }
+          await orderBookCommand(playerId, target);
+          break;
+
+        case 'missions':
+          await missionBoardCommand(playerId);
+          break;
+
+        case 'accept':
+        case 'deliver':
+        case 'abandon':
+          if (!target) {
+            console.log(chalk.gray(`Usage: stellarburn <playerId> ${action.toLowerCase()} <contractId>`));
+            break;
+          }
+          await contractActionCommand(playerId, target, action.toLowerCase());
+          break;
+
+        case 'shipyard':
+          await shipyardCommand(playerId);
+          break;
+
+        case 'buyship':
+          if (!target) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> buyship <hullId>'));
+            break;
+          }
+          await buyHullCommand(playerId, target);
+          break;
+
+        case 'install':
+        case 'uninstall':
+          if (!target) {
+            console.log(chalk.gray(`Usage: stellarburn <playerId> ${action.toLowerCase()} <moduleId>`));
+            break;
+          }
+          await moduleCommand(playerId, target, action.toLowerCase() === 'install');
+          break;
+
+        case 'recipes':
+          await recipesCommand(playerId);
+          break;
+
+        case 'produce':
+          if (!target) {
+            console.log(chalk.gray('Usage: stellarburn <playerId> produce <recipeId> [batches]'));
+            break;
+          }
+          await produceCommand(playerId, target, args[3] ? parseInt(args[3]) : 1);
+          break;
+
+        case 'jobs':
+          await productionJobsCommand(playerId);
+          break;
+
+        case 'collect':
+          await collectCommand(playerId, target);
+          break;
+
         case 'reset':
           await resetPlayerCommand(playerId);
           break;
@@ -419,6 +660,10 @@ program
           await miningStatusCommand(playerId);
           break;
 
+        case 'watch':
+          await watchEventsCommand(playerId, target);
+          break;
+
         default:
           console.log(chalk.red(`Unknown action: ${action}`));
           console.log(chalk.blue(`\nAvailable actions for ${playerId}:`));
@@ -429,11 +674,30 @@ program
           console.log(chalk.gray(`  db "x,y,z"       - Show specific system details`));
           console.log(chalk.gray(`  dball            - Show all known systems`));
           console.log(chalk.gray(`  nearest station  - Find nearest station/planet/star/player/probe`));
-          console.log(chalk.gray(`  plot "x,y,z"     - Plot course to coordinates`));
-          console.log(chalk.gray(`  go "x,y,z"       - Autopilot to coordinates`));
+          console.log(chalk.gray(`  plot "x,y,z"|bookmark [objective] - Plot course (fuel, steps or explored)`));
+          console.log(chalk.gray(`  go "x,y,z"|bookmark [objective]   - Autopilot to coordinates or a bookmark`));
+          console.log(chalk.gray(`  autopilot [status|watch|pause|resume|cancel] - Manage the autopilot`));
+          console.log(chalk.gray(`  routes [fuel|steps] [stops] - Profitable trade loops from prices you've seen`));
+          console.log(chalk.gray(`  routes go [n] [fuel|steps]  - Autopilot to the next stop of route n`));
+          console.log(chalk.gray(`  bookmarks        - List your bookmarks (home and last-dock are automatic)`));
+          console.log(chalk.gray(`  bookmark name [kind] [target] - Bookmark here, a station, asteroid or system`));
+          console.log(chalk.gray(`  unbookmark name  - Delete a bookmark`));
+          console.log(chalk.gray(`  charts           - Star charts you hold and charts offered to you`));
+          console.log(chalk.gray(`  chart export <all|stations|asteroids|x1,y1,z1:x2,y2,z2> [file] - Draw a signed chart`));
+          console.log(chalk.gray(`  chart import <file> - Read a chart file into your database`));
+          console.log(chalk.gray(`  chart give <id> <pilot> [price] - Give a chart, or offer it for credits`));
+          console.log(chalk.gray(`  chart accept|decline <id> - Answer a chart offer`));
           console.log(chalk.gray(`  n,s,e,w,u,d      - Move in direction`));
           console.log(chalk.gray(`  jn,js,je,jw,ju,jd - Jump in direction`));
+          console.log(chalk.gray(`  wh, wormhole - Traverse the wormhole next to you`));
           console.log(chalk.gray(`  probe n          - Launch probe in direction (scans 10 systems)`));
+          console.log(chalk.gray(`  probe waypoints "x,y,z;x,y,z" - Launch probe through systems in order`));
+          console.log(chalk.gray(`  probe spiral "x,y,z" [radius] - Survey outward around a system`));
+          console.log(chalk.gray(`  probe sweep "x1,y1,z1:x2,y2,z2" - Survey a box of systems row by row`));
+          console.log(chalk.gray(`  probe loiter "x,y,z" [ticks] - Fly to a system and watch it`));
+          console.log(chalk.gray(`  probe recall <id> - Call a probe back to your ship`));
+          console.log(chalk.gray(`  probe survey|market|stealth ... - Launch a probe variant from cargo the same ways`));
+          console.log(chalk.gray(`  probe relay      - Leave a relay probe watching this system and its neighbours`));
           console.log(chalk.gray(`  probes           - Show active probes status`));
           console.log(chalk.cyan(`  station          - Show nearby station info`));
           console.log(chalk.cyan(`  dock             - Dock at nearby station`));
@@ -441,8 +705,29 @@ program
           console.log(chalk.cyan(`  market           - View station market (when docked)`));
           console.log(chalk.cyan(`  buy <item> <qty> - Buy items from station`));
           console.log(chalk.cyan(`  sell <item> <qty>- Sell items to station`));
+          console.log(chalk.cyan(`  history <item> [bucket] - Price history at docked station`));
+          console.log(chalk.cyan(`  ledger [item]    - Your trades and realized profit`));
+          console.log(chalk.cyan(`  order <buy|sell> <item> <qty> <price> - Post a limit order at docked station`));
+          console.log(chalk.cyan(`  orders [status]  - List your orders (open, filled, cancelled, expired)`));
+          console.log(chalk.cyan(`  cancel <orderId> - Cancel an open order`));
+          console.log(chalk.cyan(`  book <item>      - Order book at docked station`));
+          console.log(chalk.cyan(`  missions         - Mission board at docked station and your active contracts`));
+          console.log(chalk.cyan(`  accept <id>      - Accept a contract from the board`));
+          console.log(chalk.cyan(`  deliver <id>     - Hand in cargo or a finished survey`));
+          console.log(chalk.cyan(`  abandon <id>     - Give up a contract (penalty applies)`));
+          console.log(chalk.cyan(`  shipyard         - Hulls and modules at docked shipyard`));
+          console.log(chalk.cyan(`  buyship <hull>   - Buy a hull, trading in your current ship`));
+          console.log(chalk.cyan(`  install <module> - Fit a module into a free slot`));
+          console.log(chalk.cyan(`  uninstall <module> - Sell back an installed module`));
+          console.log(chalk.cyan(`  recipes          - Refining/manufacturing recipes at docked station`));
+          console.log(chalk.cyan(`  produce <recipe> [batches] - Queue a production job with your cargo`));
+          console.log(chalk.cyan(`  jobs             - Your production jobs`));
+          console.log(chalk.cyan(`  collect [jobId]  - Collect finished jobs at docked station`));
+          console.log(chalk.cyan(`  chart shop       - Charts for sale at a docked Research station`));
+          console.log(chalk.cyan(`  chart buy|sell <id> - Buy or sell a star chart at a Research station`));
           console.log(chalk.yellow(`  mine             - Mine nearest asteroid`));
           console.log(chalk.yellow(`  mining           - Check mining operation status`));
+          console.log(chalk.blue(`  watch ["x,y,z;..."] - Stream live events for you (and optional systems)`));
           console.log(chalk.magenta(`  reset            - Reset fuel and probes (admin)`));
           console.log(chalk.green(`\n  === NPC Commands ===`));
           console.log(chalk.green(`  npcs/npc         - Show NPC status`));
@@ -473,53 +758,66 @@ async function quickMove(playerId: string, direction: string) {
 
 async function jumpMove(playerId: string, direction: string) {
   try {
-    const result = await jumpPlayer(playerId, direction) as any;
-    console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
-    console.log(chalk.yellow(`Fuel remaining: ${result.fuel}`));
-
-    // Display system scan results
-    if (result.success && result.systemScan) {
-      console.log(chalk.blue(`\n=== System Scan ===`));
-      const scan = result.systemScan;
-      console.log(chalk.yellow(`System: ${scan.systemCoordinates.x},${scan.systemCoordinates.y},${scan.systemCoordinates.z}`));
-
-      if (scan.objects.length > 0) {
-        console.log(chalk.white(`Objects in system:`));
-        scan.objects.forEach((obj: any) => {
-          const color = obj.type === 'star' ? chalk.red :
-                       obj.type === 'planet' ? chalk.green :
-                       obj.type === 'station' ? chalk.cyan : chalk.gray;
-
-          if (obj.type === 'station') {
-            const stationClass = obj.stationClass ? ` (Class ${obj.stationClass})` : '';
-            const inventoryInfo = obj.inventoryCount > 0 ? ` - ${obj.inventoryCount} items` : ' - no inventory';
-            console.log(`  ${color(obj.type)}: ${obj.name}${stationClass} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z} (${obj.size} sectors)${inventoryInfo}`);
-
-            if (obj.enrichedInventory && obj.enrichedInventory.length > 0) {
-              console.log(`    ${chalk.gray('Top items:')} ${obj.enrichedInventory.map((inv: any) =>
-                `${inv.itemName} (${inv.quantity}x @${inv.sellPrice}cr)`
-              ).join(', ')}`);
-            }
-          } else {
-            console.log(`  ${color(obj.type)}: ${obj.name} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z} (${obj.size} sectors)`);
-          }
-        });
-      } else {
-        console.log(chalk.gray(`Empty system`));
-      }
+    displayArrival(await jumpPlayer(playerId, direction) as any);
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
 
-      if (scan.otherPlayers.length > 0) {
-        console.log(chalk.magenta(`\nOther ships:`));
-        scan.otherPlayers.forEach((player: any) => {
-          console.log(`  ${chalk.magenta(player.name)} at ${player.coordinates.x},${player.coordinates.y},${player.coordinates.z}`);
-        });
-      }
-    }
+async function wormholeMove(playerId: string) {
+  try {
+    displayArrival(await traverseWormhole(playerId) as any);
   } catch (error: any) {
     console.log(chalk.red(`✗ ${error.message}`));
   }
 }
 
+// Result of a jump or wormhole trip, with the scan of the system arrived in
+function displayArrival(result: any) {
+  console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
+  console.log(chalk.yellow(`Fuel remaining: ${result.fuel}`));
+
+  // Display system scan results
+  if (result.success && result.systemScan) {
+    console.log(chalk.blue(`\n=== System Scan ===`));
+    const scan = result.systemScan;
+    console.log(chalk.yellow(`System: ${scan.systemCoordinates.x},${scan.systemCoordinates.y},${scan.systemCoordinates.z}`));
+    if (scan.nebula) {
+      console.log(chalk.magentaBright(`Inside ${scan.nebula.name}: sensors only reach ${scan.nebula.scanRange} units`));
+    }
+
+    if (scan.objects.length > 0) {
+      console.log(chalk.white(`Objects in system:`));
+      scan.objects.forEach((obj: any) => {
+        const color = objectColor(obj.type);
+
+        if (obj.type === 'station') {
+          const stationClass = obj.stationClass ? ` (Class ${obj.stationClass})` : '';
+          const inventoryInfo = obj.inventoryCount > 0 ? ` - ${obj.inventoryCount} items` : ' - no inventory';
+          console.log(`  ${color(obj.type)}: ${obj.name}${stationClass} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z} (${obj.size} sectors)${inventoryInfo}`);
+
+          if (obj.enrichedInventory && obj.enrichedInventory.length > 0) {
+            console.log(`    ${chalk.gray('Top items:')} ${obj.enrichedInventory.map((inv: any) =>
+              `${inv.itemName} (${inv.quantity}x @${inv.sellPrice}cr)`
+            ).join(', ')}`);
+          }
+        } else {
+          console.log(`  ${color(obj.type)}: ${obj.name} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z} (${obj.size} sectors)`);
+        }
+      });
+    } else {
+      console.log(chalk.gray(`Empty system`));
+    }
+
+    if (scan.otherPlayers.length > 0) {
+      console.log(chalk.magenta(`\nOther ships:`));
+      scan.otherPlayers.forEach((player: any) => {
+        console.log(`  ${chalk.magenta(player.name)}${npcTag(player)} at ${player.coordinates.x},${player.coordinates.y},${player.coordinates.z}`);
+      });
+    }
+  }
+}
+
 // Database helper functions
 async function showKnownSystems(playerId: string) {
   try {
@@ -549,7 +847,7 @@ async function showKnownSystems(playerId: string) {
         chalk.green('(current system)') :
         chalk.yellow(`(${jumpDistance} jump${jumpDistance > 1 ? 's' : ''})`);
 
-      console.log(chalk.white(`${(index + 1).toString().padStart(2)}. System ${chalk.yellow(system.coordinates)} ${distanceDisplay}`));
+      console.log(chalk.white(`${(index + 1).toString().padStart(2)}. System ${chalk.yellow(system.coordinates)} ${distanceDisplay} `) + chalk.gray(`as of ${describeAge(system.asOf)}`));
 
       const starCount = system.objects.filter((obj: any) => obj.type === 'star').length;
       const planetCount = system.objects.filter((obj: any) => obj.type === 'planet').length;
@@ -588,7 +886,7 @@ async function showAllKnownSystems(playerId: string) {
 
     console.log(chalk.blue(`\n=== Systems with Objects (${withObjects.length}) ===`));
     withObjects.forEach((system: any, index: number) => {
-      console.log(`${chalk.yellow(system.coordinates)} - ${chalk.green(system.objectCount)} objects`);
+      console.log(`${chalk.yellow(system.coordinates)} - ${chalk.green(system.objectCount)} objects ` + chalk.gray(`(as of ${describeAge(system.asOf)})`));
     });
 
     if (empty.length > 0) {
@@ -619,15 +917,11 @@ async function showSystemDetails(playerId: string, coordinates: string) {
     }
 
     console.log(chalk.green(`Objects: ${system.objectCount}`));
-    if (system.discovered) {
-      console.log(chalk.gray(`Discovered: ${new Date(system.discovered).toLocaleDateString()}`));
-    }
+    console.log(chalk.gray(`As of: ${describeAge(system.asOf)}${system.source === 'probe' ? ' (probe)' : ''}`));
 
     console.log(chalk.blue(`\n=== Objects in System ===`));
     system.objects.forEach((obj: any, index: number) => {
-      const color = obj.type === 'star' ? chalk.red :
-                   obj.type === 'planet' ? chalk.green :
-                   obj.type === 'station' ? chalk.cyan : chalk.gray;
+      const color = objectColor(obj.type);
 
       // Calculate movement distance
       const moveDistance = calculateMoveDistance(result.player, obj.coordinates);
@@ -669,10 +963,10 @@ async function showSystemDetails(playerId: string, coordinates: string) {
       }
     });
 
-    if (system.dynamicObjects.ships.length > 0) {
-      console.log(chalk.magenta(`\n=== Ships in System ===`));
-      system.dynamicObjects.ships.forEach((ship: any) => {
-        console.log(`  ${chalk.magenta(ship.name)} at ${ship.coordinates.x},${ship.coordinates.y},${ship.coordinates.z}`);
+    if (system.ships.length > 0) {
+      console.log(chalk.magenta(`\n=== Ships Seen in System ===`));
+      system.ships.forEach((ship: any) => {
+        console.log(`  ${chalk.magenta(ship.name)}${npcTag(ship)} at ${ship.coordinates.x},${ship.coordinates.y},${ship.coordinates.z}`);
       });
     }
   } catch (error: any) {
@@ -680,16 +974,25 @@ async function showSystemDetails(playerId: string, coordinates: string) {
   }
 }
 
-async function plotCourseTo(playerId: string, destination: string) {
+function describeObjective(planned: string, requested?: string) {
+  const labels: Record<string, string> = { fuel: 'least fuel', steps: 'fewest steps', explored: 'explored systems only' };
+  console.log(chalk.yellow(`Objective: ${labels[planned] ?? planned}`));
+  if (requested && requested !== planned) {
+    console.log(chalk.gray(`(The ${labels[requested] ?? requested} course needed more fuel than you have)`));
+  }
+}
+
+async function plotCourseTo(playerId: string, destination: string, objective?: string) {
   try {
     // First get player's current position
     const status = await getPlayerStatus(playerId);
     const currentPos = `${status.coordinates.x.toFixed(1)},${status.coordinates.y.toFixed(1)},${status.coordinates.z.toFixed(1)}`;
 
-    const result = await plotCourse(playerId, currentPos, destination) as any;
+    const result = await plotCourse(playerId, currentPos, destination, objective) as any;
     console.log(chalk.blue(`=== Course Plot ===`));
     console.log(chalk.yellow(`From: ${result.from}`));
     console.log(chalk.yellow(`To: ${result.to}`));
+    describeObjective(result.path.objective, objective);
     console.log(chalk.green(`Total Steps: ${result.path.steps.length}`));
     console.log(chalk.green(`Total Fuel Cost: ${result.path.totalFuelCost}`));
     console.log(chalk.green(`Total Distance: ${result.path.totalDistance.toFixed(1)}`));
@@ -697,7 +1000,7 @@ async function plotCourseTo(playerId: string, destination: string) {
 
     console.log(chalk.blue(`\n=== Flight Plan ===`));
     result.path.steps.slice(0, 10).forEach((step: any, index: number) => {
-      const stepType = step.type === 'jump' ? chalk.cyan('JUMP') : chalk.white('MOVE');
+      const stepType = step.type === 'jump' ? chalk.cyan('JUMP') : step.type === 'wormhole' ? chalk.blueBright('WORMHOLE') : chalk.white('MOVE');
       const direction = chalk.yellow(step.direction.toUpperCase());
       const coords = `${step.to.x},${step.to.y},${step.to.z}`;
       console.log(`${(index + 1).toString().padStart(2)}: ${stepType} ${direction} to ${coords} (fuel: ${step.fuelCost})`);
@@ -713,7 +1016,7 @@ async function plotCourseTo(playerId: string, destination: string) {
   }
 }
 
-async function gotoDestination(playerId: string, destination: string) {
+async function gotoDestination(playerId: string, destination: string, objective?: string) {
   try {
     // First get player's current position
     const status = await getPlayerStatus(playerId);
@@ -724,87 +1027,313 @@ async function gotoDestination(playerId: string, destination: string) {
     console.log(chalk.yellow(`Destination: ${destination}`));
     console.log(chalk.gray(`Player: ${status.name} (Fuel: ${status.fuel}/${status.maxFuel})`));
 
-    // Plot the course
-    console.log(chalk.blue(`\nPlotting course...`));
-    const courseResult = await plotCourse(playerId, currentPos, destination) as any;
+    // The server plots and flies the course; this only follows along
+    const { job } = await startAutopilot(playerId, destination, objective) as any;
+    console.log(chalk.green(`✓ ${job.message}`));
 
-    console.log(chalk.green(`✓ Course plotted successfully!`));
-    console.log(chalk.green(`Total Steps: ${courseResult.path.steps.length}`));
-    console.log(chalk.green(`Total Fuel Cost: ${courseResult.path.totalFuelCost}`));
-    console.log(chalk.green(`Total Distance: ${courseResult.path.totalDistance.toFixed(1)}`));
-
-    // Execute autopilot
     console.log(chalk.blue(`\n=== Autopilot Engaged ===`));
-    await executeAutopilot(playerId, courseResult.path.steps, false);
+    console.log(chalk.gray(`Ctrl+C stops watching; the ship keeps flying. Use 'autopilot pause' or 'autopilot cancel' to take the helm.`));
+    await watchAutopilot(playerId);
 
   } catch (error: any) {
     console.log(chalk.red(`✗ ${error.message}`));
   }
 }
 
-async function executeAutopilot(playerId: string, steps: any[], stepMode: boolean = false) {
-  let remainingSteps = [...steps];
-  let stepCount = 0;
+function describeAutopilot(job: any) {
+  const progress = `${job.stepsCompleted}/${job.totalSteps} steps, ${job.fuelUsed} fuel used`;
+  const destination = `${job.destination.x},${job.destination.y},${job.destination.z}`;
+  const color = job.status === 'completed' ? chalk.green : job.status === 'stopped' ? chalk.red : job.status === 'active' ? chalk.cyan : chalk.yellow;
+  console.log(`${color(job.status.toUpperCase())} to ${chalk.yellow(destination)} (${progress})`);
+  console.log(chalk.gray(`  ${job.message}`));
+  if (job.replans > 0) {
+    console.log(chalk.gray(`  Re-plotted ${job.replans} time(s)`));
+  }
+}
 
-  while (remainingSteps.length > 0) {
-    stepCount++;
+// Poll the job until it stops flying
+async function watchAutopilot(playerId: string) {
+  let lastMessage = '';
 
-    if (stepMode && stepCount > 1) {
-      // In step mode, prompt user to continue
-      console.log(chalk.yellow(`\nPress Enter to continue autopilot (${remainingSteps.length} steps remaining), or 'q' to quit:`));
-      const input = await new Promise<string>((resolve) => {
-        process.stdin.resume();
-        process.stdin.setEncoding('utf8');
-        process.stdin.once('data', (data) => {
-          process.stdin.pause();
-          resolve(data.toString().trim());
-        });
-      });
+  for (;;) {
+    const { job } = await getAutopilot(playerId) as any;
+    if (job.message !== lastMessage) {
+      lastMessage = job.message;
+      console.log(`${chalk.gray(`[${job.stepsCompleted}/${job.totalSteps}]`)} ${job.message}`);
+    }
 
-      if (input.toLowerCase() === 'q' || input.toLowerCase() === 'quit') {
-        console.log(chalk.yellow('Autopilot disengaged.'));
-        return;
+    if (job.status !== 'active') {
+      if (job.status === 'completed') {
+        console.log(chalk.green(`🎯 Destination reached! (${job.fuelUsed} fuel used)`));
+      } else {
+        describeAutopilot(job);
       }
+      return;
     }
 
-    try {
-      console.log(chalk.blue(`Step ${stepCount}: Executing autopilot step...`));
-      const result = await autopilot(playerId, remainingSteps) as any;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
+
+async function autopilotCommand(playerId: string, action: string = 'status') {
+  try {
+    if (action === 'pause' || action === 'resume' || action === 'cancel') {
+      const { job } = await autopilotAction(playerId, action) as any;
+      describeAutopilot(job);
+      if (action === 'resume') {
+        await watchAutopilot(playerId);
+      }
+    } else if (action === 'watch') {
+      await watchAutopilot(playerId);
+    } else {
+      const { job } = await getAutopilot(playerId) as any;
+      console.log(chalk.blue(`=== Autopilot ===`));
+      describeAutopilot(job);
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function describeTradeRoute(route: TradeRoute, rank: number) {
+  const names = new Map(route.stops.map(stop => [stop.stationId, stop.stationName]));
+  const loop = [...route.stops, route.stops[0]].map(stop => stop.stationName).join(' → ');
+  console.log(chalk.white(`${rank}. ${loop}`));
+  console.log(chalk.green(`   +${route.profit} credits, ${route.fuelCost} fuel, ${route.steps} steps`) +
+    chalk.gray(` (${route.profitPerFuel}/fuel, ${route.profitPerStep}/step; approach ${route.approach.fuelCost} fuel)`));
+
+  route.legs.forEach(leg => {
+    const cargo = leg.cargo.length > 0
+      ? leg.cargo.map(load => `${load.quantity} ${load.itemName} @${load.buyPrice}→${load.sellPrice}`).join(', ')
+      : chalk.gray('empty');
+    console.log(chalk.gray(`   ${names.get(leg.from)} → ${names.get(leg.to)}: `) + cargo + chalk.gray(` (${leg.fuelCost} fuel)`));
+  });
+
+  const oldest = route.stops.reduce((min, stop) => Math.min(min, new Date(stop.seenAt).getTime()), Date.now());
+  console.log(chalk.gray(`   Prices seen up to ${describeAge(new Date(oldest))}`));
+}
+
+async function tradeRoutesCommand(playerId: string, sort?: string, maxStops?: number) {
+  try {
+    const result = await getTradeRoutes(playerId, sort, maxStops);
+    console.log(chalk.blue(`=== Trade Routes (by profit per ${result.sort === 'steps' ? 'step' : 'fuel'}) ===`));
+    console.log(chalk.gray(`Fuel budget ${result.fuelBudget}, cargo ${result.cargoBudget}; ${result.stationsConsidered} stations with margins`));
+
+    if (result.routes.length === 0) {
+      console.log(chalk.yellow(`No profitable routes from the prices you've seen. Scan or dock at more stations, or refuel.`));
+      return;
+    }
+    result.routes.forEach((route, index) => describeTradeRoute(route, index + 1));
+    console.log(chalk.gray(`\nUse '${playerId} routes go <n>' to fly to a route's next stop.`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function flyTradeRouteCommand(playerId: string, rank: number, sort?: string) {
+  try {
+    const { route, job } = await flyTradeRoute(playerId, rank, sort);
+    describeTradeRoute(route, rank);
+    console.log(chalk.green(`✓ ${job.message}`));
+    console.log(chalk.gray(`Ctrl+C stops watching; the ship keeps flying.`));
+    await watchAutopilot(playerId);
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatBookmark(bookmark: Bookmark) {
+  const coords = `${bookmark.coordinates.x},${bookmark.coordinates.y},${bookmark.coordinates.z}`;
+  const target = bookmark.targetId ? chalk.gray(` (${bookmark.targetId})`) : '';
+  const name = bookmark.auto ? chalk.magenta(bookmark.name) : chalk.white(bookmark.name);
+  return `${name.padEnd(28)} ${chalk.cyan(bookmark.kind.padEnd(11))} ${chalk.yellow(coords)}${target}`;
+}
+
+async function listBookmarksCommand(playerId: string) {
+  try {
+    const bookmarks = await getBookmarks(playerId);
+    console.log(chalk.blue(`=== Bookmarks ===`));
+    if (bookmarks.length === 0) {
+      console.log(chalk.gray(`No bookmarks yet. Use 'bookmark <name>' to save where you are.`));
+      return;
+    }
+    bookmarks.forEach(bookmark => console.log(formatBookmark(bookmark)));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function createBookmarkCommand(playerId: string, name: string, kind?: BookmarkKind, target?: string) {
+  try {
+    const bookmark = await createBookmark(playerId, name, kind, target?.replace(/["']/g, ''));
+    console.log(chalk.green(`✓ Bookmarked "${bookmark.name}"`));
+    console.log(formatBookmark(bookmark));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function deleteBookmarkCommand(playerId: string, name: string) {
+  try {
+    const result = await deleteBookmark(playerId, name) as any;
+    console.log(chalk.green(`✓ ${result.message}`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatChart(chart: ChartSummary) {
+  const price = chart.price !== undefined ? chalk.yellow(` ${chart.price} cr`) : '';
+  return `${chalk.white(chart.name)} ${chalk.gray(`by ${chart.issuedBy}, ${describeAge(chart.issuedAt)}`)}` +
+    chalk.cyan(` ${chart.systemCount} systems, ${chart.stationCount} stations`) + price + chalk.gray(`\n    ${chart.id}`);
+}
+
+async function listChartsCommand(playerId: string) {
+  try {
+    const { held, offered } = await getCharts(playerId);
+    console.log(chalk.blue(`=== Star Charts ===`));
+    if (held.length === 0) {
+      console.log(chalk.gray(`No charts yet. Use 'chart export stations' to draw one from your database.`));
+    }
+    held.forEach(chart => {
+      const offer = chart.offer ? chalk.magenta(` (offered to ${chart.offer.toName} for ${chart.offer.price} cr)`) : '';
+      console.log(`  ${formatChart(chart)}${offer}`);
+    });
+
+    if (offered.length > 0) {
+      console.log(chalk.blue(`\n=== Offered To You ===`));
+      offered.forEach(chart => console.log(`  ${formatChart(chart)} ${chalk.yellow(`for ${chart.offer!.price} cr`)}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
 
-      if (result.success) {
-        if (result.completed) {
-          console.log(chalk.green(`✓ ${result.message}`));
-          console.log(chalk.green(`🎯 Destination reached!`));
+async function chartCommand(playerId: string, action: string | undefined, args: string[]) {
+  try {
+    switch (action) {
+      case 'export': {
+        const filter = (args[0] || 'all').replace(/["']/g, '');
+        const chart = await exportChart(playerId, filter, args[2]);
+        console.log(chalk.green(`✓ Drew "${chart.name}" covering ${chart.systems.length} systems`));
+        console.log(chalk.gray(`  ${chart.id}`));
+
+        if (args[1]) {
+          const { format, version, name, issuedBy, issuedAt, systems, signature } = chart;
+          const file: StarChart = { format, version, name, issuedBy, issuedAt, systems, signature };
+          fs.writeFileSync(args[1], JSON.stringify(file, null, 2));
+          console.log(chalk.green(`✓ Signed chart written to ${args[1]}`));
+        }
+        break;
+      }
+
+      case 'import': {
+        if (!args[0]) {
+          console.log(chalk.gray('Usage: stellarburn <playerId> chart import <file>'));
           break;
-        } else {
-          console.log(chalk.green(`✓ ${result.message}`));
-          remainingSteps = result.remainingSteps || [];
-          console.log(`   ${remainingSteps.length} steps remaining`);
         }
-      } else {
-        if (result.blocked) {
-          console.log(chalk.red(`❌ Autopilot blocked: ${result.message}`));
-          console.log(chalk.yellow(`Obstruction detected. Manual navigation required.`));
+        const result = await importChart(playerId, JSON.parse(fs.readFileSync(args[0], 'utf8')));
+        console.log(chalk.green(`✓ Read "${result.name}" by ${result.issuedBy}: ${result.updated} of ${result.systems} systems were new or fresher`));
+        break;
+      }
+
+      case 'give': {
+        if (!args[0] || !args[1]) {
+          console.log(chalk.gray('Usage: stellarburn <playerId> chart give <chartId> <pilot> [price]'));
           break;
-        } else {
-          console.log(chalk.red(`❌ Autopilot error: ${result.message}`));
+        }
+        const result = await giveChart(playerId, args[0], args[1], parseInt(args[2] || '0'));
+        console.log(chalk.green(result.given
+          ? `✓ Gave "${result.chart.name}" to ${args[1]}`
+          : `✓ Offered "${result.chart.name}" to ${args[1]} for ${result.chart.offer!.price} credits`));
+        break;
+      }
+
+      case 'accept':
+      case 'decline': {
+        if (!args[0]) {
+          console.log(chalk.gray(`Usage: stellarburn <playerId> chart ${action} <chartId>`));
           break;
         }
+        const result = await chartOfferAction(playerId, args[0], action);
+        console.log(chalk.green(action === 'accept'
+          ? `✓ Bought "${result.chart.name}" for ${result.price} credits; ${result.updated} systems updated`
+          : `✓ ${result.message}`));
+        break;
       }
 
-      // Small delay between steps for readability
-      await new Promise(resolve => setTimeout(resolve, 500));
+      case 'shop': {
+        const { station, forSale, offers } = await getStationCharts(playerId);
+        console.log(chalk.blue(`=== ${station.name} Chart Room ===`));
+        console.log(chalk.gray(`Station credits: ${station.credits}`));
+        if (forSale.length === 0) console.log(chalk.gray(`No charts for sale.`));
+        forSale.forEach(chart => console.log(`  ${formatChart(chart)}`));
 
-    } catch (error: any) {
-      console.log(chalk.red(`❌ Autopilot failed: ${error.message}`));
-      break;
+        if (offers.length > 0) {
+          console.log(chalk.blue(`\nThe station would pay:`));
+          offers.forEach(offer => console.log(`  ${chalk.white(offer.name)} ${chalk.yellow(`${offer.price} cr`)} ${chalk.gray(offer.chartId)}`));
+        }
+        break;
+      }
+
+      case 'buy':
+      case 'sell': {
+        if (!args[0]) {
+          console.log(chalk.gray(`Usage: stellarburn <playerId> chart ${action} <chartId>`));
+          break;
+        }
+        const result = await tradeChartWithStation(playerId, args[0], action);
+        console.log(chalk.green(`✓ ${result.message}`));
+        console.log(chalk.cyan(`Credits: ${result.credits}`));
+        break;
+      }
+
+      default:
+        console.log(chalk.red(`✗ Unknown chart action "${action ?? ''}"`));
+        console.log(chalk.gray('Usage: stellarburn <playerId> chart <export|import|give|accept|decline|shop|buy|sell> ...'));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+const PROBE_PLAN_KINDS = ['waypoints', 'spiral', 'sweep', 'loiter'];
+
+// Turn "probe <kind> ..." arguments into a flight plan for the API to validate
+function parseProbePlan(kind: string, args: string[]): ProbeFlightPlan {
+  const systems = (value = '', separator: string) => value.replace(/["']/g, '').split(separator).filter(Boolean).map(stringToCoordinate);
+
+  switch (kind) {
+    case 'waypoints':
+      return { kind, waypoints: systems(args[0], ';') };
+    case 'spiral':
+      return { kind, center: systems(args[0], ';')[0], radius: parseInt(args[1] || '1') };
+    case 'sweep': {
+      const [from, to] = systems(args[0], ':');
+      return { kind, from, to };
     }
+    default:
+      return { kind: 'loiter', system: systems(args[0], ';')[0], ticks: parseInt(args[1] || '60') };
+  }
+}
+
+async function recallProbeCommand(playerId: string, probeId?: string) {
+  if (!probeId) {
+    console.log(chalk.gray('Usage: stellarburn <playerId> probe recall <probeId>'));
+    return;
+  }
+
+  try {
+    const result = await recallProbe(playerId, probeId);
+    console.log(result.reachable ? chalk.green(`✓ ${result.message}`) : chalk.yellow(`⚠ ${result.message}`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
   }
 }
 
-async function launchProbeCommand(playerId: string, direction: string) {
+async function launchProbeCommand(playerId: string, target: string | ProbeFlightPlan | undefined, probeType?: string) {
   try {
-    const result = await launchProbe(playerId, direction) as any;
+    const result = await launchProbe(playerId, target, probeType) as any;
     console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
     console.log(chalk.cyan(`Probes remaining: ${result.probesRemaining}`));
 
@@ -826,14 +1355,12 @@ async function launchProbeCommand(playerId: string, direction: string) {
           console.log(chalk.yellow(`${index + 1}. System ${coords.x},${coords.y},${coords.z}`));
 
           sys.systemScan.objects.forEach((obj: any) => {
-            const color = obj.type === 'star' ? chalk.red :
-                         obj.type === 'planet' ? chalk.green :
-                         obj.type === 'station' ? chalk.cyan : chalk.gray;
+            const color = objectColor(obj.type);
             console.log(`   ${color(obj.type)}: ${obj.name} at ${obj.coordinates.x},${obj.coordinates.y},${obj.coordinates.z}`);
           });
 
           if (sys.systemScan.otherPlayers.length > 0) {
-            console.log(chalk.magenta(`   Ships: ${sys.systemScan.otherPlayers.map((p: any) => p.name).join(', ')}`));
+            console.log(chalk.magenta(`   Ships: ${sys.systemScan.otherPlayers.map((p: any) => p.name + (p.isNPC ? ' [NPC]' : '')).join(', ')}`));
           }
         });
       }
@@ -864,7 +1391,10 @@ async function showActiveProbes(playerId: string) {
     console.log(chalk.yellow(`Found ${probes.length} active probe${probes.length > 1 ? 's' : ''}:`));
 
     probes.forEach((probe: any, index: number) => {
-      const direction = probe.direction.x > 0 ? 'east' :
+      const direction = probe.recalledAt ? 'returning to ship' :
+                       probe.plan && probe.plan.kind !== 'direction' ? `${probe.plan.kind} plan, ${probe.route?.length ?? 0} systems to go` +
+                         (probe.loiterTicks ? `, loitering ${probe.loiterTicks} ticks` : '') :
+                       probe.direction.x > 0 ? 'east' :
                        probe.direction.x < 0 ? 'west' :
                        probe.direction.y > 0 ? 'north' :
                        probe.direction.y < 0 ? 'south' :
@@ -873,7 +1403,7 @@ async function showActiveProbes(playerId: string) {
       const launchedTime = new Date(probe.launchedAt).toLocaleTimeString();
       const lastActivity = new Date(probe.lastActivity).toLocaleTimeString();
 
-      console.log(chalk.cyan(`\n${index + 1}. Probe ${probe.id.slice(-8)}`));
+      console.log(chalk.cyan(`\n${index + 1}. ${getProbeType(probe.probeType)?.name ?? 'Probe'} ${probe.id.slice(-8)}`));
       console.log(`   Direction: ${chalk.yellow(direction)}`);
       console.log(`   Position: ${chalk.white(`${probe.coordinates.x},${probe.coordinates.y},${probe.coordinates.z}`)}`);
       console.log(`   Fuel: ${chalk.green(`${probe.fuel}/${probe.maxFuel}`)}`);
@@ -916,6 +1446,9 @@ async function findNearestEntity(playerId: string, entityType: string) {
     if (nearest.systemCoordinates) {
       console.log(`System: ${chalk.gray(`${nearest.systemCoordinates.x},${nearest.systemCoordinates.y},${nearest.systemCoordinates.z}`)}`);
     }
+    if (nearest.type !== 'probe') {
+      console.log(`Seen: ${chalk.gray(describeAge(nearest.asOf))}`);
+    }
 
     // Show routing suggestion
     console.log(chalk.blue(`\n💡 To go there:`));
@@ -996,7 +1529,7 @@ async function showStationInfo(playerId: string, stationId: string) {
     if (result.dockedShips && result.dockedShips.length > 0) {
       console.log(chalk.magenta(`\nDocked Ships:`));
       result.dockedShips.forEach((ship: any) => {
-        console.log(`  ${chalk.magenta('ship')}: ${ship.name}`);
+        console.log(`  ${chalk.magenta('ship')}: ${ship.name}${npcTag(ship)}`);
       });
     } else {
       console.log(chalk.gray(`\nNo other ships currently docked.`));
@@ -1009,6 +1542,19 @@ async function showStationInfo(playerId: string, stationId: string) {
   }
 }
 
+// Show where a dynamic price sits against its equilibrium, and whether the station makes or uses the item
+function formatMarketTrend(market: any): string {
+  if (!market) return '';
+
+  const ratio = market.marketPrice / market.equilibriumPrice;
+  let trend = chalk.gray(' ~');
+  if (ratio > 1.05) trend = chalk.red(` ▲${Math.round((ratio - 1) * 100)}%`);
+  if (ratio < 0.95) trend = chalk.green(` ▼${Math.round((1 - ratio) * 100)}%`);
+
+  const role = market.productionRate > 0 ? chalk.gray(' (produced here)') : market.consumptionRate > 0 ? chalk.gray(' (in demand)') : '';
+  return `${trend}${role}`;
+}
+
 async function showStationMarket(playerId: string) {
   try {
     // First check if player is docked
@@ -1034,7 +1580,7 @@ async function showStationMarket(playerId: string) {
         const status = buyable ? chalk.green('✓') : chalk.red('✗');
 
         console.log(`${(index + 1).toString().padStart(2)}. ${status} ${chalk.white(item.itemName)}`);
-        console.log(`    ID: ${chalk.cyan(item.itemId)} | Qty: ${quantityText} | Buy: ${chalk.green(item.sellPrice)}cr | Sell: ${chalk.yellow(item.buyPrice)}cr`);
+        console.log(`    ID: ${chalk.cyan(item.itemId)} | Qty: ${quantityText} | Buy: ${chalk.green(item.sellPrice)}cr | Sell: ${chalk.yellow(item.buyPrice)}cr${formatMarketTrend(item.market)}`);
       });
 
       console.log(chalk.blue(`\n💡 Trading Commands:`));
@@ -1093,6 +1639,10 @@ async function sellItemCommand(playerId: string, itemId: string, quantity: numbe
 
     console.log(chalk.green(`✓ ${result.message}`));
     console.log(`Credits earned: ${chalk.green(result.transaction.totalValue)} cr`);
+    const profit = result.transaction.realizedProfit;
+    if (profit !== undefined) {
+      console.log(`Realized profit: ${profit >= 0 ? chalk.green(`+${profit}`) : chalk.red(profit)} cr`);
+    }
     console.log(`Credits remaining: ${chalk.green(result.transaction.playerCreditsRemaining)} cr`);
 
   } catch (error: any) {
@@ -1100,6 +1650,329 @@ async function sellItemCommand(playerId: string, itemId: string, quantity: numbe
   }
 }
 
+async function priceHistoryCommand(playerId: string, itemId: string, bucket: string) {
+  try {
+    const status = await getPlayerStatus(playerId);
+    if (!status.dockedAt) {
+      console.log(chalk.red(`You must be docked at a station to view its price history.`));
+      return;
+    }
+
+    // Day buckets look back a month, everything else a day
+    const hours = bucket.endsWith('d') ? 24 * 30 : 24;
+    const history = await getPriceHistory(playerId, status.dockedAt, itemId, bucket, hours);
+
+    console.log(chalk.cyan(`=== ${itemId} price history (${bucket} buckets, last ${hours}h) ===`));
+    if (history.buckets.length === 0) {
+      console.log(chalk.gray(`No trades recorded for ${itemId} at this station yet.`));
+      return;
+    }
+
+    console.log(chalk.gray(`${'Start'.padEnd(17)} ${'Open'.padStart(7)} ${'High'.padStart(7)} ${'Low'.padStart(7)} ${'Close'.padStart(7)} ${'Volume'.padStart(8)}`));
+    history.buckets.forEach(b => {
+      const start = new Date(b.start).toISOString().slice(0, 16).replace('T', ' ');
+      const closeColor = b.close >= b.open ? chalk.green : chalk.red;
+      console.log(`${start.padEnd(17)} ${String(b.open).padStart(7)} ${String(b.high).padStart(7)} ${String(b.low).padStart(7)} ${closeColor(String(b.close).padStart(7))} ${String(b.volume).padStart(8)}`);
+    });
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function tradeLedgerCommand(playerId: string, itemId?: string) {
+  try {
+    const ledger = await getTradeLedger(playerId, itemId);
+
+    console.log(chalk.cyan(`=== Trade Ledger${itemId ? ` (${itemId})` : ''} ===`));
+    if (ledger.trades.length === 0) {
+      console.log(chalk.gray(`No trades recorded yet.`));
+      return;
+    }
+
+    ledger.trades.forEach(trade => {
+      const when = new Date(trade.timestamp).toISOString().slice(0, 16).replace('T', ' ');
+      const side = trade.side === 'buy' ? chalk.yellow('BUY ') : chalk.green('SELL');
+      const profit = trade.realizedProfit !== undefined
+        ? ` | P/L ${trade.realizedProfit >= 0 ? chalk.green(`+${trade.realizedProfit}`) : chalk.red(trade.realizedProfit)}`
+        : '';
+      console.log(`${chalk.gray(when)} ${side} ${trade.quantity} ${chalk.white(trade.itemId)} @ ${trade.unitPrice}cr = ${trade.total}cr at ${chalk.cyan(trade.stationName)}${profit}`);
+    });
+
+    const { summary } = ledger;
+    const realized = summary.realizedProfit >= 0 ? chalk.green(`+${summary.realizedProfit}`) : chalk.red(summary.realizedProfit);
+    console.log(chalk.white(`
+${summary.tradeCount} trades | Spent ${summary.totalSpent}cr | Earned ${summary.totalEarned}cr | Realized profit ${realized}cr`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatOrder(order: any): string {
+  const side = order.side === 'buy' ? chalk.yellow('BUY ') : chalk.green('SELL');
+  const statusColor = order.status === 'open' ? chalk.cyan : order.status === 'filled' ? chalk.green : chalk.gray;
+  const expires = order.status === 'open' ? chalk.gray(` expires ${new Date(order.expiresAt).toLocaleString()}`) : '';
+  return `${chalk.gray(order.id.slice(0, 8))} ${side} ${order.filledQuantity}/${order.quantity} ${chalk.white(order.itemId)} @ ${order.side === 'buy' ? '≤' : '≥'}${order.limitPrice}cr ${statusColor(order.status)}${expires}`;
+}
+
+async function placeOrderCommand(playerId: string, side: 'buy' | 'sell', itemId: string, quantity: number, limitPrice: number) {
+  try {
+    if (isNaN(quantity) || quantity <= 0 || isNaN(limitPrice) || limitPrice <= 0) {
+      console.log(chalk.red(`Quantity and limit price must be positive numbers.`));
+      return;
+    }
+
+    const { order } = await placeOrder(playerId, side, itemId, quantity, limitPrice);
+    console.log(chalk.green(`✓ Order posted`));
+    console.log(formatOrder(order));
+    if (order.filledQuantity > 0) {
+      console.log(chalk.blue(`💱 ${order.filledQuantity} filled immediately`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function listOrdersCommand(playerId: string, status?: string) {
+  try {
+    const orders = await getOrders(playerId, status);
+    console.log(chalk.cyan(`=== Your Orders${status ? ` (${status})` : ''} ===`));
+    if (orders.length === 0) {
+      console.log(chalk.gray(`No orders found.`));
+      return;
+    }
+    orders.forEach(order => console.log(formatOrder(order)));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function cancelOrderCommand(playerId: string, orderId: string) {
+  try {
+    // Accept the short ID shown by 'orders'
+    let fullId = orderId;
+    if (orderId.length < 36) {
+      const match = (await getOrders(playerId, 'open')).find(order => order.id.startsWith(orderId));
+      if (!match) {
+        console.log(chalk.red(`✗ No open order starting with ${orderId}`));
+        return;
+      }
+      fullId = match.id;
+    }
+
+    const { order } = await cancelOrder(playerId, fullId);
+    console.log(chalk.green(`✓ Order cancelled; escrow for ${order.quantity - order.filledQuantity} unfilled ${order.itemId} returned`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function orderBookCommand(playerId: string, itemId: string) {
+  try {
+    const status = await getPlayerStatus(playerId);
+    if (!status.dockedAt) {
+      console.log(chalk.red(`You must be docked at a station to view its order book.`));
+      return;
+    }
+
+    const book = await getOrderBook(playerId, status.dockedAt, itemId);
+    console.log(chalk.cyan(`=== ${itemId} Order Book ===`));
+    console.log(chalk.green(`Asks (sellers):`));
+    if (book.asks.length === 0) console.log(chalk.gray(`  none`));
+    [...book.asks].reverse().forEach(level => console.log(`  ${String(level.price).padStart(7)}cr  ${level.quantity} units (${level.orders} orders)`));
+    console.log(chalk.yellow(`Bids (buyers):`));
+    if (book.bids.length === 0) console.log(chalk.gray(`  none`));
+    book.bids.forEach(level => console.log(`  ${String(level.price).padStart(7)}cr  ${level.quantity} units (${level.orders} orders)`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatContract(contract: any): string {
+  const typeColor = contract.type === 'survey' ? chalk.blue : contract.type === 'haul' ? chalk.magenta : chalk.yellow;
+  const terms = [`${chalk.green(`${contract.reward}cr`)}`];
+  if (contract.collateral > 0) terms.push(`deposit ${contract.collateral}cr`);
+  if (contract.penalty > 0) terms.push(`penalty ${contract.penalty}cr`);
+
+  let progress = '';
+  if (contract.status === 'accepted') {
+    progress = contract.type === 'survey'
+      ? ` ${contract.surveyedSystems.length}/${contract.targetSystems.length} surveyed`
+      : ` ${contract.deliveredQuantity}/${contract.quantity} delivered`;
+    progress += chalk.gray(` due ${new Date(contract.deadline).toLocaleString()}`);
+  } else {
+    progress = chalk.gray(` ${contract.durationHours}h once accepted`);
+  }
+
+  return `${chalk.gray(contract.id)} ${typeColor(contract.type.toUpperCase().padEnd(8))} ${contract.title} (${terms.join(', ')})${progress}`;
+}
+
+async function missionBoardCommand(playerId: string) {
+  try {
+    const board = await getMissions(playerId);
+
+    if (board.station) {
+      console.log(chalk.cyan(`=== ${board.station.name} Mission Board ===`));
+      if (board.available.length === 0) console.log(chalk.gray(`No contracts on offer.`));
+      board.available.forEach(contract => {
+        console.log(formatContract(contract));
+        console.log(chalk.gray(`         ${contract.description}`));
+      });
+    } else {
+      console.log(chalk.gray(`Dock at a station to see its mission board.`));
+    }
+
+    console.log(chalk.cyan(`\n=== Active Contracts ===`));
+    if (board.active.length === 0) console.log(chalk.gray(`None.`));
+    board.active.forEach(contract => {
+      console.log(formatContract(contract));
+      console.log(chalk.gray(`         Turn in at ${contract.destinationStationName} (${contract.destinationSystem})`));
+    });
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function contractActionCommand(playerId: string, contractId: string, action: string) {
+  try {
+    const result = await contractAction(playerId, contractId, action as 'accept' | 'deliver' | 'abandon');
+    const contract = result.contract;
+
+    if (action === 'accept') {
+      console.log(chalk.green(`✓ Accepted: ${contract.title}`));
+      if (contract.type === 'haul') {
+        console.log(chalk.yellow(`📦 Loaded ${contract.quantity} ${contract.itemId}; ${contract.collateral}cr deposit taken`));
+      }
+      console.log(chalk.blue(`Turn in at ${contract.destinationStationName} (${contract.destinationSystem}) by ${new Date(contract.deadline!).toLocaleString()}`));
+    } else if (action === 'deliver') {
+      console.log(chalk.green(`✓ ${result.message}`));
+    } else {
+      console.log(chalk.yellow(`Contract abandoned: ${contract.title}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatShipStats(ship: any): string {
+  return `cargo ${ship.cargoCapacity}, fuel ${ship.fuelCapacity}, move ${ship.moveFuelCost}/jump ${ship.jumpFuelCost} fuel, ` +
+    `probes ${ship.probeBay} (range ${ship.probeRange}), mining x${ship.miningPower}`;
+}
+
+async function shipyardCommand(playerId: string) {
+  try {
+    const shipyard = await getShipyard(playerId);
+    const current = shipyard.currentShip;
+
+    console.log(chalk.cyan(`=== ${shipyard.station.name} Shipyard ===`));
+    console.log(`Your ship: ${chalk.white(current.hullName)} - ${formatShipStats(current)}`);
+    console.log(`Modules: ${current.modules.length > 0 ? current.modules.join(', ') : chalk.gray('none')} (${current.modules.length}/${current.moduleSlots} slots)`);
+    console.log(`Trade-in value: ${chalk.green(`${shipyard.tradeInValue}cr`)}`);
+
+    console.log(chalk.yellow(`\nHulls:`));
+    shipyard.hulls.forEach(hull => {
+      const price = hull.id === current.hullId ? chalk.gray('current') : `${hull.price}cr (${hull.netPrice >= 0 ? `${hull.netPrice}cr` : `+${-hull.netPrice}cr back`} after trade-in)`;
+      console.log(`  ${chalk.white(hull.id.padEnd(12))} ${hull.name} - ${price}`);
+      console.log(chalk.gray(`               ${formatShipStats(hull)}, ${hull.moduleSlots} slots`));
+    });
+
+    console.log(chalk.yellow(`\nModules:`));
+    shipyard.modules.forEach(module => {
+      console.log(`  ${chalk.white(module.id.padEnd(20))} ${String(module.price).padStart(6)}cr  ${module.description}`);
+    });
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function buyHullCommand(playerId: string, hullId: string) {
+  try {
+    const result = await buyHull(playerId, hullId);
+    console.log(chalk.green(`✓ You now fly a ${result.ship.hullName}`));
+    console.log(chalk.blue(`Trade-in: ${result.tradeInValue}cr, paid ${result.netPrice}cr. Credits: ${result.credits}`));
+    console.log(chalk.gray(formatShipStats(result.ship)));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function moduleCommand(playerId: string, moduleId: string, install: boolean) {
+  try {
+    if (install) {
+      const result = await installModule(playerId, moduleId);
+      console.log(chalk.green(`✓ Installed ${moduleId} for ${result.cost}cr. Credits: ${result.credits}`));
+      console.log(chalk.gray(formatShipStats(result.ship)));
+    } else {
+      const result = await removeModule(playerId, moduleId);
+      console.log(chalk.green(`✓ Removed ${moduleId}, refunded ${result.refund}cr. Credits: ${result.credits}`));
+      console.log(chalk.gray(formatShipStats(result.ship)));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+function formatComponents(components: Array<{ itemId: string; quantity: number }>): string {
+  return components.map(component => `${component.quantity} ${component.itemId}`).join(' + ');
+}
+
+function formatJob(job: ProductionJob): string {
+  const readyAt = new Date(job.readyAt);
+  const state = readyAt <= new Date()
+    ? chalk.green('ready')
+    : chalk.yellow(`ready ${readyAt.toLocaleString()}`);
+  return `${chalk.gray(job.id)} ${job.batches}x ${job.recipeName} → ${formatComponents(job.outputs)} at ${job.stationName} (${state})`;
+}
+
+async function recipesCommand(playerId: string) {
+  try {
+    const { station, recipes, jobs } = await getRecipes(playerId);
+
+    console.log(chalk.cyan(`=== ${station.name} Production ===`));
+    if (recipes.length === 0) console.log(chalk.gray(`This station runs no recipes. Try a mining or research station.`));
+    recipes.forEach(recipe => {
+      console.log(`  ${chalk.white(recipe.id.padEnd(22))} ${recipe.kind.padEnd(13)} ${formatComponents(recipe.inputs)} → ${formatComponents(recipe.outputs)}`);
+      console.log(chalk.gray(`                         ${recipe.durationMinutes}min, ${recipe.fee}cr per batch - ${recipe.description}`));
+    });
+
+    if (jobs.length > 0) {
+      console.log(chalk.cyan(`\nYour jobs here:`));
+      jobs.forEach(job => console.log(`  ${formatJob(job)}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function produceCommand(playerId: string, recipeId: string, batches: number) {
+  try {
+    const { job } = await queueProduction(playerId, recipeId, batches);
+    console.log(chalk.green(`✓ Queued ${job.batches}x ${job.recipeName} for ${job.fee}cr`));
+    console.log(chalk.blue(`Collect ${formatComponents(job.outputs)} here after ${new Date(job.readyAt).toLocaleString()}`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function productionJobsCommand(playerId: string) {
+  try {
+    const jobs = await getProductionJobs(playerId);
+    console.log(chalk.cyan(`=== Production Jobs ===`));
+    if (jobs.length === 0) console.log(chalk.gray(`None.`));
+    jobs.forEach(job => console.log(formatJob(job)));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
+async function collectCommand(playerId: string, jobId?: string) {
+  try {
+    const { collected } = await collectProduction(playerId, jobId);
+    collected.forEach(job => console.log(chalk.green(`✓ Collected ${formatComponents(job.outputs)} from ${job.recipeName}`)));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
+
 async function resetPlayerCommand(playerId: string) {
   try {
     const result = await resetPlayer(playerId);
@@ -1182,5 +2055,18 @@ async function miningStatusCommand(playerId: string) {
   }
 }
 
+async function watchEventsCommand(playerId: string, systemsArg?: string) {
+  const systems = systemsArg ? systemsArg.replace(/["']/g, '').split(';').filter(s => s.length > 0) : [];
+
+  console.log(chalk.blue(`=== Live Events ===`));
+  console.log(chalk.gray(`Watching player ${playerId}${systems.length > 0 ? ` and systems ${systems.join(', ')}` : ''}. Press Ctrl+C to stop.`));
+
+  try {
+    await streamEvents(playerId, systems, (event) => console.log(formatGameEvent(event)));
+    console.log(chalk.yellow(`Event stream closed by server.`));
+  } catch (error: any) {
+    console.log(chalk.red(`✗ ${error.message}`));
+  }
+}
 
 program.parse();
\ No newline at end of file
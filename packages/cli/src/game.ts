@@ -1,8 +1,34 @@
 import fetch from 'node-fetch';
-import { CelestialBody, Coordinates3D, CreatePlayerResponse, PlayerStatusResponse, MovementResult, ProbeResult, Probe, MiningResult } from '@stellarburn/shared';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CelestialBody, Coordinates3D, CreatePlayerResponse, LoginResponse, AuthSession, GameEvent, PlayerStatusResponse, MovementResult, ProbeResult, Probe, ProbeFlightPlan, MiningResult, PriceHistoryResponse, TradeLedgerResponse, StationOrder, OrderBook, Contract, MissionBoardResponse, ShipyardResponse, ShipStats, StationRecipesResponse, ProductionJob, Bookmark, BookmarkKind, TradeRoutesResponse, TradeRoute, AutopilotJob, ChartItem, ChartSummary, StarChart } from '@stellarburn/shared';
 
 const API_BASE = process.env.API_BASE || 'http://localhost:3000/api';
 const NPC_SERVICE_BASE = process.env.NPC_SERVICE_BASE || 'http://localhost:3002';
+const TOKEN_FILE = process.env.STELLARBURN_TOKEN_FILE || path.join(os.homedir(), '.stellarburn', 'tokens.json');
+
+// Local session cache, keyed by player ID
+function loadSessions(): Record<string, AuthSession> {
+  try {
+    return JSON.parse(fs.readFileSync(TOKEN_FILE, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function saveSession(session: AuthSession) {
+  const sessions = loadSessions();
+  sessions[session.playerId] = session;
+  fs.mkdirSync(path.dirname(TOKEN_FILE), { recursive: true });
+  fs.writeFileSync(TOKEN_FILE, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+}
+
+// Authorization header for a player's cached token (STELLARBURN_TOKEN overrides)
+function authHeaders(playerId: string): Record<string, string> {
+  const token = process.env.STELLARBURN_TOKEN || loadSessions()[playerId]?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
 
 export async function testConnection(): Promise<boolean> {
   try {
@@ -13,11 +39,11 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
-export async function createPlayer(name: string): Promise<CreatePlayerResponse> {
+export async function createPlayer(name: string, password: string): Promise<CreatePlayerResponse> {
   const response = await fetch(`${API_BASE}/player/create`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ name })
+    body: JSON.stringify({ name, password })
   });
   
   if (!response.ok) {
@@ -25,13 +51,32 @@ export async function createPlayer(name: string): Promise<CreatePlayerResponse>
     throw new Error(error.error || 'Failed to create player');
   }
   
-  return await response.json() as CreatePlayerResponse;
+  const result = await response.json() as CreatePlayerResponse;
+  saveSession(result.session);
+  return result;
+}
+
+export async function login(name: string, password: string): Promise<LoginResponse> {
+  const response = await fetch(`${API_BASE}/player/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, password })
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to log in');
+  }
+
+  const result = await response.json() as LoginResponse;
+  saveSession(result.session);
+  return result;
 }
 
 export async function getPlayerStatus(playerId: string): Promise<PlayerStatusResponse> {
   try {
     const url = `${API_BASE}/player/${playerId}/status`;
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -52,7 +97,8 @@ export async function getPlayerStatus(playerId: string): Promise<PlayerStatusRes
 export async function movePlayer(playerId: string, direction: string): Promise<MovementResult> {
   try {
     const response = await fetch(`${API_BASE}/player/${playerId}/move/${direction}`, {
-      method: 'POST'
+      method: 'POST',
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -71,7 +117,8 @@ export async function movePlayer(playerId: string, direction: string): Promise<M
 
 export async function jumpPlayer(playerId: string, direction: string) {
   const response = await fetch(`${API_BASE}/player/${playerId}/jump/${direction}`, {
-    method: 'POST'
+    method: 'POST',
+    headers: authHeaders(playerId)
   });
   
   if (!response.ok) {
@@ -82,9 +129,23 @@ export async function jumpPlayer(playerId: string, direction: string) {
   return await response.json();
 }
 
+export async function traverseWormhole(playerId: string) {
+  const response = await fetch(`${API_BASE}/player/${playerId}/wormhole`, {
+    method: 'POST',
+    headers: authHeaders(playerId)
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to traverse wormhole');
+  }
+
+  return await response.json();
+}
+
 // Simple scan endpoints - the API handles the logic internally
 export async function scanArea(playerId: string) {
-  const response = await fetch(`${API_BASE}/player/${playerId}/scan`);
+  const response = await fetch(`${API_BASE}/player/${playerId}/scan`, { headers: authHeaders(playerId) });
   
   if (!response.ok) {
     const error: any = await response.json();
@@ -95,7 +156,7 @@ export async function scanArea(playerId: string) {
 }
 
 export async function systemScan(playerId: string) {
-  const response = await fetch(`${API_BASE}/player/${playerId}/system-scan`);
+  const response = await fetch(`${API_BASE}/player/${playerId}/system-scan`, { headers: authHeaders(playerId) });
   
   if (!response.ok) {
     const error: any = await response.json();
@@ -105,8 +166,9 @@ export async function systemScan(playerId: string) {
   return await response.json();
 }
 
-export async function plotCourse(playerId: string, from: string, to: string) {
-  const response = await fetch(`${API_BASE}/navigation/plot/${playerId}/${from}/${to}`);
+export async function plotCourse(playerId: string, from: string, to: string, objective?: string) {
+  const query = objective ? `?objective=${encodeURIComponent(objective)}` : '';
+  const response = await fetch(`${API_BASE}/navigation/plot/${playerId}/${encodeURIComponent(from)}/${encodeURIComponent(to)}${query}`, { headers: authHeaders(playerId) });
   
   if (!response.ok) {
     const error: any = await response.json();
@@ -116,62 +178,184 @@ export async function plotCourse(playerId: string, from: string, to: string) {
   return await response.json();
 }
 
-export async function autopilot(playerId: string, path: any[]) {
-  // Execute autopilot at CLI level by making individual move/jump calls
-  if (path.length === 0) {
-    return { success: true, completed: true, message: 'Already at destination' };
+// Server-side autopilot jobs
+export async function startAutopilot(playerId: string, destination: string, objective?: string) {
+  const response = await fetch(`${API_BASE}/navigation/autopilot/${playerId}/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(playerId)
+    },
+    body: JSON.stringify({ destination, ...(objective && { objective }) })
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to start autopilot');
   }
 
-  const step = path[0];
-  const remainingSteps = path.slice(1);
+  return await response.json();
+}
 
-  try {
-    let result;
-    let actualAction = step.type; // Track what we actually did
+export async function getAutopilot(playerId: string) {
+  const response = await fetch(`${API_BASE}/navigation/autopilot/${playerId}`, { headers: authHeaders(playerId) });
 
-    if (step.type === 'move') {
-      try {
-        result = await movePlayer(playerId, step.direction);
-      } catch (error: any) {
-        // If move fails because it would exit system boundary, try jumping instead
-        if (error.message?.includes('would exit system boundary')) {
-          console.log(`Auto-converting move ${step.direction} to jump due to system boundary`);
-          result = await jumpPlayer(playerId, step.direction);
-          actualAction = 'jump'; // Update what we actually did
-        } else if (error.message?.includes('Cannot move into')) {
-          // If move fails due to collision with star/planet, this indicates the navigation
-          // system didn't account for obstacles. For now, fail gracefully with a helpful message.
-          throw new Error('Navigation failed: Path blocked by celestial object. The navigation system needs pathfinding improvements to route around obstacles.');
-        } else {
-          throw error;
-        }
-      }
-    } else if (step.type === 'jump') {
-      result = await jumpPlayer(playerId, step.direction);
-    } else {
-      throw new Error(`Unknown step type: ${step.type}`);
-    }
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to get autopilot status');
+  }
 
-    // Check if we've completed the path
-    const completed = remainingSteps.length === 0;
+  return await response.json();
+}
 
-    return {
-      success: true,
-      completed,
-      message: completed ? 'Destination reached!' : `${actualAction === 'move' ? 'Moved' : 'Jumped'} ${step.direction}`,
-      remainingSteps,
-      stepResult: result
-    };
-  } catch (error: any) {
-    throw new Error(`Autopilot step failed: ${error.message}`);
+export async function autopilotAction(playerId: string, action: 'pause' | 'resume' | 'cancel') {
+  const response = await fetch(`${API_BASE}/navigation/autopilot/${playerId}/${action}`, {
+    method: 'POST',
+    headers: authHeaders(playerId)
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || `Failed to ${action} autopilot`);
+  }
+
+  return await response.json();
+}
+
+// Trade routes planned from the prices the player has seen
+export async function getTradeRoutes(playerId: string, sort?: string, maxStops?: number): Promise<TradeRoutesResponse> {
+  const params = new URLSearchParams();
+  if (sort) params.set('sort', sort);
+  if (maxStops) params.set('maxStops', String(maxStops));
+  const query = params.toString() ? `?${params}` : '';
+  const response = await fetch(`${API_BASE}/navigation/trade-routes/${playerId}${query}`, { headers: authHeaders(playerId) });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to plan trade routes');
+  }
+
+  return await response.json() as TradeRoutesResponse;
+}
+
+export async function flyTradeRoute(playerId: string, rank: number, sort?: string, maxStops?: number): Promise<{ route: TradeRoute; job: AutopilotJob }> {
+  const response = await fetch(`${API_BASE}/navigation/trade-routes/${playerId}/autopilot`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(playerId)
+    },
+    body: JSON.stringify({ rank, ...(sort && { sort }), ...(maxStops && { maxStops }) })
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to start trade route');
+  }
+
+  return await response.json() as { route: TradeRoute; job: AutopilotJob };
+}
+
+// Bookmarks
+export async function getBookmarks(playerId: string): Promise<Bookmark[]> {
+  const response = await fetch(`${API_BASE}/player/${playerId}/bookmarks`, { headers: authHeaders(playerId) });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to list bookmarks');
+  }
+
+  return await response.json() as Bookmark[];
+}
+
+export async function createBookmark(playerId: string, name: string, kind?: BookmarkKind, target?: string): Promise<Bookmark> {
+  const response = await fetch(`${API_BASE}/player/${playerId}/bookmarks`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(playerId)
+    },
+    body: JSON.stringify({ name, ...(kind && { kind }), ...(target && { target }) })
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to create bookmark');
+  }
+
+  return await response.json() as Bookmark;
+}
+
+export async function deleteBookmark(playerId: string, name: string) {
+  const response = await fetch(`${API_BASE}/player/${playerId}/bookmarks/${encodeURIComponent(name)}`, {
+    method: 'DELETE',
+    headers: authHeaders(playerId)
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || 'Failed to delete bookmark');
+  }
+
+  return await response.json();
+}
+
+// Star charts
+async function chartRequest<T>(url: string, failure: string, playerId: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, body === undefined ? { headers: authHeaders(playerId) } : {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(playerId)
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json();
+    throw new Error(error.error || failure);
   }
+
+  return await response.json() as T;
+}
+
+export async function getCharts(playerId: string) {
+  return chartRequest<{ held: ChartSummary[]; offered: ChartSummary[] }>(`${API_BASE}/player/${playerId}/charts`, 'Failed to list charts', playerId);
+}
+
+export async function exportChart(playerId: string, filter: string, name?: string) {
+  return chartRequest<ChartItem>(`${API_BASE}/player/${playerId}/charts`, 'Failed to draw chart', playerId, { filter, ...(name && { name }) });
+}
+
+export async function importChart(playerId: string, chart: StarChart) {
+  return chartRequest<{ name: string; issuedBy: string; systems: number; updated: number }>(`${API_BASE}/player/${playerId}/charts/import`, 'Failed to import chart', playerId, chart);
+}
+
+export async function giveChart(playerId: string, chartId: string, to: string, price: number) {
+  return chartRequest<{ chart: ChartSummary; given: boolean; updated?: number }>(`${API_BASE}/player/${playerId}/charts/${chartId}/give`, 'Failed to give chart', playerId, { to, price });
+}
+
+export async function chartOfferAction(playerId: string, chartId: string, action: 'accept' | 'decline') {
+  return chartRequest<any>(`${API_BASE}/player/${playerId}/charts/${chartId}/${action}`, `Failed to ${action} chart`, playerId, {});
+}
+
+export async function getStationCharts(playerId: string) {
+  return chartRequest<{
+    station: { id: string; name: string; credits: number };
+    forSale: ChartSummary[];
+    offers: { chartId: string; name: string; price: number }[];
+  }>(`${API_BASE}/station/${playerId}/charts`, 'Failed to get station charts', playerId);
+}
+
+export async function tradeChartWithStation(playerId: string, chartId: string, action: 'buy' | 'sell') {
+  return chartRequest<{ success: boolean; message: string; price: number; credits: number }>(`${API_BASE}/station/${playerId}/charts/${chartId}/${action}`, `Failed to ${action} chart`, playerId, {});
 }
 
 // Database/Knowledge system functions
 
 export async function getKnownSystems(playerId: string) {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/database`);
+    const response = await fetch(`${API_BASE}/player/${playerId}/database`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -189,7 +373,7 @@ export async function getKnownSystems(playerId: string) {
 
 export async function getAllKnownSystems(playerId: string) {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/database/all`);
+    const response = await fetch(`${API_BASE}/player/${playerId}/database/all`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -207,7 +391,7 @@ export async function getAllKnownSystems(playerId: string) {
 
 export async function getSystemDetails(playerId: string, coordinates: string) {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/database/system/${coordinates}`);
+    const response = await fetch(`${API_BASE}/player/${playerId}/database/system/${coordinates}`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -223,11 +407,21 @@ export async function getSystemDetails(playerId: string, coordinates: string) {
   }
 }
 
-export async function launchProbe(playerId: string, direction: string): Promise<ProbeResult> {
+export async function launchProbe(playerId: string, target: string | ProbeFlightPlan | undefined, probeType?: string): Promise<ProbeResult> {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/probe/${direction}`, {
-      method: 'POST'
-    });
+    const response = typeof target === 'string'
+      ? await fetch(`${API_BASE}/player/${playerId}/probe/${target}${probeType ? `?type=${probeType}` : ''}`, {
+        method: 'POST',
+        headers: authHeaders(playerId)
+      })
+      : await fetch(`${API_BASE}/player/${playerId}/probes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(playerId)
+        },
+        body: JSON.stringify({ plan: target, probeType })
+      });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -243,9 +437,30 @@ export async function launchProbe(playerId: string, direction: string): Promise<
   }
 }
 
+export async function recallProbe(playerId: string, probeId: string): Promise<{ success: boolean; message: string; distance: number; reachable: boolean }> {
+  try {
+    const response = await fetch(`${API_BASE}/player/${playerId}/probes/${encodeURIComponent(probeId)}/recall`, {
+      method: 'POST',
+      headers: authHeaders(playerId)
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to recall probe (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; message: string; distance: number; reachable: boolean };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during probe recall');
+  }
+}
+
 export async function getActiveProbes(playerId: string): Promise<Probe[]> {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/probes`);
+    const response = await fetch(`${API_BASE}/player/${playerId}/probes`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -263,7 +478,7 @@ export async function getActiveProbes(playerId: string): Promise<Probe[]> {
 
 export async function findNearest(playerId: string, entityType: string): Promise<any> {
   try {
-    const response = await fetch(`${API_BASE}/player/${playerId}/nearest/${entityType}`);
+    const response = await fetch(`${API_BASE}/player/${playerId}/nearest/${entityType}`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -282,7 +497,7 @@ export async function findNearest(playerId: string, entityType: string): Promise
 // Station interaction functions
 export async function getNearbyStation(playerId: string): Promise<any> {
   try {
-    const response = await fetch(`${API_BASE}/station/${playerId}/nearby`);
+    const response = await fetch(`${API_BASE}/station/${playerId}/nearby`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -301,7 +516,8 @@ export async function getNearbyStation(playerId: string): Promise<any> {
 export async function dockAtStation(playerId: string): Promise<any> {
   try {
     const response = await fetch(`${API_BASE}/station/${playerId}/dock`, {
-      method: 'POST'
+      method: 'POST',
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -321,7 +537,8 @@ export async function dockAtStation(playerId: string): Promise<any> {
 export async function undockFromStation(playerId: string): Promise<any> {
   try {
     const response = await fetch(`${API_BASE}/station/${playerId}/undock`, {
-      method: 'POST'
+      method: 'POST',
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -340,7 +557,7 @@ export async function undockFromStation(playerId: string): Promise<any> {
 
 export async function getStationInfo(playerId: string, stationId: string): Promise<any> {
   try {
-    const response = await fetch(`${API_BASE}/station/${playerId}/info/${stationId}`);
+    const response = await fetch(`${API_BASE}/station/${playerId}/info/${stationId}`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -361,7 +578,8 @@ export async function buyFromStation(playerId: string, itemId: string, quantity:
     const response = await fetch(`${API_BASE}/station/${playerId}/buy`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
       },
       body: JSON.stringify({ itemId, quantity })
     });
@@ -385,7 +603,8 @@ export async function sellToStation(playerId: string, itemId: string, quantity:
     const response = await fetch(`${API_BASE}/station/${playerId}/sell`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
       },
       body: JSON.stringify({ itemId, quantity })
     });
@@ -405,10 +624,348 @@ export async function sellToStation(playerId: string, itemId: string, quantity:
 }
 
 // Admin function to reset player resources (for testing)
+export async function getPriceHistory(playerId: string, stationId: string, itemId: string, bucket: string, hours: number): Promise<PriceHistoryResponse> {
+  try {
+    const params = new URLSearchParams({ bucket, hours: String(hours) });
+    const response = await fetch(`${API_BASE}/station/${playerId}/history/${stationId}/${itemId}?${params}`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get price history (${response.status})`);
+    }
+
+    return await response.json() as PriceHistoryResponse;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during price history query');
+  }
+}
+
+export async function getTradeLedger(playerId: string, itemId?: string): Promise<TradeLedgerResponse> {
+  try {
+    const params = new URLSearchParams({ limit: '25' });
+    if (itemId) params.set('itemId', itemId);
+    const response = await fetch(`${API_BASE}/station/${playerId}/ledger?${params}`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get trade ledger (${response.status})`);
+    }
+
+    return await response.json() as TradeLedgerResponse;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during trade ledger query');
+  }
+}
+
+export async function placeOrder(playerId: string, side: 'buy' | 'sell', itemId: string, quantity: number, limitPrice: number): Promise<{ success: boolean; order: StationOrder }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
+      },
+      body: JSON.stringify({ side, itemId, quantity, limitPrice })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to place order (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; order: StationOrder };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during order placement');
+  }
+}
+
+export async function getOrders(playerId: string, status?: string): Promise<StationOrder[]> {
+  try {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const response = await fetch(`${API_BASE}/station/${playerId}/orders${query}`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get orders (${response.status})`);
+    }
+
+    const result = await response.json() as { orders: StationOrder[] };
+    return result.orders;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during orders query');
+  }
+}
+
+export async function cancelOrder(playerId: string, orderId: string): Promise<{ success: boolean; order: StationOrder }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/orders/${orderId}`, {
+      method: 'DELETE',
+      headers: authHeaders(playerId)
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to cancel order (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; order: StationOrder };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during order cancellation');
+  }
+}
+
+export async function getOrderBook(playerId: string, stationId: string, itemId: string): Promise<OrderBook> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/orderbook/${stationId}/${itemId}`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get order book (${response.status})`);
+    }
+
+    return await response.json() as OrderBook;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during order book query');
+  }
+}
+
+export async function getMissions(playerId: string): Promise<MissionBoardResponse> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/missions`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get missions (${response.status})`);
+    }
+
+    return await response.json() as MissionBoardResponse;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during mission board query');
+  }
+}
+
+export async function contractAction(playerId: string, contractId: string, action: 'accept' | 'deliver' | 'abandon'): Promise<{ success: boolean; contract: Contract; delivered?: number; message?: string }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/missions/${contractId}/${action}`, {
+      method: 'POST',
+      headers: authHeaders(playerId)
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to ${action} contract (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; contract: Contract; delivered?: number; message?: string };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || `Network error during contract ${action}`);
+  }
+}
+
+export async function getShipyard(playerId: string): Promise<ShipyardResponse> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/shipyard`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get shipyard (${response.status})`);
+    }
+
+    return await response.json() as ShipyardResponse;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during shipyard query');
+  }
+}
+
+export async function buyHull(playerId: string, hullId: string): Promise<{ success: boolean; ship: ShipStats; tradeInValue: number; netPrice: number; credits: number }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/shipyard/hull`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
+      },
+      body: JSON.stringify({ hullId })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to buy hull (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; ship: ShipStats; tradeInValue: number; netPrice: number; credits: number };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during hull purchase');
+  }
+}
+
+export async function installModule(playerId: string, moduleId: string): Promise<{ success: boolean; ship: ShipStats; cost: number; credits: number }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/shipyard/modules`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
+      },
+      body: JSON.stringify({ moduleId })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to install module (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; ship: ShipStats; cost: number; credits: number };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during module install');
+  }
+}
+
+export async function removeModule(playerId: string, moduleId: string): Promise<{ success: boolean; ship: ShipStats; refund: number; credits: number }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/shipyard/modules/${moduleId}`, {
+      method: 'DELETE',
+      headers: authHeaders(playerId)
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to remove module (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; ship: ShipStats; refund: number; credits: number };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during module removal');
+  }
+}
+
+export async function getRecipes(playerId: string): Promise<StationRecipesResponse> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/recipes`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get recipes (${response.status})`);
+    }
+
+    return await response.json() as StationRecipesResponse;
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during recipe query');
+  }
+}
+
+export async function getProductionJobs(playerId: string): Promise<ProductionJob[]> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/production`, { headers: authHeaders(playerId) });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to get production jobs (${response.status})`);
+    }
+
+    return await response.json() as ProductionJob[];
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during production query');
+  }
+}
+
+export async function queueProduction(playerId: string, recipeId: string, batches: number): Promise<{ success: boolean; job: ProductionJob }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/production`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
+      },
+      body: JSON.stringify({ recipeId, batches })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to queue production (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; job: ProductionJob };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during production queueing');
+  }
+}
+
+export async function collectProduction(playerId: string, jobId?: string): Promise<{ success: boolean; collected: ProductionJob[] }> {
+  try {
+    const response = await fetch(`${API_BASE}/station/${playerId}/production/collect`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(playerId)
+      },
+      body: JSON.stringify({ jobId })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to collect production (${response.status})`);
+    }
+
+    return await response.json() as { success: boolean; collected: ProductionJob[] };
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED') {
+      throw new Error('Cannot connect to API server. Make sure the API is running.');
+    }
+    throw new Error(error.message || 'Network error during production collection');
+  }
+}
+
 export async function resetPlayer(playerId: string): Promise<any> {
   try {
     const response = await fetch(`${API_BASE}/player/${playerId}/admin/reset`, {
-      method: 'POST'
+      method: 'POST',
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -425,12 +982,48 @@ export async function resetPlayer(playerId: string): Promise<any> {
   }
 }
 
+// Stream pushed game events for a player (and optional systems) until the connection closes
+export async function streamEvents(playerId: string, systems: string[], onEvent: (event: GameEvent) => void): Promise<void> {
+  const params = new URLSearchParams({ playerId });
+  if (systems.length > 0) {
+    params.set('systems', systems.join(';'));
+  }
+
+  const response = await fetch(`${API_BASE}/events/stream?${params}`, { headers: authHeaders(playerId) });
+
+  if (!response.ok || !response.body) {
+    const error: any = await response.json();
+    throw new Error(error.error || `Failed to open event stream (${response.status})`);
+  }
+
+  // Parse server-sent event blocks separated by blank lines
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += chunk.toString();
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const lines = block.split('\n');
+      const eventName = lines.find(line => line.startsWith('event: '))?.slice('event: '.length);
+      const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice('data: '.length)).join('\n');
+
+      if (eventName && eventName !== 'ready' && data) {
+        onEvent(JSON.parse(data) as GameEvent);
+      }
+    }
+  }
+}
+
 // Mining functions
 export async function autoMine(playerId: string): Promise<MiningResult> {
   try {
     const response = await fetch(`${API_BASE}/mining/mine/${playerId}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
+      headers: { 'Content-Type': 'application/json', ...authHeaders(playerId) }
     });
 
     if (!response.ok) {
@@ -449,10 +1042,9 @@ export async function autoMine(playerId: string): Promise<MiningResult> {
 
 export async function startMining(playerId: string, asteroidId: string): Promise<MiningResult> {
   try {
-    const response = await fetch(`${API_BASE}/mining/mine/${asteroidId}`, {
+    const response = await fetch(`${API_BASE}/mining/mine/${playerId}/${encodeURIComponent(asteroidId)}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ playerId })
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -471,7 +1063,7 @@ export async function startMining(playerId: string, asteroidId: string): Promise
 
 export async function getMiningStatus(playerId: string): Promise<any> {
   try {
-    const response = await fetch(`${API_BASE}/mining/status/${playerId}`);
+    const response = await fetch(`${API_BASE}/mining/status/${playerId}`, { headers: authHeaders(playerId) });
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -490,7 +1082,8 @@ export async function getMiningStatus(playerId: string): Promise<any> {
 export async function cancelMining(playerId: string): Promise<any> {
   try {
     const response = await fetch(`${API_BASE}/mining/cancel/${playerId}`, {
-      method: 'POST'
+      method: 'POST',
+      headers: authHeaders(playerId)
     });
 
     if (!response.ok) {
@@ -2,12 +2,10 @@ import {
   NPC,
   NPCGoal,
   NPCAction,
-  createMinerNPC,
   updateNPCGoal,
   updateNPCAction,
   updateNPCLifecycle,
   shouldNPCTerminate,
-  Coordinates3D,
   getItemById
 } from '@stellarburn/shared';
 import { apiClient, wait, calculateDistance, getDirectionTo } from '../services/apiClient.js';
@@ -27,11 +25,11 @@ export const determineNextGoal = (npc: NPC): NPCGoal => {
       // Find best station to sell to (highest price)
       const bestStation = npc.memory.knownStations.reduce((best, station) => {
         const totalValue = npc.ship.cargo.reduce((sum, item) => {
-          const buyPrice = station.buyingPrices.get(item.itemId) || 0;
+          const buyPrice = station.buyingPrices[item.itemId] || 0;
           return sum + (buyPrice * item.quantity);
         }, 0);
         const bestValue = npc.ship.cargo.reduce((sum, item) => {
-          const buyPrice = best.buyingPrices.get(item.itemId) || 0;
+          const buyPrice = best.buyingPrices[item.itemId] || 0;
           return sum + (buyPrice * item.quantity);
         }, 0);
         return totalValue > bestValue ? station : best;
@@ -443,8 +441,8 @@ const tradeAtStationGoal = async (npc: NPC): Promise<NPC> => {
       const stationMemory = updatedMemory.knownStations.find(s => s.id === stationId);
       if (stationMemory && (stationInfo as any).inventory) {
         for (const item of (stationInfo as any).inventory) {
-          stationMemory.buyingPrices.set(item.itemId, item.buyPrice);
-          stationMemory.sellingPrices.set(item.itemId, item.sellPrice);
+          stationMemory.buyingPrices[item.itemId] = item.buyPrice;
+          stationMemory.sellingPrices[item.itemId] = item.sellPrice;
         }
       }
 
@@ -461,7 +459,15 @@ const tradeAtStationGoal = async (npc: NPC): Promise<NPC> => {
             console.log(`NPC ${npc.name} sold ${cargoItem.quantity} ${cargoItem.itemId} for ${(sellResult as any).creditsEarned} credits`);
           }
         } catch (sellError) {
-          console.log(`NPC ${npc.name} couldn't sell ${cargoItem.itemId}`);
+          // Station won't take it right now: list it for other players at base price instead
+          const item = getItemById(cargoItem.itemId);
+          try {
+            if (!item) throw sellError;
+            await apiClient.placeOrder(npc.id, 'sell', cargoItem.itemId, cargoItem.quantity, item.basePrice, 12);
+            console.log(`NPC ${npc.name} posted a sell order for ${cargoItem.quantity} ${cargoItem.itemId} at ${item.basePrice}`);
+          } catch (orderError) {
+            console.log(`NPC ${npc.name} couldn't sell ${cargoItem.itemId}`);
+          }
         }
       }
 
@@ -547,49 +553,52 @@ const tradeAtStationGoal = async (npc: NPC): Promise<NPC> => {
 
 // Main NPC lifecycle runner
 export const runMinerNPC = async (config: {
-  name: string;
-  playerId: string;
-  spawnLocation?: Coordinates3D;
-  maxOperations?: number;
+  npc: NPC;
   tickInterval?: number;
+  resumed?: boolean; // Picking up a stored NPC after a service restart
+  saveState?: (npc: NPC) => Promise<void>;
+  shouldStop?: () => boolean;
 }): Promise<void> => {
   const tickInterval = config.tickInterval || 5000; // 5 second ticks by default
-  const npcId = config.playerId; // Use the passed player ID
+  let npc = config.npc;
 
-  console.log(`Running Miner NPC: ${config.name} (${npcId})`);
+  console.log(`Running Miner NPC: ${npc.name} (${npc.id})`);
 
-  // Initialize NPC state using the provided player ID
-  let npc = createMinerNPC(
-    npcId,
-    config.name,
-    {
-      spawnLocation: config.spawnLocation,
-      maxOperations: config.maxOperations || 100
+  // Persist the NPC's state; a failed save shouldn't stop it flying
+  const save = async () => {
+    try {
+      await config.saveState?.(npc);
+    } catch (saveError) {
+      console.error(`NPC ${npc.name} state save error:`, saveError);
     }
-  );
-
-  console.log(`NPC ${config.name} spawned at ${JSON.stringify(npc.coordinates)}`);
+  };
 
-  // Initial setup for NPC
-  try {
-    console.log(`NPC ${config.name} performing initial system scan...`);
-    await apiClient.systemScan(npc.id);
+  if (config.resumed) {
+    console.log(`NPC ${npc.name} resuming goal ${npc.behaviorState.currentGoal.type} at ${JSON.stringify(npc.coordinates)}`);
+  } else {
+    console.log(`NPC ${npc.name} spawned at ${JSON.stringify(npc.coordinates)}`);
 
-    console.log(`NPC ${config.name} undocking from starting station...`);
+    // Initial setup for NPC
     try {
-      await apiClient.undockFromStation(npc.id);
-      console.log(`NPC ${config.name} successfully undocked`);
-    } catch (undockError) {
-      console.log(`NPC ${config.name} was not docked (normal for some spawn conditions)`);
-    }
+      console.log(`NPC ${npc.name} performing initial system scan...`);
+      await apiClient.systemScan(npc.id);
 
-    console.log(`NPC ${config.name} initialization complete`);
-  } catch (initError) {
-    console.error(`NPC ${config.name} initialization error:`, initError);
+      console.log(`NPC ${npc.name} undocking from starting station...`);
+      try {
+        await apiClient.undockFromStation(npc.id);
+        console.log(`NPC ${npc.name} successfully undocked`);
+      } catch (undockError) {
+        console.log(`NPC ${npc.name} was not docked (normal for some spawn conditions)`);
+      }
+
+      console.log(`NPC ${npc.name} initialization complete`);
+    } catch (initError) {
+      console.error(`NPC ${npc.name} initialization error:`, initError);
+    }
   }
 
   // Main NPC loop
-  while (!shouldNPCTerminate(npc)) {
+  while (!shouldNPCTerminate(npc) && !config.shouldStop?.()) {
     try {
       // Execute current goal
       npc = await executeGoal(npc);
@@ -601,6 +610,8 @@ export const runMinerNPC = async (config: {
         console.log(`NPC ${npc.name} new goal: ${nextGoal.type}`);
       }
 
+      await save();
+
       // Wait before next tick
       await wait(tickInterval);
 
@@ -610,6 +621,8 @@ export const runMinerNPC = async (config: {
     }
   }
 
+  await save();
+
   console.log(`NPC ${npc.name} lifecycle complete:`);
   console.log(`- Operations: ${npc.lifecycle.completedOperations}`);
   console.log(`- Credits earned: ${npc.lifecycle.totalCreditsEarned}`);
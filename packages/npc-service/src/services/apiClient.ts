@@ -1,6 +1,7 @@
-import fetch from 'node-fetch';
+import fetch, { RequestInit, Response } from 'node-fetch';
 import {
   CreatePlayerResponse,
+  LoginResponse,
   PlayerStatusResponse,
   MovementResult,
   ProbeResult,
@@ -10,14 +11,49 @@ import {
 
 const API_BASE = process.env.API_BASE || 'http://api:3000/api';
 
+// NPC credentials, keyed by player ID
+const sessions = new Map<string, { token: string; apiKey: string }>();
+
+// Exchange an NPC's API key for a fresh session token
+const refreshSession = async (playerId: string): Promise<string | null> => {
+  const session = sessions.get(playerId);
+  if (!session) return null;
+
+  const response = await fetch(`${API_BASE}/player/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ apiKey: session.apiKey })
+  });
+
+  if (!response.ok) return null;
+
+  const result = await response.json() as LoginResponse;
+  sessions.set(playerId, { ...session, token: result.session.token });
+  return result.session.token;
+};
+
+// Fetch with the player's token, re-authenticating once if it has expired
+const authorizedFetch = async (playerId: string, url: string, init: RequestInit = {}): Promise<Response> => {
+  const withToken = (token?: string): RequestInit => ({
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+  });
+
+  const response = await fetch(url, withToken(sessions.get(playerId)?.token));
+  if (response.status !== 401) return response;
+
+  const token = await refreshSession(playerId);
+  return token ? fetch(url, withToken(token)) : response;
+};
+
 // Reusable API client functions (pure FP style)
 export const apiClient = {
-  // Player operations
+  // Player operations; players created here are flagged as NPCs
   createPlayer: async (name: string): Promise<CreatePlayerResponse> => {
     const response = await fetch(`${API_BASE}/player/create`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name })
+      body: JSON.stringify({ name, isNPC: true })
     });
 
     if (!response.ok) {
@@ -25,11 +61,18 @@ export const apiClient = {
       throw new Error(error.error || 'Failed to create player');
     }
 
-    return await response.json() as CreatePlayerResponse;
+    const result = await response.json() as CreatePlayerResponse;
+    sessions.set(result.player.id, { token: result.session.token, apiKey: result.apiKey });
+    return result;
+  },
+
+  // Take back an NPC created before a restart; the first request logs it in with the key
+  restoreSession: (playerId: string, apiKey: string): void => {
+    sessions.set(playerId, { token: '', apiKey });
   },
 
   getPlayerStatus: async (playerId: string): Promise<PlayerStatusResponse> => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/status`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/status`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -41,7 +84,7 @@ export const apiClient = {
 
   // Movement operations
   movePlayer: async (playerId: string, direction: string): Promise<MovementResult> => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/move/${direction}`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/move/${direction}`, {
       method: 'POST'
     });
 
@@ -54,7 +97,7 @@ export const apiClient = {
   },
 
   jumpPlayer: async (playerId: string, direction: string) => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/jump/${direction}`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/jump/${direction}`, {
       method: 'POST'
     });
 
@@ -68,7 +111,7 @@ export const apiClient = {
 
   // Scanning operations
   scanArea: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/scan`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/scan`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -79,7 +122,7 @@ export const apiClient = {
   },
 
   systemScan: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/system-scan`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/system-scan`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -91,7 +134,7 @@ export const apiClient = {
 
   // Navigation operations
   plotCourse: async (playerId: string, from: string, to: string) => {
-    const response = await fetch(`${API_BASE}/navigation/plot/${playerId}/${from}/${to}`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/navigation/plot/${playerId}/${from}/${to}`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -103,7 +146,7 @@ export const apiClient = {
 
   // Mining operations
   autoMine: async (playerId: string): Promise<MiningResult> => {
-    const response = await fetch(`${API_BASE}/mining/mine/${playerId}`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/mining/mine/${playerId}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' }
     });
@@ -116,7 +159,7 @@ export const apiClient = {
   },
 
   getMiningStatus: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/mining/status/${playerId}`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/mining/status/${playerId}`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -128,7 +171,7 @@ export const apiClient = {
 
   // Station operations
   getNearbyStation: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/nearby`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/nearby`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -139,7 +182,7 @@ export const apiClient = {
   },
 
   dockAtStation: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/dock`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/dock`, {
       method: 'POST'
     });
 
@@ -152,7 +195,7 @@ export const apiClient = {
   },
 
   undockFromStation: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/undock`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/undock`, {
       method: 'POST'
     });
 
@@ -165,7 +208,7 @@ export const apiClient = {
   },
 
   getStationInfo: async (playerId: string, stationId: string) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/info/${stationId}`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/info/${stationId}`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -176,7 +219,7 @@ export const apiClient = {
   },
 
   sellToStation: async (playerId: string, itemId: string, quantity: number) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/sell`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/sell`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -193,7 +236,7 @@ export const apiClient = {
   },
 
   buyFromStation: async (playerId: string, itemId: string, quantity: number) => {
-    const response = await fetch(`${API_BASE}/station/${playerId}/buy`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/buy`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -209,9 +252,26 @@ export const apiClient = {
     return await response.json();
   },
 
+  placeOrder: async (playerId: string, side: 'buy' | 'sell', itemId: string, quantity: number, limitPrice: number, expiresInHours?: number) => {
+    const response = await authorizedFetch(playerId, `${API_BASE}/station/${playerId}/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ side, itemId, quantity, limitPrice, expiresInHours })
+    });
+
+    if (!response.ok) {
+      const error: any = await response.json();
+      throw new Error(error.error || `Failed to place order (${response.status})`);
+    }
+
+    return await response.json();
+  },
+
   // Database/Knowledge operations
   getKnownSystems: async (playerId: string) => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/database`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/database`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -223,7 +283,7 @@ export const apiClient = {
 
   // Probe operations
   launchProbe: async (playerId: string, direction: string): Promise<ProbeResult> => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/probe/${direction}`, {
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/probe/${direction}`, {
       method: 'POST'
     });
 
@@ -236,7 +296,7 @@ export const apiClient = {
   },
 
   findNearest: async (playerId: string, entityType: string) => {
-    const response = await fetch(`${API_BASE}/player/${playerId}/nearest/${entityType}`);
+    const response = await authorizedFetch(playerId, `${API_BASE}/player/${playerId}/nearest/${entityType}`);
 
     if (!response.ok) {
       const error: any = await response.json();
@@ -1,5 +1,8 @@
-import { NPC, Coordinates3D } from '@stellarburn/shared';
+import { NPC, NPCStatus, Coordinates3D, createMinerNPC } from '@stellarburn/shared';
 import { runMinerNPC } from '../npcs/minerNPC.js';
+import { apiClient } from './apiClient.js';
+import { getMongo } from './databaseService.js';
+import { getRunningNPCs, registerNPC, removeFinishedNPCs, saveNPCState, setNPCStatus } from './npcRegistry.js';
 
 // Active NPC tracking
 interface ActiveNPC {
@@ -7,13 +10,51 @@ interface ActiveNPC {
   name: string;
   type: 'miner' | 'trader' | 'pirate' | 'explorer';
   startTime: Date;
-  status: 'running' | 'completed' | 'error';
+  status: NPCStatus;
   promise: Promise<void>;
 }
 
-// In-memory store for active NPCs (could be replaced with Redis)
+// NPCs this process is flying; their state lives in the Mongo registry so a restart can resume them
 const activeNPCs = new Map<string, ActiveNPC>();
 
+// NPCs asked to stop; each one's loop ends after its current tick
+const stopRequested = new Set<string>();
+
+// Fly an NPC, keeping its registry record up to date until it finishes
+const startMinerNPC = (npc: NPC, tickInterval: number, resumed: boolean, startTime: Date): void => {
+  const db = getMongo('stellarburn');
+
+  const npcPromise = runMinerNPC({
+    npc,
+    tickInterval,
+    resumed,
+    saveState: state => saveNPCState(db, state),
+    shouldStop: () => stopRequested.has(npc.id)
+  });
+
+  const finish = async (status: NPCStatus) => {
+    stopRequested.delete(npc.id);
+    const active = activeNPCs.get(npc.id);
+    if (active) active.status = status;
+    await setNPCStatus(db, npc.id, status).catch(error => console.error(`NPC ${npc.name} status save error:`, error));
+  };
+
+  activeNPCs.set(npc.id, {
+    id: npc.id,
+    name: npc.name,
+    type: npc.npcType,
+    startTime,
+    status: 'running',
+    // Update status when complete
+    promise: npcPromise
+      .then(() => finish('completed'))
+      .catch((error) => {
+        console.error(`NPC ${npc.name} error:`, error);
+        return finish('error');
+      })
+  });
+};
+
 // NPC spawning functions
 export const spawnMinerNPC = async (config: {
   name?: string;
@@ -22,43 +63,35 @@ export const spawnMinerNPC = async (config: {
   tickInterval?: number;
 }): Promise<{ id: string; name: string }> => {
   const npcName = config.name || `Miner-${Date.now()}`;
+  const tickInterval = config.tickInterval || 5000;
 
   // Create the player first to get the real ID
-  const playerResponse = await import('../services/apiClient.js').then(m => m.apiClient.createPlayer(npcName));
+  const playerResponse = await apiClient.createPlayer(npcName);
   const realNpcId = playerResponse.player.id;
 
-  const npcPromise = runMinerNPC({
-    name: npcName,
-    playerId: realNpcId, // Pass the real player ID
+  const npc = createMinerNPC(realNpcId, npcName, {
     spawnLocation: config.spawnLocation,
-    maxOperations: config.maxOperations,
-    tickInterval: config.tickInterval
+    maxOperations: config.maxOperations || 100
   });
 
-  const activeNPC: ActiveNPC = {
-    id: realNpcId, // Use the real API player ID
-    name: npcName,
-    type: 'miner',
-    startTime: new Date(),
-    status: 'running',
-    promise: npcPromise
-  };
+  await registerNPC(getMongo('stellarburn'), npc, playerResponse.apiKey, tickInterval);
+  startMinerNPC(npc, tickInterval, false, new Date());
 
-  // Update status when complete
-  npcPromise
-    .then(() => {
-      const npc = activeNPCs.get(realNpcId);
-      if (npc) npc.status = 'completed';
-    })
-    .catch((error) => {
-      console.error(`NPC ${npcName} error:`, error);
-      const npc = activeNPCs.get(realNpcId);
-      if (npc) npc.status = 'error';
-    });
+  return { id: realNpcId, name: npcName };
+};
 
-  activeNPCs.set(realNpcId, activeNPC);
+// Pick up every NPC that was still running when the service last stopped
+export const resumeNPCs = async (): Promise<number> => {
+  const records = await getRunningNPCs(getMongo('stellarburn'));
 
-  return { id: realNpcId, name: npcName };
+  for (const { status, apiKey, tickInterval, updatedAt, ...npc } of records) {
+    if (activeNPCs.has(npc.id)) continue;
+
+    apiClient.restoreSession(npc.id, apiKey);
+    startMinerNPC(npc, tickInterval, true, npc.lifecycle.spawnTime);
+  }
+
+  return records.length;
 };
 
 // Spawn multiple NPCs
@@ -127,22 +160,20 @@ export const getNPCStats = () => {
   return stats;
 };
 
-// Clean up completed NPCs
-export const cleanupCompletedNPCs = (): number => {
-  let cleaned = 0;
+// Clean up completed NPCs, here and in the registry
+export const cleanupCompletedNPCs = async (): Promise<number> => {
   for (const [id, npc] of activeNPCs.entries()) {
     if (npc.status === 'completed' || npc.status === 'error') {
       activeNPCs.delete(id);
-      cleaned++;
     }
   }
-  return cleaned;
+  return removeFinishedNPCs(getMongo('stellarburn'));
 };
 
-// Stop all NPCs (graceful shutdown)
+// Stop all NPCs for good; they finish their current tick and won't be resumed
 export const stopAllNPCs = async (): Promise<void> => {
   console.log('Stopping all NPCs...');
-  // In a real implementation, we'd signal NPCs to stop gracefully
-  // For now, we just clear the tracking
-  activeNPCs.clear();
+  const running = Array.from(activeNPCs.values()).filter(npc => npc.status === 'running');
+  running.forEach(npc => stopRequested.add(npc.id));
+  await Promise.allSettled(running.map(npc => npc.promise));
 };
\ No newline at end of file
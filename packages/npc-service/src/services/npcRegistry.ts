@@ -0,0 +1,37 @@
+import { NPC, NPCRecord, NPCStatus } from '@stellarburn/shared';
+
+// Same collection world snapshots export as their `npcs` section; it holds each NPC's plaintext
+// API key, which snapshots leave out
+const NPCS_COLLECTION = 'npcs';
+
+const npcs = (db: any) => db.collection(NPCS_COLLECTION);
+
+export const ensureNPCIndexes = async (db: any): Promise<void> => {
+  await npcs(db).createIndex({ id: 1 }, { unique: true });
+  await npcs(db).createIndex({ status: 1 });
+};
+
+// Record a newly spawned NPC along with the API key it logs in with
+export const registerNPC = async (db: any, npc: NPC, apiKey: string, tickInterval: number): Promise<void> => {
+  const record: NPCRecord = { ...npc, status: 'running', apiKey, tickInterval, updatedAt: new Date() };
+  await npcs(db).insertOne(record);
+};
+
+// Overwrite the stored behavior, lifecycle, memory and ship with the NPC's latest state
+export const saveNPCState = async (db: any, { id, ...state }: NPC): Promise<void> => {
+  await npcs(db).updateOne({ id }, { $set: { ...state, updatedAt: new Date() } });
+};
+
+export const setNPCStatus = async (db: any, id: string, status: NPCStatus): Promise<void> => {
+  await npcs(db).updateOne({ id }, { $set: { status, updatedAt: new Date() } });
+};
+
+// NPCs that were still flying when the service last stopped; one imported from a snapshot has no key to log in with
+export const getRunningNPCs = (db: any): Promise<NPCRecord[]> =>
+  npcs(db).find({ status: 'running', apiKey: { $exists: true } }, { projection: { _id: 0 } }).toArray();
+
+// Forget NPCs that finished or failed; their player records stay in the API database
+export const removeFinishedNPCs = async (db: any): Promise<number> => {
+  const result = await npcs(db).deleteMany({ status: { $in: ['completed', 'error'] } });
+  return result.deletedCount;
+};
@@ -0,0 +1,150 @@
+import { CelestialBody, Coordinates3D } from './types.js';
+import { RandomSource, deriveRandom } from './random.js';
+import { coordinateToString } from './utils.js';
+import { calculate3DDistance, generateSafeCoordinate } from './math.js';
+
+// Nebulae shroud a whole system: scans only reach nearby objects and probes burn extra fuel crossing them
+export const NEBULA = {
+  chance: 0.06,
+  scanRange: 0.15, // Scans inside a nebula only see this far
+  probeFuelDrain: 2 // Extra fuel a probe loses passing through
+};
+
+// Black holes pull ships that stray close and make jumps nearby more expensive
+export const BLACK_HOLE = {
+  chance: 0.02,
+  eventHorizon: 0.08, // Nothing flies inside this
+  pullRange: 0.25, // Ships that end a move within this are dragged one step closer
+  influenceSystems: 1, // Jumps from this many systems away cost more
+  jumpFuelMultiplier: 2
+};
+
+// Wormholes come in pairs: space is split into regions and each region's anchor system may link to a region two steps east or west
+export const WORMHOLE = {
+  regionSize: 16,
+  pairChance: 0.5,
+  fuelMultiplier: 3, // Traversal costs this many jumps' worth of fuel
+  plannedJumpCost: 3 // How many jumps a traversal counts as when plotting a course
+};
+
+export const isSameCoordinate = (a: Coordinates3D, b: Coordinates3D): boolean =>
+  a.x === b.x && a.y === b.y && a.z === b.z;
+
+const getWormholeRegion = (system: Coordinates3D): Coordinates3D => ({
+  x: Math.floor(system.x / WORMHOLE.regionSize),
+  y: Math.floor(system.y / WORMHOLE.regionSize),
+  z: Math.floor(system.z / WORMHOLE.regionSize)
+});
+
+// Symmetric: each region's partner has it as its partner
+const getPartnerRegion = (region: Coordinates3D): Coordinates3D => ({ x: region.x ^ 2, y: region.y, z: region.z });
+
+const getWormholeAnchor = (seed: string, region: Coordinates3D): Coordinates3D => {
+  const random = deriveRandom(seed, 'wormhole-anchor', coordinateToString(region));
+  return {
+    x: region.x * WORMHOLE.regionSize + Math.floor(random() * WORMHOLE.regionSize),
+    y: region.y * WORMHOLE.regionSize + Math.floor(random() * WORMHOLE.regionSize),
+    z: region.z * WORMHOLE.regionSize + Math.floor(random() * WORMHOLE.regionSize)
+  };
+};
+
+// The system a wormhole here leads to, or null when this system has none
+export const getWormholeExit = (seed: string, system: Coordinates3D): Coordinates3D | null => {
+  const region = getWormholeRegion(system);
+  if (!isSameCoordinate(getWormholeAnchor(seed, region), system)) return null;
+
+  const partnerRegion = getPartnerRegion(region);
+  const pairKey = coordinateToString(region.x < partnerRegion.x ? region : partnerRegion);
+  if (deriveRandom(seed, 'wormhole-pair', pairKey)() >= WORMHOLE.pairChance) return null;
+
+  // Haven stays a quiet harbour
+  const exit = getWormholeAnchor(seed, partnerRegion);
+  const origin = { x: 0, y: 0, z: 0 };
+  if (isSameCoordinate(system, origin) || isSameCoordinate(exit, origin)) return null;
+
+  return exit;
+};
+
+// A free grid point in the system that keeps clear of the star
+const findFreeCoordinate = (system: Coordinates3D, objects: CelestialBody[], random: RandomSource): Coordinates3D | null => {
+  const star = objects.find(obj => obj.type === 'star');
+  const occupied = new Set(objects.map(obj => coordinateToString(obj.coordinates)));
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const candidate = generateSafeCoordinate(system, star?.coordinates ?? { x: system.x + 0.2, y: system.y + 0.2, z: system.z + 0.2 }, star?.size ?? 1, random);
+    if (candidate && !occupied.has(coordinateToString(candidate))) return candidate;
+  }
+  return null;
+};
+
+// Nebulae, black holes and wormholes for a system, from their own stream so the rest of the system is unchanged
+export const generateAnomalies = (seed: string, system: Coordinates3D, objects: CelestialBody[]): CelestialBody[] => {
+  const coordString = coordinateToString(system);
+  const systemId = `system_${coordString}`;
+  const random = deriveRandom(seed, 'anomaly', coordString);
+  const anomalies: CelestialBody[] = [];
+
+  if (random() < NEBULA.chance) {
+    anomalies.push({
+      id: `${systemId}_nebula`,
+      type: 'nebula',
+      coordinates: { x: system.x + 0.2, y: system.y + 0.2, z: system.z + 0.2 },
+      size: 125, // Fills the whole 5x5x5 system
+      name: `Nebula ${systemId.slice(-6)}`,
+      resources: []
+    });
+  }
+
+  if (random() < BLACK_HOLE.chance) {
+    const coordinates = findFreeCoordinate(system, [...objects, ...anomalies], random);
+    if (coordinates) {
+      anomalies.push({
+        id: `${systemId}_black_hole`,
+        type: 'black_hole',
+        coordinates,
+        size: 1,
+        name: `Black Hole ${systemId.slice(-6)}`,
+        resources: []
+      });
+    }
+  }
+
+  const exit = getWormholeExit(seed, system);
+  if (exit) {
+    // Always placed, even in a crowded system, so the pair is never broken
+    const coordinates = findFreeCoordinate(system, [...objects, ...anomalies], random)
+      ?? { x: system.x + 0.4, y: system.y + 0.4, z: system.z + 0.4 };
+    anomalies.push({
+      id: `${systemId}_wormhole`,
+      type: 'wormhole',
+      coordinates,
+      size: 1,
+      name: `Wormhole to ${coordinateToString(exit)}`,
+      resources: [],
+      wormholeExit: exit
+    });
+  }
+
+  return anomalies;
+};
+
+// Where a black hole drags a ship that ends a move near it: one step toward it, never over the event horizon
+export const getBlackHolePull = (position: Coordinates3D, blackHole: CelestialBody): Coordinates3D | null => {
+  const distance = calculate3DDistance(position, blackHole.coordinates);
+  if (distance > BLACK_HOLE.pullRange || distance < 0.001) return null;
+
+  const axes = ['x', 'y', 'z'] as const;
+  const axis = axes.reduce((best, current) =>
+    Math.abs(blackHole.coordinates[current] - position[current]) > Math.abs(blackHole.coordinates[best] - position[best]) ? current : best);
+  const pulled = {
+    ...position,
+    [axis]: Math.round((position[axis] + Math.sign(blackHole.coordinates[axis] - position[axis]) * 0.1) * 10) / 10
+  };
+
+  return calculate3DDistance(pulled, blackHole.coordinates) < BLACK_HOLE.eventHorizon ? null : pulled;
+};
+
+// Whether a jump from this system is slowed by a black hole in any of the given systems
+export const isNearBlackHole = (system: Coordinates3D, blackHoleSystems: Coordinates3D[]): boolean =>
+  blackHoleSystems.some(other =>
+    Math.max(Math.abs(other.x - system.x), Math.abs(other.y - system.y), Math.abs(other.z - system.z)) <= BLACK_HOLE.influenceSystems);
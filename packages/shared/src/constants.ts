@@ -12,13 +12,6 @@ export const DIRECTIONS: { [key: string]: Coordinates3D } = {
 
 export const VALID_DIRECTIONS = Object.keys(DIRECTIONS);
 
-// Game constants
-export const FUEL_COSTS = {
-  MOVE: 1,
-  JUMP: 10,
-  PROBE_LAUNCH: 0
-} as const;
-
 export const SYSTEM_BOUNDS = {
   MIN: 0.0,
   MAX: 0.4,
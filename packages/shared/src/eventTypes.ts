@@ -0,0 +1,175 @@
+import { AutopilotStatus, Coordinates3D } from './types.js';
+
+// Fields common to every pushed game event
+export interface GameEventBase {
+  id: string;
+  timestamp: string;
+  playerId?: string; // Player the event belongs to (routes to player subscriptions)
+  system?: string; // System coordinate string "x,y,z" (routes to system subscriptions)
+  ownerOnly?: boolean; // Only routed to playerId's subscriptions, never to the system's
+}
+
+// Player movement between systems
+export interface PlayerArrivedEvent extends GameEventBase {
+  type: 'player.arrived';
+  playerId: string;
+  playerName: string;
+  system: string;
+  coordinates: Coordinates3D;
+  fromSystem?: string;
+}
+
+export interface PlayerDepartedEvent extends GameEventBase {
+  type: 'player.departed';
+  playerId: string;
+  playerName: string;
+  system: string;
+  toSystem?: string;
+}
+
+// Probe lifecycle
+export interface ProbeMovedEvent extends GameEventBase {
+  type: 'probe.moved';
+  playerId: string;
+  probeId: string;
+  system: string;
+  coordinates: Coordinates3D;
+  fuel: number;
+}
+
+export interface ProbeDestroyedEvent extends GameEventBase {
+  type: 'probe.destroyed';
+  playerId: string;
+  probeId: string;
+  system: string;
+  reason: 'fuel-exhausted' | 'plan-complete';
+}
+
+// A recalled probe reached its ship and went back in the bay, or was broken down for fuel when the bay was full
+export interface ProbeRecalledEvent extends GameEventBase {
+  type: 'probe.recalled';
+  playerId: string;
+  probeId: string;
+  system: string;
+  stowed: boolean;
+  fuelReturned: number;
+}
+
+// Mining
+export interface MiningCompletedEvent extends GameEventBase {
+  type: 'mining.completed';
+  playerId: string;
+  asteroidId: string;
+  system: string;
+  extractedItems: Array<{ itemId: string; quantity: number; value: number; }>;
+  asteroidDepletion: number;
+}
+
+// Station activity
+export interface StationDockedEvent extends GameEventBase {
+  type: 'station.docked';
+  playerId: string;
+  playerName: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+}
+
+export interface StationUndockedEvent extends GameEventBase {
+  type: 'station.undocked';
+  playerId: string;
+  playerName: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+}
+
+export interface StationTradeEvent extends GameEventBase {
+  type: 'station.trade';
+  playerId: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+  side: 'buy' | 'sell'; // From the player's point of view
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface OrderFilledEvent extends GameEventBase {
+  type: 'order.filled';
+  playerId: string;
+  orderId: string;
+  stationId: string;
+  system: string;
+  side: 'buy' | 'sell';
+  itemId: string;
+  quantity: number;
+  price: number;
+  remaining: number;
+  counterparty: 'player' | 'station';
+}
+
+export interface ContractUpdatedEvent extends GameEventBase {
+  type: 'contract.updated';
+  playerId: string;
+  contractId: string;
+  title: string;
+  status: 'accepted' | 'progress' | 'completed' | 'failed';
+  message: string;
+}
+
+// Server-side autopilot progress, one per step and when a job starts or ends
+export interface AutopilotProgressEvent extends GameEventBase {
+  type: 'autopilot.progress';
+  playerId: string;
+  jobId: string;
+  status: AutopilotStatus;
+  coordinates: Coordinates3D;
+  stepsCompleted: number;
+  stepsRemaining: number;
+  message: string;
+}
+
+export type GameEvent =
+  | PlayerArrivedEvent
+  | PlayerDepartedEvent
+  | ProbeMovedEvent
+  | ProbeDestroyedEvent
+  | ProbeRecalledEvent
+  | MiningCompletedEvent
+  | StationDockedEvent
+  | StationUndockedEvent
+  | StationTradeEvent
+  | OrderFilledEvent
+  | ContractUpdatedEvent
+  | AutopilotProgressEvent;
+
+export type GameEventType = GameEvent['type'];
+
+// Event as published by services, before the bus stamps id and timestamp
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type GameEventInput = DistributiveOmit<GameEvent, 'id' | 'timestamp'>;
+
+// What a stream client is listening to
+export interface EventSubscription {
+  playerId?: string;
+  systems?: string[];
+  types?: GameEventType[];
+}
+
+export const GAME_EVENT_TYPES: GameEventType[] = [
+  'player.arrived',
+  'player.departed',
+  'probe.moved',
+  'probe.destroyed',
+  'probe.recalled',
+  'mining.completed',
+  'station.docked',
+  'station.undocked',
+  'station.trade',
+  'order.filled',
+  'contract.updated',
+  'autopilot.progress'
+];
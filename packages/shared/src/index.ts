@@ -3,4 +3,13 @@ export * from './utils.js';
 export * from './constants.js';
 export * from './math.js';
 export * from './tradeData.js';
-export * from './npcTypes.js';
\ No newline at end of file
+export * from './marketData.js';
+export * from './npcTypes.js';
+export * from './eventTypes.js';
+export * from './shipData.js';
+export * from './recipeData.js';
+export * from './random.js';
+export * from './universeStats.js';
+export * from './snapshot.js';
+export * from './systemGeneration.js';
+export * from './anomalies.js';
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { TradeItem, StationMarketState, CelestialBody } from './types.js';
+import { STATION_TYPES } from './tradeData.js';
+
+// Dynamic station market model: prices follow stock, then drift back to equilibrium
+export const MARKET_CONFIG = {
+  priceElasticity: 0.5,        // How strongly stock vs target moves the price
+  minPriceFactor: 0.25,        // Price floor as a fraction of equilibrium
+  maxPriceFactor: 4,           // Price ceiling as a multiple of equilibrium
+  driftPerHour: 0.1,           // Fraction of the gap to equilibrium closed each hour
+  productionPerHour: 0.1,      // Produced units per hour, as a fraction of target stock
+  consumptionPerHour: 0.1,     // Consumed units per hour, as a fraction of target stock
+  maxStockFactor: 3,           // Production stops at this multiple of target stock
+  producerDiscount: 0.2,       // Producers sell their specialty below base price
+  consumerPremium: 0.25        // Consumers pay above base price for what they use up
+};
+
+// Station class affects profit margins
+export const STATION_CLASS_MARGINS = {
+  'A': 0.25,  // Luxury stations: 25% markup
+  'B': 0.20,  // Major hubs: 20% markup
+  'C': 0.15,  // Standard: 15% markup
+  'D': 0.18,  // Small outposts: 18% markup (higher due to scarcity)
+  'E': 0.22   // Basic stations: 22% markup (highest due to remote location)
+};
+
+// Items with unlimited stock keep fixed prices
+export const FIXED_PRICE_ITEMS = ['fuel', 'probe'];
+
+export type StationTypeKey = keyof typeof STATION_TYPES;
+
+// Generated stations carry a lowercase kind; map it onto the trade specializations
+const STATION_KIND_TO_TYPE: Record<NonNullable<CelestialBody['stationType']>, StationTypeKey> = {
+  trade: 'Trading',
+  military: 'Military',
+  mining: 'Mining',
+  research: 'Research',
+  shipyard: 'Outpost'
+};
+
+const STATION_CLASS_TO_TYPE: Record<'A' | 'B' | 'C' | 'D' | 'E', StationTypeKey> = {
+  A: 'Military',
+  B: 'Mining',
+  C: 'Trading',
+  D: 'Research',
+  E: 'Outpost'
+};
+
+// Resolve a station's specialization, falling back to its class for older stations
+export const getStationTypeKey = (station: Pick<CelestialBody, 'stationType' | 'stationClass'>): StationTypeKey => {
+  if (station.stationType) return STATION_KIND_TO_TYPE[station.stationType];
+  return STATION_CLASS_TO_TYPE[station.stationClass || 'C'];
+};
+
+// Stock a station aims to hold, by rarity and class
+export const getTargetStock = (item: TradeItem, stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): number => {
+  const rarityTargets = { common: 30, uncommon: 15, rare: 5, legendary: 2 };
+  const classMultipliers = { A: 1.5, B: 1.3, C: 1.0, D: 0.7, E: 0.5 };
+  return Math.max(1, Math.round(rarityTargets[item.rarity] * classMultipliers[stationClass]));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Price multiplier for a stock level: scarce goods cost more, gluts cost less
+export const getStockPressure = (stock: number, targetStock: number): number =>
+  clamp(
+    Math.pow(targetStock / Math.max(stock, 1), MARKET_CONFIG.priceElasticity),
+    MARKET_CONFIG.minPriceFactor,
+    MARKET_CONFIG.maxPriceFactor
+  );
+
+// Station buys below and sells above the mid price
+export const getSpreadPrices = (marketPrice: number, margin: number) => {
+  const buyPrice = Math.max(1, Math.floor(marketPrice * (1 - margin)));
+  const sellPrice = Math.max(buyPrice + 1, Math.floor(marketPrice * (1 + margin)));
+  return { buyPrice, sellPrice };
+};
+
+const clampToEquilibrium = (market: StationMarketState, price: number) =>
+  clamp(price, market.equilibriumPrice * MARKET_CONFIG.minPriceFactor, market.equilibriumPrice * MARKET_CONFIG.maxPriceFactor);
+
+// Shift the mid price by how much a stock change moved the stock/target balance
+export const applyStockChangeToPrice = (market: StationMarketState, stockBefore: number, stockAfter: number): number => {
+  const ratio = getStockPressure(stockAfter, market.targetStock) / getStockPressure(stockBefore, market.targetStock);
+  return clampToEquilibrium(market, market.marketPrice * ratio);
+};
+
+// Create market state for an item, priced around the given mid price
+export const createStationMarket = (
+  item: TradeItem,
+  stationClass: 'A' | 'B' | 'C' | 'D' | 'E',
+  stationType: StationTypeKey,
+  basePrice: number,
+  margin: number = STATION_CLASS_MARGINS[stationClass]
+): StationMarketState => {
+  const config = STATION_TYPES[stationType];
+  const produces = config.produces.includes(item.category);
+  const consumes = config.consumes.includes(item.category);
+  const targetStock = getTargetStock(item, stationClass);
+
+  let equilibriumPrice = basePrice;
+  if (produces) equilibriumPrice = basePrice * (1 - MARKET_CONFIG.producerDiscount);
+  if (consumes) equilibriumPrice = basePrice * (1 + MARKET_CONFIG.consumerPremium);
+
+  return {
+    equilibriumPrice,
+    marketPrice: equilibriumPrice,
+    margin,
+    targetStock,
+    productionRate: produces ? targetStock * MARKET_CONFIG.productionPerHour : 0,
+    consumptionRate: consumes ? targetStock * MARKET_CONFIG.consumptionPerHour : 0,
+    lastUpdated: new Date()
+  };
+};
+
+// Round fractional production up or down at random so slow rates still add up over time
+const roundStochastically = (value: number) => {
+  const whole = Math.floor(value);
+  return whole + (Math.random() < value - whole ? 1 : 0);
+};
+
+// Advance an item's market to `now`: produce/consume stock, then drift the price toward equilibrium
+export const advanceStationMarket = (market: StationMarketState, stock: number, now: Date = new Date()) => {
+  const hours = Math.max(0, (now.getTime() - new Date(market.lastUpdated).getTime()) / 3600000);
+
+  let stockChange = roundStochastically((market.productionRate - market.consumptionRate) * hours);
+  if (stockChange > 0) {
+    stockChange = Math.min(stockChange, Math.max(0, Math.floor(market.targetStock * MARKET_CONFIG.maxStockFactor) - stock));
+  } else {
+    stockChange = Math.max(stockChange, -stock);
+  }
+
+  const shiftedPrice = applyStockChangeToPrice(market, stock, stock + stockChange);
+  const drift = 1 - Math.exp(-MARKET_CONFIG.driftPerHour * hours);
+  const marketPrice = shiftedPrice + (market.equilibriumPrice - shiftedPrice) * drift;
+
+  return { stockChange, marketPrice, lastUpdated: now };
+};
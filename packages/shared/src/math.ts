@@ -1,5 +1,6 @@
 import { Coordinates3D } from './types.js';
 import { SYSTEM_BOUNDS } from './constants.js';
+import { RandomSource } from './random.js';
 
 // Coordinate formatting and precision handling
 export const formatCoordinate = (value: number): number => Math.round(value * 10) / 10;
@@ -42,9 +43,10 @@ export const sameSystem = (coord1: Coordinates3D, coord2: Coordinates3D): boolea
 
 export const isWithinSystemBounds = (coord: Coordinates3D): boolean => {
   const systemCoords = getSystemCoords(coord);
-  const sectorX = coord.x - systemCoords.x;
-  const sectorY = coord.y - systemCoords.y;
-  const sectorZ = coord.z - systemCoords.z;
+  // Rounded so 4.4 - 4 reads as 0.4 rather than 0.40000000000000036
+  const sectorX = formatCoordinate(coord.x - systemCoords.x);
+  const sectorY = formatCoordinate(coord.y - systemCoords.y);
+  const sectorZ = formatCoordinate(coord.z - systemCoords.z);
 
   return sectorX >= SYSTEM_BOUNDS.MIN && sectorX <= SYSTEM_BOUNDS.MAX &&
          sectorY >= SYSTEM_BOUNDS.MIN && sectorY <= SYSTEM_BOUNDS.MAX &&
@@ -55,9 +57,10 @@ export const isAtSystemEdge = (coords: Coordinates3D): boolean => {
   const systemX = Math.floor(coords.x);
   const systemY = Math.floor(coords.y);
   const systemZ = Math.floor(coords.z);
-  const sectorX = coords.x - systemX;
-  const sectorY = coords.y - systemY;
-  const sectorZ = coords.z - systemZ;
+  // Rounded so 3.4 - 3 reads as 0.4 rather than 0.39999999999999997
+  const sectorX = formatCoordinate(coords.x - systemX);
+  const sectorY = formatCoordinate(coords.y - systemY);
+  const sectorZ = formatCoordinate(coords.z - systemZ);
 
   // Player is at edge if any coordinate is at 0.0 or 0.4
   return sectorX === 0.0 || sectorX === 0.4 || sectorY === 0.0 || sectorY === 0.4 || sectorZ === 0.0 || sectorZ === 0.4;
@@ -125,4 +128,46 @@ export const toWithinSystemCoords = (globalCoord: Coordinates3D): Coordinates3D
     y: systemCoords.y + (globalCoord.y - Math.floor(globalCoord.y)),
     z: systemCoords.z + (globalCoord.z - Math.floor(globalCoord.z))
   };
+};
+
+// Object placement inside a system, shared by the world generator and runtime respawns
+
+// Random sub-coordinate on the 5x5x5 sector grid (0.0 to 0.4 past the system origin)
+const generateSubCoordinate = (baseCoord: number, random: RandomSource): number => {
+  const offset = Math.floor(random() * 5) * 0.1; // 0.0, 0.1, 0.2, 0.3, 0.4
+  return Math.round((baseCoord + offset) * 10) / 10; // Round to fix floating point
+};
+
+// Check placement is a safe distance from the star
+export const isSafeFromStar = (objCoords: Coordinates3D, starCoords: Coordinates3D, starSize: number): boolean => {
+  const distance = calculate3DDistance(objCoords, starCoords);
+
+  // Minimum safe distances based on star size
+  if (starSize === 27) return distance >= 0.3; // Large stars need 0.3 unit buffer
+  if (starSize === 9) return distance >= 0.2;  // Medium stars need 0.2 unit buffer
+  return distance >= 0.1; // Small stars need 0.1 unit buffer
+};
+
+// Generate safe coordinates within 5x5x5 system, avoiding star
+export const generateSafeCoordinate = (
+  baseCoord: Coordinates3D,
+  starCoords: Coordinates3D,
+  starSize: number,
+  random: RandomSource = Math.random
+): Coordinates3D | null => {
+  const maxAttempts = 20;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const coords = {
+      x: generateSubCoordinate(baseCoord.x, random),
+      y: generateSubCoordinate(baseCoord.y, random),
+      z: generateSubCoordinate(baseCoord.z, random)
+    };
+
+    if (isSafeFromStar(coords, starCoords, starSize)) {
+      return coords;
+    }
+  }
+
+  return null; // Couldn't find safe placement
 };
\ No newline at end of file
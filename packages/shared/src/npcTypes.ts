@@ -9,6 +9,16 @@ export interface NPC extends Player {
   isNPC: true; // Type discriminator
 }
 
+export type NPCStatus = 'running' | 'completed' | 'error';
+
+// An NPC as the npc-service keeps it in Mongo, so it can be resumed after a restart
+export interface NPCRecord extends NPC {
+  status: NPCStatus;
+  apiKey: string;       // Lets the service log the NPC back in
+  tickInterval: number; // Milliseconds between behavior ticks
+  updatedAt: Date;
+}
+
 // NPC behavior state for tracking current activity
 export interface NPCBehaviorState {
   currentGoal: NPCGoal;
@@ -50,14 +60,14 @@ export interface NPCLifecycle {
   shouldTerminate: boolean;
 }
 
-// NPC memory for decision-making
+// NPC memory for decision-making; plain objects and arrays so it can be stored as-is
 export interface NPCMemory {
   knownStations: Array<{
     id: string;
     coordinates: Coordinates3D;
     lastVisit?: Date;
-    buyingPrices: Map<string, number>;
-    sellingPrices: Map<string, number>;
+    buyingPrices: Record<string, number>;  // Item ID -> price
+    sellingPrices: Record<string, number>; // Item ID -> price
   }>;
   knownAsteroids: Array<{
     id: string;
@@ -66,7 +76,7 @@ export interface NPCMemory {
     lastMined?: Date;
     estimatedDepletion: number;
   }>;
-  visitedSystems: Set<string>;
+  visitedSystems: string[]; // System coordinate strings
   profitableRoutes: Array<{
     fromStation: string;
     toStation: string;
@@ -137,7 +147,7 @@ export const createMinerNPC = (
   memory: {
     knownStations: [],
     knownAsteroids: [],
-    visitedSystems: new Set(),
+    visitedSystems: [],
     profitableRoutes: []
   },
   isNPC: true
@@ -0,0 +1,32 @@
+// Seeded pseudo-random numbers, so generated content can be reproduced from a seed
+export type RandomSource = () => number;
+
+// FNV-1a hash of a string seed into 32 bits
+export const hashSeed = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small and fast, and plenty for procedural generation
+export const createSeededRandom = (seed: string | number): RandomSource => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream for one part of a seeded universe, e.g. a single system's contents,
+// so it comes out the same no matter what was generated before it
+export const deriveRandom = (seed: string, ...scope: Array<string | number>): RandomSource =>
+  createSeededRandom([seed, ...scope].join(':'));
+
+// Short random seed for runs that don't specify one
+export const generateSeed = (): string => Math.random().toString(36).slice(2, 10);
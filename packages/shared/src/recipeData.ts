@@ -0,0 +1,125 @@
+import { Recipe } from './types.js';
+
+// Refining turns raw ore into higher grade materials at mining stations;
+// manufacturing turns materials into technology and supplies at research stations
+export const RECIPES: Recipe[] = [
+  // ========================================
+  // REFINING
+  // ========================================
+  {
+    id: 'press_carbon',
+    name: 'Carbon Pressing',
+    kind: 'refining',
+    description: 'Crush and press iron ore slag into crystalline carbon',
+    inputs: [{ itemId: 'iron_ore', quantity: 6 }],
+    outputs: [{ itemId: 'crystalline_carbon', quantity: 1 }],
+    durationMinutes: 30,
+    fee: 20,
+    stationTypes: ['Mining']
+  },
+  {
+    id: 'extract_rare_earths',
+    name: 'Rare Earth Extraction',
+    kind: 'refining',
+    description: 'Leach rare earth metals out of lithium and copper ore',
+    inputs: [{ itemId: 'lithium_ore', quantity: 3 }, { itemId: 'copper_ore', quantity: 2 }],
+    outputs: [{ itemId: 'rare_earth_metals', quantity: 1 }],
+    durationMinutes: 45,
+    fee: 40,
+    stationTypes: ['Mining']
+  },
+  {
+    id: 'forge_neutronium',
+    name: 'Neutronium Forging',
+    kind: 'refining',
+    description: 'Fuse titanium, platinum and uranium into neutronium alloy',
+    inputs: [{ itemId: 'titanium_ore', quantity: 3 }, { itemId: 'platinum_ore', quantity: 1 }, { itemId: 'uranium_ore', quantity: 1 }],
+    outputs: [{ itemId: 'neutronium_alloy', quantity: 1 }],
+    durationMinutes: 120,
+    fee: 100,
+    stationTypes: ['Mining']
+  },
+
+  // ========================================
+  // MANUFACTURING
+  // ========================================
+  {
+    id: 'etch_circuits',
+    name: 'Circuit Etching',
+    kind: 'manufacturing',
+    description: 'Etch copper onto salvaged boards',
+    inputs: [{ itemId: 'copper_ore', quantity: 2 }, { itemId: 'scrap_electronics', quantity: 1 }],
+    outputs: [{ itemId: 'basic_circuits', quantity: 2 }],
+    durationMinutes: 20,
+    fee: 15,
+    stationTypes: ['Research']
+  },
+  {
+    id: 'assemble_power_cells',
+    name: 'Power Cell Assembly',
+    kind: 'manufacturing',
+    description: 'Build lithium power cells in iron casings',
+    inputs: [{ itemId: 'lithium_ore', quantity: 1 }, { itemId: 'copper_ore', quantity: 2 }, { itemId: 'iron_ore', quantity: 1 }],
+    outputs: [{ itemId: 'power_cells', quantity: 1 }],
+    durationMinutes: 30,
+    fee: 15,
+    stationTypes: ['Research']
+  },
+  {
+    id: 'build_computer_cores',
+    name: 'Computer Core Fabrication',
+    kind: 'manufacturing',
+    description: 'Stack circuit boards into processing cores',
+    inputs: [{ itemId: 'basic_circuits', quantity: 2 }, { itemId: 'gold_ore', quantity: 1 }],
+    outputs: [{ itemId: 'computer_cores', quantity: 2 }],
+    durationMinutes: 45,
+    fee: 30,
+    stationTypes: ['Research']
+  },
+  {
+    id: 'grow_quantum_chips',
+    name: 'Quantum Chip Growth',
+    kind: 'manufacturing',
+    description: 'Grow quantum lattices on crystalline carbon wafers',
+    inputs: [{ itemId: 'crystalline_carbon', quantity: 1 }, { itemId: 'basic_circuits', quantity: 1 }],
+    outputs: [{ itemId: 'quantum_chips', quantity: 1 }],
+    durationMinutes: 60,
+    fee: 40,
+    stationTypes: ['Research']
+  },
+  {
+    id: 'build_sensor_arrays',
+    name: 'Sensor Array Assembly',
+    kind: 'manufacturing',
+    description: 'Mount processing cores in titanium sensor housings',
+    inputs: [{ itemId: 'computer_cores', quantity: 1 }, { itemId: 'titanium_ore', quantity: 1 }],
+    outputs: [{ itemId: 'sensor_arrays', quantity: 1 }],
+    durationMinutes: 90,
+    fee: 50,
+    stationTypes: ['Research']
+  },
+  {
+    id: 'synthesize_medicine',
+    name: 'Medicine Synthesis',
+    kind: 'manufacturing',
+    description: 'Synthesize medical supplies from lithium salts and purified water',
+    inputs: [{ itemId: 'lithium_ore', quantity: 1 }, { itemId: 'water', quantity: 2 }],
+    outputs: [{ itemId: 'medicine', quantity: 1 }],
+    durationMinutes: 45,
+    fee: 15,
+    stationTypes: ['Research']
+  }
+];
+
+// Most batches a player can queue in one job
+export const MAX_RECIPE_BATCHES = 20;
+
+export const getRecipeById = (recipeId: string): Recipe | undefined =>
+  RECIPES.find(recipe => recipe.id === recipeId);
+
+export const getRecipesForStationType = (stationType: Recipe['stationTypes'][number]): Recipe[] =>
+  RECIPES.filter(recipe => recipe.stationTypes.includes(stationType));
+
+// Scale a recipe's inputs or outputs to a number of batches
+export const scaleRecipeComponents = (components: Recipe['inputs'], batches: number) =>
+  components.map(component => ({ itemId: component.itemId, quantity: component.quantity * batches }));
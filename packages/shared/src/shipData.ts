@@ -0,0 +1,186 @@
+import { ProbeType, ShipHull, ShipModule, ShipStats } from './types.js';
+
+export const STARTER_HULL_ID = 'sparrow';
+
+// Fraction of list price a shipyard pays back for hulls and modules
+export const SHIP_RESALE_RATE = 0.6;
+
+// Hulls available at shipyards; the Sparrow matches the original fixed ship
+export const SHIP_HULLS: ShipHull[] = [
+  {
+    id: 'sparrow',
+    name: 'Sparrow Shuttle',
+    description: 'Reliable starter shuttle with a small hold',
+    price: 2000,
+    cargoCapacity: 50,
+    fuelCapacity: 100,
+    moveFuelCost: 1,
+    jumpFuelCost: 1,
+    probeBay: 10,
+    probeRange: 10,
+    miningPower: 1,
+    moduleSlots: 2
+  },
+  {
+    id: 'kestrel',
+    name: 'Kestrel Scout',
+    description: 'Long-range explorer with a deep probe bay and a tiny hold',
+    price: 8000,
+    cargoCapacity: 30,
+    fuelCapacity: 250,
+    moveFuelCost: 1,
+    jumpFuelCost: 1,
+    probeBay: 20,
+    probeRange: 15,
+    miningPower: 1,
+    moduleSlots: 3
+  },
+  {
+    id: 'prospector',
+    name: 'Prospector',
+    description: 'Mining vessel with reinforced extraction rigs',
+    price: 9000,
+    cargoCapacity: 100,
+    fuelCapacity: 120,
+    moveFuelCost: 1,
+    jumpFuelCost: 2,
+    probeBay: 5,
+    probeRange: 10,
+    miningPower: 2,
+    moduleSlots: 3
+  },
+  {
+    id: 'mule',
+    name: 'Mule Hauler',
+    description: 'Mid-size trader that trades range for cargo',
+    price: 12000,
+    cargoCapacity: 200,
+    fuelCapacity: 150,
+    moveFuelCost: 1,
+    jumpFuelCost: 2,
+    probeBay: 5,
+    probeRange: 10,
+    miningPower: 1,
+    moduleSlots: 3
+  },
+  {
+    id: 'atlas',
+    name: 'Atlas Freighter',
+    description: 'Bulk freighter; thirsty, slow and enormous',
+    price: 40000,
+    cargoCapacity: 500,
+    fuelCapacity: 300,
+    moveFuelCost: 2,
+    jumpFuelCost: 4,
+    probeBay: 5,
+    probeRange: 10,
+    miningPower: 1,
+    moduleSlots: 4
+  }
+];
+
+export const SHIP_MODULES: ShipModule[] = [
+  { id: 'cargo_expander', name: 'Cargo Expander', description: '+25 cargo capacity', kind: 'cargo', price: 1500, bonuses: { cargoCapacity: 25 } },
+  { id: 'cargo_expander_mk2', name: 'Cargo Expander Mk II', description: '+60 cargo capacity', kind: 'cargo', price: 5000, bonuses: { cargoCapacity: 60 } },
+  { id: 'aux_fuel_tank', name: 'Auxiliary Fuel Tank', description: '+50 fuel capacity', kind: 'fuel', price: 1200, bonuses: { fuelCapacity: 50 } },
+  { id: 'jump_tuner', name: 'Jump Drive Tuner', description: '-1 fuel per jump (minimum 1)', kind: 'engine', price: 6000, bonuses: { jumpFuelCost: -1 } },
+  { id: 'mining_laser', name: 'Mining Laser', description: '+1 mining power', kind: 'mining', price: 3000, bonuses: { miningPower: 1 } },
+  { id: 'mining_laser_mk2', name: 'Mining Laser Mk II', description: '+2 mining power', kind: 'mining', price: 9000, bonuses: { miningPower: 2 } },
+  { id: 'probe_rack', name: 'Probe Rack', description: '+10 probe bay capacity', kind: 'probe', price: 2000, bonuses: { probeBay: 10 } },
+  { id: 'long_range_launcher', name: 'Long-Range Launcher', description: '+5 systems of probe range', kind: 'probe', price: 4000, bonuses: { probeRange: 5 } }
+];
+
+// Standard probes fill the probe bay; the other variants are bought as trade items and launched from cargo
+export const PROBE_TYPES: ProbeType[] = [
+  {
+    id: 'standard',
+    itemId: 'probe',
+    name: 'Probe',
+    description: 'Charts the bodies in each system it passes',
+    scanRange: 0,
+    sensors: { asteroids: false, markets: false }
+  },
+  {
+    id: 'survey',
+    itemId: 'survey_probe',
+    name: 'Survey Probe',
+    description: 'Reads asteroid composition and depletion in and around each system',
+    scanRange: 1,
+    sensors: { asteroids: true, markets: false }
+  },
+  {
+    id: 'market',
+    itemId: 'market_probe',
+    name: 'Market Probe',
+    description: 'Records station stock and prices in and around each system',
+    scanRange: 1,
+    sensors: { asteroids: false, markets: true }
+  },
+  {
+    id: 'relay',
+    itemId: 'relay_probe',
+    name: 'Relay Probe',
+    description: 'Stays where it is launched and keeps full intel on the systems around it current',
+    scanRange: 1,
+    sensors: { asteroids: true, markets: true },
+    stationary: true
+  },
+  {
+    id: 'stealth',
+    itemId: 'stealth_probe',
+    name: 'Stealth Probe',
+    description: "Charts like a standard probe, and a little further, without showing up in other pilots' scans",
+    scanRange: 1,
+    sensors: { asteroids: false, markets: false },
+    stealth: true
+  }
+];
+
+export const getProbeType = (probeTypeId: string = 'standard'): ProbeType | undefined =>
+  PROBE_TYPES.find(probeType => probeType.id === probeTypeId);
+
+export const getHullById = (hullId: string): ShipHull | undefined =>
+  SHIP_HULLS.find(hull => hull.id === hullId);
+
+export const getModuleById = (moduleId: string): ShipModule | undefined =>
+  SHIP_MODULES.find(module => module.id === moduleId);
+
+// Effective stats for a ship: hull base plus every installed module
+export const getShipStats = (ship: { hullId?: string; modules?: string[] }): ShipStats => {
+  const hull = getHullById(ship.hullId || STARTER_HULL_ID) || getHullById(STARTER_HULL_ID)!;
+  const modules = ship.modules || [];
+
+  const stats: ShipStats = {
+    hullId: hull.id,
+    hullName: hull.name,
+    cargoCapacity: hull.cargoCapacity,
+    fuelCapacity: hull.fuelCapacity,
+    moveFuelCost: hull.moveFuelCost,
+    jumpFuelCost: hull.jumpFuelCost,
+    probeBay: hull.probeBay,
+    probeRange: hull.probeRange,
+    miningPower: hull.miningPower,
+    moduleSlots: hull.moduleSlots,
+    modules
+  };
+
+  for (const moduleId of modules) {
+    const module = getModuleById(moduleId);
+    if (!module) continue;
+    for (const [stat, bonus] of Object.entries(module.bonuses) as [keyof ShipModule['bonuses'], number][]) {
+      stats[stat] += bonus;
+    }
+  }
+
+  // Drives always burn at least one unit
+  stats.moveFuelCost = Math.max(1, stats.moveFuelCost);
+  stats.jumpFuelCost = Math.max(1, stats.jumpFuelCost);
+  return stats;
+};
+
+// What a shipyard pays for a ship as it stands, hull and modules included
+export const getTradeInValue = (ship: { hullId?: string; modules?: string[] }): number => {
+  const hull = getHullById(ship.hullId || STARTER_HULL_ID);
+  const moduleValue = (ship.modules || []).reduce((total, moduleId) => total + (getModuleById(moduleId)?.price || 0), 0);
+  return Math.floor(((hull?.price || 0) + moduleValue) * SHIP_RESALE_RATE);
+};
@@ -0,0 +1,136 @@
+import { SnapshotRegion } from './types.js';
+import { stringToCoordinate } from './utils.js';
+
+export const SNAPSHOT_FORMAT = 'stellarburn-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// Parse "x1,y1,z1:x2,y2,z2" into a box, whichever corners are given
+export const parseSnapshotRegion = (region: string): SnapshotRegion => {
+  const corners = region.split(':').map(stringToCoordinate);
+  if (corners.length !== 2 || corners.some(corner => [corner.x, corner.y, corner.z].some(value => !Number.isFinite(value)))) {
+    throw new Error(`Invalid region "${region}", expected "x1,y1,z1:x2,y2,z2"`);
+  }
+
+  const [a, b] = corners;
+  return {
+    min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: Math.min(a.z, b.z) },
+    max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: Math.max(a.z, b.z) }
+  };
+};
+
+// Minimal structural checks mirroring the shared types, so a bad snapshot is rejected before it touches the database
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} must be a string`);
+};
+
+const number: Check = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} must be a number`);
+};
+
+const date: Check = (value, path, errors) => {
+  const valid = value instanceof Date ? !isNaN(value.getTime()) : typeof value === 'string' && !isNaN(Date.parse(value));
+  if (!valid) errors.push(`${path} must be a date`);
+};
+
+const oneOf = (...allowed: string[]): Check => (value, path, errors) => {
+  if (!allowed.includes(value as string)) errors.push(`${path} must be one of ${allowed.join(', ')}`);
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined && value !== null) check(value, path, errors);
+};
+
+const arrayOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  value.forEach((item, i) => check(item, `${path}[${i}]`, errors));
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const [field, check] of Object.entries(fields)) check(value[field], `${path}.${field}`, errors);
+};
+
+const coordinates = shape({ x: number, y: number, z: number });
+
+const stationInventory = shape({ itemId: string, quantity: number, buyPrice: number, sellPrice: number });
+
+const celestialBody = shape({
+  id: string,
+  type: oneOf('star', 'planet', 'asteroid', 'station', 'nebula', 'black_hole', 'wormhole'),
+  coordinates,
+  size: number,
+  name: string,
+  stationClass: optional(oneOf('A', 'B', 'C', 'D', 'E')),
+  stationType: optional(oneOf('trade', 'military', 'shipyard', 'mining', 'research')),
+  inventory: optional(arrayOf(stationInventory)),
+  credits: optional(number)
+});
+
+const systemDocument = shape({ coordinates: string, coord: coordinates, staticObjects: arrayOf(celestialBody) });
+
+const player = shape({
+  id: string,
+  name: string,
+  coordinates,
+  credits: number,
+  dockedAt: optional(string),
+  ship: shape({
+    fuel: number,
+    maxFuel: number,
+    cargo: arrayOf(shape({ itemId: string, quantity: number, purchasePrice: number })),
+    contractCargo: optional(arrayOf(shape({ contractId: string, itemId: string, quantity: number }))),
+    maxCargo: number,
+    probes: number
+  }),
+  createdAt: date
+});
+
+const account = shape({ playerId: string, name: string, apiKeyHash: string, createdAt: date });
+
+const probe = shape({
+  id: string,
+  playerId: string,
+  coordinates,
+  direction: coordinates,
+  fuel: number,
+  maxFuel: number,
+  status: oneOf('active', 'destroyed', 'recalled')
+});
+
+const snapshotSchema = shape({
+  format: oneOf(SNAPSHOT_FORMAT),
+  version: number,
+  createdAt: date,
+  region: optional(shape({ min: coordinates, max: coordinates })),
+  universe: optional(shape({ seed: string, size: number, sparsity: number })),
+  systems: arrayOf(systemDocument),
+  players: arrayOf(player),
+  accounts: arrayOf(account),
+  probes: arrayOf(probe),
+  npcs: arrayOf(shape({ id: string }))
+});
+
+// Problems with a parsed snapshot; empty when it is safe to import
+export const validateSnapshot = (snapshot: unknown, maxErrors: number = 20): string[] => {
+  const errors: string[] = [];
+  snapshotSchema(snapshot, 'snapshot', errors);
+
+  if (isObject(snapshot) && typeof snapshot.version === 'number' && snapshot.version > SNAPSHOT_VERSION) {
+    errors.unshift(`Snapshot version ${snapshot.version} is newer than supported version ${SNAPSHOT_VERSION}`);
+  }
+
+  return errors.length > maxErrors
+    ? [...errors.slice(0, maxErrors), `...and ${errors.length - maxErrors} more`]
+    : errors;
+};
@@ -1,4 +1,5 @@
-import { TradeItem, AsteroidType } from './types.js';
+import { TradeItem, AsteroidType, CargoItem, ContractCargo } from './types.js';
+import { RandomSource } from './random.js';
 
 // Comprehensive trade items organized by logical categories
 export const TRADE_ITEMS: TradeItem[] = [
@@ -22,6 +23,42 @@ export const TRADE_ITEMS: TradeItem[] = [
     rarity: 'common'
   },
 
+  // ========================================
+  // PROBE VARIANTS (launched from cargo)
+  // ========================================
+  {
+    id: 'survey_probe',
+    name: 'Survey Probe',
+    category: 'technology',
+    basePrice: 60,
+    weight: 0,
+    rarity: 'uncommon'
+  },
+  {
+    id: 'market_probe',
+    name: 'Market Probe',
+    category: 'technology',
+    basePrice: 80,
+    weight: 0,
+    rarity: 'uncommon'
+  },
+  {
+    id: 'relay_probe',
+    name: 'Relay Probe',
+    category: 'technology',
+    basePrice: 150,
+    weight: 0,
+    rarity: 'rare'
+  },
+  {
+    id: 'stealth_probe',
+    name: 'Stealth Probe',
+    category: 'technology',
+    basePrice: 200,
+    weight: 0,
+    rarity: 'rare'
+  },
+
   // ========================================
   // RAW MATERIALS (Mineable Resources)
   // ========================================
@@ -453,53 +490,73 @@ export const getItemsByCategory = (category: TradeItem['category']): TradeItem[]
 export const getItemsByRarity = (rarity: TradeItem['rarity']): TradeItem[] =>
   TRADE_ITEMS.filter(item => item.rarity === rarity);
 
+// Weight of everything in a hold, sealed contract cargo included
+export const getHoldWeight = (ship: { cargo?: CargoItem[]; contractCargo?: ContractCargo[] }): number =>
+  [...(ship.cargo || []), ...(ship.contractCargo || [])]
+    .reduce((total, item) => total + (getItemById(item.itemId)?.weight || 0) * item.quantity, 0);
+
 // Station type definitions with specializations
 export const STATION_TYPES = {
   'Military': {
     name: 'Military Station',
     class: 'A',
     categories: ['military', 'technology', 'resources'],
+    produces: ['military'],
+    consumes: ['technology', 'resources'],
     description: 'High-security military outpost trading weapons and military equipment'
   },
   'Mining': {
     name: 'Mining Station',
     class: 'B',
     categories: ['raw_materials', 'resources', 'technology'],
+    produces: ['raw_materials'],
+    consumes: ['technology'],
     description: 'Industrial mining facility processing raw materials'
   },
   'Trading': {
     name: 'Trading Hub',
     class: 'C',
     categories: ['resources', 'technology', 'luxury'],
+    produces: ['luxury'],
+    consumes: ['resources'],
     description: 'Commercial trading hub with diverse goods'
   },
   'Research': {
     name: 'Research Station',
     class: 'D',
     categories: ['technology', 'raw_materials'],
+    produces: ['technology'],
+    consumes: ['raw_materials'],
     description: 'Scientific research facility developing new technologies'
   },
   'Outpost': {
     name: 'Frontier Outpost',
     class: 'E',
     categories: ['resources', 'raw_materials'],
+    produces: ['resources'],
+    consumes: ['raw_materials'],
     description: 'Basic frontier outpost with essential supplies'
   }
 };
 
 // Get random items based on station type and categories
-export const getStationInventory = (stationType: keyof typeof STATION_TYPES, itemCount: number = 8): TradeItem[] => {
+export const getStationInventory = (stationType: keyof typeof STATION_TYPES, itemCount: number = 8, random: RandomSource = Math.random): TradeItem[] => {
   const stationConfig = STATION_TYPES[stationType];
   const availableItems = TRADE_ITEMS.filter(item =>
     stationConfig.categories.includes(item.category) ||
     item.category === 'fuel' // All stations have fuel and probes
   );
 
-  return getWeightedRandomSelection(availableItems, itemCount, stationConfig.class as 'A' | 'B' | 'C' | 'D' | 'E');
+  return getWeightedRandomSelection(availableItems, itemCount, stationConfig.class as 'A' | 'B' | 'C' | 'D' | 'E', random);
 };
 
 // Generate weighted random selection based on rarity and station class
-export const getWeightedRandomSelection = (items: TradeItem[], count: number, stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): TradeItem[] => {
+export const getWeightedRandomSelection = (
+  items: TradeItem[],
+  count: number,
+  stationClass: 'A' | 'B' | 'C' | 'D' | 'E',
+  random: RandomSource = Math.random
+): TradeItem[] => {
   const rarityWeights = {
     'A': { common: 0.2, uncommon: 0.3, rare: 0.3, legendary: 0.2 },
     'B': { common: 0.3, uncommon: 0.4, rare: 0.25, legendary: 0.05 },
@@ -513,12 +570,12 @@ export const getWeightedRandomSelection = (items: TradeItem[], count: number, st
   const usedItems = new Set<string>();
 
   for (let i = 0; i < count; i++) {
-    const random = Math.random();
+    const roll = random();
     let targetRarity: TradeItem['rarity'];
 
-    if (random < weights.common) targetRarity = 'common';
-    else if (random < weights.common + weights.uncommon) targetRarity = 'uncommon';
-    else if (random < weights.common + weights.uncommon + weights.rare) targetRarity = 'rare';
+    if (roll < weights.common) targetRarity = 'common';
+    else if (roll < weights.common + weights.uncommon) targetRarity = 'uncommon';
+    else if (roll < weights.common + weights.uncommon + weights.rare) targetRarity = 'rare';
     else targetRarity = 'legendary';
 
     const rarityItems = items.filter(item =>
@@ -526,14 +583,14 @@ export const getWeightedRandomSelection = (items: TradeItem[], count: number, st
     );
 
     if (rarityItems.length > 0) {
-      const randomItem = rarityItems[Math.floor(Math.random() * rarityItems.length)];
+      const randomItem = rarityItems[Math.floor(random() * rarityItems.length)];
       selectedItems.push(randomItem);
       usedItems.add(randomItem.id);
     } else {
       // Fallback to any available item if no items of target rarity
       const fallbackItems = items.filter(item => !usedItems.has(item.id) && item.category !== 'contraband');
       if (fallbackItems.length > 0) {
-        const randomItem = fallbackItems[Math.floor(Math.random() * fallbackItems.length)];
+        const randomItem = fallbackItems[Math.floor(random() * fallbackItems.length)];
         selectedItems.push(randomItem);
         usedItems.add(randomItem.id);
       }
@@ -553,8 +610,8 @@ export const getRandomItems = (count: number, excludeContraband: boolean = true)
   return shuffled.slice(0, Math.min(count, shuffled.length));
 };
 
-export const getWeightedRandomItems = (count: number, stationClass: 'A' | 'B' | 'C' | 'D' | 'E'): TradeItem[] => {
-  return getWeightedRandomSelection(TRADE_ITEMS, count, stationClass);
+export const getWeightedRandomItems = (count: number, stationClass: 'A' | 'B' | 'C' | 'D' | 'E', random: RandomSource = Math.random): TradeItem[] => {
+  return getWeightedRandomSelection(TRADE_ITEMS, count, stationClass, random);
 };
 
 // ========================================
@@ -573,7 +630,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'scrap_electronics', density: 'low', probability: 0.2 }
     ],
     miningDifficulty: 1,
-    depletionRate: 0.05
+    depletionRate: 0.05,
+    regenerationRate: 0.05
   },
   {
     name: 'Gold-Bearing Asteroid',
@@ -587,7 +645,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'iron_ore', density: 'medium', probability: 0.5 }
     ],
     miningDifficulty: 2,
-    depletionRate: 0.08
+    depletionRate: 0.08,
+    regenerationRate: 0.03
   },
   {
     name: 'Platinum Asteroid',
@@ -601,7 +660,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'rare_earth_metals', density: 'low', probability: 0.2 }
     ],
     miningDifficulty: 3,
-    depletionRate: 0.1
+    depletionRate: 0.1,
+    regenerationRate: 0.02
   },
   {
     name: 'Titanium Asteroid',
@@ -615,7 +675,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'crystalline_carbon', density: 'low', probability: 0.3 }
     ],
     miningDifficulty: 2,
-    depletionRate: 0.07
+    depletionRate: 0.07,
+    regenerationRate: 0.03
   },
   {
     name: 'Rare Earth Asteroid',
@@ -629,7 +690,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'xenonite_crystals', density: 'low', probability: 0.1 }
     ],
     miningDifficulty: 4,
-    depletionRate: 0.12
+    depletionRate: 0.12,
+    regenerationRate: 0.015
   },
   {
     name: 'Lithium-Rich Asteroid',
@@ -643,7 +705,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'crystalline_carbon', density: 'medium', probability: 0.2 }
     ],
     miningDifficulty: 2,
-    depletionRate: 0.06
+    depletionRate: 0.06,
+    regenerationRate: 0.03
   },
   {
     name: 'Crystalline Asteroid',
@@ -657,7 +720,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'rare_earth_metals', density: 'low', probability: 0.3 }
     ],
     miningDifficulty: 3,
-    depletionRate: 0.09
+    depletionRate: 0.09,
+    regenerationRate: 0.02
   },
   {
     name: 'Uranium-Rich Asteroid',
@@ -671,7 +735,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'power_cells', density: 'low', probability: 0.2 }
     ],
     miningDifficulty: 4,
-    depletionRate: 0.15
+    depletionRate: 0.15,
+    regenerationRate: 0.01
   },
   {
     name: 'Xenonite Asteroid',
@@ -685,7 +750,8 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'neutronium_alloy', density: 'low', probability: 0.05 }
     ],
     miningDifficulty: 5,
-    depletionRate: 0.2
+    depletionRate: 0.2,
+    regenerationRate: 0.005
   },
   {
     name: 'Neutronium Asteroid',
@@ -699,20 +765,21 @@ export const ASTEROID_TYPES: AsteroidType[] = [
       { itemId: 'uranium_ore', density: 'low', probability: 0.3 }
     ],
     miningDifficulty: 5,
-    depletionRate: 0.25
+    depletionRate: 0.25,
+    regenerationRate: 0.0025
   }
 ];
 
 // Helper functions for asteroid mining
-export const getRandomAsteroidType = (): AsteroidType => {
+export const getRandomAsteroidType = (random: RandomSource = Math.random): AsteroidType => {
   const weights = [40, 25, 15, 10, 8, 12, 8, 5, 3, 1]; // Weights for each asteroid type (common to legendary)
   const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-  const random = Math.random() * totalWeight;
+  const roll = random() * totalWeight;
 
   let currentWeight = 0;
   for (let i = 0; i < ASTEROID_TYPES.length; i++) {
     currentWeight += weights[i];
-    if (random <= currentWeight) {
+    if (roll <= currentWeight) {
       return ASTEROID_TYPES[i];
     }
   }
@@ -724,6 +791,33 @@ export const getAsteroidTypeByName = (name: string): AsteroidType | undefined =>
   return ASTEROID_TYPES.find(type => type.name === name);
 };
 
+// Depleted and partly mined asteroids recover slowly; wiped-out fields reseed elsewhere in the system
+export const ASTEROID_LIFECYCLE = {
+  regenerationDelayHours: 1,  // No recovery while an asteroid is still being worked
+  respawnChancePerHour: 0.05  // Chance a fully mined-out field reseeds one asteroid
+};
+
+// Depletion recovered per hour; asteroids stored before regeneration fall back to their type's table entry
+export const getRegenerationRate = (asteroidType: AsteroidType): number =>
+  asteroidType.regenerationRate ?? getAsteroidTypeByName(asteroidType.name)?.regenerationRate ?? asteroidType.depletionRate / 2;
+
+// Average units one mining operation yields at a density, before mining power
+export const getExpectedYield = (density: 'high' | 'medium' | 'low'): number =>
+  ({ high: 4, medium: 2, low: 4 / 3 })[density];
+
+// Estimated units of each resource left in an asteroid, from its remaining mining operations
+export const estimateAsteroidReserves = (asteroidType: AsteroidType, depletion: number): Record<string, number> => {
+  const remainingOperations = Math.max(0, 1 - depletion) / asteroidType.depletionRate;
+  const reserves: Record<string, number> = {};
+
+  for (const resource of [asteroidType.primaryResource, ...asteroidType.secondaryResources]) {
+    reserves[resource.itemId] = (reserves[resource.itemId] || 0) +
+      remainingOperations * resource.probability * getExpectedYield(resource.density);
+  }
+
+  return reserves;
+};
+
 // Calculate mining yield based on density
 export const getMiningYield = (density: 'high' | 'medium' | 'low', baseAmount: number = 1): number => {
   const multipliers = {
@@ -7,8 +7,15 @@ export interface Coordinates3D {
 
 // Universe configuration
 export interface UniverseConfig {
-  size: number; // Universe extends from -size to +size in each dimension
+  size: number; // Systems from -size to +size were generated up front by older generators; 0 now that every system is generated on first visit
   sparsity: number; // 0-1, how empty space should be
+  seed?: string; // Same seed, same universe; a random one is picked when omitted
+}
+
+// Stored with each generated universe so it can be reproduced later
+export interface UniverseMetadata extends UniverseConfig {
+  seed: string;
+  generatedAt: Date;
 }
 
 // System types for procedural generation
@@ -25,7 +32,7 @@ export interface SystemType {
 // Celestial bodies
 export interface CelestialBody {
   id: string;
-  type: 'star' | 'planet' | 'asteroid' | 'station';
+  type: 'star' | 'planet' | 'asteroid' | 'station' | 'nebula' | 'black_hole' | 'wormhole';
   coordinates: Coordinates3D;
   size: number; // 0-1, percentage of sector occupied
   name: string;
@@ -37,6 +44,7 @@ export interface CelestialBody {
   isHavenStation?: boolean; // Special marker for the center safe sector station
   asteroidType?: AsteroidType; // For asteroids only
   miningProgress?: MiningProgress; // For asteroids only
+  wormholeExit?: Coordinates3D; // For wormholes only: the system the paired wormhole sits in
 }
 
 export interface ResourceDeposit {
@@ -61,6 +69,7 @@ export interface SystemDocument {
   _id?: string;
   coordinates: string; // "x.x,y.y,z.z"
   coord: Coordinates3D; // For indexed queries
+  systemType?: string; // Generator system type name; missing on systems generated before it was stored
   staticObjects: CelestialBody[]; // planets, stations, asteroids
   dynamicObjects: {
     ships: string[]; // player IDs currently here
@@ -79,12 +88,17 @@ export interface Player {
     fuel: number;
     maxFuel: number;
     cargo: CargoItem[];
+    contractCargo?: ContractCargo[]; // Sealed haul cargo; takes hold space but can't be sold or used
     maxCargo: number; // Max cargo weight capacity
     probes: number;
     probeConfig: ProbeConfig;
+    hullId?: string;    // Ships created before hulls existed fly the starter shuttle
+    modules?: string[]; // Installed module IDs, one per slot
   };
   credits: number;
   dockedAt?: string; // Station ID if docked
+  autopilotJobId?: string; // Set while autopilot is flying the ship
+  isNPC?: boolean; // Flown by the npc-service
   createdAt: Date;
   lastActivity: Date;
 }
@@ -142,8 +156,41 @@ export interface Probe {
   launchedAt: Date;
   lastActivity: Date;
   status: 'active' | 'destroyed' | 'recalled';
+  plan?: ProbeFlightPlan;  // Probes launched before flight plans fly their direction
+  route?: Coordinates3D[]; // Systems the plan still has to visit, in order
+  loiterTicks?: number;    // Ticks left watching the last system of the route
+  recalledAt?: Date;       // Set while the probe flies home to its ship
+  probeType?: ProbeTypeId; // Probes launched before variants existed are standard
+  scanRange?: number;      // Systems around its own that the probe also scans each tick
 }
 
+export type ProbeTypeId = 'standard' | 'survey' | 'market' | 'relay' | 'stealth';
+
+// A probe variant, bought and carried as its own trade item
+export interface ProbeType {
+  id: ProbeTypeId;
+  itemId: string;
+  name: string;
+  description: string;
+  scanRange: number; // In systems; 0 scans only the system the probe is in
+  sensors: {
+    asteroids: boolean; // Composition and depletion
+    markets: boolean;   // Station stock, prices and credits
+  };
+  stationary?: boolean; // Holds where it's launched instead of flying
+  stealth?: boolean;    // Left out of other pilots' scans
+}
+
+// Where a probe flies: straight on, through systems in order, a survey pattern, or out to watch one system
+export type ProbeFlightPlan =
+  | { kind: 'direction'; direction: Coordinates3D }
+  | { kind: 'waypoints'; waypoints: Coordinates3D[] }
+  | { kind: 'spiral'; center: Coordinates3D; radius: number } // Shells outward from the center
+  | { kind: 'sweep'; from: Coordinates3D; to: Coordinates3D } // Row by row across a box of systems
+  | { kind: 'loiter'; system: Coordinates3D; ticks: number };
+
+export type ProbeFlightPlanKind = ProbeFlightPlan['kind'];
+
 export interface ProbeConfig {
   maxFuel: number; // How many jumps the probe can make
   scanRange: number; // How far the probe can scan
@@ -168,11 +215,43 @@ export interface ProbeResult {
   }>;
 }
 
+// Player accounts and API tokens
+export interface PlayerAccount {
+  playerId: string;
+  name: string;
+  passwordHash?: string; // scrypt hash, absent for key-only accounts
+  passwordSalt?: string;
+  apiKeyHash: string; // sha256 of the issued API key
+  createdAt: Date;
+  lastLogin?: Date;
+}
+
+export interface AuthTokenPayload {
+  sub: string; // Player ID the token is bound to
+  name: string;
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+}
+
+export interface AuthSession {
+  playerId: string;
+  name: string;
+  token: string;
+  expiresAt: string; // ISO timestamp
+}
+
 // API Response types
 export interface CreatePlayerResponse {
   message: string;
   player: Player;
   spawnLocation: string;
+  session: AuthSession;
+  apiKey: string; // Shown once - store it to log in without a password
+}
+
+export interface LoginResponse {
+  message: string;
+  session: AuthSession;
 }
 
 export interface PlayerStatusResponse {
@@ -185,8 +264,11 @@ export interface PlayerStatusResponse {
   credits: number;
   cargoCount: number;
   cargo: CargoItem[];
+  contractCargo?: ContractCargo[];
   probes: number;
   dockedAt?: string; // Station ID if docked
+  ship?: ShipStats;
+  isNPC?: boolean;
 }
 
 // Trade and Station types
@@ -204,6 +286,330 @@ export interface StationInventory {
   quantity: number;
   buyPrice: number;  // Price station buys at
   sellPrice: number; // Price station sells at
+  market?: StationMarketState; // Dynamic pricing state; absent for fixed-price items like fuel and probes
+}
+
+// Supply/demand state behind a station's dynamic prices
+export interface StationMarketState {
+  equilibriumPrice: number; // Class-based mid price the market drifts back toward
+  marketPrice: number;      // Current mid price; buy/sell prices are derived from it
+  margin: number;           // Spread applied either side of the mid price
+  targetStock: number;      // Stock level at which the price sits at equilibrium
+  productionRate: number;   // Units produced per hour
+  consumptionRate: number;  // Units consumed per hour
+  lastUpdated: Date;
+}
+
+// One completed station transaction, as stored in the trade ledger
+export interface TradeLedgerEntry {
+  tradeId: string; // Trade attempt ID, so a trade is never recorded twice
+  playerId: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+  itemId: string;
+  side: 'buy' | 'sell'; // From the player's point of view
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  costBasis?: number;      // Sells only: purchase price of the goods sold
+  realizedProfit?: number; // Sells only: (unitPrice - costBasis) * quantity
+  timestamp: Date;
+}
+
+// OHLC summary of trades at one station for one item over a time bucket
+export interface PriceHistoryBucket {
+  start: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Units traded
+  trades: number;
+}
+
+export interface PriceHistoryResponse {
+  stationId: string;
+  itemId: string;
+  bucket: string;
+  side?: 'buy' | 'sell';
+  buckets: PriceHistoryBucket[];
+}
+
+export interface TradeLedgerResponse {
+  trades: TradeLedgerEntry[];
+  summary: {
+    tradeCount: number;
+    totalSpent: number;
+    totalEarned: number;
+    realizedProfit: number;
+  };
+}
+
+// One execution against a limit order
+export interface OrderFill {
+  id: string;
+  quantity: number;
+  price: number;
+  counterparty: 'player' | 'station';
+  counterpartyOrderId?: string; // Matching order for player-to-player fills
+  state: 'pending' | 'settled';
+  createdAt: Date;
+}
+
+// Limit order posted at a station, with its escrow held by the server until filled, cancelled or expired
+export interface StationOrder {
+  id: string;
+  playerId: string;
+  stationId: string;
+  system: string;
+  itemId: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  filledQuantity: number; // Includes fills still settling
+  limitPrice: number;     // Max price for buys, min price for sells
+  costBasis?: number;     // Sells only: purchase price of the escrowed cargo
+  status: 'pending' | 'open' | 'filled' | 'cancelled' | 'expired'; // Pending until escrow is taken
+  fills: OrderFill[];
+  refundPending?: number; // Unfilled units whose escrow is being returned
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+// Aggregated open orders at one price level
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface OrderBook {
+  stationId: string;
+  itemId: string;
+  bids: OrderBookLevel[]; // Buy orders, best (highest) first
+  asks: OrderBookLevel[]; // Sell orders, best (lowest) first
+}
+
+// Ship hull sold at shipyards; base stats before modules
+export interface ShipHull {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  cargoCapacity: number;
+  fuelCapacity: number;
+  moveFuelCost: number; // Fuel per in-system move
+  jumpFuelCost: number; // Fuel per jump between systems
+  probeBay: number;     // Probes the ship can carry
+  probeRange: number;   // Systems a launched probe travels
+  miningPower: number;  // Yield multiplier when mining
+  moduleSlots: number;
+}
+
+export type ShipModuleKind = 'cargo' | 'fuel' | 'engine' | 'mining' | 'probe';
+
+// Shipyard module; each installed copy adds its bonuses to the hull
+export interface ShipModule {
+  id: string;
+  name: string;
+  description: string;
+  kind: ShipModuleKind;
+  price: number;
+  bonuses: Partial<Pick<ShipStats, 'cargoCapacity' | 'fuelCapacity' | 'moveFuelCost' | 'jumpFuelCost' | 'probeBay' | 'probeRange' | 'miningPower'>>;
+}
+
+// Effective ship stats: hull plus installed modules
+export interface ShipStats {
+  hullId: string;
+  hullName: string;
+  cargoCapacity: number;
+  fuelCapacity: number;
+  moveFuelCost: number;
+  jumpFuelCost: number;
+  probeBay: number;
+  probeRange: number;
+  miningPower: number;
+  moduleSlots: number;
+  modules: string[];
+}
+
+export interface ShipyardResponse {
+  station: { id: string; name: string };
+  currentShip: ShipStats;
+  tradeInValue: number; // Credit toward a new hull for the current hull and its modules
+  hulls: Array<ShipHull & { netPrice: number }>;
+  modules: ShipModule[];
+}
+
+// Estimated ore left across every asteroid, per resource
+export interface OreReserve {
+  itemId: string;
+  name: string;
+  asteroids: number;         // Asteroids that can yield this resource
+  depletedAsteroids: number; // Of those, how many are fully mined out
+  estimatedUnits: number;
+}
+
+export interface OreReservesResponse {
+  totalAsteroids: number;
+  depletedAsteroids: number;
+  averageDepletion: number;
+  reserves: OreReserve[];
+  generatedAt: Date;
+}
+
+export interface CountSummary {
+  total: number;
+  average: number; // Per system
+  max: number;
+}
+
+export interface AsteroidTypeReserve {
+  asteroidType: string;
+  asteroids: number;
+  depletedAsteroids: number;
+  averageDepletion: number;
+  estimatedUnits: number; // All resources the remaining rock should yield
+}
+
+// Share of sectors holding a system, in shells around Haven
+export interface DensityBand {
+  fromDistance: number;
+  toDistance: number;
+  systems: number;
+  sectors: number;
+  density: number;
+}
+
+// Report on a generated universe, shared by the generator CLI and the API
+export interface UniverseReport {
+  seed?: string;
+  size?: number;
+  totalSystems: number;
+  systemsByType: Record<string, number>;
+  objectsPerSystem: { planets: CountSummary; asteroids: CountSummary; stations: CountSummary };
+  stations: {
+    total: number;
+    byClass: Record<string, number>;
+    byType: Record<string, number>;
+    totalCredits: number;
+    inventoryValue: number; // Stock at current mid prices, excluding unlimited fuel and probes
+  };
+  oreReserves: AsteroidTypeReserve[];
+  sectors: { possible: number; populated: number; empty: number; populatedRatio: number };
+  densityByDistance: DensityBand[];
+  generatedAt: Date;
+}
+
+// Inclusive box of system coordinates
+export interface SnapshotRegion {
+  min: Coordinates3D;
+  max: Coordinates3D;
+}
+
+// Portable copy of a universe (or a region of it) written by the generator's export command
+export interface UniverseSnapshot {
+  format: 'stellarburn-snapshot';
+  version: number;
+  createdAt: Date;
+  region?: SnapshotRegion;
+  universe: UniverseMetadata | null;
+  systems: SystemDocument[]; // Stations and their inventories live inside their systems
+  players: Player[];
+  accounts: PlayerAccount[];
+  probes: Probe[];
+  npcs: Array<{ id: string; [key: string]: unknown }>; // Persisted NPC state, keyed by the NPC's player ID
+}
+
+export type ContractType = 'delivery' | 'survey' | 'haul';
+export type ContractStatus = 'available' | 'accepted' | 'completed' | 'failed';
+
+// Job offered on a station's mission board
+export interface Contract {
+  id: string;
+  type: ContractType;
+  status: ContractStatus;
+  title: string;
+  description: string;
+  issuerStationId: string;
+  issuerStationName: string;
+  issuerSystem: string;
+  // Where the contract is turned in (surveys return to the issuer)
+  destinationStationId: string;
+  destinationStationName: string;
+  destinationSystem: string;
+  reward: number;
+  collateral: number; // Haul only: deposit returned on delivery, forfeited on failure
+  penalty: number;    // Charged on failure or abandonment
+  itemId?: string;    // Delivery and haul
+  quantity?: number;
+  deliveredQuantity?: number;
+  targetSystems?: string[];   // Survey only
+  surveyedSystems?: string[];
+  durationHours: number; // Time allowed once accepted
+  offerExpiresAt: Date;  // Board rotation: unaccepted offers disappear after this
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  deadline?: Date;
+  completedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+}
+
+export interface MissionBoardResponse {
+  station?: { id: string; name: string };
+  available: Contract[];
+  active: Contract[];
+}
+
+export type RecipeKind = 'refining' | 'manufacturing';
+
+export interface RecipeComponent {
+  itemId: string;
+  quantity: number;
+}
+
+// Converts input goods into outputs at stations of the listed specializations
+export interface Recipe {
+  id: string;
+  name: string;
+  kind: RecipeKind;
+  description: string;
+  inputs: RecipeComponent[];
+  outputs: RecipeComponent[];
+  durationMinutes: number; // Per batch
+  fee: number;             // Credits per batch charged to players
+  stationTypes: Array<'Military' | 'Mining' | 'Trading' | 'Research' | 'Outpost'>;
+}
+
+export type ProductionJobStatus = 'pending' | 'running' | 'collecting' | 'collected';
+
+// Player-queued recipe run at a station; outputs are collected there once ready
+export interface ProductionJob {
+  id: string;
+  playerId: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+  recipeId: string;
+  recipeName: string;
+  batches: number;
+  inputs: RecipeComponent[];  // Totals for all batches
+  outputs: RecipeComponent[];
+  fee: number;
+  unitCost: number; // Cost basis per output unit: inputs paid plus fee
+  status: ProductionJobStatus;
+  createdAt: Date;
+  startedAt: Date;
+  readyAt: Date;
+  collectedAt?: Date;
+}
+
+export interface StationRecipesResponse {
+  station: { id: string; name: string };
+  recipes: Recipe[];
+  jobs: ProductionJob[]; // The player's uncollected jobs at this station
 }
 
 export interface Station {
@@ -222,6 +628,13 @@ export interface CargoItem {
   purchasePrice: number; // What player paid
 }
 
+// Goods loaded for a haul contract, only handed in at its destination
+export interface ContractCargo {
+  contractId: string;
+  itemId: string;
+  quantity: number;
+}
+
 // Mining system types
 export interface AsteroidType {
   name: string;
@@ -237,6 +650,7 @@ export interface AsteroidType {
   }>;
   miningDifficulty: number; // 1-5, affects mining time and success rate
   depletionRate: number; // 0-1, how much resources are depleted per mining operation
+  regenerationRate: number; // 0-1, how much depletion recovers per hour when left alone
 }
 
 export interface MiningProgress {
@@ -244,6 +658,7 @@ export interface MiningProgress {
   lastMined: Date; // Last time this asteroid was mined
   currentDepletion: number; // 0-1, how depleted the asteroid is
   activeMiningOperations: string[]; // Player IDs currently mining
+  lastRegenerated?: Date; // When regeneration was last applied
 }
 
 export interface MiningResult {
@@ -261,9 +676,160 @@ export interface MiningResult {
 }
 
 export interface MiningOperationState {
+  id: string;
   playerId: string;
   asteroidId: string;
+  system: string; // System coordinate string holding the asteroid
   startTime: Date;
   expectedEndTime: Date;
   miningDuration: number; // seconds
-}
\ No newline at end of file
+}
+export type PlotObjective = 'fuel' | 'steps' | 'explored';
+
+export interface NavigationStep {
+  type: 'move' | 'jump' | 'wormhole';
+  direction: string;
+  from: Coordinates3D;
+  to: Coordinates3D;
+  fuelCost: number;
+  description: string;
+}
+
+export type AutopilotStatus = 'active' | 'paused' | 'completed' | 'cancelled' | 'stopped';
+
+// A course flown by the server one step per tick while the player is away
+export interface AutopilotJob {
+  id: string;
+  playerId: string;
+  destination: Coordinates3D;
+  objective: PlotObjective;
+  status: AutopilotStatus;
+  steps: NavigationStep[]; // Still to fly
+  stepsCompleted: number;
+  totalSteps: number; // Grows when the course is re-plotted
+  fuelUsed: number;
+  replans: number;
+  message: string; // Latest progress, or why the job ended
+  createdAt: Date;
+  updatedAt: Date;
+  nextStepAt: Date;
+  finishedAt?: Date;
+}
+
+export type BookmarkKind = 'coordinates' | 'station' | 'asteroid' | 'system';
+
+// A named place a player can plot to instead of typing coordinates
+export interface Bookmark {
+  playerId: string;
+  name: string;
+  kind: BookmarkKind;
+  coordinates: Coordinates3D; // Where plotting to the bookmark leads
+  targetId?: string; // Station or asteroid ID
+  auto: boolean; // Kept up to date by the game: home and last-dock
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Station prices as a player last saw them; trade routes are planned from these, not live prices
+export interface MarketSighting {
+  playerId: string;
+  stationId: string;
+  stationName: string;
+  system: string;
+  coordinates: Coordinates3D;
+  credits: number; // What the station had to buy with
+  prices: Array<Pick<StationInventory, 'itemId' | 'quantity' | 'buyPrice' | 'sellPrice'>>;
+  seenAt: Date;
+}
+
+export type TradeRouteSort = 'fuel' | 'steps';
+
+// Goods carried on one leg; prices are from the player's point of view
+export interface TradeRouteCargo {
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  buyPrice: number;  // Paid at the leg's start station
+  sellPrice: number; // Received at the leg's end station
+  profit: number;
+}
+
+export interface TradeRouteStop {
+  stationId: string;
+  stationName: string;
+  coordinates: Coordinates3D;
+  seenAt: Date; // When the prices used for this stop were seen
+}
+
+export interface TradeRouteLeg {
+  from: string; // Station IDs
+  to: string;
+  cargo: TradeRouteCargo[]; // Empty when nothing pays on this leg
+  profit: number;
+  fuelCost: number;
+  steps: number;
+}
+
+// A buy→sell loop through known stations, flown from the player's position to the first stop
+export interface TradeRoute {
+  stops: TradeRouteStop[];
+  approach: { fuelCost: number; steps: number };
+  legs: TradeRouteLeg[]; // The last leg returns to the first stop
+  profit: number;
+  fuelCost: number; // Approach included
+  steps: number;
+  profitPerFuel: number;
+  profitPerStep: number;
+}
+
+export interface TradeRoutesResponse {
+  sort: TradeRouteSort;
+  fuelBudget: number;
+  cargoBudget: number;
+  stationsConsidered: number;
+  routes: TradeRoute[];
+}
+
+export type IntelSource = 'ship' | 'probe' | 'chart';
+
+// What a player saw in a system and when; database and nearest queries answer from this, not the live system
+export interface SystemIntel {
+  playerId: string;
+  system: string;
+  coord: Coordinates3D;
+  objects: CelestialBody[]; // As seen, station stock and prices included
+  ships: Array<{ name: string; coordinates: Coordinates3D; isNPC?: boolean }>;
+  observedAt: Date;
+  source: IntelSource; // The player's own ship, one of their probes, or a star chart
+}
+
+// One system as a star chart records it; ships are left out, they'll have moved on
+export interface ChartSystem {
+  system: string;
+  coord: Coordinates3D;
+  objects: CelestialBody[];
+  observedAt: Date;
+}
+
+// Portable, server-signed copy of a player's intel; importing it merges the systems into the reader's
+export interface StarChart {
+  format: 'stellarburn-chart';
+  version: number;
+  name: string;
+  issuedBy: string; // Pilot name
+  issuedAt: Date;
+  systems: ChartSystem[];
+  signature: string;
+}
+
+// A star chart held as an in-game item by a player or a station
+export interface ChartItem extends StarChart {
+  id: string;
+  holderId: string; // Player or station ID
+  price?: number; // Asking price while a station holds it
+  offer?: { toPlayerId: string; toName: string; price: number }; // Pending sale to another player
+  createdAt: Date;
+}
+
+// Chart items are listed without their systems, which can run long
+export type ChartSummary = Omit<ChartItem, 'systems' | 'signature'> & { systemCount: number; stationCount: number };
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { AsteroidTypeReserve, CelestialBody, CountSummary, DensityBand, SystemDocument, UniverseMetadata, UniverseReport } from './types.js';
+import { estimateAsteroidReserves } from './tradeData.js';
+import { FIXED_PRICE_ITEMS } from './marketData.js';
+
+const DENSITY_BANDS = 10;
+
+// Star names start with the first word of the system type they were generated from
+const SYSTEM_TYPE_BY_STAR_PREFIX: Record<string, string> = {
+  Red: 'Red Dwarf System',
+  'Solar-type': 'Solar-type System',
+  Binary: 'Binary System',
+  Gas: 'Gas Giant System',
+  Dense: 'Dense System',
+  Sparse: 'Sparse System'
+};
+
+const getSystemType = (system: SystemDocument): string => {
+  if (system.systemType) return system.systemType;
+  if (system.coordinates === '0,0,0') return 'Haven';
+  const star = system.staticObjects.find(obj => obj.type === 'star');
+  return (star && SYSTEM_TYPE_BY_STAR_PREFIX[star.name.split(' ')[0]]) || 'Unknown';
+};
+
+const increment = (counts: Record<string, number>, key: string, by: number = 1) => {
+  counts[key] = (counts[key] || 0) + by;
+};
+
+// Running total and max of a per-system count, so systems can be streamed rather than held in memory
+const createSummary = () => {
+  let total = 0;
+  let max = 0;
+  let systems = 0;
+  return {
+    add: (count: number) => {
+      total += count;
+      max = Math.max(max, count);
+      systems++;
+    },
+    result: (): CountSummary => ({ total, average: systems > 0 ? total / systems : 0, max })
+  };
+};
+
+const inventoryValue = (station: CelestialBody): number =>
+  (station.inventory || [])
+    .filter(inv => !FIXED_PRICE_ITEMS.includes(inv.itemId))
+    .reduce((total, inv) => total + inv.quantity * (inv.market?.marketPrice ?? (inv.buyPrice + inv.sellPrice) / 2), 0);
+
+// Sectors in the cube (-size to size - 1 on each axis), counted into distance bands around Haven a column at a time
+const countSectorsByBand = (size: number, bandWidth: number): number[] => {
+  // closer[band]: sectors nearer Haven than band * bandWidth
+  const closer = new Array(DENSITY_BANDS).fill(0);
+  for (let x = -size; x < size; x++) {
+    for (let y = -size; y < size; y++) {
+      for (let band = 1; band < DENSITY_BANDS; band++) {
+        const room = Math.pow(band * bandWidth, 2) - x * x - y * y; // z * z must stay below this
+        if (room <= 0) continue;
+        const reach = Math.floor(Math.sqrt(room - 1));
+        closer[band] += Math.min(reach, size) + Math.min(reach, size - 1) + 1;
+      }
+    }
+  }
+
+  const total = Math.pow(size * 2, 3);
+  return closer.map((count, band) => (band < DENSITY_BANDS - 1 ? closer[band + 1] : total) - count);
+};
+
+// Builds the report one system at a time, so a caller can feed it straight from a database cursor
+export const createUniverseReportBuilder = (metadata?: Pick<UniverseMetadata, 'seed' | 'size'> | null) => {
+  const systemsByType: Record<string, number> = {};
+  const planets = createSummary();
+  const asteroids = createSummary();
+  const stationCounts = createSummary();
+  const byClass: Record<string, number> = {};
+  const byType: Record<string, number> = {};
+  let totalSystems = 0;
+  let totalCredits = 0;
+  let stockValue = 0;
+  const reserves = new Map<string, AsteroidTypeReserve & { totalDepletion: number }>();
+
+  // Explored space can reach past any cube generated up front, and older universes have no stored size
+  let size = metadata?.size || 1;
+  // Systems by whole distance from Haven; any integer band width divides these evenly into bands
+  const systemsByDistance: number[] = [];
+
+  const add = (system: SystemDocument): void => {
+    totalSystems++;
+    increment(systemsByType, getSystemType(system));
+    const objects = system.staticObjects || [];
+    planets.add(objects.filter(obj => obj.type === 'planet').length);
+    asteroids.add(objects.filter(obj => obj.type === 'asteroid').length);
+
+    const stations = objects.filter(obj => obj.type === 'station');
+    stationCounts.add(stations.length);
+    for (const station of stations) {
+      increment(byClass, station.stationClass || 'unknown');
+      increment(byType, station.stationType || 'unknown');
+      totalCredits += station.credits || 0;
+      stockValue += inventoryValue(station);
+    }
+
+    for (const asteroid of objects.filter(obj => obj.type === 'asteroid' && obj.asteroidType)) {
+      const depletion = asteroid.miningProgress?.currentDepletion || 0;
+      const reserve = reserves.get(asteroid.asteroidType!.name) || {
+        asteroidType: asteroid.asteroidType!.name,
+        asteroids: 0,
+        depletedAsteroids: 0,
+        averageDepletion: 0,
+        estimatedUnits: 0,
+        totalDepletion: 0
+      };
+      reserve.asteroids++;
+      if (depletion >= 1) reserve.depletedAsteroids++;
+      reserve.totalDepletion += Math.min(1, depletion);
+      reserve.estimatedUnits += Object.values(estimateAsteroidReserves(asteroid.asteroidType!, depletion)).reduce((sum, units) => sum + units, 0);
+      reserves.set(reserve.asteroidType, reserve);
+    }
+
+    const { x, y, z } = system.coord;
+    size = Math.max(size, Math.abs(x) + 1, Math.abs(y) + 1, Math.abs(z) + 1);
+    const distance = Math.floor(Math.sqrt(x * x + y * y + z * z));
+    systemsByDistance[distance] = (systemsByDistance[distance] || 0) + 1;
+  };
+
+  const finish = (): UniverseReport => {
+    const possible = Math.pow(size * 2, 3);
+    const bandWidth = Math.max(1, Math.ceil(size * Math.sqrt(3) / DENSITY_BANDS));
+    const sectorsByBand = countSectorsByBand(size, bandWidth);
+    const systemsByBand = new Array(DENSITY_BANDS).fill(0);
+    systemsByDistance.forEach((count, distance) => {
+      systemsByBand[Math.min(DENSITY_BANDS - 1, Math.floor(distance / bandWidth))] += count;
+    });
+
+    const densityByDistance: DensityBand[] = sectorsByBand
+      .map((sectors, band) => ({
+        fromDistance: band * bandWidth,
+        toDistance: (band + 1) * bandWidth,
+        systems: systemsByBand[band],
+        sectors,
+        density: sectors > 0 ? systemsByBand[band] / sectors : 0
+      }))
+      .filter(band => band.sectors > 0);
+
+    const stationSummary = stationCounts.result();
+    return {
+      seed: metadata?.seed,
+      size,
+      totalSystems,
+      systemsByType,
+      objectsPerSystem: { planets: planets.result(), asteroids: asteroids.result(), stations: stationSummary },
+      stations: {
+        total: stationSummary.total,
+        byClass,
+        byType,
+        totalCredits,
+        inventoryValue: Math.round(stockValue)
+      },
+      oreReserves: [...reserves.values()]
+        .map(({ totalDepletion, ...reserve }) => ({
+          ...reserve,
+          averageDepletion: totalDepletion / reserve.asteroids,
+          estimatedUnits: Math.round(reserve.estimatedUnits)
+        }))
+        .sort((a, b) => b.asteroids - a.asteroids),
+      sectors: {
+        possible,
+        populated: totalSystems,
+        empty: possible - totalSystems,
+        populatedRatio: totalSystems / possible
+      },
+      densityByDistance,
+      generatedAt: new Date()
+    };
+  };
+
+  return { add, finish };
+};
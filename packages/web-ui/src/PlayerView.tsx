@@ -10,12 +10,15 @@ interface PlayerInfo {
     z: number;
   };
   dockedAt?: string;
+  isNPC?: boolean;
 }
 
 function PlayerView() {
   const [players, setPlayers] = useState<PlayerInfo[]>([]);
   const [selectedPlayerId, setSelectedPlayerId] = useState('');
-  const [viewing, setViewing] = useState(false);
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [loginError, setLoginError] = useState('');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,8 +37,33 @@ function PlayerView() {
     fetchPlayers();
   }, []);
 
-  if (viewing && selectedPlayerId) {
-    return <PlayerCenteredView playerId={selectedPlayerId} />;
+  const handleLogin = async () => {
+    const player = players.find(p => p.id === selectedPlayerId);
+    if (!player) return;
+
+    try {
+      const response = await fetch('/api/player/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: player.name, password })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setLoginError(result.error || 'Login failed');
+        return;
+      }
+
+      setLoginError('');
+      setToken(result.session.token);
+    } catch (error) {
+      console.error('Failed to log in:', error);
+      setLoginError('Failed to reach the API');
+    }
+  };
+
+  if (token && selectedPlayerId) {
+    return <PlayerCenteredView playerId={selectedPlayerId} token={token} />;
   }
 
   return (
@@ -57,7 +85,7 @@ function PlayerView() {
           <p style={{ color: '#ff6b6b', marginBottom: '1rem' }}>No players found</p>
           <p style={{ color: '#b0b0b0' }}>Create a player using the CLI first:</p>
           <code style={{ background: '#1a1a1f', padding: '0.5rem', borderRadius: '4px' }}>
-            stellarburn create "YourName"
+            stellarburn create "YourName" &lt;password&gt;
           </code>
         </div>
       ) : (
@@ -83,25 +111,50 @@ function PlayerView() {
                 <option key={player.id} value={player.id}>
                   {player.name} ({player.coordinates.x.toFixed(1)}, {player.coordinates.y.toFixed(1)}, {player.coordinates.z.toFixed(1)})
                   {player.dockedAt ? ' [DOCKED]' : ''}
+                  {player.isNPC ? ' [NPC]' : ''}
                 </option>
               ))}
             </select>
           </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#b0b0b0' }}>
+              Password:
+            </label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+              style={{
+                padding: '0.5rem',
+                borderRadius: '6px',
+                border: '1px solid #333',
+                background: '#1a1a1f',
+                color: '#ffffff',
+                width: '284px'
+              }}
+            />
+          </div>
+
+          {loginError && (
+            <p style={{ color: '#ff6b6b', marginBottom: '1rem' }}>{loginError}</p>
+          )}
           
           <button
-            onClick={() => setViewing(true)}
-            disabled={!selectedPlayerId}
+            onClick={handleLogin}
+            disabled={!selectedPlayerId || !password}
             style={{
-              background: selectedPlayerId ? '#ff1493' : '#333',
-              color: selectedPlayerId ? '#ffffff' : '#666',
+              background: selectedPlayerId && password ? '#ff1493' : '#333',
+              color: selectedPlayerId && password ? '#ffffff' : '#666',
               border: 'none',
               padding: '0.75rem 1.5rem',
               borderRadius: '6px',
-              cursor: selectedPlayerId ? 'pointer' : 'not-allowed',
+              cursor: selectedPlayerId && password ? 'pointer' : 'not-allowed',
               fontWeight: '600'
             }}
           >
-            Enter Player View
+            Log In
           </button>
         </>
       )}
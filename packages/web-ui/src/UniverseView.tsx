@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
 import UniverseVisualization from './components/UniverseVisualization';
-import { SystemDocument } from '@stellarburn/shared';
+import { SystemDocument, UniverseReport } from '@stellarburn/shared';
 
 interface UniverseStats {
   totalSystems: number;
@@ -22,6 +22,7 @@ interface UniverseBounds {
 function UniverseView() {
   const [systems, setSystems] = useState<SystemDocument[]>([]);
   const [stats, setStats] = useState<UniverseStats | null>(null);
+  const [report, setReport] = useState<UniverseReport | null>(null);
   const [bounds, setBounds] = useState<UniverseBounds | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -31,6 +32,11 @@ function UniverseView() {
       const statsData = await statsResponse.json();
       setStats(statsData);
 
+      const reportResponse = await fetch('/api/universe/stats');
+      if (reportResponse.ok) {
+        setReport(await reportResponse.json());
+      }
+
       const systemsResponse = await fetch('/api/universe/systems');
       const systemsData = await systemsResponse.json();
       setSystems(systemsData);
@@ -127,6 +133,32 @@ function UniverseView() {
             <span className="stat-label">Visible Systems:</span>
             <span className="stat-value">{systems.length}</span>
           </div>
+          {report && (
+            <>
+              <div className="stat-row">
+                <span className="stat-label">Stations:</span>
+                <span className="stat-value">{report.stations.total}</span>
+              </div>
+              <div className="stat-row">
+                <span className="stat-label">Asteroids:</span>
+                <span className="stat-value">{report.objectsPerSystem.asteroids.total}</span>
+              </div>
+              <div className="stat-row">
+                <span className="stat-label">Populated Sectors:</span>
+                <span className="stat-value">{(report.sectors.populatedRatio * 100).toFixed(2)}%</span>
+              </div>
+              <div className="stat-row">
+                <span className="stat-label">Station Credits:</span>
+                <span className="stat-value">{report.stations.totalCredits.toLocaleString()}</span>
+              </div>
+              {report.seed && (
+                <div className="stat-row">
+                  <span className="stat-label">Seed:</span>
+                  <span className="stat-value">{report.seed}</span>
+                </div>
+              )}
+            </>
+          )}
           {bounds && (
             <>
               <div className="stat-row">
@@ -1,7 +1,7 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import { SystemDocument, Probe } from '@stellarburn/shared';
+import { SystemDocument, Probe, GameEvent, GAME_EVENT_TYPES } from '@stellarburn/shared';
 
 interface Player {
   id: string;
@@ -15,6 +15,7 @@ interface Player {
 
 interface Props {
   playerId: string;
+  token: string;
 }
 
 function StarSystem({ sector, playerCoords }: { sector: SystemDocument; playerCoords: any }) {
@@ -117,6 +118,49 @@ function StarSystem({ sector, playerCoords }: { sector: SystemDocument; playerCo
           );
         }
 
+        if (obj.type === 'nebula') {
+          return (
+            <group key={obj.id} position={[relativeX, relativeY, relativeZ]}>
+              {/* Cloud filling the whole system */}
+              <mesh>
+                <sphereGeometry args={[0.3, 16, 16]} />
+                <meshBasicMaterial color="#b388ff" transparent opacity={0.12} depthWrite={false} />
+              </mesh>
+            </group>
+          );
+        }
+
+        if (obj.type === 'black_hole') {
+          return (
+            <group key={obj.id} position={[relativeX, relativeY, relativeZ]}>
+              <mesh>
+                <sphereGeometry args={[0.02, 16, 16]} />
+                <meshBasicMaterial color="#000000" />
+              </mesh>
+              {/* Accretion disk */}
+              <mesh rotation={[Math.PI / 2, 0, 0]}>
+                <torusGeometry args={[0.04, 0.008, 8, 24]} />
+                <meshBasicMaterial color="#ff9100" transparent opacity={0.7} />
+              </mesh>
+            </group>
+          );
+        }
+
+        if (obj.type === 'wormhole') {
+          return (
+            <group key={obj.id} position={[relativeX, relativeY, relativeZ]}>
+              <mesh>
+                <torusGeometry args={[0.025, 0.006, 8, 24]} />
+                <meshBasicMaterial color="#448aff" />
+              </mesh>
+              <mesh>
+                <sphereGeometry args={[0.02, 12, 12]} />
+                <meshBasicMaterial color="#82b1ff" transparent opacity={0.3} />
+              </mesh>
+            </group>
+          );
+        }
+
         return null;
       })}
     </>
@@ -164,27 +208,59 @@ function ProbeIndicator({ probe, playerCoords }: { probe: Probe; playerCoords: a
   );
 }
 
-function Probes({ playerCoords }: { playerCoords: any }) {
-  const [probes, setProbes] = useState<Probe[]>([]);
+// Subscribe to the player's server-sent event stream
+function useGameEvents(playerId: string, token: string, onEvent: (event: GameEvent) => void) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
 
   useEffect(() => {
-    const fetchProbes = async () => {
-      try {
-        const response = await fetch('/api/probes/active');
-        if (response.ok) {
-          const probesData = await response.json();
-          setProbes(probesData);
-        }
-      } catch (error) {
-        console.error('Failed to fetch probes:', error);
+    // EventSource cannot send headers, so the token goes in the query string
+    const params = new URLSearchParams({ playerId, token });
+    const source = new EventSource(`/api/events/stream?${params}`);
+    const listener = (message: MessageEvent) => handlerRef.current(JSON.parse(message.data));
+
+    GAME_EVENT_TYPES.forEach(type => source.addEventListener(type, listener));
+    source.onerror = () => console.warn('Event stream interrupted, reconnecting...');
+
+    return () => source.close();
+  }, [playerId, token]);
+}
+
+function Probes({ playerCoords, playerId, token }: { playerCoords: any; playerId: string; token: string }) {
+  const [probes, setProbes] = useState<Probe[]>([]);
+
+  const fetchProbes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/player/${playerId}/probes`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const probesData = await response.json();
+        setProbes(probesData);
       }
-    };
+    } catch (error) {
+      console.error('Failed to fetch probes:', error);
+    }
+  }, [playerId, token]);
 
+  useEffect(() => {
     fetchProbes();
-    const interval = setInterval(fetchProbes, 1000); // Update every second for moving probes
-
-    return () => clearInterval(interval);
-  }, []);
+  }, [fetchProbes]);
+
+  // Probe positions are pushed by the server instead of polled
+  useGameEvents(playerId, token, (event) => {
+    if (event.type === 'probe.moved') {
+      if (!probes.some(probe => probe.id === event.probeId)) {
+        fetchProbes(); // Newly launched probe
+        return;
+      }
+      setProbes(current => current.map(probe =>
+        probe.id === event.probeId ? { ...probe, coordinates: event.coordinates, fuel: event.fuel } : probe
+      ));
+    } else if (event.type === 'probe.destroyed' || event.type === 'probe.recalled') {
+      setProbes(current => current.filter(probe => probe.id !== event.probeId));
+    }
+  });
 
   return (
     <>
@@ -247,14 +323,16 @@ function ExplorationGrid({ playerCoords }: { playerCoords: any }) {
   return <>{gridLines}</>;
 }
 
-export default function PlayerCenteredView({ playerId }: Props) {
+export default function PlayerCenteredView({ playerId, token }: Props) {
   const [knownSystems, setKnownSystems] = useState<SystemDocument[]>([]);
   const [playerCoords, setPlayerCoords] = useState<any>(null);
   const [loading, setLoading] = useState(true);
 
   const fetchPlayerData = useCallback(async () => {
     try {
-      const response = await fetch(`/api/player/${playerId}/known-systems`);
+      const response = await fetch(`/api/player/${playerId}/known-systems`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
       const data = await response.json();
       
       setKnownSystems(data.knownSystems);
@@ -264,7 +342,7 @@ export default function PlayerCenteredView({ playerId }: Props) {
       console.error('Failed to fetch player data:', error);
       setLoading(false);
     }
-  }, [playerId]);
+  }, [playerId, token]);
 
   useEffect(() => {
     fetchPlayerData();
@@ -298,7 +376,7 @@ export default function PlayerCenteredView({ playerId }: Props) {
         ))}
 
         {/* Probes positioned relative to player */}
-        <Probes playerCoords={playerCoords} />
+        <Probes playerCoords={playerCoords} playerId={playerId} token={token} />
         
         <OrbitControls
           enablePan={true}
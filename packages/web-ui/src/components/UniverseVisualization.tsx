@@ -18,6 +18,7 @@ interface Player {
     y: number;
     z: number;
   };
+  isNPC?: boolean;
 }
 
 interface Props {
@@ -30,6 +31,9 @@ function StarSystem({ system }: { system: SystemDocument }) {
   const star = staticObjects.find(obj => obj.type === 'star');
   const planets = staticObjects.filter(obj => obj.type === 'planet');
   const stations = staticObjects.filter(obj => obj.type === 'station');
+  const nebula = staticObjects.find(obj => obj.type === 'nebula');
+  const blackHoles = staticObjects.filter(obj => obj.type === 'black_hole');
+  const wormholes = staticObjects.filter(obj => obj.type === 'wormhole');
 
   if (!star) return null;
 
@@ -109,22 +113,73 @@ function StarSystem({ system }: { system: SystemDocument }) {
           </mesh>
         </group>
       ))}
+
+      {/* Nebula haze over the whole system */}
+      {nebula && (
+        <mesh position={[nebula.coordinates.x, nebula.coordinates.y, nebula.coordinates.z]}>
+          <sphereGeometry args={[0.35, 12, 12]} />
+          <meshBasicMaterial color="#b388ff" transparent opacity={0.15} depthWrite={false} />
+        </mesh>
+      )}
+
+      {/* Black holes with their accretion disks */}
+      {blackHoles.map((blackHole) => (
+        <group key={blackHole.id} position={[blackHole.coordinates.x, blackHole.coordinates.y, blackHole.coordinates.z]}>
+          <mesh>
+            <sphereGeometry args={[0.03, 12, 12]} />
+            <meshBasicMaterial color="#000000" />
+          </mesh>
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <torusGeometry args={[0.06, 0.01, 8, 24]} />
+            <meshBasicMaterial color="#ff9100" transparent opacity={0.7} />
+          </mesh>
+        </group>
+      ))}
+
+      {/* Wormholes, with a faint line to their twin */}
+      {wormholes.map((wormhole) => (
+        <group key={wormhole.id}>
+          <mesh position={[wormhole.coordinates.x, wormhole.coordinates.y, wormhole.coordinates.z]}>
+            <torusGeometry args={[0.04, 0.008, 8, 24]} />
+            <meshBasicMaterial color="#448aff" />
+          </mesh>
+          {wormhole.wormholeExit && (
+            <line>
+              <bufferGeometry>
+                <bufferAttribute
+                  attach="attributes-position"
+                  array={new Float32Array([
+                    wormhole.coordinates.x, wormhole.coordinates.y, wormhole.coordinates.z,
+                    wormhole.wormholeExit.x + 0.2, wormhole.wormholeExit.y + 0.2, wormhole.wormholeExit.z + 0.2
+                  ])}
+                  count={2}
+                  itemSize={3}
+                />
+              </bufferGeometry>
+              <lineBasicMaterial color="#448aff" transparent opacity={0.25} />
+            </line>
+          )}
+        </group>
+      ))}
     </>
   );
 }
 
 function PlayerIndicator({ player }: { player: Player }) {
+  // NPC ships are teal so players stand out
+  const [color, glow] = player.isNPC ? ['#20b2aa', '#66cdaa'] : ['#ff1493', '#ff69b4'];
+
   return (
     <group position={[player.coordinates.x, player.coordinates.y, player.coordinates.z]}>
       {/* Player ship - scaled down to be proportional to new object sizes */}
       <mesh>
         <octahedronGeometry args={[0.015, 0]} />
-        <meshBasicMaterial color="#ff1493" />
+        <meshBasicMaterial color={color} />
       </mesh>
       {/* Glowing outline */}
       <mesh>
         <octahedronGeometry args={[0.025, 0]} />
-        <meshBasicMaterial color="#ff69b4" transparent opacity={0.3} />
+        <meshBasicMaterial color={glow} transparent opacity={0.3} />
       </mesh>
     </group>
   );
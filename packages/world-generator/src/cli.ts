@@ -1,8 +1,9 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { generateUniverse } from './generator.js';
-import { UniverseConfig } from '@stellarburn/shared';
+import { UniverseConfig, UniverseReport, coordinateToString, generateSystemDocument, parseSnapshotRegion, stringToCoordinate } from '@stellarburn/shared';
+import { generateUniverse, getUniverseReport } from './generator.js';
+import { exportSnapshot, importSnapshot } from './snapshot.js';
 
 const program = new Command();
 
@@ -14,20 +15,21 @@ program
 program
   .command('universe')
   .description('Generate a new universe')
-  .option('-s, --size <number>', 'Universe size (extends from -size to +size)', '25')
   .option('--sparsity <number>', 'Universe sparsity (0-1)', '0.05')
   .option('--clear', 'Clear existing universe data')
+  .option('--seed <seed>', 'Seed for a reproducible universe (random if omitted)')
   .action(async (options) => {
+    // Nothing beyond Haven is generated up front, so there is no pre-generated cube
     const config: UniverseConfig = {
-      size: parseInt(options.size),
-      sparsity: parseFloat(options.sparsity)
+      size: 0,
+      sparsity: parseFloat(options.sparsity),
+      seed: options.seed
     };
 
     console.log('🌌 StellarBurn Universe Generator (3D)');
     console.log('===================================');
-    console.log(`Universe size: ${-config.size} to ${config.size} in each dimension`);
+    console.log('Universe size: unbounded, generated on first visit');
     console.log(`Universe sparsity: ${config.sparsity * 100}%`);
-    console.log(`Total possible sectors: ${Math.pow(config.size * 2, 3)}`);
     console.log('');
 
     try {
@@ -39,11 +41,141 @@ program
     }
   });
 
+program
+  .command('system <coordinates>')
+  .description('Print one system as the given seed generates it, without touching the database')
+  .requiredOption('--seed <seed>', 'Universe seed')
+  .action((coordinates: string, options) => {
+    // Timestamps aside, the output is identical on every run
+    const { createdAt, lastActivity, ...system } = generateSystemDocument(options.seed, stringToCoordinate(coordinates));
+    console.log(JSON.stringify(system, null, 2));
+  });
+
+const formatNumber = (value: number) => Math.round(value).toLocaleString();
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+function printTable(title: string, headers: string[], rows: Array<Array<string | number>>) {
+  const cells = [headers, ...rows.map(row => row.map(String))];
+  const widths = headers.map((_, i) => Math.max(...cells.map(row => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+
+  console.log(`\n${title}`);
+  console.log(line(headers));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  cells.slice(1).forEach(row => console.log(line(row)));
+}
+
+function printUniverseReport(report: UniverseReport) {
+  console.log('📊 StellarBurn Universe Statistics');
+  console.log('==================================');
+  console.log(`Seed: ${report.seed ?? 'unknown'}   Size: ${report.size}`);
+  console.log(`Systems: ${formatNumber(report.totalSystems)}`);
+
+  printTable('Systems by type', ['Type', 'Systems', 'Share'],
+    Object.entries(report.systemsByType)
+      .sort(([, a], [, b]) => b - a)
+      .map(([type, count]) => [type, formatNumber(count), formatPercent(count / report.totalSystems)]));
+
+  const { planets, asteroids, stations } = report.objectsPerSystem;
+  printTable('Objects per system', ['Object', 'Total', 'Average', 'Max'], [
+    ['Planets', formatNumber(planets.total), planets.average.toFixed(2), planets.max],
+    ['Asteroids', formatNumber(asteroids.total), asteroids.average.toFixed(2), asteroids.max],
+    ['Stations', formatNumber(stations.total), stations.average.toFixed(2), stations.max]
+  ]);
+
+  printTable('Stations by class', ['Class', 'Stations'],
+    Object.entries(report.stations.byClass).sort(([a], [b]) => a.localeCompare(b)).map(([stationClass, count]) => [stationClass, count]));
+  printTable('Stations by type', ['Type', 'Stations'],
+    Object.entries(report.stations.byType).sort(([, a], [, b]) => b - a).map(([type, count]) => [type, count]));
+  console.log(`\nStation credits: ${formatNumber(report.stations.totalCredits)}   Inventory value: ${formatNumber(report.stations.inventoryValue)}`);
+
+  printTable('Ore reserves by asteroid type', ['Asteroid type', 'Asteroids', 'Depleted', 'Avg depletion', 'Est. units'],
+    report.oreReserves.map(reserve => [
+      reserve.asteroidType,
+      reserve.asteroids,
+      reserve.depletedAsteroids,
+      formatPercent(reserve.averageDepletion),
+      formatNumber(reserve.estimatedUnits)
+    ]));
+
+  const { sectors } = report;
+  printTable('Sectors', ['Sectors', 'Count', 'Share'], [
+    ['Populated', formatNumber(sectors.populated), formatPercent(sectors.populatedRatio)],
+    ['Empty', formatNumber(sectors.empty), formatPercent(1 - sectors.populatedRatio)],
+    ['Possible', formatNumber(sectors.possible), '100.00%']
+  ]);
+
+  const maxDensity = Math.max(...report.densityByDistance.map(band => band.density));
+  printTable('Density by distance from Haven', ['Distance', 'Systems', 'Sectors', 'Density', ''],
+    report.densityByDistance.map(band => [
+      `${band.fromDistance}-${band.toDistance}`,
+      formatNumber(band.systems),
+      formatNumber(band.sectors),
+      formatPercent(band.density),
+      '#'.repeat(maxDensity > 0 ? Math.round(band.density / maxDensity * 30) : 0).padEnd(30)
+    ]));
+}
+
 program
   .command('stats')
   .description('Show universe statistics')
-  .action(async () => {
-    console.log('📊 Universe statistics - Coming soon!');
+  .option('--json', 'Print the report as JSON')
+  .action(async (options) => {
+    try {
+      const report = await getUniverseReport();
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printUniverseReport(report);
+      }
+    } catch (error) {
+      console.error('❌ Failed to build universe statistics:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export <file>')
+  .description('Write a compressed snapshot of systems, stations, players, probes and NPCs')
+  .option('--region <box>', 'Only export systems in a bounding box, e.g. -5,-5,-5:5,5,5')
+  .action(async (file: string, options) => {
+    try {
+      const region = options.region ? parseSnapshotRegion(options.region) : undefined;
+      const snapshot = await exportSnapshot(file, region);
+
+      console.log(`💾 Snapshot written to ${file}`);
+      if (region) console.log(`   Region: ${coordinateToString(region.min)} to ${coordinateToString(region.max)}`);
+      console.log(`   Systems: ${snapshot.systems.length}   Players: ${snapshot.players.length}   Accounts: ${snapshot.accounts.length}`);
+      console.log(`   Probes: ${snapshot.probes.length}   NPCs: ${snapshot.npcs.length}`);
+    } catch (error) {
+      console.error('❌ Snapshot export failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import <file>')
+  .description('Load a snapshot written by export, replacing matching documents')
+  .option('--dry-run', 'Report what would change without writing anything')
+  .option('--prune', 'Also delete documents in the snapshot\'s scope that it does not contain')
+  .action(async (file: string, options) => {
+    try {
+      const diffs = await importSnapshot(file, { dryRun: options.dryRun, prune: options.prune });
+      const preview = (ids: string[]) => ids.length > 0 ? ` (${ids.slice(0, 5).join(', ')}${ids.length > 5 ? ', ...' : ''})` : '';
+
+      console.log(options.dryRun ? '🔍 Dry run, nothing was written' : `📥 Snapshot imported from ${file}`);
+      printTable('Changes', ['Collection', 'Added', 'Changed', 'Unchanged', 'Removed'],
+        diffs.map(diff => [diff.section, diff.added.length, diff.changed.length, diff.unchanged, diff.removed.length]));
+
+      for (const diff of diffs) {
+        if (diff.added.length > 0) console.log(`  + ${diff.section}: ${diff.added.length}${preview(diff.added)}`);
+        if (diff.changed.length > 0) console.log(`  ~ ${diff.section}: ${diff.changed.length}${preview(diff.changed)}`);
+        if (diff.removed.length > 0) console.log(`  - ${diff.section}: ${diff.removed.length}${preview(diff.removed)}`);
+      }
+    } catch (error) {
+      console.error('❌ Snapshot import failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
   });
 
 program.parse();
\ No newline at end of file
@@ -0,0 +1,135 @@
+#!/usr/bin/env tsx
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MongoClient } from 'mongodb';
+import { SnapshotRegion, UniverseSnapshot, SNAPSHOT_FORMAT, SNAPSHOT_VERSION, validateSnapshot } from '@stellarburn/shared';
+import { MONGODB_URI } from '../generator.js';
+import { decodeSnapshot, encodeSnapshot, exportSnapshot, importSnapshot, readSnapshot } from '../snapshot.js';
+
+// Isolated fixture far outside explored space
+const SYSTEM_COORDINATES = '9999,9999,9999';
+const PLAYER_ID = 'snapshot_check_player';
+const NPC_ID = 'snapshot_check_npc';
+const REGION: SnapshotRegion = { min: { x: 9999, y: 9999, z: 9999 }, max: { x: 9999, y: 9999, z: 9999 } };
+
+const fixtureSystem = () => ({
+  coordinates: SYSTEM_COORDINATES,
+  coord: { x: 9999, y: 9999, z: 9999 },
+  staticObjects: [{
+    id: 'snapshot_check_station',
+    type: 'station',
+    name: 'Snapshot Check Station',
+    coordinates: { x: 9999.2, y: 9999.2, z: 9999.2 },
+    size: 1,
+    stationClass: 'C',
+    credits: 5000,
+    inventory: [{ itemId: 'iron_ore', quantity: 50, buyPrice: 8, sellPrice: 10.5 }]
+  }],
+  dynamicObjects: { ships: [], probes: [] },
+  createdAt: new Date(),
+  lastActivity: new Date()
+});
+
+const fixturePlayer = () => ({
+  id: PLAYER_ID,
+  name: PLAYER_ID,
+  coordinates: { x: 9999.2, y: 9999.2, z: 9999.2 },
+  credits: 1000,
+  ship: { fuel: 87.5, maxFuel: 100, cargo: [{ itemId: 'iron_ore', quantity: 5, purchasePrice: 0 }], maxCargo: 1000, probes: 2 },
+  createdAt: new Date(),
+  lastActivity: new Date()
+});
+
+const fixtureNPC = () => ({
+  ...fixturePlayer(),
+  id: NPC_ID,
+  name: NPC_ID,
+  isNPC: true,
+  status: 'running',
+  apiKey: 'snapshot-check-key',
+  tickInterval: 5000,
+  updatedAt: new Date()
+});
+
+async function cleanupFixture(client: MongoClient) {
+  const db = client.db('stellarburn');
+  await db.collection('systems').deleteOne({ coordinates: SYSTEM_COORDINATES });
+  await db.collection('players').deleteOne({ id: PLAYER_ID });
+  await db.collection('npcs').deleteOne({ id: NPC_ID });
+}
+
+async function runSnapshotRoundTripCheck() {
+  const failures: string[] = [];
+  const check = (condition: boolean, message: string) => {
+    if (!condition) failures.push(message);
+  };
+
+  // 1. What the encoder writes, the decoder must read back as valid and unchanged
+  console.log('🔁 Encoding and decoding a snapshot in memory...');
+  const snapshot: UniverseSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date(),
+    region: REGION,
+    universe: { seed: 'snapshot-check', size: 0, sparsity: 0.05, generatedAt: new Date() },
+    systems: [fixtureSystem() as any],
+    players: [fixturePlayer() as any],
+    accounts: [],
+    probes: [],
+    npcs: []
+  };
+  const decoded = decodeSnapshot(encodeSnapshot(snapshot));
+  const errors = validateSnapshot(decoded);
+  check(errors.length === 0, `Decoded snapshot failed validation: ${errors.join('; ')}`);
+  check(JSON.stringify(decoded) === JSON.stringify(snapshot), 'Decoded snapshot differs from the one encoded');
+  check((decoded as any).createdAt instanceof Date, 'Dates did not come back as dates');
+
+  // 2. Exporting a region and dry-running its import must find nothing to change
+  const client = new MongoClient(MONGODB_URI);
+  const file = join(tmpdir(), `snapshot-check-${Date.now()}.snapshot.gz`);
+  try {
+    console.log('🚀 Connecting to MongoDB...');
+    await client.connect();
+    await cleanupFixture(client);
+    await client.db('stellarburn').collection('systems').insertOne(fixtureSystem());
+    await client.db('stellarburn').collection('players').insertOne(fixturePlayer());
+    await client.db('stellarburn').collection('npcs').insertOne(fixtureNPC());
+
+    console.log('💾 Exporting the fixture region and importing it as a dry run...');
+    const exported = await exportSnapshot(file, REGION);
+    check(exported.systems.length === 1 && exported.players.length === 1, 'Export missed the fixture system or player');
+    check(exported.npcs.length === 1, 'Export missed the fixture NPC');
+    check(exported.npcs.every(npc => !('apiKey' in npc)), 'Export leaked an NPC API key');
+
+    await readSnapshot(file);
+    const diffs = await importSnapshot(file, { dryRun: true });
+    for (const diff of diffs) {
+      check(diff.added.length === 0, `${diff.section}: ${diff.added.length} documents reported as added`);
+      check(diff.changed.length === 0, `${diff.section}: ${diff.changed.length} documents reported as changed`);
+    }
+  } catch (error) {
+    console.error('❌ Snapshot round trip check crashed:', error);
+    failures.push(error instanceof Error ? error.message : 'Check crashed');
+  } finally {
+    await cleanupFixture(client).catch(() => undefined);
+    await client.close();
+    await fs.rm(file, { force: true });
+  }
+
+  if (failures.length > 0) {
+    console.error('❌ Snapshot round trip check failed:');
+    failures.forEach(failure => console.error(`   - ${failure}`));
+    process.exit(1);
+  }
+
+  console.log('🎉 Snapshot round trip check passed');
+}
+
+// Run the check if this script is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSnapshotRoundTripCheck();
+}
+
+export { runSnapshotRoundTripCheck };
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import { gzipSync, gunzipSync } from 'zlib';
+import { BSON, Db, MongoClient } from 'mongodb';
+import {
+  SnapshotRegion,
+  UniverseMetadata,
+  UniverseSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  validateSnapshot
+} from '@stellarburn/shared';
+import { MONGODB_URI } from './generator.js';
+
+type SnapshotCollection = 'systems' | 'players' | 'accounts' | 'probes' | 'npcs';
+
+// Each snapshot section, the collection it lives in, the field that identifies a document
+// and any secrets that never leave the database
+const COLLECTIONS: Array<{ section: SnapshotCollection; collection: string; key: string; secrets?: string[] }> = [
+  { section: 'systems', collection: 'systems', key: 'coordinates' },
+  { section: 'players', collection: 'players', key: 'id' },
+  { section: 'accounts', collection: 'accounts', key: 'playerId' },
+  { section: 'probes', collection: 'probes', key: 'id' },
+  { section: 'npcs', collection: 'npcs', key: 'id', secrets: ['apiKey'] } // The plaintext key the npc-service logs NPCs in with
+];
+
+export interface SnapshotDiff {
+  section: SnapshotCollection;
+  added: string[];
+  changed: string[];
+  unchanged: number;
+  removed: string[];
+}
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  prune?: boolean; // Delete documents in scope that the snapshot doesn't contain
+}
+
+// Positions inside the region's systems; a system spans one unit on each axis
+const positionFilter = (region: SnapshotRegion) => ({
+  'coordinates.x': { $gte: region.min.x, $lt: region.max.x + 1 },
+  'coordinates.y': { $gte: region.min.y, $lt: region.max.y + 1 },
+  'coordinates.z': { $gte: region.min.z, $lt: region.max.z + 1 }
+});
+
+// Mongo filters selecting what a snapshot of the region covers
+async function scopeFilters(db: Db, region?: SnapshotRegion): Promise<Record<SnapshotCollection, any>> {
+  if (!region) return { systems: {}, players: {}, accounts: {}, probes: {}, npcs: {} };
+
+  const playerIds = await db.collection('players').distinct('id', positionFilter(region));
+  return {
+    systems: {
+      'coord.x': { $gte: region.min.x, $lte: region.max.x },
+      'coord.y': { $gte: region.min.y, $lte: region.max.y },
+      'coord.z': { $gte: region.min.z, $lte: region.max.z }
+    },
+    players: positionFilter(region),
+    accounts: { playerId: { $in: playerIds } },
+    probes: positionFilter(region),
+    npcs: positionFilter(region)
+  };
+}
+
+async function withDatabase<T>(work: (db: Db) => Promise<T>): Promise<T> {
+  const client = new MongoClient(MONGODB_URI);
+  try {
+    await client.connect();
+    return await work(client.db('stellarburn'));
+  } finally {
+    await client.close();
+  }
+}
+
+// Stable serialization so key order and Mongo ids don't count as changes
+const canonical = (value: any): string => BSON.EJSON.stringify(sortKeys(value), { relaxed: false });
+
+const withoutSecrets = (doc: any, secrets: string[] = []): any =>
+  Object.fromEntries(Object.entries(doc).filter(([field]) => !secrets.includes(field)));
+
+const pickSecrets = (doc: any, secrets: string[]): any =>
+  Object.fromEntries(Object.entries(doc).filter(([field]) => secrets.includes(field)));
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+  return Object.fromEntries(Object.keys(value).filter(key => key !== '_id').sort().map(key => [key, sortKeys(value[key])]));
+};
+
+export async function exportSnapshot(file: string, region?: SnapshotRegion): Promise<UniverseSnapshot> {
+  return withDatabase(async (db) => {
+    const filters = await scopeFilters(db, region);
+    const snapshot: UniverseSnapshot = {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date(),
+      ...(region && { region }),
+      universe: await db.collection<UniverseMetadata>('universe').findOne({ id: 'config' }, { projection: { _id: 0, id: 0 } }),
+      systems: [],
+      players: [],
+      accounts: [],
+      probes: [],
+      npcs: []
+    };
+
+    for (const { section, collection, key, secrets = [] } of COLLECTIONS) {
+      const hidden = Object.fromEntries(secrets.map(field => [field, 0]));
+      snapshot[section] = await db.collection(collection)
+        .find(filters[section], { projection: { _id: 0, ...hidden } })
+        .sort({ [key]: 1 })
+        .toArray() as any[];
+    }
+
+    await fs.writeFile(file, encodeSnapshot(snapshot));
+    return snapshot;
+  });
+}
+
+// EJSON keeps dates as dates through the round trip
+export const encodeSnapshot = (snapshot: UniverseSnapshot): Buffer =>
+  gzipSync(BSON.EJSON.stringify(snapshot, { relaxed: false }));
+
+// Relaxed parsing turns the typed numbers the encoder writes back into plain numbers, as the driver reads them
+export const decodeSnapshot = (data: Buffer): unknown =>
+  BSON.EJSON.parse(gunzipSync(data).toString('utf8'), { relaxed: true });
+
+export async function readSnapshot(file: string): Promise<UniverseSnapshot> {
+  let snapshot: unknown;
+  try {
+    snapshot = decodeSnapshot(await fs.readFile(file));
+  } catch (error) {
+    throw new Error(`${file} is not a readable snapshot: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateSnapshot(snapshot);
+  if (errors.length > 0) {
+    throw new Error(`Snapshot failed validation:\n  ${errors.join('\n  ')}`);
+  }
+  return snapshot as UniverseSnapshot;
+}
+
+// Compare a snapshot against the database and, unless dry-running, apply it
+export async function importSnapshot(file: string, options: ImportOptions = {}): Promise<SnapshotDiff[]> {
+  const snapshot = await readSnapshot(file);
+
+  return withDatabase(async (db) => {
+    const filters = await scopeFilters(db, snapshot.region);
+    const diffs: SnapshotDiff[] = [];
+
+    for (const { section, collection, key, secrets = [] } of COLLECTIONS) {
+      const incoming = snapshot[section] as any[];
+      const existing = await db.collection(collection).find(filters[section]).toArray();
+      const current = new Map(existing.map(doc => [String(doc[key]), canonical(withoutSecrets(doc, secrets))]));
+      const kept = new Map(existing.map(doc => [String(doc[key]), pickSecrets(doc, secrets)]));
+      const incomingKeys = new Set(incoming.map(doc => String(doc[key])));
+
+      const diff: SnapshotDiff = { section, added: [], changed: [], unchanged: 0, removed: [] };
+      const operations: any[] = [];
+
+      for (const doc of incoming) {
+        const id = String(doc[key]);
+        const before = current.get(id);
+        if (before === canonical(withoutSecrets(doc, secrets))) {
+          diff.unchanged++;
+          continue;
+        }
+        (before === undefined ? diff.added : diff.changed).push(id);
+        // Secrets aren't in snapshots, so a replaced document keeps the ones it already had
+        const { _id, ...replacement } = { ...withoutSecrets(doc, secrets), ...kept.get(id) };
+        operations.push({ replaceOne: { filter: { [key]: doc[key] }, replacement, upsert: true } });
+      }
+
+      if (options.prune) {
+        diff.removed = [...current.keys()].filter(id => !incomingKeys.has(id));
+        if (diff.removed.length > 0) {
+          const removedValues = existing.filter(doc => diff.removed.includes(String(doc[key]))).map(doc => doc[key]);
+          operations.push({ deleteMany: { filter: { [key]: { $in: removedValues } } } });
+        }
+      }
+
+      if (!options.dryRun && operations.length > 0) {
+        await db.collection(collection).bulkWrite(operations, { ordered: true });
+      }
+      diffs.push(diff);
+    }
+
+    if (!options.dryRun && snapshot.universe) {
+      await db.collection('universe').updateOne({ id: 'config' }, { $set: snapshot.universe }, { upsert: true });
+    }
+
+    return diffs;
+  });
+}